@@ -6,14 +6,21 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import Editor from "@/pages/Editor";
+import Library from "@/pages/Library";
+import VerifyEmail from "@/pages/VerifyEmail";
+import ResetPassword from "@/pages/ResetPassword";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import ClaimWorkPrompt from "@/components/ClaimWorkPrompt";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/editor" component={Editor} />
+      <Route path="/library" component={Library} />
+      <Route path="/verify-email" component={VerifyEmail} />
+      <Route path="/reset-password" component={ResetPassword} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -26,6 +33,7 @@ function App() {
         <Toaster />
         <div className="flex flex-col min-h-screen">
           <Header />
+          <ClaimWorkPrompt />
           <div className="flex-grow">
             <Router />
           </div>
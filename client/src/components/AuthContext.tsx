@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import AuthDialog, { type AuthDialogMode } from "./AuthDialog";
 
 type User = {
   id: number;
@@ -9,12 +10,28 @@ type User = {
   fullName?: string;
   profilePicture?: string;
   linkedinId?: string;
+  emailVerified?: boolean;
+};
+
+type RegisterData = {
+  email: string;
+  password: string;
+  fullName?: string;
 };
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  // Open the sign-in or create-account dialog
   login: () => void;
+  signup: () => void;
+  loginWithLinkedIn: () => void;
+  loginWithEmail: (email: string, password: string) => Promise<void>;
+  register: (data: RegisterData) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
+  // Reload the signed-in user, e.g. after their email is verified
+  refreshUser: () => Promise<void>;
   logout: () => void;
   isAuthenticated: boolean;
 }
@@ -24,35 +41,86 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [dialogMode, setDialogMode] = useState<AuthDialogMode>("sign-in");
+  const [dialogOpen, setDialogOpen] = useState(false);
   const { toast } = useToast();
 
-  // Check if user is already authenticated
-  useEffect(() => {
-    const checkAuth = async () => {
-      try {
-        const res = await fetch("/api/auth/status", {
-          credentials: "include",
-        });
-        
-        if (res.ok) {
-          const userData = await res.json();
-          setUser(userData);
-        }
-      } catch (error) {
-        console.error("Auth check failed:", error);
-      } finally {
-        setLoading(false);
+  const refreshUser = async () => {
+    try {
+      const res = await fetch("/api/auth/status", {
+        credentials: "include",
+      });
+      
+      if (res.ok) {
+        const userData = await res.json();
+        setUser(userData);
       }
-    };
+    } catch (error) {
+      console.error("Auth check failed:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    checkAuth();
+  // Check if user is already authenticated
+  useEffect(() => {
+    refreshUser();
   }, []);
 
-  const login = () => {
+  const openDialog = (mode: AuthDialogMode) => {
+    setDialogMode(mode);
+    setDialogOpen(true);
+  };
+
+  const login = () => openDialog("sign-in");
+
+  const signup = () => openDialog("sign-up");
+
+  const loginWithLinkedIn = () => {
     // Redirect to LinkedIn authorization URL
     window.location.href = `/api/auth/linkedin`;
   };
 
+  // These throw on failure so the dialog can show the server's message
+  const loginWithEmail = async (email: string, password: string) => {
+    const userData = await apiRequest("POST", "/api/auth/login", { email, password });
+    setUser(userData);
+    setDialogOpen(false);
+  };
+
+  const register = async (data: RegisterData) => {
+    const userData = await apiRequest("POST", "/api/auth/register", data);
+    setUser(userData);
+    setDialogOpen(false);
+    toast({
+      title: "Account created",
+      description: `We sent a verification link to ${userData.email}.`,
+      duration: 5000,
+    });
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    await apiRequest("POST", "/api/auth/forgot-password", { email });
+  };
+
+  const resendVerification = async () => {
+    try {
+      await apiRequest("POST", "/api/auth/resend-verification", {});
+      toast({
+        title: "Verification email sent",
+        description: `Check ${user?.email} for the link.`,
+        duration: 5000,
+      });
+    } catch (error) {
+      console.error("Resend verification failed:", error);
+      toast({
+        title: "Couldn't send verification email",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
   const logout = async () => {
     try {
       await apiRequest("POST", "/api/auth/logout", {});
@@ -75,11 +143,28 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     user,
     loading,
     login,
+    signup,
+    loginWithLinkedIn,
+    loginWithEmail,
+    register,
+    requestPasswordReset,
+    resendVerification,
+    refreshUser,
     logout,
     isAuthenticated: !!user,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <AuthDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        mode={dialogMode}
+        onModeChange={setDialogMode}
+      />
+    </AuthContext.Provider>
+  );
 }
 
 export const useAuth = (): AuthContextType => {
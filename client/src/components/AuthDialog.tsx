@@ -0,0 +1,187 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { getErrorMessage } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+import { SiLinkedin } from "react-icons/si";
+import { useAuth } from "./AuthContext";
+
+export type AuthDialogMode = "sign-in" | "sign-up" | "forgot-password";
+
+interface AuthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: AuthDialogMode;
+  onModeChange: (mode: AuthDialogMode) => void;
+}
+
+const titles: Record<AuthDialogMode, { title: string; description: string }> = {
+  "sign-in": {
+    title: "Sign in",
+    description: "Sign in with LinkedIn or with your email and password.",
+  },
+  "sign-up": {
+    title: "Create an account",
+    description: "We'll send you a link to verify your email address.",
+  },
+  "forgot-password": {
+    title: "Reset your password",
+    description: "Enter your email and we'll send you a link to choose a new password.",
+  },
+};
+
+export default function AuthDialog({ open, onOpenChange, mode, onModeChange }: AuthDialogProps) {
+  const { loginWithLinkedIn, loginWithEmail, register, requestPasswordReset } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [resetSent, setResetSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // The email is kept when switching modes; everything else starts over
+  useEffect(() => {
+    setPassword("");
+    setError(null);
+    setResetSent(false);
+  }, [mode, open]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      if (mode === "sign-in") {
+        await loginWithEmail(email, password);
+      } else if (mode === "sign-up") {
+        await register({ email, password, fullName: fullName || undefined });
+      } else {
+        await requestPasswordReset(email);
+        setResetSent(true);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const submitLabel = mode === "sign-in" ? "Sign in" : mode === "sign-up" ? "Create account" : "Send reset link";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{titles[mode].title}</DialogTitle>
+          <DialogDescription>{titles[mode].description}</DialogDescription>
+        </DialogHeader>
+
+        {mode !== "forgot-password" && (
+          <>
+            <Button
+              type="button"
+              onClick={loginWithLinkedIn}
+              className="w-full bg-[#0077B5] hover:bg-[#006195] text-white"
+            >
+              <SiLinkedin className="mr-2 h-5 w-5" />
+              Continue with LinkedIn
+            </Button>
+            <div className="flex items-center gap-3 text-xs text-neutral-500">
+              <Separator className="flex-1" />
+              or
+              <Separator className="flex-1" />
+            </div>
+          </>
+        )}
+
+        {resetSent ? (
+          <p className="text-sm text-neutral-700" role="status">
+            If an account exists for {email}, we've sent a link to reset its password.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === "sign-up" && (
+              <div className="space-y-2">
+                <Label htmlFor="auth-full-name">Full name</Label>
+                <Input
+                  id="auth-full-name"
+                  autoComplete="name"
+                  value={fullName}
+                  onChange={(e) => setFullName(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="auth-email">Email</Label>
+              <Input
+                id="auth-email"
+                type="email"
+                autoComplete="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            {mode !== "forgot-password" && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="auth-password">Password</Label>
+                  {mode === "sign-in" && (
+                    <button
+                      type="button"
+                      className="text-xs text-[#0077B5] hover:underline"
+                      onClick={() => onModeChange("forgot-password")}
+                    >
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <Input
+                  id="auth-password"
+                  type="password"
+                  autoComplete={mode === "sign-up" ? "new-password" : "current-password"}
+                  minLength={mode === "sign-up" ? 8 : undefined}
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-neutral-600">
+          {mode === "sign-in" ? (
+            <>
+              New to PresentPro?{" "}
+              <button type="button" className="text-[#0077B5] hover:underline" onClick={() => onModeChange("sign-up")}>
+                Create an account
+              </button>
+            </>
+          ) : (
+            <>
+              {mode === "sign-up" ? "Already have an account?" : "Remembered it?"}{" "}
+              <button type="button" className="text-[#0077B5] hover:underline" onClick={() => onModeChange("sign-in")}>
+                Back to sign in
+              </button>
+            </>
+          )}
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+}
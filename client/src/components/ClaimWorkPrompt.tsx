@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { FileText, Loader2 } from "lucide-react";
+import type { Document } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getClaimTokens, removeClaimTokens } from "@/lib/documentClaims";
+import { getErrorMessage } from "@/lib/utils";
+import { useAuth } from "./AuthContext";
+
+// Offers to add documents uploaded while signed out to the account. Uploads
+// from the same session are claimed at sign-in; this picks up the rest from
+// the claim tokens kept in the browser.
+export default function ClaimWorkPrompt() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dismissed, setDismissed] = useState(false);
+
+  // Read again whenever the user signs in or out
+  const claims = useMemo(
+    () => Object.entries(getClaimTokens()).map(([documentId, claimToken]) => ({ documentId, claimToken })),
+    [isAuthenticated]
+  );
+
+  const { data: documents } = useQuery<Document[]>({
+    queryKey: ['/api/documents/claimable'],
+    queryFn: () => apiRequest("POST", "/api/documents/claimable", { claims }),
+    enabled: isAuthenticated && claims.length > 0,
+  });
+
+  // Tokens for documents that were claimed some other way are no use any more
+  useEffect(() => {
+    if (documents) {
+      const claimable = new Set(documents.map(document => document.publicId));
+      removeClaimTokens(claims.map(claim => claim.documentId).filter(documentId => !claimable.has(documentId)));
+    }
+  }, [documents]);
+
+  const claimMutation = useMutation({
+    mutationFn: (): Promise<{ documentIds: string[] }> => apiRequest("POST", "/api/documents/claim", { claims }),
+    onSuccess: ({ documentIds }) => {
+      removeClaimTokens(documentIds);
+      queryClient.setQueryData(['/api/documents/claimable'], []);
+      queryClient.invalidateQueries({ queryKey: ['/api/documents/recent'] });
+      toast({
+        title: documentIds.length === 1 ? "Document added to your account" : `${documentIds.length} documents added to your account`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't add your documents",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isAuthenticated || dismissed || !documents?.length) {
+    return null;
+  }
+
+  return (
+    <section
+      aria-labelledby="claim-work-title"
+      className="max-w-7xl mx-auto mt-6 px-4 sm:px-6 lg:px-8"
+    >
+      <div className="bg-[#E8F4F9] border border-[#cfe6f2] rounded-lg p-4">
+        <h2 id="claim-work-title" className="font-medium text-neutral-900">Claim your work</h2>
+        <p className="text-sm text-neutral-600 mt-1">
+          You worked on {documents.length === 1 ? "this document" : "these documents"} before signing in. Add them to your account to keep them.
+        </p>
+        <ul className="mt-3 space-y-1">
+          {documents.map(document => (
+            <li key={document.publicId} className="flex items-center text-sm text-neutral-800">
+              <FileText className="h-4 w-4 text-[#0077B5] mr-2" />
+              {document.originalName}
+              <span className="text-neutral-500 ml-2">
+                {formatDistanceToNow(new Date(document.createdAt), { addSuffix: true })}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-4 flex gap-2">
+          <Button
+            onClick={() => claimMutation.mutate()}
+            disabled={claimMutation.isPending}
+            className="bg-[#0077B5] hover:bg-[#006195] text-white"
+          >
+            {claimMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add to my account
+          </Button>
+          <Button variant="ghost" onClick={() => setDismissed(true)}>
+            Not now
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+}
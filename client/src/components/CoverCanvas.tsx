@@ -0,0 +1,352 @@
+import { useEffect, useRef, useState, type CSSProperties, type KeyboardEvent, type PointerEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { getSnapTargets, resizeBox, snapMove, type CanvasBox, type ResizeHandle, type SnapTargets } from '@/lib/canvasSnapping';
+import type { PDFCustomizations } from './CustomizationPanel';
+import { Template } from '@shared/schema';
+import { resolvePageSize, type PageDimensions } from '@shared/pageSizes';
+import { backgroundToDataUrl, getBackgroundFill, normalizeOpacity } from '@shared/backgroundStyles';
+import { fractionBoxToLayoutBox, getElementKey, getLayoutScale, getTitleSize, resolveBox } from '@shared/layoutGeometry';
+import { templateLayoutSchema, type LayoutBox, type LayoutColor, type LayoutElement, type TemplateLayout } from '@shared/templateLayout';
+import { ImageIcon, RotateCcw } from 'lucide-react';
+
+interface CoverCanvasProps {
+  documentId: string;
+  templateId: number;
+  customizations: PDFCustomizations;
+  onElementBoxesChange: (elementBoxes: Record<string, LayoutBox>) => void;
+}
+
+interface CanvasElement {
+  key: string;
+  element: LayoutElement;
+  box: CanvasBox;
+}
+
+interface DragState {
+  key: string;
+  // Resize handle being dragged, or undefined when moving the whole element
+  handle?: ResizeHandle;
+  pointerX: number;
+  pointerY: number;
+  startBox: CanvasBox;
+  targets: SnapTargets;
+}
+
+const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+// How close, in screen pixels, an edge has to come to a guide to snap to it
+const SNAP_PIXELS = 6;
+
+// Arrow keys move the selected element by a point, or ten with Shift held
+const NUDGE_POINTS = 1;
+const NUDGE_POINTS_LARGE = 10;
+
+function getLayout(template?: Template): TemplateLayout | undefined {
+  if (!template?.layout) {
+    return undefined;
+  }
+
+  const raw = typeof template.layout === 'string' ? JSON.parse(template.layout) : template.layout;
+  const parsed = templateLayoutSchema.safeParse(raw);
+  return parsed.success ? parsed.data : undefined;
+}
+
+// CSS color for a layout color, matching the PDF renderer's colorScheme shading
+function toCssColor(color: LayoutColor, colorScheme: string): string {
+  if (typeof color === 'string') {
+    return color.startsWith('#') ? color : `#${color}`;
+  }
+
+  const match = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(colorScheme);
+  const [r, g, b] = match ? match.slice(1).map(part => parseInt(part, 16)) : [0, 0, 0];
+  const shade = color.shade ?? 1;
+  return `rgb(${Math.round(r * shade)}, ${Math.round(g * shade)}, ${Math.round(b * shade)})`;
+}
+
+function handleStyle(handle: ResizeHandle): CSSProperties {
+  const style: CSSProperties = { cursor: `${handle}-resize` };
+  style.left = handle.includes('w') ? 0 : handle.includes('e') ? '100%' : '50%';
+  style.top = handle.includes('n') ? 0 : handle.includes('s') ? '100%' : '50%';
+  return style;
+}
+
+function toPercentStyle(box: CanvasBox): CSSProperties {
+  return {
+    left: `${box.x * 100}%`,
+    top: `${box.y * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`,
+  };
+}
+
+// Interactive cover page where the template's shapes, text and images can be
+// selected, dragged and resized. Boxes are reported as page percentages so the
+// server renders the cover with the same arrangement at any page size.
+export default function CoverCanvas({ documentId, templateId, customizations, onElementBoxesChange }: CoverCanvasProps) {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [canvasWidth, setCanvasWidth] = useState(0);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draftBox, setDraftBox] = useState<CanvasBox | null>(null);
+  const [guides, setGuides] = useState<SnapTargets>({ vertical: [], horizontal: [] });
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  const { data: sourcePageSize } = useQuery<{ width: number; height: number }>({
+    queryKey: [`/api/documents/${documentId}/page-size`],
+    enabled: customizations.pageSize === 'auto' || !customizations.pageSize,
+  });
+
+  const layout = getLayout(templates.find(template => template.id === templateId));
+
+  // Text is sized in points, so track how many pixels a point takes up on screen
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || typeof ResizeObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new ResizeObserver(([entry]) => setCanvasWidth(entry.contentRect.width));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [!!layout]);
+
+  if (!layout) {
+    return (
+      <div className="text-center py-8 text-sm text-neutral-500">
+        This template's cover can't be arranged on the canvas
+      </div>
+    );
+  }
+
+  const source: PageDimensions | undefined = sourcePageSize ? [sourcePageSize.width, sourcePageSize.height] : undefined;
+  const [pageWidth, pageHeight] = resolvePageSize(customizations.pageSize, source);
+  const scale = getLayoutScale(layout, pageWidth, pageHeight);
+  const pixelsPerPoint = canvasWidth / pageWidth;
+  const colorScheme = customizations.colorScheme || '#0077B5';
+  const elementBoxes = customizations.elementBoxes ?? {};
+
+  const elements: CanvasElement[] = layout.elements.map((element, index) => {
+    const key = getElementKey(element, index);
+    const resolved = resolveBox(elementBoxes[key] ?? element.box, pageWidth, pageHeight, scale);
+    const box = {
+      x: resolved.x / pageWidth,
+      y: (pageHeight - resolved.y - resolved.height) / pageHeight,
+      width: resolved.width / pageWidth,
+      height: resolved.height / pageHeight,
+    };
+    return { key, element, box: drag?.key === key && draftBox ? draftBox : box };
+  });
+
+  const backgroundFill = getBackgroundFill(customizations.backgroundStyle);
+
+  const commitBox = (key: string, box: CanvasBox) => {
+    onElementBoxesChange({ ...elementBoxes, [key]: fractionBoxToLayoutBox(box) });
+  };
+
+  const startDrag = (event: PointerEvent, item: CanvasElement, handle?: ResizeHandle) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    setSelectedKey(item.key);
+    setDrag({
+      key: item.key,
+      handle,
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      startBox: item.box,
+      targets: getSnapTargets(elements.filter(other => other.key !== item.key).map(other => other.box)),
+    });
+    setDraftBox(item.box);
+  };
+
+  const updateDrag = (event: PointerEvent) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!drag || !rect || rect.width === 0) {
+      return;
+    }
+
+    const dx = (event.clientX - drag.pointerX) / rect.width;
+    const dy = (event.clientY - drag.pointerY) / rect.height;
+    // Holding Alt places elements freely without snapping
+    const threshold = event.altKey ? 0 : SNAP_PIXELS / rect.width;
+
+    const result = drag.handle
+      ? resizeBox(drag.startBox, drag.handle, dx, dy, drag.targets, threshold)
+      : snapMove({ ...drag.startBox, x: drag.startBox.x + dx, y: drag.startBox.y + dy }, drag.targets, threshold);
+
+    setDraftBox(result.box);
+    setGuides(result.guides);
+  };
+
+  const endDrag = () => {
+    if (drag && draftBox && draftBox !== drag.startBox) {
+      commitBox(drag.key, draftBox);
+    }
+    setDrag(null);
+    setDraftBox(null);
+    setGuides({ vertical: [], horizontal: [] });
+  };
+
+  const nudge = (event: KeyboardEvent, item: CanvasElement) => {
+    const step = event.shiftKey ? NUDGE_POINTS_LARGE : NUDGE_POINTS;
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    const offset = offsets[event.key];
+    if (!offset) {
+      return;
+    }
+
+    event.preventDefault();
+    commitBox(item.key, {
+      ...item.box,
+      x: item.box.x + offset[0] / pageWidth,
+      y: item.box.y + offset[1] / pageHeight,
+    });
+  };
+
+  const renderContent = (element: LayoutElement) => {
+    switch (element.type) {
+      case 'rect':
+        return <div className="w-full h-full" style={{ backgroundColor: toCssColor(element.color, colorScheme) }} />;
+
+      case 'text': {
+        const value = customizations[element.slot as keyof PDFCustomizations] as string | undefined || element.placeholder;
+        const text = value && element.format ? element.format.replace('{value}', value) : value;
+        const size = (element.size === 'titleSize' ? getTitleSize(customizations.titleSize) : element.size) * scale.text;
+        const align = element.align === 'titleAlignment' ? customizations.titleAlignment : element.align;
+        const justify = element.valign === 'middle' ? 'center' : element.valign === 'bottom' ? 'flex-end' : 'flex-start';
+
+        return (
+          <div
+            className="w-full h-full flex flex-col overflow-hidden"
+            style={{
+              justifyContent: justify,
+              textAlign: align ?? 'left',
+              color: toCssColor(element.color, colorScheme),
+              fontFamily: customizations.fontFamily,
+              fontWeight: element.weight === 'bold' ? 700 : 400,
+              fontSize: size * pixelsPerPoint,
+              lineHeight: element.lineHeight ?? 1.2,
+              whiteSpace: element.wrap === false ? 'nowrap' : 'normal',
+            }}
+          >
+            {/* Empty slots aren't drawn on the cover but stay movable here */}
+            {text || <span className="opacity-40 italic">{element.slot}</span>}
+          </div>
+        );
+      }
+
+      case 'image': {
+        const placement = customizations.images?.[element.slot];
+        if (!placement) {
+          return (
+            <div className="w-full h-full flex items-center justify-center border border-dashed border-neutral-400 text-neutral-400">
+              <ImageIcon className="h-5 w-5" aria-hidden="true" />
+            </div>
+          );
+        }
+
+        return (
+          <img
+            src={`/api/assets/${placement.assetId}/file`}
+            alt={element.label || element.slot}
+            draggable={false}
+            className="w-full h-full"
+            style={{
+              objectFit: element.fit ?? 'contain',
+              // Offsets are percentages of the slot box, as in the PDF
+              transform: `translate(${placement.offsetX ?? 0}%, ${placement.offsetY ?? 0}%) scale(${placement.scale ?? 1})`,
+            }}
+          />
+        );
+      }
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <p className="text-sm text-neutral-600">Drag elements to move them, or use the handles to resize. Hold Alt to turn off snapping.</p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setSelectedKey(null);
+            onElementBoxesChange({});
+          }}
+          disabled={Object.keys(elementBoxes).length === 0}
+        >
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset positions
+        </Button>
+      </div>
+
+      <div
+        ref={canvasRef}
+        data-testid="cover-canvas"
+        className="relative w-full overflow-hidden border border-gray-200 select-none touch-none"
+        style={{
+          aspectRatio: `${pageWidth} / ${pageHeight}`,
+          backgroundColor: layout.background ? toCssColor(layout.background, colorScheme) : '#FFFFFF',
+        }}
+        onPointerDown={() => setSelectedKey(null)}
+      >
+        {backgroundFill && (
+          <img
+            src={backgroundToDataUrl(backgroundFill, pageWidth, pageHeight, normalizeOpacity(customizations.backgroundOpacity))}
+            alt=""
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          />
+        )}
+
+        {elements.map(item => {
+          const selected = item.key === selectedKey;
+          return (
+            <div
+              key={item.key}
+              role="button"
+              tabIndex={0}
+              aria-label={`${item.element.type === 'rect' ? 'Shape' : item.key} element`}
+              aria-pressed={selected}
+              className={`absolute cursor-move outline-none ${selected ? 'ring-2 ring-[#0077B5]' : 'hover:ring-1 hover:ring-[#0077B5]/50'}`}
+              style={toPercentStyle(item.box)}
+              onPointerDown={(event) => startDrag(event, item)}
+              onPointerMove={updateDrag}
+              onPointerUp={endDrag}
+              onFocus={() => setSelectedKey(item.key)}
+              onKeyDown={(event) => nudge(event, item)}
+            >
+              <div className="w-full h-full overflow-hidden">{renderContent(item.element)}</div>
+
+              {selected && RESIZE_HANDLES.map(handle => (
+                <div
+                  key={handle}
+                  className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] bg-white border border-[#0077B5]"
+                  style={handleStyle(handle)}
+                  onPointerDown={(event) => startDrag(event, item, handle)}
+                  onPointerMove={updateDrag}
+                  onPointerUp={endDrag}
+                />
+              ))}
+            </div>
+          );
+        })}
+
+        {guides.vertical.map(x => (
+          <div key={`v${x}`} className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none" style={{ left: `${x * 100}%` }} />
+        ))}
+        {guides.horizontal.map(y => (
+          <div key={`h${y}`} className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none" style={{ top: `${y * 100}%` }} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,17 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
 import { Template } from '@shared/schema';
+import { pageSizeOptions } from '@shared/pageSizes';
+import { backgroundStyleOptions, backgroundToDataUrl } from '@shared/backgroundStyles';
+import type { ImagePlacement, LayoutBox } from '@shared/templateLayout';
+import { diffCustomizations } from '@shared/customizationDiff';
+import ImageSlotsEditor from './ImageSlotsEditor';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { AlignLeft, AlignCenter, AlignRight } from 'lucide-react';
 
@@ -13,7 +20,9 @@ interface CustomizationPanelProps {
   templateId: number;
   onCustomizationChange: (customizations: PDFCustomizations) => void;
   onApplyChanges: () => void;
-  initialCustomizations?: Partial<PDFCustomizations>;
+  // The editor's customizations. When they change from outside the panel,
+  // such as on undo, the panel shows them without losing focus.
+  customizations?: Partial<PDFCustomizations>;
 }
 
 export interface PDFCustomizations {
@@ -27,6 +36,13 @@ export interface PDFCustomizations {
   titleAlignment: 'left' | 'center' | 'right';
   backgroundStyle: string;
   backgroundOpacity: number;
+  pageSize?: string;
+  coverMode?: 'replace' | 'prepend' | 'replace-range';
+  replacePageCount?: number;
+  backCover?: boolean;
+  closingText?: string;
+  images?: Record<string, ImagePlacement>;
+  elementBoxes?: Record<string, LayoutBox>;
 }
 
 const colorOptions = [
@@ -38,28 +54,26 @@ const colorOptions = [
   { value: '#374151', label: 'Dark Gray' },
 ];
 
-const fontOptions = [
-  { value: 'Roboto', label: 'Roboto' },
-  { value: 'Open Sans', label: 'Open Sans' },
-  { value: 'Montserrat', label: 'Montserrat' },
-  { value: 'Playfair Display', label: 'Playfair Display' },
-  { value: 'Raleway', label: 'Raleway' },
-];
+interface FontFamilyInfo {
+  family: string;
+  weights: number[];
+}
 
-const backgroundStyles = [
-  { value: 'gradient1', label: 'Blue to Purple Gradient', color: 'from-blue-400 to-purple-500' },
-  { value: 'solid', label: 'Solid White', color: 'bg-white' },
-  { value: 'pattern1', label: 'Geometric Pattern', image: 'https://images.unsplash.com/photo-1580554530778-ca36943938b2?ixlib=rb-4.0.3&auto=format&fit=crop&w=120&h=48' },
-  { value: 'gradient2', label: 'Green to Blue Gradient', color: 'from-green-400 to-blue-500' },
-  { value: 'gradient3', label: 'Yellow to Orange Gradient', color: 'from-yellow-400 to-orange-500' },
-  { value: 'pattern2', label: 'Abstract Elements', image: 'https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?ixlib=rb-4.0.3&auto=format&fit=crop&w=120&h=48' },
+const coverModeOptions = [
+  { value: 'replace', label: 'Replace the first page' },
+  { value: 'prepend', label: 'Add before the first page' },
+  { value: 'replace-range', label: 'Replace the first few pages' },
 ];
 
+// Swatches are drawn from the same vector definitions the PDF renderer uses
+const SWATCH_WIDTH = 120;
+const SWATCH_HEIGHT = 48;
+
 export default function CustomizationPanel({ 
   templateId, 
   onCustomizationChange,
   onApplyChanges,
-  initialCustomizations = {}
+  customizations: editorCustomizations = {}
 }: CustomizationPanelProps) {
   const defaultCustomizations: PDFCustomizations = {
     title: "Presentation Title",
@@ -70,20 +84,45 @@ export default function CustomizationPanel({
     fontFamily: 'Roboto',
     titleSize: 'Medium',
     titleAlignment: 'center',
-    backgroundStyle: 'gradient1',
+    backgroundStyle: 'none',
     backgroundOpacity: 100,
+    pageSize: 'auto',
+    coverMode: 'replace',
+    replacePageCount: 1,
+    backCover: false,
+    closingText: 'Thank you',
   };
 
+  // Only offer fonts the server can embed in the PDF
+  const { data: fontOptions = [] } = useQuery<FontFamilyInfo[]>({
+    queryKey: ['/api/fonts'],
+  });
+
   const [customizations, setCustomizations] = useState<PDFCustomizations>({
     ...defaultCustomizations,
-    ...initialCustomizations
+    ...editorCustomizations
   });
+  // The values last taken from the editor, which aren't edits to report back
+  const fromEditor = useRef<PDFCustomizations | null>(null);
 
   useEffect(() => {
-    onCustomizationChange(customizations);
+    if (customizations !== fromEditor.current) {
+      onCustomizationChange(customizations);
+    }
   }, [customizations, onCustomizationChange]);
 
-  const handleInputChange = (field: keyof PDFCustomizations, value: string | number) => {
+  useEffect(() => {
+    const next = { ...defaultCustomizations, ...editorCustomizations };
+    setCustomizations(current => {
+      if (diffCustomizations(current, next).length === 0) {
+        return current;
+      }
+      fromEditor.current = next;
+      return next;
+    });
+  }, [editorCustomizations]);
+
+  const handleInputChange = (field: keyof PDFCustomizations, value: string | number | boolean | Record<string, ImagePlacement>) => {
     setCustomizations(prev => ({
       ...prev,
       [field]: value
@@ -178,7 +217,7 @@ export default function CustomizationPanel({
               </SelectTrigger>
               <SelectContent>
                 {fontOptions.map(font => (
-                  <SelectItem key={font.value} value={font.value}>{font.label}</SelectItem>
+                  <SelectItem key={font.family} value={font.family}>{font.family}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
@@ -202,6 +241,23 @@ export default function CustomizationPanel({
             </Select>
           </div>
           
+          <div>
+            <Label htmlFor="page-size" className="text-sm font-medium text-neutral-600 mb-1">Page Size</Label>
+            <Select 
+              value={customizations.pageSize || 'auto'} 
+              onValueChange={(value) => handleInputChange('pageSize', value)}
+            >
+              <SelectTrigger id="page-size">
+                <SelectValue placeholder="Select page size" />
+              </SelectTrigger>
+              <SelectContent>
+                {pageSizeOptions.map(size => (
+                  <SelectItem key={size.value} value={size.value}>{size.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
           <div>
             <Label className="text-sm font-medium text-neutral-600 mb-2 block">Title Alignment</Label>
             <ToggleGroup 
@@ -235,17 +291,19 @@ export default function CustomizationPanel({
           <div>
             <Label className="text-sm font-medium text-neutral-600 mb-2 block">Background Style</Label>
             <div className="grid grid-cols-3 gap-2">
-              {backgroundStyles.map(bg => (
+              {backgroundStyleOptions.map(bg => (
                 <button 
                   key={bg.value}
-                  className={`h-12 rounded focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 overflow-hidden ${
+                  className={`h-12 rounded border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 overflow-hidden bg-cover ${
                     customizations.backgroundStyle === bg.value ? 'ring-2 ring-offset-2 ring-[#0077B5]' : ''
-                  } ${bg.color || ''}`}
+                  }`}
+                  style={bg.fill ? { backgroundImage: `url("${backgroundToDataUrl(bg.fill, SWATCH_WIDTH, SWATCH_HEIGHT)}")` } : undefined}
                   onClick={() => handleInputChange('backgroundStyle', bg.value)}
                   aria-label={bg.label}
+                  title={bg.label}
                 >
-                  {bg.image && (
-                    <img src={bg.image} alt={bg.label} className="w-full h-full object-cover" />
+                  {!bg.fill && (
+                    <span className="text-xs text-neutral-500">Template</span>
                   )}
                 </button>
               ))}
@@ -267,6 +325,73 @@ export default function CustomizationPanel({
         </div>
       </div>
       
+      {/* Logo and image slots defined by the template */}
+      <ImageSlotsEditor
+        templateId={templateId}
+        images={customizations.images}
+        onChange={(images) => handleInputChange('images', images)}
+      />
+      
+      {/* Cover placement and back cover */}
+      <div className="mt-6">
+        <h3 className="text-base font-medium text-neutral-900 mb-3">Pages</h3>
+        
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="cover-mode" className="text-sm font-medium text-neutral-600 mb-1">Cover Placement</Label>
+            <Select 
+              value={customizations.coverMode || 'replace'} 
+              onValueChange={(value) => handleInputChange('coverMode', value)}
+            >
+              <SelectTrigger id="cover-mode">
+                <SelectValue placeholder="Select placement" />
+              </SelectTrigger>
+              <SelectContent>
+                {coverModeOptions.map(mode => (
+                  <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          {customizations.coverMode === 'replace-range' && (
+            <div>
+              <Label htmlFor="replace-page-count" className="text-sm font-medium text-neutral-600 mb-1">Pages to Replace</Label>
+              <Input 
+                id="replace-page-count" 
+                type="number"
+                min={1}
+                className="w-full px-3 py-2" 
+                value={customizations.replacePageCount ?? 1}
+                onChange={(e) => handleInputChange('replacePageCount', Math.max(1, parseInt(e.target.value) || 1))}
+              />
+            </div>
+          )}
+          
+          <div className="flex items-center justify-between">
+            <Label htmlFor="back-cover" className="text-sm font-medium text-neutral-600">Add Back Cover</Label>
+            <Switch 
+              id="back-cover"
+              checked={!!customizations.backCover}
+              onCheckedChange={(checked) => handleInputChange('backCover', checked)}
+            />
+          </div>
+          
+          {customizations.backCover && (
+            <div>
+              <Label htmlFor="closing-text" className="text-sm font-medium text-neutral-600 mb-1">Closing Message</Label>
+              <Input 
+                id="closing-text" 
+                className="w-full px-3 py-2" 
+                placeholder="Thank you" 
+                value={customizations.closingText || ''}
+                onChange={(e) => handleInputChange('closingText', e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+      
       <div className="mt-8">
         <Button 
           onClick={onApplyChanges}
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileText } from 'lucide-react';
+
+// Drawn at twice the displayed width so it stays sharp on high-DPI screens
+const THUMBNAIL_WIDTH = 400;
+
+interface DocumentThumbnailProps {
+  // Public document ID
+  documentId: string;
+  isModified?: boolean | null;
+  name: string;
+}
+
+// The first page of a document: its cover once customized, otherwise the
+// original first page
+export default function DocumentThumbnail({ documentId, isModified, name }: DocumentThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [state, setState] = useState<'loading' | 'ready' | 'failed'>('loading');
+
+  useEffect(() => {
+    let cancelled = false;
+    const sources = isModified
+      ? [`/api/documents/${documentId}/cover-preview`, `/api/documents/${documentId}/preview`]
+      : [`/api/documents/${documentId}/preview`];
+
+    const render = async () => {
+      // pdf.js is only loaded once a thumbnail is shown
+      const { pdfjsLib } = await import('@/lib/pdfjs');
+
+      for (const url of sources) {
+        try {
+          const pdf = await pdfjsLib.getDocument(url).promise;
+          const page = await pdf.getPage(1);
+          const canvas = canvasRef.current;
+          if (cancelled || !canvas) return;
+
+          const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+          canvas.width = viewport.width;
+          canvas.height = viewport.height;
+          await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+          if (!cancelled) setState('ready');
+          return;
+        } catch (error) {
+          // A cover that was never rendered falls back to the original
+          console.error(`Error rendering thumbnail from ${url}:`, error);
+        }
+      }
+      if (!cancelled) setState('failed');
+    };
+
+    setState('loading');
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, isModified]);
+
+  return (
+    <div className="relative aspect-[4/3] bg-neutral-100 flex items-center justify-center overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        role="img"
+        aria-label={`First page of ${name}`}
+        className={state === 'ready' ? 'max-h-full max-w-full object-contain shadow-sm' : 'hidden'}
+      />
+      {state !== 'ready' && (
+        <FileText className={`h-10 w-10 text-neutral-300 ${state === 'loading' ? 'animate-pulse' : ''}`} />
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useLocation } from "wouter";
 import { useAuth } from "./AuthContext";
 import { Button } from "@/components/ui/button";
 import { FileText } from "lucide-react";
@@ -9,10 +10,10 @@ import {
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { SiLinkedin } from "react-icons/si";
 
 export default function Header() {
-  const { user, isAuthenticated, login, logout } = useAuth();
+  const { user, isAuthenticated, login, signup, logout, resendVerification } = useAuth();
+  const [, setLocation] = useLocation();
   
   return (
     <header className="bg-white shadow-sm">
@@ -47,20 +48,27 @@ export default function Header() {
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
                   <DropdownMenuItem>My Account</DropdownMenuItem>
-                  <DropdownMenuItem>My Documents</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setLocation("/library")}>My Documents</DropdownMenuItem>
+                  {user?.email && !user.emailVerified && (
+                    <DropdownMenuItem onClick={resendVerification}>Resend verification email</DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={logout}>Logout</DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
           ) : (
-            <Button 
-              onClick={login}
-              className="bg-[#0077B5] hover:bg-[#006195] text-white flex items-center px-4 py-2 rounded-md font-medium transition-colors duration-200"
-            >
-              <SiLinkedin className="mr-2 h-5 w-5" />
-              Sign in with LinkedIn
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" onClick={signup} className="text-neutral-700">
+                Create account
+              </Button>
+              <Button 
+                onClick={login}
+                className="bg-[#0077B5] hover:bg-[#006195] text-white flex items-center px-4 py-2 rounded-md font-medium transition-colors duration-200"
+              >
+                Sign in
+              </Button>
+            </div>
           )}
         </div>
       </div>
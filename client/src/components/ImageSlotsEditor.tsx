@@ -0,0 +1,233 @@
+import { useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { getQueryFn } from '@/lib/queryClient';
+import { Asset, Template } from '@shared/schema';
+import { templateLayoutSchema, type ImagePlacement, type LayoutImageSlot } from '@shared/templateLayout';
+import { ImagePlus, Trash2 } from 'lucide-react';
+
+const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml'];
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+interface ImageSlotsEditorProps {
+  templateId: number;
+  images?: Record<string, ImagePlacement>;
+  onChange: (images: Record<string, ImagePlacement>) => void;
+}
+
+// Image slots defined by the selected template's layout
+function getImageSlots(template?: Template): LayoutImageSlot[] {
+  if (!template?.layout) {
+    return [];
+  }
+
+  const raw = typeof template.layout === 'string' ? JSON.parse(template.layout) : template.layout;
+  const parsed = templateLayoutSchema.safeParse(raw);
+  if (!parsed.success) {
+    return [];
+  }
+  return parsed.data.elements.filter((element): element is LayoutImageSlot => element.type === 'image');
+}
+
+export default function ImageSlotsEditor({ templateId, images = {}, onChange }: ImageSlotsEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadSlot, setUploadSlot] = useState<string | null>(null);
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  // Previously uploaded images are only listed for signed-in users
+  const { data: userAssets } = useQuery<Asset[] | null>({
+    queryKey: ['/api/assets'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const slots = getImageSlots(templates.find(template => template.id === templateId));
+  if (slots.length === 0) {
+    return null;
+  }
+
+  const updatePlacement = (slot: string, placement: ImagePlacement | null) => {
+    const next = { ...images };
+    if (placement) {
+      next[slot] = placement;
+    } else {
+      delete next[slot];
+    }
+    onChange(next);
+  };
+
+  const chooseFile = (slot: string) => {
+    setUploadSlot(slot);
+    fileInputRef.current?.click();
+  };
+
+  const uploadImage = async (file: File) => {
+    const slot = uploadSlot;
+    if (!slot) {
+      return;
+    }
+
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload a PNG, JPEG or SVG image",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast({
+        title: "File too large",
+        description: "Maximum image size is 5MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      // Use fetch directly for FormData
+      const response = await fetch('/api/assets', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      const asset: Asset = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/assets'] });
+      updatePlacement(slot, { assetId: asset.publicId, scale: 1, offsetX: 0, offsetY: 0 });
+    } catch (error) {
+      console.error('Image upload failed:', error);
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-base font-medium text-neutral-900 mb-3">Images</h3>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            uploadImage(file);
+          }
+          e.target.value = '';
+        }}
+      />
+
+      <div className="space-y-5">
+        {slots.map(slot => {
+          const placement = images[slot.slot];
+          const label = slot.label || slot.slot;
+
+          return (
+            <div key={slot.slot} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium text-neutral-600">{label}</Label>
+                {placement && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updatePlacement(slot.slot, null)}
+                    aria-label={`Remove ${label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              {placement ? (
+                <>
+                  <div className="h-16 rounded border border-neutral-200 bg-neutral-50 flex items-center justify-center overflow-hidden">
+                    <img src={`/api/assets/${placement.assetId}/file`} alt={label} className="max-h-full max-w-full object-contain" />
+                  </div>
+
+                  <div>
+                    <Label className="text-xs text-neutral-500">Scale</Label>
+                    <Slider
+                      min={25}
+                      max={200}
+                      step={5}
+                      value={[Math.round((placement.scale ?? 1) * 100)]}
+                      onValueChange={(value) => updatePlacement(slot.slot, { ...placement, scale: value[0] / 100 })}
+                      aria-label={`${label} scale`}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="text-xs text-neutral-500">Horizontal</Label>
+                      <Slider
+                        min={-50}
+                        max={50}
+                        step={1}
+                        value={[placement.offsetX ?? 0]}
+                        onValueChange={(value) => updatePlacement(slot.slot, { ...placement, offsetX: value[0] })}
+                        aria-label={`${label} horizontal position`}
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs text-neutral-500">Vertical</Label>
+                      <Slider
+                        min={-50}
+                        max={50}
+                        step={1}
+                        value={[placement.offsetY ?? 0]}
+                        onValueChange={(value) => updatePlacement(slot.slot, { ...placement, offsetY: value[0] })}
+                        aria-label={`${label} vertical position`}
+                      />
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => chooseFile(slot.slot)}>
+                    <ImagePlus className="h-4 w-4 mr-1" />
+                    Upload
+                  </Button>
+
+                  {userAssets && userAssets.length > 0 && (
+                    <Select onValueChange={(value) => updatePlacement(slot.slot, { assetId: value, scale: 1, offsetX: 0, offsetY: 0 })}>
+                      <SelectTrigger className="h-9">
+                        <SelectValue placeholder="Use an uploaded image" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {userAssets.map(asset => (
+                          <SelectItem key={asset.id} value={asset.publicId}>{asset.originalName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { ChevronLeft, ChevronRight, Loader2, ArrowRight } from 'lucide-react';
-import * as pdfjsLib from 'pdfjs-dist';
 import { PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
 
-// Set worker path to CDN
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
-
 interface PDFPreviewProps {
   pdfUrl: string;
   customizedCoverPage?: string | null;
@@ -25,6 +21,8 @@ export default function PDFPreview({ pdfUrl, customizedCoverPage, showSideBySide
     const loadPdf = async () => {
       try {
         setLoading(true);
+        // pdf.js is only loaded once the preview is shown
+        const { pdfjsLib } = await import('@/lib/pdfjs');
         const loadingTask = pdfjsLib.getDocument(pdfUrl);
         const doc = await loadingTask.promise;
         setPdfDoc(doc);
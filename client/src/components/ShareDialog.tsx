@@ -0,0 +1,483 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { getErrorMessage } from '@/lib/utils';
+import type { ScheduledShare } from '@shared/schema';
+import {
+  MAX_COMMENTARY_LENGTH,
+  hashtagSchema,
+  shareMentionSchema,
+  type PostVisibility,
+  type ShareMention,
+  type SharePostRequest,
+} from '@shared/linkedinPost';
+import { CalendarClock, ChevronLeft, ChevronRight, Globe, Loader2, Users, X } from 'lucide-react';
+import { SiLinkedin } from 'react-icons/si';
+
+// Width of the carousel pages in the post preview, in CSS pixels
+const CAROUSEL_WIDTH = 320;
+
+interface ShareDialogProps {
+  documentId: string;
+  // The enhanced PDF that will be posted
+  pdfUrl: string;
+  authorName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Value for a datetime-local input, in local time
+function toLocalInputValue(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+}
+
+// Pages of the PDF as LinkedIn shows them: one at a time, swiped through
+function DocumentCarousel({ pdfUrl }: { pdfUrl: string }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
+  const [page, setPage] = useState(1);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDocument = async () => {
+      try {
+        // pdf.js is only loaded once the preview is shown
+        const { pdfjsLib } = await import('@/lib/pdfjs');
+        const doc = await pdfjsLib.getDocument(pdfUrl).promise;
+        if (!cancelled) {
+          setPdfDoc(doc);
+          setPage(1);
+        }
+      } catch (error) {
+        console.error('Error loading PDF for the post preview:', error);
+        setFailed(true);
+      }
+    };
+
+    loadDocument();
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfUrl]);
+
+  useEffect(() => {
+    const renderPage = async () => {
+      const canvas = canvasRef.current;
+      if (!pdfDoc || !canvas) return;
+
+      const pdfPage = await pdfDoc.getPage(page);
+      const scale = (CAROUSEL_WIDTH * 2) / pdfPage.getViewport({ scale: 1 }).width;
+      const viewport = pdfPage.getViewport({ scale });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+
+      await pdfPage.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    };
+
+    renderPage().catch(error => console.error('Error rendering post preview page:', error));
+  }, [pdfDoc, page]);
+
+  if (failed) {
+    return <p className="text-sm text-neutral-500 text-center py-8">The preview couldn't be loaded</p>;
+  }
+  if (!pdfDoc) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 text-[#0077B5] animate-spin" aria-label="Loading preview" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative mx-auto" style={{ width: CAROUSEL_WIDTH }}>
+      <canvas ref={canvasRef} className="w-full border border-gray-200 bg-white" />
+      <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded">
+        {page} / {pdfDoc.numPages}
+      </span>
+      <Button
+        variant="outline"
+        size="icon"
+        className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full h-8 w-8"
+        onClick={() => setPage(page - 1)}
+        disabled={page <= 1}
+        aria-label="Previous page"
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full h-8 w-8"
+        onClick={() => setPage(page + 1)}
+        disabled={page >= pdfDoc.numPages}
+        aria-label="Next page"
+      >
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+// How the post will look in the feed
+function PostPreview({ pdfUrl, authorName, commentary, hashtags, mentions, visibility }: {
+  pdfUrl: string;
+  authorName?: string;
+  commentary: string;
+  hashtags: string[];
+  mentions: ShareMention[];
+  visibility: PostVisibility;
+}) {
+  return (
+    <div className="border border-gray-200 rounded-lg bg-white" data-testid="post-preview">
+      <div className="p-3 flex items-center gap-2">
+        <div className="w-10 h-10 rounded-full bg-[#E8F4F9] flex items-center justify-center text-[#0077B5] font-semibold">
+          {(authorName || 'You').charAt(0)}
+        </div>
+        <div>
+          <p className="text-sm font-medium text-neutral-900">{authorName || 'You'}</p>
+          <p className="text-xs text-neutral-500 flex items-center">
+            {visibility === 'PUBLIC' ? <Globe className="h-3 w-3 mr-1" /> : <Users className="h-3 w-3 mr-1" />}
+            {visibility === 'PUBLIC' ? 'Anyone' : 'Connections only'}
+          </p>
+        </div>
+      </div>
+
+      <div className="px-3 pb-3 text-sm text-neutral-800 whitespace-pre-wrap break-words">
+        {commentary.trim()}
+        {mentions.length > 0 && (
+          <p className="mt-2">
+            {mentions.map(mention => (
+              <span key={mention.urn} className="text-[#0077B5] font-medium mr-1">{mention.name}</span>
+            ))}
+          </p>
+        )}
+        {hashtags.length > 0 && (
+          <p className="mt-2">
+            {hashtags.map(tag => (
+              <span key={tag} className="text-[#0077B5] font-medium mr-1">#{tag}</span>
+            ))}
+          </p>
+        )}
+      </div>
+
+      <div className="bg-neutral-100 py-3">
+        <DocumentCarousel pdfUrl={pdfUrl} />
+      </div>
+    </div>
+  );
+}
+
+// Posts scheduled for the document that haven't gone out yet, plus any that failed
+function ScheduledShares({ documentId }: { documentId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const sharesKey = `/api/documents/${documentId}/scheduled-shares`;
+
+  const { data: shares = [] } = useQuery<ScheduledShare[]>({
+    queryKey: [sharesKey],
+  });
+
+  const { mutate: cancelShare, isPending: isCancelling } = useMutation({
+    mutationFn: async (shareId: number) => {
+      return await apiRequest("DELETE", `/api/scheduled-shares/${shareId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [sharesKey] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to cancel post",
+        description: getErrorMessage(error),
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  });
+
+  const upcoming = shares.filter(share => share.status === 'pending' || share.status === 'failed');
+  if (upcoming.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t border-gray-100 pt-4">
+      <h3 className="text-sm font-medium text-neutral-900 mb-2">Scheduled posts</h3>
+      <ul className="space-y-2">
+        {upcoming.map(share => (
+          <li key={share.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="min-w-0">
+              <p className="text-neutral-800">{new Date(share.scheduledAt).toLocaleString()}</p>
+              {share.status === 'failed' ? (
+                <p className="text-xs text-red-600">Failed: {share.error}</p>
+              ) : (
+                <p className="text-xs text-neutral-500 truncate">{share.commentary || 'No text'}</p>
+              )}
+            </div>
+            {share.status === 'pending' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => cancelShare(share.id)}
+                disabled={isCancelling}
+                aria-label={`Cancel post scheduled for ${new Date(share.scheduledAt).toLocaleString()}`}
+              >
+                Cancel
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Compose a LinkedIn document post for the enhanced PDF, then post it now or
+// schedule it for later
+export default function ShareDialog({ documentId, pdfUrl, authorName, open, onOpenChange }: ShareDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [commentary, setCommentary] = useState('');
+  const [hashtags, setHashtags] = useState<string[]>([]);
+  const [hashtagInput, setHashtagInput] = useState('');
+  const [mentions, setMentions] = useState<ShareMention[]>([]);
+  const [mentionName, setMentionName] = useState('');
+  const [mentionUrn, setMentionUrn] = useState('');
+  const [mentionError, setMentionError] = useState<string | null>(null);
+  const [visibility, setVisibility] = useState<PostVisibility>('PUBLIC');
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState('');
+
+  const addHashtags = () => {
+    // Several tags can be typed at once, with or without their #
+    const tags = hashtagInput
+      .split(/[\s,]+/)
+      .map(tag => tag.replace(/^#+/, ''))
+      .filter(tag => hashtagSchema.safeParse(tag).success && !hashtags.includes(tag));
+    setHashtags(hashtags.concat(Array.from(new Set(tags))));
+    setHashtagInput('');
+  };
+
+  const addMention = () => {
+    const parsed = shareMentionSchema.safeParse({ name: mentionName.trim(), urn: mentionUrn.trim() });
+    if (!parsed.success) {
+      setMentionError(parsed.error.errors[0].message);
+      return;
+    }
+    if (!mentions.some(mention => mention.urn === parsed.data.urn)) {
+      setMentions([...mentions, parsed.data]);
+    }
+    setMentionName('');
+    setMentionUrn('');
+    setMentionError(null);
+  };
+
+  const { mutate: share, isPending: isSharing } = useMutation({
+    mutationFn: async () => {
+      const body: SharePostRequest = {
+        commentary,
+        hashtags,
+        mentions,
+        visibility,
+        scheduledAt: isScheduled ? new Date(scheduledAt).toISOString() : undefined,
+      };
+      return await apiRequest("POST", `/api/documents/${documentId}/share-linkedin`, body);
+    },
+    onSuccess: (data) => {
+      if (data.scheduledShare) {
+        queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/scheduled-shares`] });
+        toast({
+          title: "Post scheduled",
+          description: `It will be shared on ${new Date(data.scheduledShare.scheduledAt).toLocaleString()}`,
+          duration: 3000,
+        });
+      } else {
+        toast({
+          title: "Shared to LinkedIn successfully",
+          duration: 3000,
+        });
+      }
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Share failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+        duration: 5000,
+      });
+    }
+  });
+
+  const isScheduleValid = !isScheduled || (scheduledAt !== '' && new Date(scheduledAt) > new Date());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <SiLinkedin className="h-5 w-5 mr-2 text-[#0077B5]" aria-hidden="true" />
+            Share to LinkedIn
+          </DialogTitle>
+          <DialogDescription>Your enhanced PDF is posted as a document that readers can page through.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="share-commentary" className="text-sm font-medium text-neutral-600 mb-1">Post text</Label>
+              <Textarea
+                id="share-commentary"
+                value={commentary}
+                onChange={(e) => setCommentary(e.target.value)}
+                maxLength={MAX_COMMENTARY_LENGTH}
+                rows={5}
+                placeholder="What do you want to talk about?"
+              />
+              <p className="text-xs text-neutral-500 text-right mt-1">{commentary.length} / {MAX_COMMENTARY_LENGTH}</p>
+            </div>
+
+            <div>
+              <Label htmlFor="share-hashtags" className="text-sm font-medium text-neutral-600 mb-1">Hashtags</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="share-hashtags"
+                  value={hashtagInput}
+                  onChange={(e) => setHashtagInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ',') {
+                      e.preventDefault();
+                      addHashtags();
+                    }
+                  }}
+                  placeholder="#design"
+                />
+                <Button variant="outline" onClick={addHashtags} disabled={!hashtagInput.trim()} aria-label="Add hashtags">Add</Button>
+              </div>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {hashtags.map(tag => (
+                  <span key={tag} className="inline-flex items-center bg-[#E8F4F9] text-[#0077B5] text-xs px-2 py-1 rounded">
+                    #{tag}
+                    <button className="ml-1" onClick={() => setHashtags(hashtags.filter(t => t !== tag))} aria-label={`Remove #${tag}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="share-mention-name" className="text-sm font-medium text-neutral-600 mb-1">Mentions</Label>
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <Input
+                  id="share-mention-name"
+                  value={mentionName}
+                  onChange={(e) => setMentionName(e.target.value)}
+                  placeholder="Name"
+                />
+                <Input
+                  value={mentionUrn}
+                  onChange={(e) => setMentionUrn(e.target.value)}
+                  placeholder="urn:li:person:…"
+                  aria-label="Mention URN"
+                />
+                <Button variant="outline" onClick={addMention} disabled={!mentionName.trim() || !mentionUrn.trim()} aria-label="Add mention">Add</Button>
+              </div>
+              {mentionError && <p className="text-xs text-red-600 mt-1">{mentionError}</p>}
+              <div className="flex flex-wrap gap-1 mt-2">
+                {mentions.map(mention => (
+                  <span key={mention.urn} className="inline-flex items-center bg-[#E8F4F9] text-[#0077B5] text-xs px-2 py-1 rounded">
+                    @{mention.name}
+                    <button className="ml-1" onClick={() => setMentions(mentions.filter(m => m.urn !== mention.urn))} aria-label={`Remove ${mention.name}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium text-neutral-600 mb-1">Who can see this post</Label>
+              <RadioGroup
+                value={visibility}
+                onValueChange={(value) => setVisibility(value as PostVisibility)}
+                className="flex gap-4 mt-1"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="PUBLIC" id="share-visibility-public" />
+                  <Label htmlFor="share-visibility-public" className="text-sm">Anyone</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="CONNECTIONS" id="share-visibility-connections" />
+                  <Label htmlFor="share-visibility-connections" className="text-sm">Connections only</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="share-schedule" className="text-sm font-medium text-neutral-600">Schedule for later</Label>
+                <Switch id="share-schedule" checked={isScheduled} onCheckedChange={setIsScheduled} />
+              </div>
+              {isScheduled && (
+                <Input
+                  type="datetime-local"
+                  className="mt-2"
+                  value={scheduledAt}
+                  min={toLocalInputValue(new Date())}
+                  onChange={(e) => setScheduledAt(e.target.value)}
+                  aria-label="Post date and time"
+                />
+              )}
+            </div>
+
+            <ScheduledShares documentId={documentId} />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-neutral-600 mb-1">Preview</h3>
+            {open && (
+              <PostPreview
+                pdfUrl={pdfUrl}
+                authorName={authorName}
+                commentary={commentary}
+                hashtags={hashtags}
+                mentions={mentions}
+                visibility={visibility}
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            className="bg-[#0077B5] hover:bg-[#006195] text-white"
+            onClick={() => share()}
+            disabled={isSharing || !isScheduleValid}
+          >
+            {isSharing ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />
+            ) : isScheduled ? (
+              <CalendarClock className="h-4 w-4 mr-2" aria-hidden="true" />
+            ) : (
+              <SiLinkedin className="h-4 w-4 mr-2" aria-hidden="true" />
+            )}
+            {isScheduled ? 'Schedule Post' : 'Post Now'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,9 +2,11 @@ import { useState, useRef, DragEvent, ChangeEvent } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "./AuthContext";
 import { FileText, Calendar } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
+import { saveClaimToken } from "@/lib/documentClaims";
 import { useQuery } from "@tanstack/react-query";
 import { Document } from "@shared/schema";
 
@@ -93,6 +95,9 @@ export default function UploadArea() {
       }
 
       const data = await response.json();
+      if (data.claimToken) {
+        saveClaimToken(data.documentId, data.claimToken);
+      }
       
       // Navigate to the editor page with the document ID
       setLocation(`/editor?id=${data.documentId}`);
@@ -137,10 +142,19 @@ export default function UploadArea() {
       
       {isAuthenticated && recentDocuments.length > 0 && (
         <div className="mt-8 bg-white rounded-lg p-6 shadow-sm border border-gray-100">
-          <h3 className="font-medium text-lg text-neutral-900 mb-4">Recent Documents</h3>
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="font-medium text-lg text-neutral-900">Recent Documents</h3>
+            <Button variant="link" onClick={() => setLocation('/library')} className="text-[#0077B5] p-0 h-auto">
+              View all
+            </Button>
+          </div>
           <ul className="divide-y divide-gray-200">
             {recentDocuments.map((doc) => (
-              <li key={doc.id} className="py-3 flex justify-between items-center hover:bg-neutral-50 rounded px-2 transition-colors duration-200">
+              <li
+                key={doc.id}
+                onClick={() => setLocation(`/editor?id=${doc.publicId}`)}
+                className="py-3 flex justify-between items-center hover:bg-neutral-50 rounded px-2 transition-colors duration-200 cursor-pointer"
+              >
                 <div className="flex items-center">
                   <FileText className="h-5 w-5 text-[#0077B5] mr-3" />
                   <span className="text-neutral-900">{doc.originalName}</span>
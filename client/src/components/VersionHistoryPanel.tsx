@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { PDFCustomizations } from './CustomizationPanel';
+import type { DocumentVersionWithAuthor } from '@shared/schema';
+import type { CustomizationChange } from '@shared/customizationDiff';
+import { ChevronDown, ChevronUp, History, Loader2, RotateCcw } from 'lucide-react';
+
+// Width of the cover thumbnails in CSS pixels
+const THUMBNAIL_WIDTH = 64;
+
+type VersionCustomizations = PDFCustomizations & { templateId: number };
+
+interface VersionHistoryPanelProps {
+  documentId: string;
+  onRestore: (customizations: VersionCustomizations) => void;
+}
+
+interface VersionDiff {
+  versionId: number;
+  compareId: number | null;
+  changes: CustomizationChange[];
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// First page of a version's cover, drawn with pdf.js
+function VersionThumbnail({ url }: { url: string }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const renderThumbnail = async () => {
+      try {
+        // pdf.js is only loaded once there is a history to show
+        const { pdfjsLib } = await import('@/lib/pdfjs');
+        const doc = await pdfjsLib.getDocument(url).promise;
+        const page = await doc.getPage(1);
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+
+        const scale = (THUMBNAIL_WIDTH * 2) / page.getViewport({ scale: 1 }).width;
+        const viewport = page.getViewport({ scale });
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+
+        await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      } catch (error) {
+        console.error('Error rendering version thumbnail:', error);
+        setFailed(true);
+      }
+    };
+
+    renderThumbnail();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  if (failed) {
+    return <div className="bg-neutral-100 rounded" style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_WIDTH * 1.3 }} />;
+  }
+  return <canvas ref={canvasRef} className="rounded border border-gray-200 bg-white" style={{ width: THUMBNAIL_WIDTH }} />;
+}
+
+function VersionChanges({ documentId, versionId }: { documentId: string; versionId: number }) {
+  const { data: diff, isLoading } = useQuery<VersionDiff>({
+    queryKey: [`/api/documents/${documentId}/versions/${versionId}/diff`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 text-[#0077B5] animate-spin" />;
+  }
+  if (!diff || diff.changes.length === 0) {
+    return <p className="text-xs text-neutral-500">No changes from the previous version</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs text-neutral-600">
+      {diff.changes.map(change => (
+        <li key={change.path}>
+          <span className="font-medium text-neutral-800">{change.path}</span>:{' '}
+          {diff.compareId !== null && <><span className="line-through">{formatValue(change.before)}</span> → </>}
+          {formatValue(change.after)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Customizations previously applied to the document, newest first, with a
+// thumbnail of each cover and the option to restore it
+export default function VersionHistoryPanel({ documentId, onRestore }: VersionHistoryPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const versionsKey = `/api/documents/${documentId}/versions`;
+  const { data: versions = [] } = useQuery<DocumentVersionWithAuthor[]>({
+    queryKey: [versionsKey],
+  });
+
+  const { mutate: restoreVersion, isPending: isRestoring, variables: restoringId } = useMutation({
+    mutationFn: async (versionId: number) => {
+      return await apiRequest("POST", `${versionsKey}/${versionId}/restore`);
+    },
+    onSuccess: (data) => {
+      onRestore(data.customizations);
+      queryClient.invalidateQueries({ queryKey: [versionsKey] });
+      toast({
+        title: "Version restored",
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore version",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  });
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-6 mb-6">
+      <h2 className="text-lg font-medium text-neutral-900 mb-4 flex items-center">
+        <History className="h-5 w-5 mr-2 text-[#0077B5]" aria-hidden="true" />
+        Version History
+      </h2>
+
+      <ol className="divide-y divide-gray-100">
+        {versions.map((version, index) => {
+          const expanded = expandedId === version.id;
+          return (
+            <li key={version.id} className="py-3 flex gap-4">
+              <VersionThumbnail url={`${versionsKey}/${version.id}/preview`} />
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium text-neutral-900">
+                      {new Date(version.createdAt).toLocaleString()}
+                      {index === 0 && (
+                        <span className="ml-2 inline-block bg-[#E8F4F9] text-[#0077B5] text-xs font-semibold px-2 py-0.5 rounded">Current</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-neutral-500">{version.authorName ?? 'Anonymous'}</p>
+                  </div>
+
+                  {index > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreVersion(version.id)}
+                      disabled={isRestoring}
+                    >
+                      {isRestoring && restoringId === version.id ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                      )}
+                      Restore
+                    </Button>
+                  )}
+                </div>
+
+                <button
+                  className="mt-1 text-xs text-[#0077B5] hover:underline inline-flex items-center"
+                  onClick={() => setExpandedId(expanded ? null : version.id)}
+                  aria-expanded={expanded}
+                >
+                  {expanded ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+                  Changes
+                </button>
+                {expanded && (
+                  <div className="mt-2">
+                    <VersionChanges documentId={documentId} versionId={version.id} />
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
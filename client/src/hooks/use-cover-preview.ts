@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { renderCoverPreview } from '@/lib/coverPreview';
+import type { CoverCustomizations } from '@shared/coverRenderer';
+import type { Template } from '@shared/schema';
+
+// Wait for a pause in typing before rendering, so a preview isn't built per keystroke
+const PREVIEW_DELAY = 300;
+
+interface CoverPreview {
+  // Object URL of the rendered cover PDF
+  url: string | null;
+  isRendering: boolean;
+  error: Error | null;
+}
+
+// Render the cover in the browser whenever the template or customizations change
+export function useCoverPreview(
+  documentId: string | null,
+  template: Template | undefined,
+  customizations: CoverCustomizations | null,
+  delay = PREVIEW_DELAY,
+): CoverPreview {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // "Match original" covers need the size of the document's first page
+  const { data: sourcePageSize, isLoading: isPageSizeLoading } = useQuery<{ width: number; height: number }>({
+    queryKey: [`/api/documents/${documentId}/page-size`],
+    enabled: !!documentId,
+  });
+
+  useEffect(() => {
+    if (!template || !customizations || isPageSizeLoading) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsRendering(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const pageSize = sourcePageSize ? [sourcePageSize.width, sourcePageSize.height] as [number, number] : undefined;
+        const bytes = await renderCoverPreview(template, customizations, pageSize);
+        if (cancelled) {
+          return;
+        }
+
+        setUrl(URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' })));
+        setError(null);
+      } catch (err) {
+        if (!cancelled) {
+          console.error('Cover preview failed:', err);
+          setError(err instanceof Error ? err : new Error(String(err)));
+        }
+      } finally {
+        if (!cancelled) {
+          setIsRendering(false);
+        }
+      }
+    }, delay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [template, customizations, sourcePageSize, isPageSizeLoading, delay]);
+
+  // Release the previous preview once it has been replaced
+  useEffect(() => {
+    return () => {
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [url]);
+
+  return { url, isRendering, error };
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createHistory,
+  recordChange,
+  redo as redoChange,
+  resetPresent,
+  undo as undoChange,
+  type CustomizationHistory,
+} from '@/lib/customizationHistory';
+
+type Update<T> = T | ((present: T | null) => T);
+
+interface DocumentHistory<T extends object> {
+  documentId: string | null;
+  history: CustomizationHistory<T>;
+}
+
+// The history is kept in session storage, so it survives a page reload but
+// not closing the tab
+function storageKey(documentId: string) {
+  return `customizationHistory:${documentId}`;
+}
+
+function loadHistory<T extends object>(documentId: string | null): DocumentHistory<T> {
+  if (documentId) {
+    try {
+      const stored = sessionStorage.getItem(storageKey(documentId));
+      if (stored) {
+        const history = JSON.parse(stored);
+        if (Array.isArray(history.past) && Array.isArray(history.future)) {
+          return { documentId, history };
+        }
+      }
+    } catch (error) {
+      console.error('Error loading customization history:', error);
+    }
+  }
+  return { documentId, history: createHistory<T>() };
+}
+
+function resolve<T>(update: Update<T>, present: T | null) {
+  return typeof update === 'function' ? (update as (present: T | null) => T)(present) : update;
+}
+
+// Customizations being edited for a document, with undo and redo
+export function useCustomizationHistory<T extends object>(documentId: string | null) {
+  const [state, setState] = useState(() => loadHistory<T>(documentId));
+
+  // Switch to the other document's history when the editor moves to it
+  if (state.documentId !== documentId) {
+    setState(loadHistory<T>(documentId));
+  }
+
+  useEffect(() => {
+    if (state.documentId && state.history.present) {
+      sessionStorage.setItem(storageKey(state.documentId), JSON.stringify(state.history));
+    }
+  }, [state]);
+
+  // Start from saved customizations, unless edits from before a reload were restored
+  const load = useCallback((customizations: T) => {
+    setState(prev => prev.history.present ? prev : { ...prev, history: resetPresent(prev.history, customizations) });
+  }, []);
+
+  // Change the customizations without adding an undo step
+  const replace = useCallback((update: Update<T>) => {
+    setState(prev => ({ ...prev, history: resetPresent(prev.history, resolve(update, prev.history.present)) }));
+  }, []);
+
+  const record = useCallback((update: Update<T>) => {
+    setState(prev => {
+      const history = recordChange(prev.history, resolve(update, prev.history.present));
+      return history === prev.history ? prev : { ...prev, history };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => ({ ...prev, history: undoChange(prev.history) }));
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => ({ ...prev, history: redoChange(prev.history) }));
+  }, []);
+
+  return {
+    customizations: state.history.present,
+    canUndo: state.history.past.length > 0,
+    canRedo: state.history.future.length > 0,
+    load,
+    replace,
+    record,
+    undo,
+    redo,
+  };
+}
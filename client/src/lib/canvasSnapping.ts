@@ -0,0 +1,116 @@
+// Snapping for the cover canvas. Boxes and guide lines are fractions of the
+// page (0-1) with a top-left origin, matching how element boxes are saved.
+
+export interface CanvasBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapTargets {
+  // x positions of vertical guide lines
+  vertical: number[];
+  // y positions of horizontal guide lines
+  horizontal: number[];
+}
+
+export interface SnapResult {
+  box: CanvasBox;
+  guides: SnapTargets;
+}
+
+// Edges a resize handle moves: n/s move the top/bottom, e/w the right/left
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+// Smallest size an element can be resized to
+export const MIN_SIZE = 0.02;
+
+// Page edges and centre lines, plus the edges and centres of the other elements
+export function getSnapTargets(others: CanvasBox[]): SnapTargets {
+  const vertical = [0, 0.5, 1];
+  const horizontal = [0, 0.5, 1];
+  for (const box of others) {
+    vertical.push(box.x, box.x + box.width / 2, box.x + box.width);
+    horizontal.push(box.y, box.y + box.height / 2, box.y + box.height);
+  }
+  return { vertical, horizontal };
+}
+
+// Closest target to any of the candidate positions, within the threshold
+function findSnap(candidates: number[], targets: number[], threshold: number) {
+  let best: { delta: number; target: number } | undefined;
+  for (const candidate of candidates) {
+    for (const target of targets) {
+      const delta = target - candidate;
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, target };
+      }
+    }
+  }
+  return best;
+}
+
+// Snap a moved box so its nearest edge or centre lines up with a target
+export function snapMove(box: CanvasBox, targets: SnapTargets, threshold: number): SnapResult {
+  const guides: SnapTargets = { vertical: [], horizontal: [] };
+  const snapped = { ...box };
+
+  const x = findSnap([box.x, box.x + box.width / 2, box.x + box.width], targets.vertical, threshold);
+  if (x) {
+    snapped.x += x.delta;
+    guides.vertical.push(x.target);
+  }
+
+  const y = findSnap([box.y, box.y + box.height / 2, box.y + box.height], targets.horizontal, threshold);
+  if (y) {
+    snapped.y += y.delta;
+    guides.horizontal.push(y.target);
+  }
+
+  return { box: snapped, guides };
+}
+
+// Resize a box by dragging one of its handles, snapping the moving edges
+export function resizeBox(start: CanvasBox, handle: ResizeHandle, dx: number, dy: number, targets: SnapTargets, threshold: number): SnapResult {
+  const guides: SnapTargets = { vertical: [], horizontal: [] };
+  let left = start.x;
+  let right = start.x + start.width;
+  let top = start.y;
+  let bottom = start.y + start.height;
+
+  if (handle.includes('w')) {
+    left = Math.min(left + dx, right - MIN_SIZE);
+    const snap = findSnap([left], targets.vertical, threshold);
+    if (snap && left + snap.delta <= right - MIN_SIZE) {
+      left += snap.delta;
+      guides.vertical.push(snap.target);
+    }
+  }
+  if (handle.includes('e')) {
+    right = Math.max(right + dx, left + MIN_SIZE);
+    const snap = findSnap([right], targets.vertical, threshold);
+    if (snap && right + snap.delta >= left + MIN_SIZE) {
+      right += snap.delta;
+      guides.vertical.push(snap.target);
+    }
+  }
+  if (handle.includes('n')) {
+    top = Math.min(top + dy, bottom - MIN_SIZE);
+    const snap = findSnap([top], targets.horizontal, threshold);
+    if (snap && top + snap.delta <= bottom - MIN_SIZE) {
+      top += snap.delta;
+      guides.horizontal.push(snap.target);
+    }
+  }
+  if (handle.includes('s')) {
+    bottom = Math.max(bottom + dy, top + MIN_SIZE);
+    const snap = findSnap([bottom], targets.horizontal, threshold);
+    if (snap && bottom + snap.delta >= top + MIN_SIZE) {
+      bottom += snap.delta;
+      guides.horizontal.push(snap.target);
+    }
+  }
+
+  return { box: { x: left, y: top, width: right - left, height: bottom - top }, guides };
+}
@@ -0,0 +1,69 @@
+import { FontEmbedder, type FontFile } from '@shared/fontEmbedding';
+import { renderCoverPdf, type CoverCustomizations } from '@shared/coverRenderer';
+import type { ImageLoader } from '@shared/imageRenderer';
+import type { PageDimensions } from '@shared/pageSizes';
+import type { Template } from '@shared/schema';
+
+// Renders cover previews in the browser with the same code the server uses
+// for downloads. Font files and uploaded images are fetched once and reused
+// for every preview.
+
+const fontFiles = new Map<string, Promise<FontFile | undefined>>();
+const imageAssets = new Map<Parameters<ImageLoader>[0], ReturnType<ImageLoader>>();
+
+async function fetchFontFile(family: string, weight: number): Promise<FontFile | undefined> {
+  const response = await fetch(`/api/fonts/${encodeURIComponent(family)}/${weight}`, {
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    return undefined;
+  }
+
+  return {
+    postscriptName: response.headers.get('X-Font-Name') || family.replace(/\s+/g, ''),
+    bytes: new Uint8Array(await response.arrayBuffer()),
+  };
+}
+
+const browserFonts = new FontEmbedder((family, weight) => {
+  const key = `${family}:${weight}`;
+  let file = fontFiles.get(key);
+  if (!file) {
+    file = fetchFontFile(family, weight).catch(error => {
+      // Let the next preview try again rather than caching the failure
+      fontFiles.delete(key);
+      throw error;
+    });
+    fontFiles.set(key, file);
+  }
+  return file;
+});
+
+const loadImageAsset: ImageLoader = (assetId) => {
+  let asset = imageAssets.get(assetId);
+  if (!asset) {
+    asset = fetch(`/api/assets/${assetId}/file`, { credentials: 'include' }).then(async response => {
+      if (!response.ok) {
+        return undefined;
+      }
+      const mimeType = (response.headers.get('Content-Type') || '').split(';')[0].trim();
+      return { mimeType, bytes: new Uint8Array(await response.arrayBuffer()) };
+    });
+    imageAssets.set(assetId, asset);
+  }
+  return asset;
+};
+
+// Render the cover (and back cover, when requested) as a standalone PDF
+export function renderCoverPreview(
+  template: Template,
+  customizations: CoverCustomizations,
+  sourcePageSize?: PageDimensions,
+): Promise<Uint8Array> {
+  return renderCoverPdf(template, customizations, {
+    sourcePageSize,
+    fontRegistry: browserFonts,
+    loadImage: loadImageAsset,
+    updateMetadata: false,
+  });
+}
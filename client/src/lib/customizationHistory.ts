@@ -0,0 +1,136 @@
+// Undo/redo history for the cover customizations edited in the Editor. Each
+// step is a command holding only the fields it changed, with their values
+// before and after, so undoing a step leaves every other field alone.
+// Consecutive edits to the same text field are merged into one step, so undo
+// removes what was typed rather than a single character.
+
+export interface FieldChange {
+  field: string;
+  // Undefined when the field was not set on that side
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface CustomizationCommand {
+  changes: FieldChange[];
+  // Commands with the same key recorded close together are merged
+  mergeKey?: string;
+  time: number;
+}
+
+export interface CustomizationHistory<T extends object> {
+  present: T | null;
+  past: CustomizationCommand[];
+  future: CustomizationCommand[];
+}
+
+export const MAX_HISTORY = 100;
+
+// Longest pause between keystrokes that still counts as the same edit
+export const MERGE_WINDOW = 1000;
+
+const TEXT_FIELDS = ['title', 'subtitle', 'presenter', 'date', 'closingText'];
+
+export function createHistory<T extends object>(present: T | null = null): CustomizationHistory<T> {
+  return { present, past: [], future: [] };
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function createCommand(before: object, after: object, time: number): CustomizationCommand | null {
+  const beforeFields = before as Record<string, unknown>;
+  const afterFields = after as Record<string, unknown>;
+  const fields = new Set(Object.keys(beforeFields).concat(Object.keys(afterFields)));
+
+  const changes = Array.from(fields)
+    .filter(field => !isSameValue(beforeFields[field], afterFields[field]))
+    .map(field => ({ field, before: beforeFields[field], after: afterFields[field] }));
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const mergeKey = changes.length === 1 && TEXT_FIELDS.includes(changes[0].field) ? changes[0].field : undefined;
+  return { changes, mergeKey, time };
+}
+
+function applyChanges<T extends object>(customizations: T, changes: FieldChange[], side: 'before' | 'after'): T {
+  const result = { ...customizations } as Record<string, unknown>;
+  for (const change of changes) {
+    const value = change[side];
+    if (value === undefined) {
+      delete result[change.field];
+    } else {
+      result[change.field] = value;
+    }
+  }
+  return result as T;
+}
+
+// Replace the current customizations without adding a step, e.g. when the
+// document's saved customizations are loaded
+export function resetPresent<T extends object>(history: CustomizationHistory<T>, present: T): CustomizationHistory<T> {
+  return { ...history, present };
+}
+
+// Record an edit as a new step, clearing anything that could be redone
+export function recordChange<T extends object>(
+  history: CustomizationHistory<T>,
+  next: T,
+  time = Date.now(),
+): CustomizationHistory<T> {
+  if (!history.present) {
+    return resetPresent(history, next);
+  }
+
+  const command = createCommand(history.present, next, time);
+  if (!command) {
+    return history;
+  }
+
+  const last = history.past[history.past.length - 1];
+  if (
+    last &&
+    command.mergeKey &&
+    last.mergeKey === command.mergeKey &&
+    history.future.length === 0 &&
+    time - last.time <= MERGE_WINDOW
+  ) {
+    const change = { ...command.changes[0], before: last.changes[0].before };
+    const past = history.past.slice(0, -1);
+    // Typing the original text back leaves nothing to undo
+    if (isSameValue(change.before, change.after)) {
+      return { present: next, past, future: [] };
+    }
+    return { present: next, past: past.concat({ ...command, changes: [change] }), future: [] };
+  }
+
+  return { present: next, past: history.past.concat(command).slice(-MAX_HISTORY), future: [] };
+}
+
+export function undo<T extends object>(history: CustomizationHistory<T>): CustomizationHistory<T> {
+  const command = history.past[history.past.length - 1];
+  if (!command || !history.present) {
+    return history;
+  }
+
+  return {
+    present: applyChanges(history.present, command.changes, 'before'),
+    past: history.past.slice(0, -1),
+    future: [command].concat(history.future),
+  };
+}
+
+export function redo<T extends object>(history: CustomizationHistory<T>): CustomizationHistory<T> {
+  const command = history.future[0];
+  if (!command || !history.present) {
+    return history;
+  }
+
+  return {
+    present: applyChanges(history.present, command.changes, 'after'),
+    past: history.past.concat(command),
+    future: history.future.slice(1),
+  };
+}
@@ -0,0 +1,24 @@
+// Claim tokens for documents uploaded while signed out, by public document ID.
+// They stay in this browser until the documents are claimed by an account.
+
+const STORAGE_KEY = 'documentClaims';
+
+export function getClaimTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveClaimToken(documentId: string, claimToken: string) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...getClaimTokens(), [documentId]: claimToken }));
+}
+
+export function removeClaimTokens(documentIds: string[]) {
+  const tokens = getClaimTokens();
+  for (const documentId of documentIds) {
+    delete tokens[documentId];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+}
@@ -0,0 +1,97 @@
+import { isFinished, JOB_SOCKET_PATH, type JobSocketMessage, type PublicJob } from '@shared/jobs';
+
+// How often to ask for a job's progress when the WebSocket can't be used
+const POLL_INTERVAL_MS = 1000;
+// How often to ask anyway while the WebSocket is open. Updates are pushed by
+// the app instance running the job, which may not be the one the socket is
+// connected to.
+const SOCKET_POLL_INTERVAL_MS = 5000;
+
+async function fetchJob(jobId: string): Promise<PublicJob> {
+  const response = await fetch(`/api/jobs/${jobId}`, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error('Failed to get job');
+  }
+  return response.json();
+}
+
+// Follow a background job until it finishes, calling `onUpdate` with each
+// change. Updates are pushed over a WebSocket, and the job is polled as well:
+// often when the socket fails, now and then while it's open. Resolves with
+// the finished job.
+export function followJob(jobId: string, onUpdate: (job: PublicJob) => void = () => {}): Promise<PublicJob> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let socket: WebSocket | null = null;
+    let socketOpen = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let polling = false;
+
+    const stop = () => {
+      settled = true;
+      clearTimeout(timer);
+      socket?.close();
+    };
+    const fail = (error: Error) => {
+      if (settled) return;
+      stop();
+      reject(error);
+    };
+    const update = (job: PublicJob) => {
+      if (settled) return;
+      onUpdate(job);
+      if (isFinished(job)) {
+        stop();
+        resolve(job);
+      }
+    };
+
+    const schedulePoll = (delay: number) => {
+      clearTimeout(timer);
+      timer = setTimeout(poll, delay);
+    };
+    const poll = async () => {
+      timer = undefined;
+      polling = true;
+      try {
+        update(await fetchJob(jobId));
+      } catch (error) {
+        return fail(error instanceof Error ? error : new Error('Failed to get job'));
+      } finally {
+        polling = false;
+      }
+      if (!settled && timer === undefined) {
+        schedulePoll(socketOpen ? SOCKET_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
+      }
+    };
+
+    if (typeof WebSocket === 'undefined') {
+      poll();
+      return;
+    }
+
+    const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+    socket = new WebSocket(`${protocol}://${window.location.host}${JOB_SOCKET_PATH}`);
+    socket.onopen = () => {
+      socketOpen = true;
+      socket!.send(JSON.stringify({ type: 'subscribe', jobId }));
+    };
+    socket.onmessage = (event) => {
+      const message: JobSocketMessage = JSON.parse(event.data);
+      if (message.type === 'error') {
+        return fail(new Error(message.message));
+      }
+      update(message.job);
+    };
+    const fallBackToPolling = () => {
+      socketOpen = false;
+      if (!settled && !polling) {
+        schedulePoll(0);
+      }
+    };
+    socket.onerror = fallBackToPolling;
+    socket.onclose = fallBackToPolling;
+    // Until the socket opens, and in case it never does
+    schedulePoll(SOCKET_POLL_INTERVAL_MS);
+  });
+}
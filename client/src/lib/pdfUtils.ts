@@ -56,14 +56,5 @@ export async function extractRestOfPages(pdfArrayBuffer: ArrayBuffer): Promise<U
   }
 }
 
-// Function to convert RGB hex to RGB values (0-1)
-export function hexToRgb(hex: string): { r: number; g: number; b: number } {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result
-    ? {
-        r: parseInt(result[1], 16) / 255,
-        g: parseInt(result[2], 16) / 255,
-        b: parseInt(result[3], 16) / 255,
-      }
-    : { r: 0, g: 0, b: 0 };
-}
+// Hex colors are converted the same way the cover renderer does
+export { hexToRgb } from '@shared/layoutRenderer';
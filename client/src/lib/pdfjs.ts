@@ -0,0 +1,8 @@
+import * as pdfjsLib from 'pdfjs-dist';
+
+// pdf.js configured for the app, shared by every component that draws PDF pages
+
+// Set worker path to CDN
+pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+
+export { pdfjsLib };
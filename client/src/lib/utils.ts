@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// API errors arrive as "<status>: <json body>"; show the server's message
+export function getErrorMessage(error: unknown) {
+  if (!(error instanceof Error)) {
+    return 'An unknown error occurred';
+  }
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useLocation, useSearch } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
@@ -7,11 +7,19 @@ import { useAuth } from '@/components/AuthContext';
 import PDFPreview from '@/components/PDFPreview';
 import TemplateSelection from '@/components/TemplateSelection';
 import CustomizationPanel, { PDFCustomizations } from '@/components/CustomizationPanel';
+import CoverCanvas from '@/components/CoverCanvas';
+import VersionHistoryPanel from '@/components/VersionHistoryPanel';
+import ShareDialog from '@/components/ShareDialog';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import { Download, Share2, Loader2, Info, CheckCircle, ArrowRight, FileText } from 'lucide-react';
+import { useCoverPreview } from '@/hooks/use-cover-preview';
+import { useCustomizationHistory } from '@/hooks/use-customization-history';
+import { Download, Share2, Loader2, Info, CheckCircle, ArrowRight, FileText, Move, Undo2, Redo2 } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import { followJob } from '@/lib/jobs';
 import { Template, Document } from '@shared/schema';
+import type { LayoutBox } from '@shared/templateLayout';
 import { SiLinkedin } from 'react-icons/si';
 import { OnboardingTooltip, OnboardingStep } from '@/components/OnboardingTooltip';
 import { 
@@ -23,21 +31,55 @@ import {
   BreadcrumbSeparator 
 } from '@/components/ui/breadcrumb';
 
+// Summarize where the generated pages go in the downloaded PDF
+function describePageArrangement(customizations: PDFCustomizations | null) {
+  if (!customizations) return null;
+
+  let placement;
+  switch (customizations.coverMode) {
+    case 'prepend':
+      placement = 'Cover added before page 1';
+      break;
+    case 'replace-range': {
+      const count = customizations.replacePageCount ?? 1;
+      placement = count > 1 ? `Cover replaces pages 1–${count}` : 'Cover replaces page 1';
+      break;
+    }
+    default:
+      placement = 'Cover replaces page 1';
+  }
+
+  return customizations.backCover ? `${placement} · Back cover added at the end` : placement;
+}
+
 export default function Editor() {
   const search = useSearch();
   const params = new URLSearchParams(search);
   const documentId = params.get('id');
   const [, setLocation] = useLocation();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const { toast } = useToast();
   
   const [selectedTemplateId, setSelectedTemplateId] = useState<number | undefined>();
-  const [customizations, setCustomizations] = useState<PDFCustomizations | null>(null);
+  const {
+    customizations,
+    load: loadCustomizations,
+    replace: replaceCustomizations,
+    record: recordCustomizations,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useCustomizationHistory<PDFCustomizations>(documentId);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [customizedCoverPageUrl, setCustomizedCoverPageUrl] = useState<string | null>(null);
   const [currentStep, setCurrentStep] = useState<'template' | 'customize' | 'preview'>('template');
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [showFeedback, setShowFeedback] = useState(false);
+  const [previewMode, setPreviewMode] = useState<'preview' | 'canvas'>('preview');
+  // The PDF being shared while the share dialog is open
+  const [sharePdfUrl, setSharePdfUrl] = useState<string | null>(null);
+  // The panel reports its values when it mounts, which isn't an edit to undo
+  const panelMounting = useRef(true);
 
   // Fetch document details
   const { data: document, isLoading: isDocumentLoading } = useQuery<Document>({
@@ -45,25 +87,45 @@ export default function Editor() {
     enabled: !!documentId,
   });
 
-  // Apply template and customizations
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ['/api/templates'],
+  });
+  const selectedTemplate = templates.find(template => template.id === selectedTemplateId);
+
+  // The cover is rendered in the browser as the user edits; the server only
+  // renders the final download
+  const { url: coverPreviewUrl, isRendering: isCoverRendering } = useCoverPreview(documentId, selectedTemplate, customizations);
+
+  // Last template and customizations saved with the document; saving again
+  // without changes would only add a duplicate version to the history
+  const savedCustomizations = useRef<string | null>(null);
+
+  const saveCustomizations = async () => {
+    const body = JSON.stringify({ templateId: selectedTemplateId, customizations });
+    if (body === savedCustomizations.current) {
+      return;
+    }
+    
+    await apiRequest("POST", `/api/documents/${documentId}/customize`, {
+      templateId: selectedTemplateId,
+      customizations
+    });
+    savedCustomizations.current = body;
+    queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/versions`] });
+  };
+
+  // Save the template and customizations with the document
   const { mutate: applyChanges, isPending: isApplying } = useMutation({
     mutationFn: async () => {
       if (!documentId || !selectedTemplateId || !customizations) {
         throw new Error("Missing required data");
       }
       
-      // The apiRequest function already returns the JSON parsed data
-      return await apiRequest("POST", `/api/documents/${documentId}/customize`, {
-        templateId: selectedTemplateId,
-        customizations
-      });
+      await saveCustomizations();
     },
-    onSuccess: (data) => {
-      if (data && data.previewUrl) {
-        setCustomizedCoverPageUrl(data.previewUrl);
-      } else if (data && data.coverPreviewUrl) {
-        setCustomizedCoverPageUrl(data.coverPreviewUrl);
-      }
+    onSuccess: () => {
+      setShowFeedback(true);
+      setCurrentStep('preview');
       
       toast({
         title: "Changes applied successfully",
@@ -84,13 +146,30 @@ export default function Editor() {
   });
 
   // Download PDF
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
   const { mutate: downloadPdf, isPending: isDownloading } = useMutation({
     mutationFn: async () => {
       if (!documentId) {
         throw new Error("Document ID is required");
       }
       
-      const response = await fetch(`/api/documents/${documentId}/download`, {
+      let downloadUrl = `/api/documents/${documentId}/download`;
+
+      // Save the latest customizations so the download matches the preview,
+      // then render it in the background, following its progress
+      if (selectedTemplateId && customizations) {
+        await saveCustomizations();
+
+        setDownloadProgress(0);
+        const job = await apiRequest('POST', `/api/documents/${documentId}/jobs`, { kind: 'modified-pdf' });
+        const finishedJob = await followJob(job.id, update => setDownloadProgress(update.progress));
+        if (finishedJob.status === 'failed' || !finishedJob.resultUrl) {
+          throw new Error(finishedJob.error || "Failed to render PDF");
+        }
+        downloadUrl = finishedJob.resultUrl;
+      }
+      
+      const response = await fetch(downloadUrl, {
         credentials: 'include',
       });
       
@@ -112,6 +191,7 @@ export default function Editor() {
       window.URL.revokeObjectURL(url);
       window.document.body.removeChild(a);
     },
+    onSettled: () => setDownloadProgress(null),
     onError: (error) => {
       toast({
         title: "Download failed",
@@ -122,24 +202,20 @@ export default function Editor() {
     }
   });
 
-  // Share to LinkedIn
-  const { mutate: shareToLinkedIn, isPending: isSharing } = useMutation({
+  // Open the share dialog once the latest customizations are saved, so the
+  // post and its preview match what's in the editor
+  const { mutate: openShareDialog, isPending: isPreparingShare } = useMutation({
     mutationFn: async () => {
-      if (!documentId) {
-        throw new Error("Document ID is required");
+      if (selectedTemplateId && customizations) {
+        await saveCustomizations();
       }
-      
-      await apiRequest("POST", `/api/documents/${documentId}/share-linkedin`, {});
     },
     onSuccess: () => {
-      toast({
-        title: "Shared to LinkedIn successfully",
-        duration: 3000,
-      });
+      setSharePdfUrl(`/api/documents/${documentId}/download?t=${Date.now()}`);
     },
     onError: (error) => {
       toast({
-        title: "Share failed",
+        title: "Failed to save changes",
         description: error instanceof Error ? error.message : "An unknown error occurred",
         variant: "destructive",
         duration: 3000,
@@ -150,24 +226,22 @@ export default function Editor() {
   // Set preview URL when document is loaded
   useEffect(() => {
     if (document) {
-      setPreviewUrl(`/api/documents/${document.id}/preview?t=${Date.now()}`);
+      setPreviewUrl(`/api/documents/${document.publicId}/preview?t=${Date.now()}`);
       
-      // Set the customized cover page URL if document has been customized
       if (document.isModified) {
-        setCustomizedCoverPageUrl(`/api/documents/${document.id}/cover-preview?t=${Date.now()}`);
         setCurrentStep('preview');
       }
       
       // If document has customizations, set them
       if (document.customizations) {
         const docCustomizations = JSON.parse(document.customizations as string);
-        setCustomizations(docCustomizations);
+        loadCustomizations(docCustomizations);
         if (docCustomizations.templateId) {
           setSelectedTemplateId(docCustomizations.templateId);
         }
       }
     }
-  }, [document]);
+  }, [document, loadCustomizations]);
 
   // Redirect to home if no document ID
   useEffect(() => {
@@ -203,7 +277,7 @@ export default function Editor() {
     
     // Initialize customizations if they don't exist yet
     if (!customizations) {
-      setCustomizations({
+      loadCustomizations({
         title: "Presentation Title",
         subtitle: "Subtitle or Tagline",
         presenter: "",
@@ -212,8 +286,13 @@ export default function Editor() {
         fontFamily: 'Roboto',
         titleSize: 'Medium',
         titleAlignment: 'center',
-        backgroundStyle: 'gradient1',
-        backgroundOpacity: 100
+        backgroundStyle: 'none',
+        backgroundOpacity: 100,
+        pageSize: 'auto',
+        coverMode: 'replace',
+        replacePageCount: 1,
+        backCover: false,
+        closingText: 'Thank you'
       });
     }
     
@@ -221,36 +300,67 @@ export default function Editor() {
     setCurrentStep('customize');
   };
 
-  const handleCustomizationChange = (newCustomizations: PDFCustomizations) => {
-    setCustomizations(newCustomizations);
+  // Element positions are edited on the canvas rather than in the panel, so
+  // keep the canvas's boxes when the panel reports its fields
+  const handleCustomizationChange = useCallback((newCustomizations: PDFCustomizations) => {
+    const update = (prev: PDFCustomizations | null) => ({ ...newCustomizations, elementBoxes: prev?.elementBoxes });
+    if (panelMounting.current) {
+      panelMounting.current = false;
+      replaceCustomizations(update);
+      return;
+    }
+    recordCustomizations(update);
+    setShowFeedback(false);
+  }, [replaceCustomizations, recordCustomizations]);
+
+  const handleElementBoxesChange = (elementBoxes: Record<string, LayoutBox>) => {
+    recordCustomizations(prev => ({ ...prev!, elementBoxes }));
+    setShowFeedback(false);
+  };
+
+  // Restoring a version is itself a step that can be undone
+  const handleRestoreVersion = (restored: PDFCustomizations & { templateId: number }) => {
+    const { templateId, ...restoredCustomizations } = restored;
+    setSelectedTemplateId(templateId);
+    recordCustomizations(restoredCustomizations);
+    savedCustomizations.current = JSON.stringify({ templateId, customizations: restoredCustomizations });
   };
 
+  const handleUndo = useCallback(() => {
+    undo();
+    setShowFeedback(false);
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    redo();
+    setShowFeedback(false);
+  }, [redo]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), also while typing in a field, since
+  // text edits are part of the history
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'z') {
+        return;
+      }
+      if (event.shiftKey ? !canRedo : !canUndo) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canUndo, canRedo, handleUndo, handleRedo]);
+
   const handleApplyChanges = () => {
     if (selectedTemplateId && customizations) {
-      // Track the document ID we're customizing
-      const currentDocId = documentId;
-      
-      // Show feedback to user while changes are being applied
-      setShowFeedback(true);
-      
-      // Call the API to apply customizations
       applyChanges();
-      
-      // Set a timeout to update UI and hide feedback
-      setTimeout(() => {
-        setShowFeedback(false);
-        
-        // If the document ID is still the same, proceed with UI updates
-        if (currentDocId === documentId) {
-          // Move to preview step after applying changes
-          setCurrentStep('preview');
-          
-          // Force refresh preview URL to ensure the latest version is shown
-          if (documentId) {
-            setCustomizedCoverPageUrl(`/api/documents/${documentId}/cover-preview?t=${Date.now()}`);
-          }
-        }
-      }, 2000);
     } else {
       toast({
         title: "Missing information",
@@ -340,7 +450,7 @@ export default function Editor() {
           {/* Left panel - Preview and templates */}
           <div className="w-full lg:w-2/3">
             {/* Preview section */}
-            <div id="preview-section" className={`bg-white rounded-lg shadow-sm border ${customizedCoverPageUrl ? 'border-[#0077B5]' : 'border-gray-100'} p-6 mb-6 transition-all duration-300`}>
+            <div id="preview-section" className={`bg-white rounded-lg shadow-sm border ${coverPreviewUrl ? 'border-[#0077B5]' : 'border-gray-100'} p-6 mb-6 transition-all duration-300`}>
               <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-medium text-neutral-900">
                   Preview
@@ -351,15 +461,50 @@ export default function Editor() {
                   )}
                 </h2>
                 <div className="flex space-x-2">
+                  {selectedTemplateId && customizations && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={handleUndo}
+                        disabled={!canUndo}
+                        aria-label="Undo"
+                        title="Undo (Ctrl+Z)"
+                      >
+                        <Undo2 className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={handleRedo}
+                        disabled={!canRedo}
+                        aria-label="Redo"
+                        title="Redo (Ctrl+Shift+Z)"
+                      >
+                        <Redo2 className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                    </>
+                  )}
+                  {selectedTemplateId && customizations && (
+                    <Button
+                      variant="outline"
+                      className={`flex items-center ${previewMode === 'canvas' ? 'bg-[#E8F4F9] text-[#0077B5] border-[#0077B5]' : ''}`}
+                      onClick={() => setPreviewMode(previewMode === 'canvas' ? 'preview' : 'canvas')}
+                      aria-pressed={previewMode === 'canvas'}
+                    >
+                      <Move className="h-4 w-4 mr-2" aria-hidden="true" />
+                      Arrange Layout
+                    </Button>
+                  )}
                   {isAuthenticated && (
                     <Button
                       variant="outline"
                       className="text-[#0077B5] border-[#0077B5] hover:bg-[#E8F4F9] flex items-center"
-                      onClick={() => shareToLinkedIn()}
-                      disabled={isSharing}
+                      onClick={() => openShareDialog()}
+                      disabled={isPreparingShare}
                       aria-label="Share to LinkedIn"
                     >
-                      {isSharing ? (
+                      {isPreparingShare ? (
                         <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />
                       ) : (
                         <SiLinkedin className="h-4 w-4 mr-2" aria-hidden="true" />
@@ -370,30 +515,47 @@ export default function Editor() {
                 </div>
               </div>
               
-              <div className="grid grid-cols-1 gap-6">
-                {/* Enhanced PDF panel */}
-                <div className="bg-white rounded-lg p-6 border border-[#0077B5]">
-                  <div className="mb-4 text-center">
-                    <span className="inline-block bg-yellow-100 text-yellow-800 text-xs font-bold px-2.5 py-1 rounded">ENHANCED PDF</span>
+              {previewMode === 'canvas' && documentId && selectedTemplateId && customizations ? (
+                <div className="rounded-lg p-6 border border-[#0077B5]">
+                  <CoverCanvas
+                    documentId={documentId}
+                    templateId={selectedTemplateId}
+                    customizations={customizations}
+                    onElementBoxesChange={handleElementBoxesChange}
+                  />
+                  <div className="mt-4 flex justify-end">
+                    <Button
+                      className="bg-[#0077B5] hover:bg-[#006195] text-white"
+                      onClick={() => {
+                        handleApplyChanges();
+                        setPreviewMode('preview');
+                      }}
+                      disabled={isApplying}
+                    >
+                      Apply Layout
+                    </Button>
                   </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 gap-6">
+                  {/* Enhanced PDF panel */}
+                  <div className="bg-white rounded-lg p-6 border border-[#0077B5]">
+                    <div className="mb-4 text-center">
+                      <span className="inline-block bg-yellow-100 text-yellow-800 text-xs font-bold px-2.5 py-1 rounded">ENHANCED PDF</span>
+                      {isCoverRendering && (
+                        <Loader2 className="inline-block h-4 w-4 ml-2 text-[#0077B5] animate-spin" aria-label="Updating preview" />
+                      )}
+                      {customizations && (
+                        <p className="mt-2 text-sm text-neutral-600">{describePageArrangement(customizations)}</p>
+                      )}
+                    </div>
                   
-                  <div className="h-[300px] flex flex-col items-center justify-center">
-                    {customizedCoverPageUrl ? (
-                      <div className="w-full h-full flex flex-col items-center justify-center">
-                        <a 
-                          href={customizedCoverPageUrl} 
-                          target="_blank" 
-                          rel="noreferrer"
-                          className="mb-4"
-                        >
-                          <img 
-                            src={customizedCoverPageUrl} 
-                            alt="Enhanced PDF preview" 
-                            className="max-h-64 object-contain"
-                            onError={(e) => e.currentTarget.src = 'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIyNCIgaGVpZ2h0PSIyNCIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJub25lIiBzdHJva2U9IiMwMDc3QjUiIHN0cm9rZS13aWR0aD0iMiIgc3Ryb2tlLWxpbmVjYXA9InJvdW5kIiBzdHJva2UtbGluZWpvaW49InJvdW5kIiBjbGFzcz0ibHVjaWRlIGx1Y2lkZS1maWxlLXRleHQiPjxwYXRoIGQ9Ik0xNC41IDJINmEyIDIgMCAwIDAtMiAydjE2YTIgMiAwIDAgMCAyIDJoMTJhMiAyIDAgMCAwIDItMlY3LjVMOS45IDR6Ii8+PHBvbHlsaW5lIHBvaW50cz0iMTQgMiAxNCAxMCAyMiAxMCIvPjxwYXRoIGQ9Ik0xNiAxM0g4Ii8+PHBhdGggZD0iTTE2IDE3SDgiLz48cGF0aCBkPSJNMTAgOUg4Ii8+PC9zdmc+'}
-                          />
-                        </a>
-                        
+                    {previewUrl && coverPreviewUrl ? (
+                      <div className="flex flex-col items-center">
+                        <div className="w-full mb-4">
+                          <PDFPreview pdfUrl={previewUrl} customizedCoverPage={coverPreviewUrl} />
+                        </div>
+                      
                         <Button
                           variant="default"
                           className="bg-[#0077B5] hover:bg-[#006195] text-white flex items-center"
@@ -407,25 +569,37 @@ export default function Editor() {
                           )}
                           Download Enhanced PDF
                         </Button>
+                        {downloadProgress !== null && (
+                          <div className="w-full max-w-xs mt-3">
+                            <Progress value={downloadProgress} className="h-2" aria-label="Rendering PDF" />
+                            <p className="mt-1 text-xs text-center text-neutral-600">Rendering PDF… {downloadProgress}%</p>
+                          </div>
+                        )}
                       </div>
                     ) : (
-                      <div className="text-center py-4 text-neutral-500">
-                        <FileText size={64} className="mx-auto mb-4 text-gray-300" />
-                        <p className="text-gray-600">Apply customizations to see your enhanced PDF</p>
+                      <div className="h-[300px] flex flex-col items-center justify-center">
+                        <div className="text-center py-4 text-neutral-500">
+                          <FileText size={64} className="mx-auto mb-4 text-gray-300" />
+                          <p className="text-gray-600">Choose a template to see your enhanced PDF</p>
+                        </div>
                       </div>
                     )}
                   </div>
                 </div>
-              </div>
+              )}
               
-              {!customizedCoverPageUrl && (
+              {!coverPreviewUrl && previewMode === 'preview' && (
                 <div className="text-center py-4 text-neutral-500 border-t border-dashed border-gray-200 mt-4">
                   <Info className="h-5 w-5 mx-auto mb-2 text-[#0077B5]" />
-                  <p>Select a template and apply customizations to see your enhanced cover page</p>
+                  <p>Select a template to see your enhanced cover page</p>
                 </div>
               )}
             </div>
             
+            {documentId && (
+              <VersionHistoryPanel documentId={documentId} onRestore={handleRestoreVersion} />
+            )}
+            
             {/* Template selection section */}
             <div id="template-selection-section" className="mb-6">
               <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 mb-2">
@@ -460,7 +634,7 @@ export default function Editor() {
                 templateId={selectedTemplateId}
                 onCustomizationChange={handleCustomizationChange}
                 onApplyChanges={handleApplyChanges}
-                initialCustomizations={customizations}
+                customizations={customizations}
               />
             )}
             
@@ -479,6 +653,18 @@ export default function Editor() {
         </div>
       </main>
       
+      {documentId && sharePdfUrl && (
+        <ShareDialog
+          documentId={documentId}
+          pdfUrl={sharePdfUrl}
+          authorName={user?.fullName || user?.username}
+          open
+          onOpenChange={(open) => {
+            if (!open) setSharePdfUrl(null);
+          }}
+        />
+      )}
+      
       {/* Onboarding tooltip for guided tour experience */}
       <OnboardingTooltip 
         steps={onboardingSteps}
@@ -0,0 +1,401 @@
+import { useEffect, useState } from 'react';
+import { Helmet } from 'react-helmet';
+import { useLocation } from 'wouter';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ChevronLeft, ChevronRight, Copy, Download, Loader2, RotateCcw, Search, Trash2 } from 'lucide-react';
+import type { Document, Template } from '@shared/schema';
+import type { DocumentListPage, DocumentSort } from '@shared/documentLibrary';
+import { useAuth } from '@/components/AuthContext';
+import DocumentThumbnail from '@/components/DocumentThumbnail';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { getErrorMessage } from '@/lib/utils';
+
+const PAGE_SIZE = 24;
+
+interface LibraryFilters {
+  search: string;
+  templateId: string;
+  modified: string;
+  from: string;
+  to: string;
+  // Show deleted documents instead of the ones in use
+  deleted: boolean;
+  sort: DocumentSort;
+}
+
+const defaultFilters: LibraryFilters = { search: '', templateId: 'all', modified: 'all', from: '', to: '', deleted: false, sort: 'recent' };
+
+// The query string for GET /api/documents, leaving out filters that aren't set
+export function libraryQueryString(filters: LibraryFilters, page: number) {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE), sort: filters.sort });
+  if (filters.search.trim()) params.set('search', filters.search.trim());
+  if (filters.templateId !== 'all') params.set('templateId', filters.templateId);
+  if (filters.modified !== 'all') params.set('modified', filters.modified);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.deleted) params.set('deleted', 'true');
+  return params.toString();
+}
+
+// The cover title, when the document has been customized
+function documentTitle(document: Document): string | undefined {
+  try {
+    const customizations = typeof document.customizations === 'string'
+      ? JSON.parse(document.customizations)
+      : document.customizations as { title?: string } | null;
+    return customizations?.title || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export default function Library() {
+  const { isAuthenticated, loading, login } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<LibraryFilters>(defaultFilters);
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Search once typing pauses
+  useEffect(() => {
+    if (searchInput === filters.search) return;
+    const timeout = setTimeout(() => updateFilters({ search: searchInput }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const updateFilters = (changes: Partial<LibraryFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setPage(1);
+  };
+
+  // A selection only applies to the page it was made on
+  useEffect(() => {
+    setSelected(new Set());
+  }, [filters, page]);
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ['/api/templates'],
+    enabled: isAuthenticated,
+  });
+
+  const { data: library, isLoading } = useQuery<DocumentListPage<Document>>({
+    queryKey: [`/api/documents?${libraryQueryString(filters, page)}`],
+    enabled: isAuthenticated,
+  });
+
+  const documents = library?.documents ?? [];
+  const pageCount = library ? Math.max(1, Math.ceil(library.total / library.pageSize)) : 1;
+  const selectedIds = Array.from(selected);
+
+  const refreshLibrary = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/documents') });
+  };
+
+  const onBulkError = (title: string) => (error: unknown) => {
+    toast({ title, description: getErrorMessage(error), variant: 'destructive' });
+  };
+
+  // Deleted documents are kept until their purge date, then removed for good.
+  // Deleting them again from the deleted view removes them right away.
+  const deleteMutation = useMutation({
+    mutationFn: (): Promise<{ purgeAt?: string }> =>
+      apiRequest('POST', '/api/documents/bulk-delete', { documentIds: selectedIds, permanent: filters.deleted }),
+    onSuccess: ({ purgeAt }) => {
+      toast({
+        title: selectedIds.length === 1 ? 'Document deleted' : `${selectedIds.length} documents deleted`,
+        description: purgeAt && `You can restore them from Deleted documents until ${format(new Date(purgeAt), 'PP')}.`,
+      });
+      setSelected(new Set());
+      refreshLibrary();
+    },
+    onError: onBulkError("Couldn't delete the documents"),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/documents/bulk-restore', { documentIds: selectedIds }),
+    onSuccess: () => {
+      toast({ title: selectedIds.length === 1 ? 'Document restored' : `${selectedIds.length} documents restored` });
+      setSelected(new Set());
+      refreshLibrary();
+    },
+    onError: onBulkError("Couldn't restore the documents"),
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/documents/bulk-duplicate', { documentIds: selectedIds }),
+    onSuccess: () => {
+      toast({ title: selectedIds.length === 1 ? 'Document duplicated' : `${selectedIds.length} documents duplicated` });
+      setSelected(new Set());
+      refreshLibrary();
+    },
+    onError: onBulkError("Couldn't duplicate the documents"),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/documents/bulk-download', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentIds: selectedIds }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = window.document.createElement('a');
+      a.href = url;
+      a.download = 'documents.zip';
+      window.document.body.appendChild(a);
+      a.click();
+
+      window.URL.revokeObjectURL(url);
+      window.document.body.removeChild(a);
+    },
+    onError: onBulkError('Download failed'),
+  });
+
+  const toggleSelected = (documentId: string, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(documentId);
+      } else {
+        next.delete(documentId);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = documents.length > 0 && documents.every(document => selected.has(document.publicId));
+  const bulkBusy = deleteMutation.isPending || restoreMutation.isPending || duplicateMutation.isPending || downloadMutation.isPending;
+
+  if (!loading && !isAuthenticated) {
+    return (
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+        <h1 className="text-2xl font-medium text-neutral-900 mb-2">Your documents</h1>
+        <p className="text-neutral-600 mb-6">Sign in to see every document you've enhanced.</p>
+        <Button onClick={login} className="bg-[#0077B5] hover:bg-[#006195] text-white">Sign in</Button>
+      </main>
+    );
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>My Documents - PresentPro</title>
+      </Helmet>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-medium text-neutral-900">My Documents</h1>
+          {library && (
+            <span className="text-sm text-neutral-500">
+              {library.total === 1 ? '1 document' : `${library.total} documents`}
+            </span>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6 items-end mb-6">
+          <div className="md:col-span-3 lg:col-span-2 space-y-1">
+            <Label htmlFor="library-search">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-neutral-400" />
+              <Input
+                id="library-search"
+                className="pl-8"
+                placeholder="File name or title"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="library-template">Template</Label>
+            <Select value={filters.templateId} onValueChange={(templateId) => updateFilters({ templateId })}>
+              <SelectTrigger id="library-template"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any template</SelectItem>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="library-modified">Status</Label>
+            <Select value={filters.modified} onValueChange={(modified) => updateFilters({ modified })}>
+              <SelectTrigger id="library-modified"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All documents</SelectItem>
+                <SelectItem value="true">Customized</SelectItem>
+                <SelectItem value="false">Not customized</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="library-from">Uploaded from</Label>
+            <Input id="library-from" type="date" value={filters.from} onChange={(e) => updateFilters({ from: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="library-to">Uploaded to</Label>
+            <Input id="library-to" type="date" value={filters.to} onChange={(e) => updateFilters({ to: e.target.value })} />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="library-select-all"
+              checked={allSelected}
+              disabled={documents.length === 0}
+              onCheckedChange={(checked) => setSelected(checked ? new Set(documents.map(document => document.publicId)) : new Set())}
+            />
+            <Label htmlFor="library-select-all" className="text-sm font-normal">
+              {selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+            </Label>
+            {selected.size > 0 && filters.deleted && (
+              <div className="flex items-center gap-2 ml-4">
+                <Button variant="outline" size="sm" disabled={bulkBusy} onClick={() => restoreMutation.mutate()}>
+                  <RotateCcw className="mr-1 h-4 w-4" />
+                  Restore
+                </Button>
+                <Button variant="outline" size="sm" disabled={bulkBusy} onClick={() => setConfirmDelete(true)} className="text-red-600">
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Delete forever
+                </Button>
+              </div>
+            )}
+            {selected.size > 0 && !filters.deleted && (
+              <div className="flex items-center gap-2 ml-4">
+                <Button variant="outline" size="sm" disabled={bulkBusy} onClick={() => downloadMutation.mutate()}>
+                  {downloadMutation.isPending ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Download className="mr-1 h-4 w-4" />}
+                  Download zip
+                </Button>
+                <Button variant="outline" size="sm" disabled={bulkBusy} onClick={() => duplicateMutation.mutate()}>
+                  <Copy className="mr-1 h-4 w-4" />
+                  Duplicate
+                </Button>
+                <Button variant="outline" size="sm" disabled={bulkBusy} onClick={() => deleteMutation.mutate()} className="text-red-600">
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Delete
+                </Button>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="library-deleted" checked={filters.deleted} onCheckedChange={(deleted) => updateFilters({ deleted })} />
+            <Label htmlFor="library-deleted" className="text-sm font-normal mr-4">Deleted documents</Label>
+            <Label htmlFor="library-sort" className="text-sm font-normal">Sort by</Label>
+            <Select value={filters.sort} onValueChange={(sort) => updateFilters({ sort: sort as DocumentSort })}>
+              <SelectTrigger id="library-sort" className="w-36"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recent">Most recent</SelectItem>
+                <SelectItem value="name">Name</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 text-[#0077B5] animate-spin" aria-label="Loading documents" />
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-center text-neutral-500 py-16">
+            {filters.deleted ? 'No deleted documents match these filters.' : 'No documents match these filters.'}
+          </p>
+        ) : (
+          <ul className="grid gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+            {documents.map(document => {
+              const title = documentTitle(document);
+              return (
+                <li key={document.publicId} className="relative bg-white border border-gray-100 rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow">
+                  <Checkbox
+                    className="absolute top-2 left-2 z-10 bg-white"
+                    aria-label={`Select ${document.originalName}`}
+                    checked={selected.has(document.publicId)}
+                    onCheckedChange={(checked) => toggleSelected(document.publicId, checked === true)}
+                  />
+                  <button
+                    type="button"
+                    className="block w-full text-left disabled:cursor-default"
+                    disabled={filters.deleted}
+                    onClick={() => setLocation(`/editor?id=${document.publicId}`)}
+                  >
+                    <DocumentThumbnail documentId={document.publicId} isModified={document.isModified} name={document.originalName} />
+                    <div className="p-3">
+                      <p className="font-medium text-neutral-900 truncate">{document.originalName}</p>
+                      {title && <p className="text-sm text-neutral-600 truncate">{title}</p>}
+                      <p className="text-xs text-neutral-500 mt-1">
+                        {formatDistanceToNow(new Date(document.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {pageCount > 1 && (
+          <nav aria-label="Pagination" className="flex items-center justify-center gap-4 mt-8">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="mr-1 h-4 w-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-neutral-600">Page {page} of {pageCount}</span>
+            <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+              Next
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Button>
+          </nav>
+        )}
+      </main>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {selected.size === 1 ? 'Delete this document forever?' : `Delete ${selected.size} documents forever?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Their covers and version history are deleted too. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteMutation.mutate()} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, type FormEvent } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/components/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/utils";
+import { CheckCircle2, Loader2 } from "lucide-react";
+
+// Landing page for the link in the password reset email
+export default function ResetPassword() {
+  const token = new URLSearchParams(useSearch()).get("token");
+  const { login } = useAuth();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [mismatch, setMismatch] = useState(false);
+
+  const resetMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/reset-password", { token, password }),
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setMismatch(password !== confirmPassword);
+    if (password === confirmPassword) {
+      resetMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="w-full flex items-center justify-center py-16">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 space-y-4">
+          {resetMutation.isSuccess ? (
+            <div className="space-y-4 text-center">
+              <CheckCircle2 className="h-10 w-10 text-green-600 mx-auto" />
+              <h1 className="text-xl font-medium text-neutral-900">Password updated</h1>
+              <p className="text-sm text-neutral-600">You can now sign in with your new password.</p>
+              <Button onClick={login}>Sign in</Button>
+            </div>
+          ) : !token ? (
+            <div className="space-y-4 text-center">
+              <h1 className="text-xl font-medium text-neutral-900">Reset link incomplete</h1>
+              <p className="text-sm text-neutral-600">Open the link from your email again, or request a new one.</p>
+              <Button asChild variant="outline">
+                <Link href="/">Go to PresentPro</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <h1 className="text-xl font-medium text-neutral-900">Choose a new password</h1>
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={8}
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+              {(mismatch || resetMutation.isError) && (
+                <p className="text-sm text-red-600" role="alert">
+                  {mismatch ? "Passwords don't match" : getErrorMessage(resetMutation.error)}
+                </p>
+              )}
+              <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+                {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Update password
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/components/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/utils";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+// Landing page for the link in the verification email
+export default function VerifyEmail() {
+  const token = new URLSearchParams(useSearch()).get("token");
+  const { refreshUser } = useAuth();
+  const requested = useRef(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: (token: string) => apiRequest("POST", "/api/auth/verify-email", { token }),
+    onSuccess: () => refreshUser(),
+  });
+
+  // Tokens are single use, so only ever send it once
+  useEffect(() => {
+    if (token && !requested.current) {
+      requested.current = true;
+      verifyMutation.mutate(token);
+    }
+  }, [token]);
+
+  return (
+    <div className="w-full flex items-center justify-center py-16">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 space-y-4 text-center">
+          {!token || verifyMutation.isError ? (
+            <>
+              <XCircle className="h-10 w-10 text-red-500 mx-auto" />
+              <h1 className="text-xl font-medium text-neutral-900">We couldn't verify your email</h1>
+              <p className="text-sm text-neutral-600">
+                {token ? getErrorMessage(verifyMutation.error) : "This verification link is incomplete."}
+              </p>
+            </>
+          ) : verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle2 className="h-10 w-10 text-green-600 mx-auto" />
+              <h1 className="text-xl font-medium text-neutral-900">Email verified</h1>
+              <p className="text-sm text-neutral-600">Thanks for confirming your email address.</p>
+            </>
+          ) : (
+            <>
+              <Loader2 className="h-10 w-10 text-[#0077B5] mx-auto animate-spin" />
+              <p className="text-sm text-neutral-600">Verifying your email address...</p>
+            </>
+          )}
+          <Button asChild variant="outline">
+            <Link href="/">Go to PresentPro</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -15,15 +15,16 @@ const createTestQueryClient = () => new QueryClient({
 });
 
 // Mock api calls
-vi.mock('../lib/queryClient', () => ({
-  apiRequest: vi.fn(),
-  getQueryFn: vi.fn(),
-  queryClient: {
-    invalidateQueries: vi.fn(),
-    setQueryData: vi.fn()
-  },
-  throwIfResNotOk: vi.fn(),
-}));
+// App brings its own QueryClientProvider, so the mocked client has to be a real one
+vi.mock('../lib/queryClient', async () => {
+  const { QueryClient } = await vi.importActual<typeof import('@tanstack/react-query')>('@tanstack/react-query');
+  return {
+    apiRequest: vi.fn(),
+    getQueryFn: () => async () => null,
+    queryClient: new QueryClient({ defaultOptions: { queries: { retry: false } } }),
+    throwIfResNotOk: vi.fn(),
+  };
+});
 
 // Mock wouter navigation
 vi.mock('wouter', async () => {
@@ -70,7 +70,7 @@ describe('Customization Flow', () => {
             templateId={1} 
             onCustomizationChange={mockOnCustomizationChange} 
             onApplyChanges={mockOnApplyChanges} 
-            initialCustomizations={defaultCustomizations}
+            customizations={defaultCustomizations}
           />
         </AuthProvider>
       </QueryClientProvider>
@@ -95,7 +95,7 @@ describe('Customization Flow', () => {
             templateId={1} 
             onCustomizationChange={mockOnCustomizationChange} 
             onApplyChanges={mockOnApplyChanges} 
-            initialCustomizations={defaultCustomizations}
+            customizations={defaultCustomizations}
           />
         </AuthProvider>
       </QueryClientProvider>
@@ -132,7 +132,7 @@ describe('Customization Flow', () => {
             templateId={1} 
             onCustomizationChange={mockOnCustomizationChange} 
             onApplyChanges={mockOnApplyChanges} 
-            initialCustomizations={defaultCustomizations}
+            customizations={defaultCustomizations}
           />
         </AuthProvider>
       </QueryClientProvider>
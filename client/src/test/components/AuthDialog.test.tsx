@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { AuthProvider } from '../../components/AuthContext';
+import Header from '../../components/Header';
+import { apiRequest } from '../../lib/queryClient';
+import { renderWithProviders } from '../utils/test-utils';
+
+vi.mock('../../lib/queryClient', () => ({
+  apiRequest: vi.fn(),
+}));
+
+describe('AuthDialog Component', () => {
+  const renderSignedOut = async () => {
+    renderWithProviders(
+      <AuthProvider>
+        <Header />
+      </AuthProvider>
+    );
+    await userEvent.click(await screen.findByRole('button', { name: 'Sign in' }));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Nobody is signed in
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 401 });
+  });
+
+  it('signs in with email and password', async () => {
+    vi.mocked(apiRequest).mockResolvedValue({ id: 1, username: 'casey@example.com', email: 'casey@example.com', fullName: 'Casey Kim' });
+    await renderSignedOut();
+
+    expect(screen.getByRole('button', { name: /Continue with LinkedIn/i })).toBeInTheDocument();
+    await userEvent.type(screen.getByLabelText('Email'), 'casey@example.com');
+    await userEvent.type(screen.getByLabelText('Password'), 'correct horse');
+    await userEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('POST', '/api/auth/login', { email: 'casey@example.com', password: 'correct horse' });
+      expect(screen.getByText('Casey Kim')).toBeInTheDocument();
+    });
+  });
+
+  it("shows the server's message when sign-in fails", async () => {
+    vi.mocked(apiRequest).mockRejectedValue(new Error('401: {"message":"Invalid email or password"}'));
+    await renderSignedOut();
+
+    await userEvent.type(screen.getByLabelText('Email'), 'casey@example.com');
+    await userEvent.type(screen.getByLabelText('Password'), 'wrong password');
+    await userEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid email or password');
+  });
+
+  it('creates an account', async () => {
+    vi.mocked(apiRequest).mockResolvedValue({ id: 2, username: 'sam@example.com', email: 'sam@example.com', fullName: 'Sam Lee', emailVerified: false });
+    await renderSignedOut();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Create an account' }));
+    await userEvent.type(screen.getByLabelText('Full name'), 'Sam Lee');
+    await userEvent.type(screen.getByLabelText('Email'), 'sam@example.com');
+    await userEvent.type(screen.getByLabelText('Password'), 'a long password');
+    await userEvent.click(screen.getByRole('button', { name: 'Create account' }));
+
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('POST', '/api/auth/register', {
+        email: 'sam@example.com',
+        password: 'a long password',
+        fullName: 'Sam Lee',
+      });
+    });
+  });
+
+  it('requests a password reset link', async () => {
+    vi.mocked(apiRequest).mockResolvedValue({ message: 'sent' });
+    await renderSignedOut();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Forgot password?' }));
+    await userEvent.type(screen.getByLabelText('Email'), 'casey@example.com');
+    await userEvent.click(screen.getByRole('button', { name: 'Send reset link' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent("we've sent a link to reset its password");
+    expect(apiRequest).toHaveBeenCalledWith('POST', '/api/auth/forgot-password', { email: 'casey@example.com' });
+  });
+});
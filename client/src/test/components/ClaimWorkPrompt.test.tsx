@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ClaimWorkPrompt from '../../components/ClaimWorkPrompt';
+import { apiRequest } from '../../lib/queryClient';
+import { getClaimTokens, saveClaimToken } from '../../lib/documentClaims';
+import { renderWithProviders } from '../utils/test-utils';
+
+vi.mock('../../lib/queryClient', () => ({
+  apiRequest: vi.fn(),
+}));
+
+vi.mock('../../components/AuthContext', () => ({
+  useAuth: () => ({ isAuthenticated: true }),
+}));
+
+describe('ClaimWorkPrompt Component', () => {
+  const claimable = { id: 1, publicId: 'doc-a', userId: null, originalName: 'Quarterly Review.pdf', createdAt: new Date().toISOString() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    saveClaimToken('doc-a', 'token-a');
+    saveClaimToken('doc-b', 'token-b');
+  });
+
+  it('lists claimable documents and forgets tokens for the rest', async () => {
+    vi.mocked(apiRequest).mockResolvedValue([claimable]);
+    renderWithProviders(<ClaimWorkPrompt />);
+
+    expect(await screen.findByText('Claim your work')).toBeInTheDocument();
+    expect(screen.getByText('Quarterly Review.pdf')).toBeInTheDocument();
+    expect(apiRequest).toHaveBeenCalledWith('POST', '/api/documents/claimable', {
+      claims: [
+        { documentId: 'doc-a', claimToken: 'token-a' },
+        { documentId: 'doc-b', claimToken: 'token-b' },
+      ],
+    });
+    expect(getClaimTokens()).toEqual({ 'doc-a': 'token-a' });
+  });
+
+  it('adds the documents to the account', async () => {
+    vi.mocked(apiRequest).mockResolvedValueOnce([claimable]).mockResolvedValueOnce({ documentIds: ['doc-a'] });
+    renderWithProviders(<ClaimWorkPrompt />);
+
+    await userEvent.click(await screen.findByRole('button', { name: 'Add to my account' }));
+
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenLastCalledWith('POST', '/api/documents/claim', expect.objectContaining({ claims: expect.any(Array) }));
+      expect(screen.queryByText('Claim your work')).not.toBeInTheDocument();
+    });
+    expect(getClaimTokens()).toEqual({});
+  });
+
+  it('shows nothing when there are no claim tokens', () => {
+    localStorage.clear();
+    renderWithProviders(<ClaimWorkPrompt />);
+
+    expect(apiRequest).not.toHaveBeenCalled();
+    expect(screen.queryByText('Claim your work')).not.toBeInTheDocument();
+  });
+});
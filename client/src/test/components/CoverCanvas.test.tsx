@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, fireEvent } from '@testing-library/react';
+import { QueryClient } from '@tanstack/react-query';
+import CoverCanvas from '../../components/CoverCanvas';
+import { PDFCustomizations } from '../../components/CustomizationPanel';
+import { renderWithProviders } from '../utils/test-utils';
+
+describe('CoverCanvas Component', () => {
+  const mockOnElementBoxesChange = vi.fn();
+
+  const template = {
+    id: 1,
+    name: 'Canvas',
+    layout: {
+      version: 1,
+      size: [612, 792],
+      background: '#FFFFFF',
+      elements: [
+        { type: 'rect', box: { left: 0, top: 0, right: 0, height: 200 }, color: { bind: 'colorScheme' } },
+        { type: 'text', slot: 'title', box: { left: 61.2, top: 396, width: 306, height: 79.2 }, size: 'titleSize', color: '#111111' },
+        { type: 'image', slot: 'logo', box: { right: 50, bottom: 60, width: 140, height: 60 } },
+      ],
+    },
+  };
+
+  const customizations: PDFCustomizations = {
+    title: 'Quarterly Review',
+    subtitle: '',
+    presenter: '',
+    date: '',
+    colorScheme: '#0077B5',
+    fontFamily: 'Roboto',
+    titleSize: 'Medium',
+    titleAlignment: 'center',
+    backgroundStyle: 'none',
+    backgroundOpacity: 100,
+    pageSize: 'letter',
+  };
+
+  const renderCanvas = (overrides: Partial<PDFCustomizations> = {}) => {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    queryClient.setQueryData(['/api/templates'], [template]);
+
+    return renderWithProviders(
+      <CoverCanvas
+        documentId="1"
+        templateId={1}
+        customizations={{ ...customizations, ...overrides }}
+        onElementBoxesChange={mockOnElementBoxesChange}
+      />,
+      { queryClient }
+    );
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders every layout element on the page', () => {
+    renderCanvas();
+
+    expect(screen.getByTestId('cover-canvas')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Shape element' })).toBeInTheDocument();
+    expect(screen.getByText('Quarterly Review')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'logo element' })).toBeInTheDocument();
+  });
+
+  it('places elements at their layout position as a share of the page', () => {
+    renderCanvas();
+
+    const title = screen.getByRole('button', { name: 'title element' });
+    expect(title.style.left).toBe('10%');
+    expect(title.style.top).toBe('50%');
+    expect(title.style.width).toBe('50%');
+  });
+
+  it('uses the saved box for a moved element', () => {
+    renderCanvas({ elementBoxes: { title: { left: '20%', top: '30%', width: '40%', height: '10%' } } });
+
+    const title = screen.getByRole('button', { name: 'title element' });
+    expect(parseFloat(title.style.left)).toBeCloseTo(20);
+    expect(parseFloat(title.style.top)).toBeCloseTo(30);
+  });
+
+  it('nudges the selected element with the arrow keys', () => {
+    renderCanvas();
+
+    fireEvent.keyDown(screen.getByRole('button', { name: 'title element' }), { key: 'ArrowRight', shiftKey: true });
+
+    expect(mockOnElementBoxesChange).toHaveBeenCalledWith({
+      title: { left: '11.634%', top: '50%', width: '50%', height: '10%' },
+    });
+  });
+
+  it('resets all moved elements', () => {
+    renderCanvas({ elementBoxes: { shape0: { left: '0%', top: '10%', width: '100%', height: '20%' } } });
+
+    fireEvent.click(screen.getByRole('button', { name: /Reset positions/i }));
+
+    expect(mockOnElementBoxesChange).toHaveBeenCalledWith({});
+  });
+});
@@ -31,7 +31,7 @@ describe('CustomizationPanel Component', () => {
         templateId={1} 
         onCustomizationChange={mockOnCustomizationChange} 
         onApplyChanges={mockOnApplyChanges} 
-        initialCustomizations={defaultCustomizations}
+        customizations={defaultCustomizations}
       />
     );
     
@@ -50,7 +50,7 @@ describe('CustomizationPanel Component', () => {
         templateId={1} 
         onCustomizationChange={mockOnCustomizationChange} 
         onApplyChanges={mockOnApplyChanges} 
-        initialCustomizations={defaultCustomizations}
+        customizations={defaultCustomizations}
       />
     );
     
@@ -77,7 +77,7 @@ describe('CustomizationPanel Component', () => {
         templateId={1} 
         onCustomizationChange={mockOnCustomizationChange} 
         onApplyChanges={mockOnApplyChanges} 
-        initialCustomizations={defaultCustomizations}
+        customizations={defaultCustomizations}
       />
     );
     
@@ -90,4 +90,35 @@ describe('CustomizationPanel Component', () => {
     // Check if onApplyChanges was called
     expect(mockOnApplyChanges).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  it('shows values the editor restores without remounting', async () => {
+    const user = userEvent.setup();
+    const { rerender } = renderWithProviders(
+      <CustomizationPanel 
+        templateId={1} 
+        onCustomizationChange={mockOnCustomizationChange} 
+        onApplyChanges={mockOnApplyChanges} 
+        customizations={defaultCustomizations}
+      />
+    );
+    const titleInput = document.getElementById('title') as HTMLInputElement;
+    await user.click(titleInput);
+    mockOnCustomizationChange.mockClear();
+
+    // As on undo
+    rerender(
+      <CustomizationPanel 
+        templateId={1} 
+        onCustomizationChange={mockOnCustomizationChange} 
+        onApplyChanges={mockOnApplyChanges} 
+        customizations={{ ...defaultCustomizations, title: 'Restored Title' }}
+      />
+    );
+
+    expect(document.getElementById('title')).toBe(titleInput);
+    expect(titleInput).toHaveValue('Restored Title');
+    expect(titleInput).toHaveFocus();
+    // Restored values aren't reported back as an edit
+    expect(mockOnCustomizationChange).not.toHaveBeenCalled();
+  });
+});
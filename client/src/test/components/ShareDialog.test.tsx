@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient } from '@tanstack/react-query';
+import ShareDialog from '../../components/ShareDialog';
+import { apiRequest } from '../../lib/queryClient';
+import { renderWithProviders } from '../utils/test-utils';
+
+vi.mock('../../lib/queryClient', () => ({
+  apiRequest: vi.fn(),
+}));
+
+// The carousel is drawn by pdf.js, which has nothing to render here
+vi.mock('pdfjs-dist', () => ({
+  getDocument: () => ({ promise: new Promise(() => {}) }),
+  version: '2.0.0',
+  GlobalWorkerOptions: { workerSrc: '' },
+}));
+
+describe('ShareDialog Component', () => {
+  const mockOnOpenChange = vi.fn();
+
+  const renderDialog = (scheduledShares: unknown[] = []) => {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false, staleTime: Infinity } } });
+    queryClient.setQueryData(['/api/documents/1/scheduled-shares'], scheduledShares);
+
+    return renderWithProviders(
+      <ShareDialog documentId="1" pdfUrl="/api/documents/1/download" authorName="Casey Kim" open onOpenChange={mockOnOpenChange} />,
+      { queryClient }
+    );
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('previews the post as it is written', async () => {
+    renderDialog();
+
+    await userEvent.type(screen.getByLabelText('Post text'), 'Our Q1 results');
+    await userEvent.type(screen.getByLabelText('Hashtags'), '#results growth{Enter}');
+    await userEvent.click(screen.getByLabelText('Connections only'));
+
+    const preview = screen.getByTestId('post-preview');
+    expect(within(preview).getByText('Casey Kim')).toBeInTheDocument();
+    expect(within(preview).getByText('Our Q1 results')).toBeInTheDocument();
+    expect(within(preview).getByText('#results')).toBeInTheDocument();
+    expect(within(preview).getByText('#growth')).toBeInTheDocument();
+    expect(within(preview).getByText('Connections only')).toBeInTheDocument();
+  });
+
+  it('posts right away with the composed text', async () => {
+    vi.mocked(apiRequest).mockResolvedValue({ postUrn: 'urn:li:share:42' });
+    renderDialog();
+
+    await userEvent.type(screen.getByLabelText('Post text'), 'Our Q1 results');
+    await userEvent.type(screen.getByLabelText('Mentions'), 'Acme Corp');
+    await userEvent.type(screen.getByLabelText('Mention URN'), 'urn:li:organization:42');
+    await userEvent.click(screen.getByRole('button', { name: 'Add mention' }));
+    await userEvent.click(screen.getByRole('button', { name: /Post Now/i }));
+
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('POST', '/api/documents/1/share-linkedin', {
+        commentary: 'Our Q1 results',
+        hashtags: [],
+        mentions: [{ name: 'Acme Corp', urn: 'urn:li:organization:42' }],
+        visibility: 'PUBLIC',
+        scheduledAt: undefined,
+      });
+      expect(mockOnOpenChange).toHaveBeenCalledWith(false);
+    });
+  });
+
+  it('schedules the post for later', async () => {
+    vi.mocked(apiRequest).mockResolvedValue({ scheduledShare: { id: 5, scheduledAt: '2099-06-01T09:30:00.000Z' } });
+    renderDialog();
+
+    await userEvent.click(screen.getByLabelText('Schedule for later'));
+    fireEvent.change(screen.getByLabelText('Post date and time'), { target: { value: '2099-06-01T09:30' } });
+    await userEvent.click(screen.getByRole('button', { name: /Schedule Post/i }));
+
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('POST', '/api/documents/1/share-linkedin', expect.objectContaining({
+        scheduledAt: new Date('2099-06-01T09:30').toISOString(),
+      }));
+    });
+  });
+
+  it('lists pending scheduled posts and cancels them', async () => {
+    vi.mocked(apiRequest).mockResolvedValue({});
+    renderDialog([
+      { id: 5, documentId: 1, userId: 3, commentary: 'Launch day', status: 'pending', scheduledAt: '2099-06-01T09:30:00Z' },
+      { id: 4, documentId: 1, userId: 3, commentary: 'Old post', status: 'posted', scheduledAt: '2025-01-01T09:30:00Z' },
+    ]);
+
+    expect(screen.getByText('Launch day')).toBeInTheDocument();
+    expect(screen.queryByText('Old post')).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: /Cancel post scheduled/i }));
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('DELETE', '/api/scheduled-shares/5');
+    });
+  });
+});
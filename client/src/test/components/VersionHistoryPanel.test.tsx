@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient } from '@tanstack/react-query';
+import VersionHistoryPanel from '../../components/VersionHistoryPanel';
+import { apiRequest } from '../../lib/queryClient';
+import { renderWithProviders } from '../utils/test-utils';
+
+vi.mock('../../lib/queryClient', () => ({
+  apiRequest: vi.fn(),
+}));
+
+// Thumbnails are drawn by pdf.js, which has nothing to render here
+vi.mock('pdfjs-dist', () => ({
+  getDocument: () => ({ promise: new Promise(() => {}) }),
+  version: '2.0.0',
+  GlobalWorkerOptions: { workerSrc: '' },
+}));
+
+describe('VersionHistoryPanel Component', () => {
+  const mockOnRestore = vi.fn();
+
+  const versions = [
+    { id: 12, documentId: 1, userId: 3, authorName: 'Casey Kim', createdAt: '2025-02-12T10:30:00Z', customizations: { templateId: 2, title: 'Roadmap v2' } },
+    { id: 7, documentId: 1, userId: null, authorName: null, createdAt: '2025-02-11T09:00:00Z', customizations: { templateId: 1, title: 'Roadmap' } },
+  ];
+
+  const renderPanel = () => {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false, staleTime: Infinity } } });
+    queryClient.setQueryData(['/api/documents/1/versions'], versions);
+
+    return renderWithProviders(
+      <VersionHistoryPanel documentId="1" onRestore={mockOnRestore} />,
+      { queryClient }
+    );
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists versions with their author, marking the current one', () => {
+    renderPanel();
+
+    expect(screen.getByRole('heading', { name: /Version History/i })).toBeInTheDocument();
+    expect(screen.getByText('Casey Kim')).toBeInTheDocument();
+    expect(screen.getByText('Anonymous')).toBeInTheDocument();
+    expect(screen.getByText('Current')).toBeInTheDocument();
+    // Only earlier versions can be restored
+    expect(screen.getAllByRole('button', { name: /Restore/i })).toHaveLength(1);
+  });
+
+  it('restores an earlier version', async () => {
+    vi.mocked(apiRequest).mockResolvedValue({ customizations: versions[1].customizations });
+    renderPanel();
+
+    await userEvent.click(screen.getByRole('button', { name: /Restore/i }));
+
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('POST', '/api/documents/1/versions/7/restore');
+      expect(mockOnRestore).toHaveBeenCalledWith({ templateId: 1, title: 'Roadmap' });
+    });
+  });
+
+  it('renders nothing before any customizations have been applied', () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(['/api/documents/1/versions'], []);
+
+    const { container } = renderWithProviders(
+      <VersionHistoryPanel documentId="1" onRestore={mockOnRestore} />,
+      { queryClient }
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { getSnapTargets, MIN_SIZE, resizeBox, snapMove } from '../../lib/canvasSnapping';
+
+describe('canvasSnapping', () => {
+  const pageOnly = getSnapTargets([]);
+
+  it('offers page edges, page centre and the edges and centres of other elements', () => {
+    const targets = getSnapTargets([{ x: 0.1, y: 0.2, width: 0.4, height: 0.2 }]);
+
+    expect(targets.vertical).toEqual([0, 0.5, 1, 0.1, 0.30000000000000004, 0.5]);
+    expect(targets.horizontal).toEqual([0, 0.5, 1, 0.2, 0.30000000000000004, 0.4]);
+  });
+
+  it('snaps a moved box by its nearest edge and reports the guide', () => {
+    const result = snapMove({ x: 0.012, y: 0.3, width: 0.2, height: 0.1 }, pageOnly, 0.02);
+
+    expect(result.box.x).toBe(0);
+    expect(result.box.y).toBe(0.3);
+    expect(result.guides).toEqual({ vertical: [0], horizontal: [] });
+  });
+
+  it('snaps a moved box by its centre', () => {
+    const result = snapMove({ x: 0.31, y: 0.44, width: 0.4, height: 0.1 }, pageOnly, 0.02);
+
+    expect(result.box.x).toBeCloseTo(0.3);
+    expect(result.box.y).toBeCloseTo(0.45);
+    expect(result.guides).toEqual({ vertical: [0.5], horizontal: [0.5] });
+  });
+
+  it('leaves boxes that are not near a target where they are', () => {
+    const box = { x: 0.2, y: 0.2, width: 0.1, height: 0.1 };
+
+    expect(snapMove(box, pageOnly, 0.02)).toEqual({ box, guides: { vertical: [], horizontal: [] } });
+  });
+
+  it('only moves the dragged edges when resizing', () => {
+    const start = { x: 0.2, y: 0.2, width: 0.2, height: 0.2 };
+    const result = resizeBox(start, 'se', 0.09, 0.05, pageOnly, 0.02);
+
+    expect(result.box.x).toBe(0.2);
+    expect(result.box.y).toBe(0.2);
+    // The right edge snaps to the page centre; the bottom edge has nothing nearby
+    expect(result.box.width).toBeCloseTo(0.3);
+    expect(result.box.height).toBeCloseTo(0.25);
+    expect(result.guides).toEqual({ vertical: [0.5], horizontal: [] });
+  });
+
+  it('keeps the opposite edge fixed when resizing from the top left', () => {
+    const start = { x: 0.2, y: 0.2, width: 0.2, height: 0.2 };
+    const result = resizeBox(start, 'nw', -0.1, -0.1, getSnapTargets([]), 0);
+
+    expect(result.box.x).toBeCloseTo(0.1);
+    expect(result.box.y).toBeCloseTo(0.1);
+    expect(result.box.x + result.box.width).toBeCloseTo(0.4);
+    expect(result.box.y + result.box.height).toBeCloseTo(0.4);
+  });
+
+  it('does not shrink a box below the minimum size', () => {
+    const start = { x: 0.2, y: 0.2, width: 0.2, height: 0.2 };
+    const result = resizeBox(start, 'e', -0.5, 0, pageOnly, 0);
+
+    expect(result.box.width).toBeCloseTo(MIN_SIZE);
+  });
+});
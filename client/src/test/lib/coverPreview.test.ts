@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { renderCoverPreview } from '../../lib/coverPreview';
+import { templateLayouts } from '@shared/templateLayouts';
+import type { Template } from '@shared/schema';
+
+describe('renderCoverPreview', () => {
+  const template: Template = {
+    id: 1,
+    name: 'Tech Blue',
+    imagePath: '',
+    category: '',
+    layout: templateLayouts['Tech Blue'],
+  };
+
+  beforeEach(() => {
+    // No font files or images are available, so covers use Helvetica
+    global.fetch = vi.fn(() => Promise.resolve(new Response(null, { status: 404 }))) as any;
+  });
+
+  it('renders the cover in the browser', async () => {
+    const bytes = await renderCoverPreview(template, { title: 'Quarterly Review', fontFamily: 'Roboto' }, [960, 540]);
+
+    const pdfDoc = await PDFDocument.load(bytes);
+    expect(pdfDoc.getPageCount()).toBe(1);
+    expect(pdfDoc.getPage(0).getSize()).toEqual({ width: 960, height: 540 });
+  });
+
+  it('adds the back cover when one is requested', async () => {
+    const bytes = await renderCoverPreview(template, { title: 'Quarterly Review', backCover: true, pageSize: 'a4' });
+
+    const pdfDoc = await PDFDocument.load(bytes);
+    expect(pdfDoc.getPageCount()).toBe(2);
+    expect(pdfDoc.getPage(1).getSize()).toEqual({ width: 595.28, height: 841.89 });
+  });
+
+  it('fetches font files from the API', async () => {
+    await renderCoverPreview(template, { title: 'Quarterly Review', fontFamily: 'Open Sans' });
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/fonts/Open%20Sans/400', expect.anything());
+  });
+});
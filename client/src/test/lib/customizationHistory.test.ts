@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { createHistory, recordChange, redo, undo, MERGE_WINDOW } from '../../lib/customizationHistory';
+
+describe('customizationHistory', () => {
+  const initial = { title: 'Roadmap', colorScheme: '#0077B5', backCover: false };
+
+  it('undoes and redoes a change', () => {
+    let history = recordChange(createHistory(initial), { ...initial, colorScheme: '#9333EA' }, 0);
+
+    history = undo(history);
+    expect(history.present).toEqual(initial);
+    expect(history.future).toHaveLength(1);
+
+    history = redo(history);
+    expect(history.present).toEqual({ ...initial, colorScheme: '#9333EA' });
+    expect(history.past).toHaveLength(1);
+  });
+
+  it('only reverts the fields a step changed', () => {
+    let history = recordChange(createHistory(initial), { ...initial, backCover: true }, 0);
+    history = recordChange(history, { ...history.present!, images: { logo: { assetId: 4 } } }, 5000);
+
+    history = undo(history);
+    expect(history.present).toEqual({ ...initial, backCover: true });
+    expect(history.present).not.toHaveProperty('images');
+  });
+
+  it('merges consecutive keystrokes in a text field into one step', () => {
+    let history = createHistory(initial);
+    history = recordChange(history, { ...initial, title: 'Roadmap 2' }, 0);
+    history = recordChange(history, { ...initial, title: 'Roadmap 20' }, 200);
+    history = recordChange(history, { ...initial, title: 'Roadmap 202' }, 400);
+
+    expect(history.past).toHaveLength(1);
+    expect(undo(history).present).toEqual(initial);
+  });
+
+  it('starts a new step after a pause or an edit to another field', () => {
+    let history = createHistory(initial);
+    history = recordChange(history, { ...initial, title: 'Roadmap 2' }, 0);
+    history = recordChange(history, { ...initial, title: 'Roadmap 20' }, MERGE_WINDOW + 1);
+    expect(history.past).toHaveLength(2);
+
+    history = recordChange(history, { ...history.present!, colorScheme: '#10B981' }, MERGE_WINDOW + 100);
+    history = recordChange(history, { ...history.present!, title: 'Roadmap 2025' }, MERGE_WINDOW + 200);
+    expect(history.past).toHaveLength(4);
+  });
+
+  it('clears the redo steps when a new change is recorded', () => {
+    let history = recordChange(createHistory(initial), { ...initial, title: 'Launch' }, 0);
+    history = undo(history);
+
+    history = recordChange(history, { ...initial, backCover: true }, 100);
+    expect(history.future).toEqual([]);
+    expect(redo(history)).toBe(history);
+  });
+
+  it('ignores values that did not change', () => {
+    const history = createHistory(initial);
+
+    expect(recordChange(history, { ...initial }, 0)).toBe(history);
+  });
+});
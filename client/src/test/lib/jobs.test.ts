@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { PublicJob } from '@shared/jobs';
+import { followJob } from '../../lib/jobs';
+
+const job = (changes: Partial<PublicJob>): PublicJob => ({
+  id: 'job-1',
+  kind: 'modified-pdf',
+  status: 'running',
+  progress: 0,
+  error: null,
+  resultUrl: null,
+  ...changes,
+});
+
+// A socket connected to an instance that isn't running the job: it sends the
+// job as it was when subscribing, and nothing after
+class QuietSocket {
+  static opened: QuietSocket[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  close = vi.fn();
+
+  constructor() {
+    QuietSocket.opened.push(this);
+    setTimeout(() => this.onopen?.());
+  }
+
+  send() {
+    setTimeout(() => this.onmessage?.({ data: JSON.stringify({ type: 'job', job: job({ progress: 10 }) }) }));
+  }
+}
+
+describe('followJob', () => {
+  const finished = job({ status: 'completed', progress: 100, resultUrl: '/api/jobs/job-1/result' });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    QuietSocket.opened = [];
+    vi.stubGlobal('WebSocket', QuietSocket);
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, json: async () => finished })));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('polls while the socket is open, in case updates are pushed elsewhere', async () => {
+    const updates: number[] = [];
+    const following = followJob('job-1', update => updates.push(update.progress));
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(await following).toEqual(finished);
+    expect(updates).toEqual([10, 100]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(QuietSocket.opened[0].close).toHaveBeenCalled();
+  });
+
+  it('polls right away when the socket closes', async () => {
+    const following = followJob('job-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    QuietSocket.opened[0].onclose?.();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(await following).toEqual(finished);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, type QueryFunction } from '@tanstack/react-query';
+import Library, { libraryQueryString } from '../../pages/Library';
+import { apiRequest } from '../../lib/queryClient';
+import { renderWithProviders } from '../utils/test-utils';
+
+vi.mock('../../lib/queryClient', () => ({
+  apiRequest: vi.fn(),
+}));
+
+vi.mock('../../components/AuthContext', () => ({
+  useAuth: () => ({ isAuthenticated: true, loading: false, login: vi.fn() }),
+}));
+
+// Thumbnails are drawn by pdf.js, which has nothing to render here
+vi.mock('pdfjs-dist', () => ({
+  getDocument: () => ({ promise: new Promise(() => {}) }),
+  version: '2.0.0',
+  GlobalWorkerOptions: { workerSrc: '' },
+}));
+
+describe('Library Page', () => {
+  const documents = [
+    { id: 1, publicId: 'doc-a', userId: 3, originalName: 'Quarterly Review.pdf', isModified: true, customizations: { title: 'Q3 Results' }, createdAt: '2025-02-12T10:30:00Z' },
+    { id: 2, publicId: 'doc-b', userId: 3, originalName: 'Roadmap.pdf', isModified: false, customizations: null, createdAt: '2025-02-11T09:00:00Z' },
+  ];
+
+  const fetchQuery = vi.fn<(url: string) => unknown>();
+
+  const renderLibrary = () => {
+    const queryFn: QueryFunction = async ({ queryKey }) => fetchQuery(queryKey[0] as string);
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false, queryFn } } });
+    return renderWithProviders(<Library />, { queryClient });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchQuery.mockImplementation(url => {
+      if (url === '/api/templates') return [];
+      return { documents, total: 30, page: 1, pageSize: 24 };
+    });
+  });
+
+  it('lists documents with their cover title', async () => {
+    renderLibrary();
+
+    expect(await screen.findByText('Quarterly Review.pdf')).toBeInTheDocument();
+    expect(screen.getByText('Q3 Results')).toBeInTheDocument();
+    expect(screen.getByText('Roadmap.pdf')).toBeInTheDocument();
+    expect(screen.getByText('30 documents')).toBeInTheDocument();
+    expect(screen.getByText('Page 1 of 2')).toBeInTheDocument();
+  });
+
+  it('searches once typing pauses', async () => {
+    renderLibrary();
+    await screen.findByText('Quarterly Review.pdf');
+
+    await userEvent.type(screen.getByLabelText('Search'), 'roadmap');
+
+    await waitFor(() => {
+      expect(fetchQuery).toHaveBeenCalledWith('/api/documents?page=1&pageSize=24&sort=recent&search=roadmap');
+    });
+    expect(fetchQuery).not.toHaveBeenCalledWith(expect.stringContaining('search=r&'));
+  });
+
+  it('moves to the next page', async () => {
+    renderLibrary();
+    await screen.findByText('Quarterly Review.pdf');
+
+    await userEvent.click(screen.getByRole('button', { name: /Next/ }));
+
+    await waitFor(() => {
+      expect(fetchQuery).toHaveBeenCalledWith('/api/documents?page=2&pageSize=24&sort=recent');
+    });
+  });
+
+  it('deletes the selected documents until their purge date', async () => {
+    vi.mocked(apiRequest).mockResolvedValue({ documentIds: ['doc-a', 'doc-b'], purgeAt: '2025-03-14T10:30:00Z' });
+    renderLibrary();
+    await screen.findByText('Quarterly Review.pdf');
+
+    await userEvent.click(screen.getByLabelText('Select all'));
+    expect(screen.getByText('2 selected')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('POST', '/api/documents/bulk-delete', { documentIds: ['doc-a', 'doc-b'], permanent: false });
+    });
+  });
+
+  it('restores or permanently deletes documents from the deleted view', async () => {
+    vi.mocked(apiRequest).mockResolvedValue({ documentIds: ['doc-a'] });
+    renderLibrary();
+    await screen.findByText('Quarterly Review.pdf');
+
+    await userEvent.click(screen.getByLabelText('Deleted documents'));
+    await waitFor(() => {
+      expect(fetchQuery).toHaveBeenCalledWith('/api/documents?page=1&pageSize=24&sort=recent&deleted=true');
+    });
+
+    await userEvent.click(await screen.findByLabelText('Select Quarterly Review.pdf'));
+    await userEvent.click(screen.getByRole('button', { name: 'Restore' }));
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('POST', '/api/documents/bulk-restore', { documentIds: ['doc-a'] });
+    });
+
+    await userEvent.click(await screen.findByLabelText('Select Roadmap.pdf'));
+    await userEvent.click(screen.getByRole('button', { name: 'Delete forever' }));
+    expect(await screen.findByRole('alertdialog', { name: 'Delete this document forever?' })).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('POST', '/api/documents/bulk-delete', { documentIds: ['doc-b'], permanent: true });
+    });
+  });
+
+  it('duplicates a single document', async () => {
+    vi.mocked(apiRequest).mockResolvedValue([]);
+    renderLibrary();
+    await screen.findByText('Quarterly Review.pdf');
+
+    await userEvent.click(screen.getByLabelText('Select Roadmap.pdf'));
+    await userEvent.click(screen.getByRole('button', { name: 'Duplicate' }));
+
+    await waitFor(() => {
+      expect(apiRequest).toHaveBeenCalledWith('POST', '/api/documents/bulk-duplicate', { documentIds: ['doc-b'] });
+    });
+  });
+
+  it('leaves unset filters out of the query string', () => {
+    expect(libraryQueryString({ search: ' ', templateId: 'all', modified: 'all', from: '', to: '', deleted: false, sort: 'name' }, 3))
+      .toBe('page=3&pageSize=24&sort=name');
+    expect(libraryQueryString({ search: 'deck', templateId: '2', modified: 'false', from: '2025-01-01', to: '2025-01-31', deleted: true, sort: 'recent' }, 1))
+      .toBe('page=1&pageSize=24&sort=recent&search=deck&templateId=2&modified=false&from=2025-01-01&to=2025-01-31&deleted=true');
+  });
+});
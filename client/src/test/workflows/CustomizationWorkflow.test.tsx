@@ -39,7 +39,7 @@ describe('Customization Workflow', () => {
         templateId={1} 
         onCustomizationChange={mockOnCustomizationChange} 
         onApplyChanges={mockOnApplyChanges} 
-        initialCustomizations={defaultCustomizations}
+        customizations={defaultCustomizations}
       />
     );
     
@@ -71,7 +71,7 @@ describe('Customization Workflow', () => {
         templateId={1} 
         onCustomizationChange={mockOnCustomizationChange} 
         onApplyChanges={mockOnApplyChanges} 
-        initialCustomizations={defaultCustomizations}
+        customizations={defaultCustomizations}
       />
     );
     
@@ -103,7 +103,7 @@ describe('Customization Workflow', () => {
         templateId={1} 
         onCustomizationChange={mockOnCustomizationChange} 
         onApplyChanges={mockOnApplyChanges} 
-        initialCustomizations={defaultCustomizations}
+        customizations={defaultCustomizations}
       />
     );
     
@@ -130,7 +130,7 @@ describe('Customization Workflow', () => {
         templateId={1} 
         onCustomizationChange={mockOnCustomizationChange} 
         onApplyChanges={mockOnApplyChanges} 
-        initialCustomizations={defaultCustomizations}
+        customizations={defaultCustomizations}
       />
     );
     
@@ -0,0 +1 @@
+ALTER TABLE `templates` ADD `layout` json;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `assets` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int,
+	`original_name` text NOT NULL,
+	`file_name` text NOT NULL,
+	`mime_type` text NOT NULL,
+	`size` int NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `assets_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `assets` ADD CONSTRAINT `assets_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
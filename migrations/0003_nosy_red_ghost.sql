@@ -0,0 +1,11 @@
+CREATE TABLE `document_versions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`document_id` int NOT NULL,
+	`user_id` int,
+	`customizations` json NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `document_versions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `document_versions` ADD CONSTRAINT `document_versions_document_id_documents_id_fk` FOREIGN KEY (`document_id`) REFERENCES `documents`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `document_versions` ADD CONSTRAINT `document_versions_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `linkedin_post_urn` text;
\ No newline at end of file
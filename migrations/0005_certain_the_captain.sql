@@ -0,0 +1,18 @@
+CREATE TABLE `scheduled_shares` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`document_id` int NOT NULL,
+	`user_id` int NOT NULL,
+	`commentary` text NOT NULL,
+	`hashtags` json NOT NULL,
+	`mentions` json NOT NULL,
+	`visibility` text NOT NULL,
+	`scheduled_at` timestamp NOT NULL,
+	`status` text NOT NULL DEFAULT ('pending'),
+	`post_urn` text,
+	`error` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `scheduled_shares_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `scheduled_shares` ADD CONSTRAINT `scheduled_shares_document_id_documents_id_fk` FOREIGN KEY (`document_id`) REFERENCES `documents`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `scheduled_shares` ADD CONSTRAINT `scheduled_shares_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `sessions` (
+	`sid` varchar(128) NOT NULL,
+	`data` text NOT NULL,
+	`expires_at` timestamp NOT NULL,
+	CONSTRAINT `sessions_sid` PRIMARY KEY(`sid`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `linkedin_refresh_token` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `linkedin_token_expires_at` timestamp;--> statement-breakpoint
+CREATE INDEX `sessions_expires_at_idx` ON `sessions` (`expires_at`);
\ No newline at end of file
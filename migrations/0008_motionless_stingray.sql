@@ -0,0 +1,5 @@
+ALTER TABLE `documents` ADD `public_id` varchar(32);--> statement-breakpoint
+UPDATE `documents` SET `public_id` = LOWER(HEX(RANDOM_BYTES(16))) WHERE `public_id` IS NULL;--> statement-breakpoint
+ALTER TABLE `documents` MODIFY COLUMN `public_id` varchar(32) NOT NULL;--> statement-breakpoint
+ALTER TABLE `documents` ADD `claim_token_hash` text;--> statement-breakpoint
+ALTER TABLE `documents` ADD CONSTRAINT `documents_public_id_unique` UNIQUE(`public_id`);
@@ -0,0 +1,19 @@
+CREATE TABLE `jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`public_id` varchar(32) NOT NULL,
+	`document_id` int NOT NULL,
+	`kind` text NOT NULL,
+	`status` text NOT NULL DEFAULT ('queued'),
+	`progress` int NOT NULL DEFAULT 0,
+	`customizations` json NOT NULL,
+	`result_key` text,
+	`error` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`started_at` timestamp,
+	`finished_at` timestamp,
+	CONSTRAINT `jobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `jobs_public_id_unique` UNIQUE(`public_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `jobs` ADD CONSTRAINT `jobs_document_id_documents_id_fk` FOREIGN KEY (`document_id`) REFERENCES `documents`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `jobs_document_id_idx` ON `jobs` (`document_id`);
\ No newline at end of file
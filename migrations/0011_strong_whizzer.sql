@@ -0,0 +1 @@
+ALTER TABLE `templates` ADD `version` int DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `assets` ADD `public_id` varchar(32);--> statement-breakpoint
+UPDATE `assets` SET `public_id` = LOWER(HEX(RANDOM_BYTES(16))) WHERE `public_id` IS NULL;--> statement-breakpoint
+ALTER TABLE `assets` MODIFY COLUMN `public_id` varchar(32) NOT NULL;--> statement-breakpoint
+ALTER TABLE `assets` ADD CONSTRAINT `assets_public_id_unique` UNIQUE(`public_id`);
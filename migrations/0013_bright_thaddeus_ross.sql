@@ -0,0 +1,2 @@
+ALTER TABLE `jobs` ADD `worker_id` varchar(32);--> statement-breakpoint
+ALTER TABLE `jobs` ADD `heartbeat_at` timestamp DEFAULT (now()) NOT NULL;
\ No newline at end of file
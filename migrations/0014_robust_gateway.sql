@@ -0,0 +1,2 @@
+ALTER TABLE `scheduled_shares` ADD `posting_at` timestamp;--> statement-breakpoint
+UPDATE `scheduled_shares` SET `posting_at` = now() WHERE `status` = 'posting';
\ No newline at end of file
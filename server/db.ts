@@ -1,32 +1,54 @@
 import mysql from 'mysql2/promise';
-import { drizzle } from 'drizzle-orm/mysql2';
+import { drizzle, type MySql2Database } from 'drizzle-orm/mysql2';
 import * as schema from "@shared/schema";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set for MySQL database.",
-  );
+export type Database = MySql2Database<typeof schema>;
+
+export interface DatabaseConnection {
+  pool: mysql.Pool;
+  db: Database;
 }
 
-// Parse MySQL connection string and create pool
-const connectionString = process.env.DATABASE_URL;
-const url = new URL(connectionString);
-
-const poolConfig: any = {
-  host: url.hostname,
-  port: parseInt(url.port) || 3306,
-  user: url.username,
-  password: decodeURIComponent(url.password), // Decode URL-encoded password
-  database: url.pathname.slice(1),
-  connectTimeout: 10000,
-  connectionLimit: 5
-};
-
-// Only add SSL if not explicitly disabled
-if (url.searchParams.get('ssl') !== 'false') {
-  poolConfig.ssl = { rejectUnauthorized: false };
+export function createDatabase(connectionString: string): DatabaseConnection {
+  // Parse MySQL connection string and create pool
+  const url = new URL(connectionString);
+
+  const poolConfig: any = {
+    host: url.hostname,
+    port: parseInt(url.port) || 3306,
+    user: url.username,
+    password: decodeURIComponent(url.password), // Decode URL-encoded password
+    database: url.pathname.slice(1),
+    connectTimeout: 10000,
+    connectionLimit: 5
+  };
+
+  // Only add SSL if not explicitly disabled
+  if (url.searchParams.get('ssl') !== 'false') {
+    poolConfig.ssl = { rejectUnauthorized: false };
+  }
+
+  const pool = mysql.createPool(poolConfig);
+  return { pool, db: drizzle(pool, { schema, mode: 'default' }) };
 }
 
-export const pool = mysql.createPool(poolConfig);
+// The app's database, connected on first use so the server can run on
+// in-memory storage without DATABASE_URL
+let connection: DatabaseConnection | undefined;
 
-export const db = drizzle(pool, { schema, mode: 'default' });
\ No newline at end of file
+export function getDb(): Database {
+  if (!connection) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error(
+        "DATABASE_URL must be set for MySQL database, or set STORAGE=memory to run without one.",
+      );
+    }
+    connection = createDatabase(process.env.DATABASE_URL);
+  }
+  return connection.db;
+}
+
+export async function closeDb(): Promise<void> {
+  await connection?.pool.end();
+  connection = undefined;
+}
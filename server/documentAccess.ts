@@ -0,0 +1,134 @@
+import { randomBytes } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { Asset, Document, Job, User } from "@shared/schema";
+import type { ImagePlacement } from "@shared/templateLayout";
+import { storage } from "./storage";
+import { hashToken } from "./passwords";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The document named in the URL, once loadDocument has checked access
+      document?: Document;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Row IDs of documents uploaded in this session while signed out
+    anonymousDocumentIds?: number[];
+  }
+}
+
+// Documents are addressed by a random public ID instead of their row ID, so
+// they can't be found by counting up
+export function createPublicId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+// Documents with an owner are private to them. Anonymous documents are open
+// to anyone with the public ID, which only the uploader has been given.
+export function canAccessDocument(document: Document, user: User | undefined): boolean {
+  return document.userId === null || document.userId === user?.id;
+}
+
+// A job and its document, provided the user can access the document
+export async function findAccessibleJob(jobId: string, user: User | undefined): Promise<{ job: Job; document: Document } | undefined> {
+  const job = await storage.getJobByPublicId(jobId);
+  const document = job && await storage.getDocument(job.documentId);
+  if (!job || !document || document.deletedAt || !canAccessDocument(document, user)) {
+    return undefined;
+  }
+  return { job, document };
+}
+
+// The uploaded image an image placement names, provided the user can use it.
+// Like documents, images with an owner are private to them and anonymous
+// images are open to anyone with the public ID. Placements saved before images
+// had public IDs name them by row ID, which can be counted up, so those only
+// find the user's own images.
+export async function findAccessibleAsset(assetId: ImagePlacement['assetId'], userId: number | null): Promise<Asset | undefined> {
+  const asset = typeof assetId === 'string' ? await storage.getAssetByPublicId(assetId) : await storage.getAsset(assetId);
+  if (!asset) {
+    return undefined;
+  }
+  if (asset.userId === null) {
+    return typeof assetId === 'string' ? asset : undefined;
+  }
+  return asset.userId === userId ? asset : undefined;
+}
+
+// The document without the hash of its claim token
+export function toPublicDocument(document: Document) {
+  const { claimTokenHash, ...publicDocument } = document;
+  return publicDocument;
+}
+
+// Load the document named by the :id route parameter into req.document.
+// Documents the user can't access get the same 404 as missing ones, so their
+// existence isn't revealed. Deleted documents count as missing.
+export async function loadDocument(req: Request, res: Response, next: NextFunction) {
+  try {
+    const document = await storage.getDocumentByPublicId(req.params.id);
+    if (!document || document.deletedAt || !canAccessDocument(document, req.user as User | undefined)) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    req.document = document;
+    next();
+  } catch (error) {
+    console.error('Load document error:', error);
+    res.status(500).json({ message: 'Failed to get document' });
+  }
+}
+
+// Which documents a bulk action applies to: the ones in use, the deleted ones
+// or either
+export type DocumentState = 'active' | 'deleted' | 'any';
+
+// The user's own documents with the given public IDs, for bulk actions.
+// Undefined when any of them is missing, belongs to someone else or isn't in
+// the given state.
+export async function getOwnedDocuments(publicIds: string[], user: User, state: DocumentState = 'active'): Promise<Document[] | undefined> {
+  const documents = await Promise.all(Array.from(new Set(publicIds)).map(publicId => storage.getDocumentByPublicId(publicId)));
+  const inState = (document: Document) => state === 'any' || (state === 'deleted') === !!document.deletedAt;
+  if (documents.some(document => document?.userId !== user.id || !inState(document))) {
+    return undefined;
+  }
+  return documents as Document[];
+}
+
+// Remember an anonymous upload in the session, so it can be given to the
+// account the user signs in to next
+export function rememberAnonymousDocument(req: Request, document: Document) {
+  req.session.anonymousDocumentIds = [...(req.session.anonymousDocumentIds ?? []), document.id];
+}
+
+// Give the documents uploaded earlier in this session to the user who is
+// signing in. Passport starts a new session on sign-in, so this has to run
+// before req.login.
+export async function claimSessionDocuments(req: Request, user: User): Promise<void> {
+  const documentIds = req.session.anonymousDocumentIds;
+  if (!documentIds?.length) return;
+
+  await storage.claimDocuments(documentIds, user.id);
+  delete req.session.anonymousDocumentIds;
+}
+
+export interface DocumentClaim {
+  // Public document ID
+  documentId: string;
+  claimToken: string;
+}
+
+// The anonymous documents that the claim tokens kept by a browser still
+// unlock. Documents claimed since then, or with a wrong token, are left out.
+export async function findClaimableDocuments(claims: DocumentClaim[]): Promise<Document[]> {
+  const documents = await Promise.all(claims.map(async claim => {
+    const document = await storage.getDocumentByPublicId(claim.documentId);
+    const unlocked = document?.userId === null && document.claimTokenHash === hashToken(claim.claimToken);
+    return unlocked ? document : undefined;
+  }));
+  return documents.filter((document): document is Document => !!document);
+}
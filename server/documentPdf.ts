@@ -0,0 +1,62 @@
+import type { Document } from "@shared/schema";
+import type { ImageAsset, ImageLoader } from "@shared/imageRenderer";
+import { imagePlacementSchema } from "@shared/templateLayout";
+import { fileStore } from "./fileStore";
+import { findAccessibleAsset } from "./documentAccess";
+
+// File store key of a document's uploaded PDF. The PDFs rendered from it are
+// kept by the render cache.
+export const originalPdfKey = (document: Document) => `pdfs/${document.fileName}`;
+
+// Reads uploaded images for a document's cover. Only images the document's
+// owner could open themselves are drawn, so nobody can render someone else's
+// image onto their own cover.
+function imageLoaderFor(document: Document): ImageLoader {
+  return async (assetId) => {
+    const asset = await findAccessibleAsset(assetId, document.userId);
+    if (!asset) {
+      return undefined;
+    }
+
+    const bytes = await fileStore.read(`images/${asset.fileName}`);
+    return { mimeType: asset.mimeType, bytes };
+  };
+}
+
+// The uploaded images placed on a document's cover, by asset ID, for
+// renderers that can't reach storage themselves, such as the PDF worker threads
+export async function loadCoverImages(document: Document, customizations: any): Promise<Record<string, ImageAsset>> {
+  const loadImage = imageLoaderFor(document);
+  const images: Record<string, ImageAsset> = {};
+  for (const value of Object.values(customizations?.images ?? {})) {
+    const parsed = imagePlacementSchema.safeParse(value);
+    if (!parsed.success || parsed.data.assetId in images) {
+      continue;
+    }
+
+    try {
+      const image = await loadImage(parsed.data.assetId);
+      if (image) {
+        images[parsed.data.assetId] = image;
+      }
+    } catch (error) {
+      // The slot stays empty, as when rendering in-process
+      console.warn(`Failed to load image asset ${parsed.data.assetId}:`, error);
+    }
+  }
+  return images;
+}
+
+// JSON columns come back as strings or objects depending on how they were written
+export function parseCustomizations(value: unknown): any {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+// Every file kept for a document, besides its cached renders
+export function documentFileKeys(document: Document): string[] {
+  return [originalPdfKey(document)];
+}
+
+export async function deleteDocumentFiles(document: Document): Promise<void> {
+  await Promise.all(documentFileKeys(document).map(key => fileStore.delete(key)));
+}
@@ -0,0 +1,280 @@
+import path from "path";
+import fs from "fs/promises";
+import { createReadStream, type Dirent } from "fs";
+import { Readable } from "stream";
+import type { Request } from "express";
+import type { StorageEngine } from "multer";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+// Uploaded and generated files are kept in a FileStore, addressed by keys
+// like "pdfs/file-123.pdf". With FILE_STORE=s3 they go to an S3-compatible
+// bucket, so several app instances can share them; otherwise they're kept
+// on local disk under UPLOAD_DIR, uploads/ by default.
+
+export interface StoredFile {
+  key: string;
+  // In bytes
+  size: number;
+  modifiedAt: Date;
+}
+
+export interface SignedUrlOptions {
+  // Seconds until the URL stops working
+  expiresIn?: number;
+  // Name the browser saves the file as
+  downloadName?: string;
+}
+
+export interface FileStore {
+  put(key: string, body: Buffer | Uint8Array, contentType?: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  read(key: string): Promise<Buffer>;
+  // Deleting a file that doesn't exist is not an error
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  // A URL the browser can fetch the file from directly, or null when files
+  // can only be served through the app
+  signedUrl(key: string, options?: SignedUrlOptions): Promise<string | null>;
+  // Every file under a folder, such as "pdfs"
+  list(folder: string): Promise<StoredFile[]>;
+}
+
+export class FileNotFoundError extends Error {
+  constructor(readonly key: string) {
+    super(`File not found: ${key}`);
+  }
+}
+
+const SIGNED_URL_EXPIRES_IN = 5 * 60;
+
+export class LocalFileStore implements FileStore {
+  constructor(readonly root: string) {}
+
+  // Keys can't reach outside the root
+  private filePath(key: string) {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer | Uint8Array): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    if (!(await this.exists(key))) {
+      throw new FileNotFoundError(key);
+    }
+    return createReadStream(this.filePath(key));
+  }
+
+  async read(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new FileNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      return (await fs.stat(this.filePath(key))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async signedUrl(): Promise<string | null> {
+    return null;
+  }
+
+  async list(folder: string): Promise<StoredFile[]> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(this.filePath(folder), { withFileTypes: true });
+    } catch (error) {
+      // Folders are made with their first file; any other error is real, and
+      // callers mustn't mistake it for an empty folder
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const files: StoredFile[] = [];
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const key = `${folder}/${entry.name}`;
+      const stats = await fs.stat(this.filePath(key));
+      files.push({ key, size: stats.size, modifiedAt: stats.mtime });
+    }
+    return files;
+  }
+}
+
+export interface S3FileStoreOptions {
+  bucket: string;
+  region?: string;
+  // For S3-compatible services such as MinIO
+  endpoint?: string;
+  // MinIO and most other S3-compatible services need path-style URLs
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+// S3 reports missing objects as NoSuchKey, or as a bare 404 for HEAD requests
+function isNotFound(error: unknown) {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'NoSuchKey' || name === 'NotFound' || $metadata?.httpStatusCode === 404;
+}
+
+export class S3FileStore implements FileStore {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: S3FileStoreOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region || 'us-east-1',
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+      // Checksums are only sent where S3 requires them, which every
+      // S3-compatible service understands
+      requestChecksumCalculation: 'WHEN_REQUIRED',
+      responseChecksumValidation: 'WHEN_REQUIRED',
+    });
+  }
+
+  async put(key: string, body: Buffer | Uint8Array, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType }));
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const { Body } = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new FileNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.get(key)) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async signedUrl(key: string, { expiresIn = SIGNED_URL_EXPIRES_IN, downloadName }: SignedUrlOptions = {}): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ResponseContentDisposition: downloadName
+        ? `attachment; filename*=UTF-8''${encodeURIComponent(downloadName)}`
+        : undefined,
+    });
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+
+  async list(folder: string): Promise<StoredFile[]> {
+    const files: StoredFile[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: `${folder}/`,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of page.Contents ?? []) {
+        if (object.Key) {
+          files.push({ key: object.Key, size: object.Size ?? 0, modifiedAt: object.LastModified ?? new Date(0) });
+        }
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return files;
+  }
+}
+
+// A multer storage engine that puts each uploaded file in a folder of the
+// store under a new unique name, which it sets as the file's filename
+export function fileStoreStorage(store: FileStore, folder: string): StorageEngine {
+  return {
+    _handleFile(req: Request, file, callback) {
+      const chunks: Buffer[] = [];
+      file.stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      file.stream.on('error', callback);
+      file.stream.on('end', () => {
+        const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+        const filename = file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname);
+        const bytes = Buffer.concat(chunks);
+        store.put(`${folder}/${filename}`, bytes, file.mimetype)
+          .then(() => callback(null, { filename, size: bytes.length }))
+          .catch(callback);
+      });
+    },
+    _removeFile(req: Request, file, callback) {
+      store.delete(`${folder}/${file.filename}`).then(() => callback(null), callback);
+    },
+  };
+}
+
+export function createFileStore(env: NodeJS.ProcessEnv = process.env): FileStore {
+  if (env.FILE_STORE === 's3') {
+    if (!env.S3_BUCKET) {
+      throw new Error('S3_BUCKET must be set when FILE_STORE is s3');
+    }
+    return new S3FileStore({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  return new LocalFileStore(path.resolve(process.cwd(), env.UPLOAD_DIR || 'uploads'));
+}
+
+export const fileStore = createFileStore();
@@ -0,0 +1,126 @@
+import path from "path";
+import fs from "fs/promises";
+import fontkit from "@pdf-lib/fontkit";
+import type { PDFDocument } from "pdf-lib";
+import { FontEmbedder, type EmbeddedFontFamily, type FontFile, type FontProvider } from "@shared/fontEmbedding";
+
+// Fonts bundled with the server. Each family lives in its own directory under
+// server/fonts; family names and weights are read from the font files themselves,
+// so adding a family means dropping its .ttf/.otf files in a new directory.
+const FONTS_DIR = process.env.FONTS_DIR || path.resolve(process.cwd(), 'server', 'fonts');
+const FONT_EXTENSIONS = ['.ttf', '.otf'];
+
+export interface FontFace {
+  family: string;
+  postscriptName: string;
+  weight: number;
+  filePath: string;
+}
+
+export interface FontFamilyInfo {
+  family: string;
+  weights: number[];
+}
+
+export class FontRegistry implements FontProvider {
+  private faces: Promise<FontFace[]> | null = null;
+  private fileCache = new Map<string, Promise<Buffer>>();
+  private embedder = new FontEmbedder((family, weight) => this.loadFontFile(family, weight));
+
+  constructor(private fontsDir: string) {}
+
+  // Scan the fonts directory once and remember what was found
+  private loadFaces(): Promise<FontFace[]> {
+    if (!this.faces) {
+      this.faces = this.scanFontsDir().catch(error => {
+        console.error('Failed to load bundled fonts:', error);
+        this.faces = null;
+        return [];
+      });
+    }
+    return this.faces;
+  }
+
+  private async scanFontsDir(): Promise<FontFace[]> {
+    const faces: FontFace[] = [];
+    const entries = await fs.readdir(this.fontsDir, { withFileTypes: true });
+
+    for (const entry of entries.filter(entry => entry.isDirectory())) {
+      const familyDir = path.join(this.fontsDir, entry.name);
+      const files = await fs.readdir(familyDir);
+
+      for (const file of files) {
+        if (!FONT_EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+          continue;
+        }
+
+        const filePath = path.join(familyDir, file);
+        const font = fontkit.create(await this.readFontFile(filePath));
+        if (!font.familyName) {
+          console.warn(`Skipping font without a family name: ${filePath}`);
+          continue;
+        }
+
+        // Only upright faces are offered; italics would need their own slot
+        if (/italic/i.test(font.subfamilyName || '')) {
+          continue;
+        }
+
+        faces.push({
+          family: font.familyName,
+          postscriptName: font.postscriptName || path.basename(file, path.extname(file)),
+          // fontkit's typings only describe part of the OS/2 table
+          weight: (font['OS/2'] as { usWeightClass?: number } | undefined)?.usWeightClass || 400,
+          filePath,
+        });
+      }
+    }
+
+    return faces;
+  }
+
+  private readFontFile(filePath: string): Promise<Buffer> {
+    let bytes = this.fileCache.get(filePath);
+    if (!bytes) {
+      bytes = fs.readFile(filePath);
+      this.fileCache.set(filePath, bytes);
+    }
+    return bytes;
+  }
+
+  async listFamilies(): Promise<FontFamilyInfo[]> {
+    const families = new Map<string, number[]>();
+    for (const face of await this.loadFaces()) {
+      families.set(face.family, [...(families.get(face.family) || []), face.weight]);
+    }
+
+    return Array.from(families, ([family, weights]) => ({
+      family,
+      weights: weights.sort((a, b) => a - b),
+    })).sort((a, b) => a.family.localeCompare(b.family));
+  }
+
+  // Pick the face whose weight is closest to the one requested
+  private async findFace(family: string, weight: number): Promise<FontFace | undefined> {
+    const faces = (await this.loadFaces()).filter(face => face.family === family);
+    return faces.sort((a, b) => Math.abs(a.weight - weight) - Math.abs(b.weight - weight))[0];
+  }
+
+  // Read the face of a family closest to the requested weight, for embedding
+  // here or for sending to the browser
+  async loadFontFile(family: string, weight: number): Promise<FontFile | undefined> {
+    const face = await this.findFace(family, weight);
+    if (!face) {
+      return undefined;
+    }
+    return { postscriptName: face.postscriptName, bytes: await this.readFontFile(face.filePath) };
+  }
+
+  // Embed a family's regular and bold faces into a document. Unknown families
+  // fall back to Helvetica.
+  embedFamily(pdfDoc: PDFDocument, family?: string): Promise<EmbeddedFontFamily> {
+    return this.embedder.embedFamily(pdfDoc, family);
+  }
+}
+
+export const fontRegistry = new FontRegistry(FONTS_DIR);
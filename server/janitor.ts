@@ -0,0 +1,161 @@
+import type { Document } from "@shared/schema";
+import { storage } from "./storage";
+import { fileStore } from "./fileStore";
+import { deleteDocumentFiles, documentFileKeys, originalPdfKey } from "./documentPdf";
+import { renderCache } from "./renderCache";
+
+// How often the janitor cleans up
+const RUN_INTERVAL = 60 * 60 * 1000;
+// Files younger than this may belong to an upload whose row isn't written yet
+const ORPHAN_GRACE_PERIOD = 60 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+// Finished jobs are only looked up while a browser follows them
+const FINISHED_JOB_RETENTION = DAY;
+
+// The file store folders the janitor looks after: document files and uploaded
+// images. Renders were kept in the document folders before the render cache;
+// those are left to be cleaned up as orphans.
+const FILE_FOLDERS = ['pdfs', 'previews', 'images'];
+
+export interface RetentionPolicy {
+  // Days an anonymous document is kept for its uploader to claim
+  anonymousDays: number;
+  // Days a deleted document can be restored before it's purged
+  deletedDays: number;
+}
+
+function daysFromEnv(value: string | undefined, fallback: number) {
+  const days = Number(value);
+  return value && Number.isFinite(days) && days > 0 ? days : fallback;
+}
+
+export function retentionPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  return {
+    anonymousDays: daysFromEnv(env.ANONYMOUS_DOCUMENT_RETENTION_DAYS, 7),
+    deletedDays: daysFromEnv(env.DELETED_DOCUMENT_RETENTION_DAYS, 30),
+  };
+}
+
+// When a document deleted at `deletedAt` will be purged
+export function purgeDate(policy: RetentionPolicy, deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + policy.deletedDays * DAY);
+}
+
+export interface JanitorReport {
+  dryRun: boolean;
+  // Public IDs of documents past the retention policy
+  expiredDocuments: string[];
+  // Public IDs of documents whose uploaded PDF is gone
+  missingFileDocuments: string[];
+  // Keys of files in the store that no document or image owns
+  orphanedFiles: string[];
+}
+
+// Delete documents for good. The rows go first, so nothing can load a
+// document while its files are removed. Cached renders are found by the
+// upload they were made from, so they go before the uploads.
+export async function purgeDocuments(documents: Document[]): Promise<void> {
+  await storage.deleteDocuments(documents.map(document => document.id));
+  await renderCache.invalidateDocuments(documents);
+  await Promise.all(documents.map(deleteDocumentFiles));
+}
+
+// Purges expired documents and keeps the file store in step with the
+// documents and assets tables: files no document or image owns are removed,
+// and so are documents whose uploaded PDF is gone. Jobs that finished a day
+// ago are deleted too. A dry run only reports what it would remove.
+export class DocumentJanitor {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<JanitorReport> | null = null;
+
+  constructor(readonly policy: RetentionPolicy) {}
+
+  start({ interval = RUN_INTERVAL, dryRun = false }: { interval?: number; dryRun?: boolean } = {}) {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.run({ dryRun })
+        .then(report => logReport(report))
+        .catch(error => console.error('Janitor error:', error));
+    }, interval);
+    // Don't keep the process alive just for the janitor
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // A run that starts while another is in progress waits for that one instead
+  run({ dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}): Promise<JanitorReport> {
+    if (!this.running) {
+      this.running = this.clean(dryRun, now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async clean(dryRun: boolean, now: Date): Promise<JanitorReport> {
+    const expired = await storage.getExpiredDocuments(
+      new Date(now.getTime() - this.policy.anonymousDays * DAY),
+      new Date(now.getTime() - this.policy.deletedDays * DAY),
+    );
+    const expiredIds = new Set(expired.map(document => document.id));
+
+    const [documents, assets] = await Promise.all([storage.getAllDocuments(), storage.getAllAssets()]);
+    // Listed once, rather than asking the store about each document's upload
+    const files = (await Promise.all(FILE_FOLDERS.map(folder => fileStore.list(folder)))).flat();
+    const storedKeys = new Set(files.map(file => file.key));
+
+    // A store that lists no uploads while documents exist is far more likely
+    // misconfigured or unmounted than empty, and purging would wipe every row
+    if (documents.length > 0 && !files.some(file => file.key.startsWith('pdfs/'))) {
+      throw new Error('The file store lists no uploads; refusing to treat every document as missing');
+    }
+    // Uploads missing from the listing are looked up before their documents
+    // are given up on, in case the listing was incomplete
+    const unlisted = documents.filter(document =>
+      !expiredIds.has(document.id) && !storedKeys.has(originalPdfKey(document)));
+    const stillStored = await Promise.all(unlisted.map(document => fileStore.exists(originalPdfKey(document))));
+    const missingFile = unlisted.filter((_, index) => !stillStored[index]);
+
+    // Files of expired documents and documents with a missing upload go with
+    // them, so they aren't reported again as orphans
+    const ownedFiles = new Set([
+      ...documents.flatMap(documentFileKeys),
+      ...assets.map(asset => `images/${asset.fileName}`),
+    ]);
+    const orphanedFiles = files
+      .filter(file => !ownedFiles.has(file.key) && now.getTime() - file.modifiedAt.getTime() > ORPHAN_GRACE_PERIOD)
+      .map(file => file.key);
+
+    if (!dryRun) {
+      await purgeDocuments([...expired, ...missingFile]);
+      await Promise.all(orphanedFiles.map(key => fileStore.delete(key)));
+      await storage.deleteFinishedJobs(new Date(now.getTime() - FINISHED_JOB_RETENTION));
+    }
+
+    return {
+      dryRun,
+      expiredDocuments: expired.map(document => document.publicId),
+      missingFileDocuments: missingFile.map(document => document.publicId),
+      orphanedFiles,
+    };
+  }
+}
+
+function logReport(report: JanitorReport) {
+  const { expiredDocuments, missingFileDocuments, orphanedFiles } = report;
+  if (expiredDocuments.length + missingFileDocuments.length + orphanedFiles.length === 0) return;
+
+  console.log(
+    `Janitor ${report.dryRun ? 'would remove' : 'removed'} ${expiredDocuments.length} expired documents, ` +
+    `${missingFileDocuments.length} documents with missing files and ${orphanedFiles.length} orphaned files`,
+  );
+}
+
+export const documentJanitor = new DocumentJanitor(retentionPolicyFromEnv());
@@ -0,0 +1,18 @@
+import "dotenv/config";
+import { documentJanitor } from "./janitor";
+import { closeDb } from "./db";
+
+// Run the janitor once and print its report:
+//   npm run janitor             remove expired documents and orphaned files
+//   npm run janitor -- --dry-run  only report what would be removed
+const dryRun = process.argv.includes('--dry-run');
+
+documentJanitor.run({ dryRun })
+  .then(report => {
+    console.log(JSON.stringify(report, null, 2));
+  })
+  .catch(error => {
+    console.error('Janitor error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
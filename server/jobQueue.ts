@@ -0,0 +1,304 @@
+import type { Document, Job } from "@shared/schema";
+import { isFinished, type JobKind, type PublicJob } from "@shared/jobs";
+import { diffCustomizations } from "@shared/customizationDiff";
+import { storage, type JobUpdate } from "./storage";
+import { loadCoverImages, originalPdfKey, parseCustomizations } from "./documentPdf";
+import { renderCache, type RenderCache } from "./renderCache";
+import { fileStore } from "./fileStore";
+import { createPublicId } from "./documentAccess";
+import { renderWorkers } from "./workerPool";
+import type { RenderTask } from "./renderTask";
+
+// How long waitFor waits for a job before failing it
+const WAIT_TIMEOUT = 2 * 60 * 1000;
+// How often an instance marks its jobs as still in hand, and how long after
+// the last time other instances take them over
+const HEARTBEAT_INTERVAL = 30 * 1000;
+const STALE_AFTER = 2 * 60 * 1000;
+
+export type RenderRunner = (task: RenderTask, onProgress: (fraction: number) => void) => Promise<void>;
+
+export type JobListener = (job: Job) => void;
+
+export function toPublicJob(job: Job): PublicJob {
+  return {
+    id: job.publicId,
+    kind: job.kind,
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    resultUrl: job.status === 'completed' ? `/api/jobs/${job.publicId}/result` : null,
+  };
+}
+
+// Queues PDF renders as jobs kept in storage, and runs them in the background
+// so requests don't wait on rendering. Renders are written to the render
+// cache; a job whose render is cached already completes without rendering.
+// Listeners hear about every change to a job, which the job socket passes on
+// to the browser. Each app instance runs the jobs it queued, and takes over
+// the jobs of instances that stopped sending heartbeats.
+export class JobQueue {
+  // Marks the jobs this instance runs
+  readonly workerId = createPublicId();
+  private queued: Job[] = [];
+  private running = new Map<number, Job>();
+  private listeners = new Map<string, Set<JobListener>>();
+  // Running jobs that were failed for taking too long, whose renders are
+  // left to finish but no longer update the job
+  private expired = new Set<number>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private runner: RenderRunner, readonly concurrency: number, private cache: RenderCache = renderCache) {}
+
+  // Queue a render of the document with the given customizations. A job
+  // rendering the same thing that hasn't finished yet is returned instead of
+  // queuing the work again.
+  async enqueue(document: Document, kind: JobKind, customizations: any): Promise<Job> {
+    const pending = [...this.queued, ...Array.from(this.running.values())].find(job =>
+      job.documentId === document.id && job.kind === kind && diffCustomizations(job.customizations, customizations).length === 0);
+    if (pending) {
+      return (await storage.getJobByPublicId(pending.publicId)) ?? pending;
+    }
+
+    const job = await storage.createJob({ publicId: createPublicId(), documentId: document.id, kind, customizations, workerId: this.workerId, heartbeatAt: new Date() });
+    this.queued.push(job);
+    this.dispatch();
+    return job;
+  }
+
+  // Render a document in a job and wait for it, so the caller doesn't hold
+  // up the server meanwhile; cached renders are used as they are. Resolves
+  // with the render's file key, which is kept from eviction until `release`
+  // is called.
+  async render(document: Document, kind: JobKind, customizations: any): Promise<{ key: string; release: () => void }> {
+    const template = await storage.getTemplate(customizations.templateId);
+    const key = template && (await this.cache.entryFor(document, template, kind, customizations)).key;
+    // Retained before it's looked up, so it can't be evicted in between
+    const release = key ? this.cache.retain(key) : () => {};
+    try {
+      if (key && await this.cache.has(key)) {
+        return { key, release };
+      }
+
+      const job = await this.waitFor((await this.enqueue(document, kind, customizations)).publicId);
+      if (job.status !== 'completed' || !job.resultKey) {
+        throw new Error(job.error || 'Rendering failed');
+      }
+      return { key: job.resultKey, release };
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  // The PDF as it would be downloaded: with its cover when customized,
+  // otherwise the original
+  async readDocumentPdf(document: Document): Promise<Buffer> {
+    if (!document.customizations) {
+      return fileStore.read(originalPdfKey(document));
+    }
+
+    const { key, release } = await this.render(document, 'modified-pdf', parseCustomizations(document.customizations));
+    try {
+      return await fileStore.read(key);
+    } finally {
+      release();
+    }
+  }
+
+  // Resolves with the job once it has completed or failed. A job that hasn't
+  // finished within the timeout is failed, so requests waiting on it can't
+  // hang on a stuck render.
+  waitFor(publicId: string, timeout = WAIT_TIMEOUT): Promise<Job> {
+    return new Promise((resolve, reject) => {
+      const settle = (settleWith: () => void) => {
+        clearTimeout(timer);
+        unsubscribe();
+        settleWith();
+      };
+      const unsubscribe = this.subscribe(publicId, job => {
+        if (isFinished(job)) {
+          settle(() => resolve(job));
+        }
+      });
+      const timer = setTimeout(() => {
+        this.expire(publicId).then(job => settle(() => {
+          if (job) {
+            resolve(job);
+          } else {
+            reject(new Error(`Job ${publicId} not found`));
+          }
+        }), error => settle(() => reject(error)));
+      }, timeout);
+
+      // It may have finished before anyone listened
+      storage.getJobByPublicId(publicId).then(job => {
+        if (!job) {
+          settle(() => reject(new Error(`Job ${publicId} not found`)));
+        } else if (isFinished(job)) {
+          settle(() => resolve(job));
+        }
+      }, error => {
+        settle(() => reject(error));
+      });
+    });
+  }
+
+  // Hear about every change to a job. Returns a function that stops listening.
+  subscribe(publicId: string, listener: JobListener): () => void {
+    let listeners = this.listeners.get(publicId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(publicId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0) {
+        this.listeners.delete(publicId);
+      }
+    };
+  }
+
+  // Keep this instance's jobs marked as in hand, and pick up the jobs of
+  // instances that stopped, including a previous run of this one
+  async start({ interval = HEARTBEAT_INTERVAL }: { interval?: number } = {}): Promise<void> {
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        storage.heartbeatJobs(this.workerId)
+          .then(() => this.takeOverStaleJobs())
+          .catch(error => console.error('Job queue heartbeat error:', error));
+      }, interval);
+      // Don't keep the process alive just for the heartbeat
+      this.timer.unref();
+    }
+    await this.takeOverStaleJobs();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async takeOverStaleJobs() {
+    const staleBefore = new Date(Date.now() - STALE_AFTER);
+    for (const stale of await storage.getStaleJobs(staleBefore)) {
+      if (this.isTracked(stale.id)) continue;
+      // Another instance may take it over first
+      const job = await storage.claimStaleJob(stale.id, this.workerId, staleBefore);
+      if (job) {
+        this.queued.push(job);
+      }
+    }
+    this.dispatch();
+  }
+
+  // Fail a job that's taking too long. It's taken off the queue, or when it's
+  // already rendering, the render's result is ignored. Resolves with the job
+  // as it now is, which may have finished in the meantime.
+  private async expire(publicId: string): Promise<Job | undefined> {
+    const job = await storage.getJobByPublicId(publicId);
+    if (!job || isFinished(job)) return job;
+
+    this.queued = this.queued.filter(queued => queued.id !== job.id);
+    if (this.running.has(job.id)) {
+      this.expired.add(job.id);
+    }
+    return await this.update(job.id, { status: 'failed', error: 'Rendering timed out', finishedAt: new Date() });
+  }
+
+  private isTracked(id: number) {
+    return this.running.has(id) || this.queued.some(job => job.id === id);
+  }
+
+  private dispatch() {
+    while (this.running.size < this.concurrency) {
+      // Jobs of the same kind for a document run one after another, so a
+      // burst of edits to one document can't take up every worker
+      const index = this.queued.findIndex(job => !Array.from(this.running.values())
+        .some(running => running.documentId === job.documentId && running.kind === job.kind));
+      if (index === -1) return;
+
+      const [job] = this.queued.splice(index, 1);
+      this.running.set(job.id, job);
+      this.execute(job)
+        .catch(error => console.error(`Job ${job.publicId} error:`, error))
+        .finally(() => {
+          this.running.delete(job.id);
+          this.expired.delete(job.id);
+          this.dispatch();
+        });
+    }
+  }
+
+  private async execute(job: Job) {
+    // Updates are saved in order, so a late progress report can't land after
+    // the job has finished
+    let updates = Promise.resolve();
+    const update = (changes: JobUpdate) => {
+      const saved = updates.then(async () => {
+        if (!this.expired.has(job.id)) {
+          await this.update(job.id, changes);
+        }
+      });
+      updates = saved.catch(() => {});
+      return saved;
+    };
+
+    try {
+      await update({ status: 'running', progress: 0, startedAt: new Date() });
+      const task = await this.prepareTask(job);
+      if (!(await this.cache.has(task.outputKey))) {
+        await this.runner(task, fraction => {
+          update({ progress: Math.min(99, Math.round(fraction * 100)) })
+            .catch(error => console.error(`Job ${job.publicId} progress error:`, error));
+        });
+      }
+      await update({ status: 'completed', progress: 100, resultKey: task.outputKey, finishedAt: new Date() });
+    } catch (error) {
+      console.error(`Job ${job.publicId} failed:`, error);
+      await update({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error', finishedAt: new Date() });
+    }
+  }
+
+  private async prepareTask(job: Job): Promise<RenderTask> {
+    const document = await storage.getDocument(job.documentId);
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    const customizations = parseCustomizations(job.customizations);
+    const template = await storage.getTemplate(customizations.templateId);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    const { key } = await this.cache.entryFor(document, template, job.kind, customizations);
+    return {
+      kind: job.kind,
+      originalKey: originalPdfKey(document),
+      outputKey: key,
+      template,
+      customizations,
+      images: await loadCoverImages(document, customizations),
+    };
+  }
+
+  private async update(id: number, changes: JobUpdate): Promise<Job | undefined> {
+    const job: Job | undefined = await storage.updateJob(id, changes);
+    // Gone when its document was purged while it ran
+    if (job) {
+      this.listeners.get(job.publicId)?.forEach(listener => listener(job));
+    }
+    return job;
+  }
+}
+
+export const jobQueue = new JobQueue(async (task, onProgress) => {
+  await renderWorkers.run(task, onProgress);
+  // Keep the cache within its size limit as renders are added
+  renderCache.evict().catch(error => console.error('Render cache eviction error:', error));
+}, renderWorkers.size);
@@ -0,0 +1,88 @@
+import { ServerResponse, type IncomingMessage, type Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { isFinished, jobSocketRequestSchema, JOB_SOCKET_PATH, type JobSocketMessage } from "@shared/jobs";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { findAccessibleJob } from "./documentAccess";
+import { toPublicJob, type JobQueue } from "./jobQueue";
+
+// Run the session middleware on an upgrade request, which never reaches
+// Express, so the socket knows who is signed in
+async function loadSession(req: IncomingMessage, sessionHandlers: RequestHandler[]) {
+  const res = new ServerResponse(req) as Response;
+  for (const handler of sessionHandlers) {
+    await new Promise<void>((resolve, reject) => handler(req as Request, res, error => error ? reject(error) : resolve()));
+  }
+}
+
+// Pushes job updates to the browser over a WebSocket. Clients subscribe to
+// jobs by ID, and get the same access to them as through the jobs API: the
+// session's user has to be able to open the job's document.
+export function attachJobSocket(server: Server, queue: JobQueue, sessionHandlers: RequestHandler[] = []): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Other upgrades, such as Vite's hot reloading in development, are left alone
+  server.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== JOB_SOCKET_PATH) return;
+    loadSession(req, sessionHandlers).then(
+      () => wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req)),
+      error => {
+        console.error('Job socket session error:', error);
+        socket.destroy();
+      },
+    );
+  });
+
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    const user = (req as Request).user as User | undefined;
+    const unsubscribes: (() => void)[] = [];
+    const send = (message: JobSocketMessage) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    ws.on('message', async (data) => {
+      let request;
+      try {
+        request = jobSocketRequestSchema.safeParse(JSON.parse(data.toString()));
+      } catch {
+        request = undefined;
+      }
+      if (!request?.success) {
+        return ws.close(1003, 'Invalid message');
+      }
+
+      const { jobId } = request.data;
+      try {
+        // Jobs the user can't open get the same error as missing ones
+        if (!(await findAccessibleJob(jobId, user))) {
+          return send({ type: 'error', jobId, message: 'Job not found' });
+        }
+
+        // Listen before loading the job again, so no update is missed
+        const unsubscribe = queue.subscribe(jobId, job => {
+          send({ type: 'job', job: toPublicJob(job) });
+          if (isFinished(job)) unsubscribe();
+        });
+        unsubscribes.push(unsubscribe);
+
+        const job = await storage.getJobByPublicId(jobId);
+        if (!job) {
+          unsubscribe();
+          return send({ type: 'error', jobId, message: 'Job not found' });
+        }
+        send({ type: 'job', job: toPublicJob(job) });
+        if (isFinished(job)) unsubscribe();
+      } catch (error) {
+        console.error('Job socket error:', error);
+        send({ type: 'error', jobId, message: 'Failed to get job' });
+      }
+    });
+
+    ws.on('close', () => unsubscribes.forEach(unsubscribe => unsubscribe()));
+  });
+
+  return wss;
+}
@@ -1,29 +1,108 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import passport from "passport";
 import { Strategy as LinkedInStrategy } from "passport-linkedin-oauth2";
 import session from "express-session";
-import { storage } from "./storage";
-import MemoryStore from "memorystore";
+import { storage, type LinkedinTokenUpdate } from "./storage";
+import type { User } from "@shared/schema";
+import { toPublicUser } from "./localAuth";
+import { DrizzleSessionStore } from "./sessionStore";
+import { claimSessionDocuments } from "./documentAccess";
+import { LinkedInTokenExpiredError, tokenExpiry, type LinkedInClient } from "./linkedinClient";
 
-const MemoryStoreSession = MemoryStore(session);
+// Access tokens are renewed when they have less than this left, so they
+// don't run out partway through a share
+const REFRESH_MARGIN = 5 * 60 * 1000;
 
-export function setupLinkedInAuth(app: Express) {
-  // Configure session middleware
-  app.use(
+// An access token for the user's LinkedIn API calls, refreshed first when it
+// is about to expire. Throws LinkedInTokenExpiredError when the user has to
+// sign in with LinkedIn again.
+export async function getLinkedInAccessToken(client: LinkedInClient, user: User): Promise<string> {
+  if (!user.linkedinToken) {
+    throw new LinkedInTokenExpiredError();
+  }
+  // Tokens saved before expiry was tracked are used until LinkedIn rejects them
+  if (!user.linkedinTokenExpiresAt || user.linkedinTokenExpiresAt.getTime() - Date.now() > REFRESH_MARGIN) {
+    return user.linkedinToken;
+  }
+  if (!user.linkedinRefreshToken) {
+    throw new LinkedInTokenExpiredError();
+  }
+
+  const tokens = await client.refreshAccessToken(user.linkedinRefreshToken);
+  await storage.updateUserLinkedinTokens(user.id, {
+    linkedinToken: tokens.accessToken,
+    linkedinRefreshToken: tokens.refreshToken,
+    linkedinTokenExpiresAt: tokens.expiresAt,
+  });
+  return tokens.accessToken;
+}
+
+// The profile fields used from LinkedIn
+export interface LinkedInProfile {
+  id: string;
+  displayName?: string;
+  emails?: { value: string }[];
+  photos?: { value: string }[];
+}
+
+// The user signing in with a LinkedIn profile. A LinkedIn account is linked
+// to the account already registered with its email address, if that account
+// isn't linked to another LinkedIn account; otherwise a new user is created.
+export async function findOrCreateLinkedInUser(profile: LinkedInProfile, tokens: LinkedinTokenUpdate): Promise<User> {
+  const user = await storage.getUserByLinkedinId(profile.id);
+  if (user) {
+    return storage.updateUserLinkedinTokens(user.id, tokens);
+  }
+
+  const email = profile.emails?.[0]?.value?.trim().toLowerCase() || null;
+  const registered = email ? await storage.getUserByEmail(email) : undefined;
+  if (registered && !registered.linkedinId) {
+    return storage.linkLinkedinAccount(registered.id, {
+      ...tokens,
+      linkedinId: profile.id,
+      // Whoever chose the password of an unverified account may not own the
+      // address; the owner can set a new one with a password reset
+      ...(!registered.emailVerified && { password: null }),
+    });
+  }
+
+  return storage.createUser({
+    ...tokens,
+    // Local accounts are named after their email, which may be taken
+    username: email && !registered ? email : `linkedin_${profile.id}`,
+    linkedinId: profile.id,
+    email: registered ? null : email,
+    fullName: profile.displayName,
+    profilePicture: profile.photos?.[0]?.value,
+  });
+}
+
+// Sessions, passport, and sign-in with LinkedIn. Email and password sign-in
+// is added on top of this by setupLocalAuth. Returns the middleware that
+// loads the session and its user, for requests that don't go through Express,
+// such as WebSocket upgrades.
+export function setupLinkedInAuth(app: Express): RequestHandler[] {
+  if (!process.env.LINKEDIN_CLIENT_ID || !process.env.LINKEDIN_CLIENT_SECRET) {
+    console.warn("LinkedIn OAuth credentials missing. LinkedIn login will not work.");
+  }
+
+  const sessionStore = new DrizzleSessionStore();
+  sessionStore.startPruning();
+
+  const sessionHandlers = [
+    // Configure session middleware
     session({
       secret: process.env.SESSION_SECRET || "linkedin-pdf-enhancer-secret",
       resave: false,
       saveUninitialized: false,
       cookie: { secure: process.env.NODE_ENV === "production", maxAge: 24 * 60 * 60 * 1000 }, // 24 hours
-      store: new MemoryStoreSession({
-        checkPeriod: 86400000, // prune expired entries every 24h
-      }),
-    })
-  );
-
-  // Initialize Passport
-  app.use(passport.initialize());
-  app.use(passport.session());
+      store: sessionStore,
+    }),
+    // Initialize Passport
+    passport.initialize(),
+    passport.session(),
+  ];
+  app.use(sessionHandlers);
 
   // Configure LinkedIn strategy
   passport.use(
@@ -32,28 +111,23 @@ export function setupLinkedInAuth(app: Express) {
         clientID: process.env.LINKEDIN_CLIENT_ID || "linkedin-client-id",
         clientSecret: process.env.LINKEDIN_CLIENT_SECRET || "linkedin-client-secret",
         callbackURL: "/api/auth/linkedin/callback",
-        scope: ["r_emailaddress", "r_liteprofile"],
+        // w_member_social is needed to post documents on the member's behalf
+        scope: ["r_emailaddress", "r_liteprofile", "w_member_social"],
         state: true,
+        passReqToCallback: true,
       },
-      async (accessToken, refreshToken, profile, done) => {
+      // With six parameters, passport also passes the token response, which
+      // has the access token's lifetime
+      async (req: Request, accessToken: string, refreshToken: string | undefined, params: { expires_in?: number }, profile: LinkedInProfile, done: (error: Error | null, user?: User) => void) => {
         try {
-          // Check if user exists
-          let user = await storage.getUserByLinkedinId(profile.id);
-
-          if (!user) {
-            // Create new user
-            user = await storage.createUser({
-              username: profile.emails[0].value || `linkedin_${profile.id}`,
-              linkedinId: profile.id,
-              linkedinToken: accessToken,
-              email: profile.emails[0].value,
-              fullName: profile.displayName,
-              profilePicture: profile.photos?.[0]?.value,
-            });
-          } else {
-            // Update user's LinkedIn token
-            await storage.updateUserLinkedinToken(user.id, accessToken);
-          }
+          const tokens = {
+            linkedinToken: accessToken,
+            linkedinRefreshToken: refreshToken || null,
+            linkedinTokenExpiresAt: tokenExpiry(params.expires_in),
+          };
+
+          const user = await findOrCreateLinkedInUser(profile, tokens);
+          await claimSessionDocuments(req, user);
 
           return done(null, user);
         } catch (error) {
@@ -92,7 +166,7 @@ export function setupLinkedInAuth(app: Express) {
   // Auth status endpoint
   app.get("/api/auth/status", (req, res) => {
     if (req.isAuthenticated()) {
-      res.json(req.user);
+      res.json(toPublicUser(req.user as User));
     } else {
       res.status(401).json({ message: "Not authenticated" });
     }
@@ -104,4 +178,6 @@ export function setupLinkedInAuth(app: Express) {
       res.json({ message: "Logged out successfully" });
     });
   });
+
+  return sessionHandlers;
 }
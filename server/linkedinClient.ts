@@ -0,0 +1,295 @@
+// Posting documents to LinkedIn. A document post takes three calls: register
+// an upload for the PDF, upload its bytes, then create a post that references
+// the uploaded document. Access tokens are renewed with the member's refresh
+// token through the same client. The calls go through the LinkedInClient interface so
+// local development and tests can use the in-memory FakeLinkedInClient instead
+// of the real API.
+
+import type { PostVisibility, ShareMention } from "@shared/linkedinPost";
+
+const API_URL = 'https://api.linkedin.com/rest';
+const TOKEN_URL = 'https://www.linkedin.com/oauth/v2/accessToken';
+// LinkedIn's versioned REST API, as YYYYMM
+const API_VERSION = '202405';
+
+export interface DocumentUpload {
+  uploadUrl: string;
+  // urn:li:document:...
+  document: string;
+}
+
+export interface DocumentPost {
+  // urn:li:person:... of the member posting
+  author: string;
+  commentary: string;
+  // Without the leading #
+  hashtags: string[];
+  mentions: ShareMention[];
+  visibility: PostVisibility;
+  document: string;
+  title: string;
+}
+
+export interface LinkedInTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+}
+
+export interface LinkedInClient {
+  // Throws LinkedInTokenExpiredError when the refresh token is no longer valid
+  refreshAccessToken(refreshToken: string): Promise<LinkedInTokens>;
+  initializeDocumentUpload(accessToken: string, owner: string): Promise<DocumentUpload>;
+  uploadDocument(accessToken: string, uploadUrl: string, bytes: Uint8Array): Promise<void>;
+  // Resolves with the URN of the new post
+  createPost(accessToken: string, post: DocumentPost): Promise<string>;
+}
+
+export class LinkedInApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// The member's access token has expired or been revoked; they need to sign
+// in with LinkedIn again
+export class LinkedInTokenExpiredError extends LinkedInApiError {
+  constructor() {
+    super('LinkedIn access token has expired', 401);
+  }
+}
+
+// OAuth responses give lifetimes in seconds from now
+export function tokenExpiry(expiresIn: number | undefined): Date | null {
+  return expiresIn ? new Date(Date.now() + expiresIn * 1000) : null;
+}
+
+export function personUrn(linkedinId: string) {
+  return `urn:li:person:${linkedinId}`;
+}
+
+export function postUrl(postUrn: string) {
+  return `https://www.linkedin.com/feed/update/${postUrn}`;
+}
+
+// Commentary is parsed as LinkedIn's "little text" format, where these
+// characters have meaning and must be escaped to appear literally
+export function escapeCommentary(text: string) {
+  return text.replace(/[\\|{}@[\]()<>#*_~]/g, match => `\\${match}`);
+}
+
+// The post text followed by its mentions and hashtags, in little text format
+export function formatCommentary(post: Pick<DocumentPost, 'commentary' | 'hashtags' | 'mentions'>) {
+  const mentions = post.mentions.map(mention => `@[${escapeCommentary(mention.name)}](${mention.urn})`);
+  const hashtags = post.hashtags.map(tag => `{hashtag|\\#|${escapeCommentary(tag)}}`);
+
+  return [escapeCommentary(post.commentary.trim()), mentions.join(' '), hashtags.join(' ')]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export class HttpLinkedInClient implements LinkedInClient {
+  constructor(
+    private clientId = process.env.LINKEDIN_CLIENT_ID || '',
+    private clientSecret = process.env.LINKEDIN_CLIENT_SECRET || '',
+  ) {}
+
+  private async request(accessToken: string, url: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Authorization': `Bearer ${accessToken}`,
+        'LinkedIn-Version': API_VERSION,
+        'X-Restli-Protocol-Version': '2.0.0',
+      },
+    });
+
+    if (response.status === 401) {
+      throw new LinkedInTokenExpiredError();
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => undefined);
+      throw new LinkedInApiError(body?.message || `LinkedIn API request failed with status ${response.status}`, response.status);
+    }
+    return response;
+  }
+
+  async refreshAccessToken(refreshToken: string): Promise<LinkedInTokens> {
+    const response = await fetch(TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+      }),
+    });
+
+    const body = await response.json().catch(() => undefined);
+    // An expired or revoked refresh token is reported as invalid_grant
+    if (response.status === 400 || response.status === 401) {
+      throw new LinkedInTokenExpiredError();
+    }
+    if (!response.ok) {
+      throw new LinkedInApiError(body?.error_description || `LinkedIn token refresh failed with status ${response.status}`, response.status);
+    }
+
+    return {
+      accessToken: body.access_token,
+      // LinkedIn may hand back the same refresh token or none at all
+      refreshToken: body.refresh_token || refreshToken,
+      expiresAt: tokenExpiry(body.expires_in),
+    };
+  }
+
+  async initializeDocumentUpload(accessToken: string, owner: string): Promise<DocumentUpload> {
+    const response = await this.request(accessToken, `${API_URL}/documents?action=initializeUpload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ initializeUploadRequest: { owner } }),
+    });
+
+    const { value } = await response.json();
+    return { uploadUrl: value.uploadUrl, document: value.document };
+  }
+
+  async uploadDocument(accessToken: string, uploadUrl: string, bytes: Uint8Array): Promise<void> {
+    await this.request(accessToken, uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: bytes,
+    });
+  }
+
+  async createPost(accessToken: string, post: DocumentPost): Promise<string> {
+    const response = await this.request(accessToken, `${API_URL}/posts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        author: post.author,
+        commentary: formatCommentary(post),
+        visibility: post.visibility,
+        distribution: {
+          feedDistribution: 'MAIN_FEED',
+          targetEntities: [],
+          thirdPartyDistributionChannels: [],
+        },
+        content: {
+          media: { title: post.title, id: post.document },
+        },
+        lifecycleState: 'PUBLISHED',
+        isReshareDisabledByAuthor: false,
+      }),
+    });
+
+    // The new post's URN is only returned in a header
+    const postUrn = response.headers.get('x-restli-id');
+    if (!postUrn) {
+      throw new LinkedInApiError('LinkedIn did not return the created post', response.status);
+    }
+    return postUrn;
+  }
+}
+
+// Keeps uploads and posts in memory. Any token is accepted until it is
+// expired with expireToken(); refresh tokens can be expired the same way.
+export class FakeLinkedInClient implements LinkedInClient {
+  documents = new Map<string, { owner: string; bytes: Uint8Array | null }>();
+  posts = new Map<string, DocumentPost>();
+  private expiredTokens = new Set<string>();
+  private nextId = 1;
+
+  expireToken(accessToken: string) {
+    this.expiredTokens.add(accessToken);
+  }
+
+  private checkToken(accessToken: string) {
+    if (this.expiredTokens.has(accessToken)) {
+      throw new LinkedInTokenExpiredError();
+    }
+  }
+
+  async refreshAccessToken(refreshToken: string): Promise<LinkedInTokens> {
+    this.checkToken(refreshToken);
+    return {
+      accessToken: `fake-access-token-${this.nextId++}`,
+      refreshToken,
+      expiresAt: tokenExpiry(60 * 24 * 60 * 60),
+    };
+  }
+
+  async initializeDocumentUpload(accessToken: string, owner: string): Promise<DocumentUpload> {
+    this.checkToken(accessToken);
+    const document = `urn:li:document:fake-${this.nextId++}`;
+    this.documents.set(document, { owner, bytes: null });
+    return { uploadUrl: `fake://uploads/${encodeURIComponent(document)}`, document };
+  }
+
+  async uploadDocument(accessToken: string, uploadUrl: string, bytes: Uint8Array): Promise<void> {
+    this.checkToken(accessToken);
+    const document = this.documents.get(decodeURIComponent(uploadUrl.replace('fake://uploads/', '')));
+    if (!document) {
+      throw new LinkedInApiError('Unknown upload URL', 404);
+    }
+    document.bytes = bytes;
+  }
+
+  async createPost(accessToken: string, post: DocumentPost): Promise<string> {
+    this.checkToken(accessToken);
+    const document = this.documents.get(post.document);
+    if (!document?.bytes) {
+      throw new LinkedInApiError(`Document ${post.document} has not been uploaded`, 422);
+    }
+    if (document.owner !== post.author) {
+      throw new LinkedInApiError('Documents can only be posted by their owner', 403);
+    }
+
+    const postUrn = `urn:li:share:fake-${this.nextId++}`;
+    this.posts.set(postUrn, post);
+    return postUrn;
+  }
+}
+
+export interface ShareDocumentOptions {
+  author: string;
+  pdf: Uint8Array;
+  title: string;
+  commentary: string;
+  hashtags?: string[];
+  mentions?: ShareMention[];
+  visibility: PostVisibility;
+}
+
+// Upload a PDF and post it as a document, resolving with the post's URN
+export async function shareDocument(client: LinkedInClient, accessToken: string, options: ShareDocumentOptions): Promise<string> {
+  const upload = await client.initializeDocumentUpload(accessToken, options.author);
+  await client.uploadDocument(accessToken, upload.uploadUrl, options.pdf);
+
+  return client.createPost(accessToken, {
+    author: options.author,
+    commentary: options.commentary,
+    hashtags: options.hashtags ?? [],
+    mentions: options.mentions ?? [],
+    visibility: options.visibility,
+    document: upload.document,
+    title: options.title,
+  });
+}
+
+// LINKEDIN_CLIENT=fake selects the in-memory client; it is also used outside
+// production when no LinkedIn app is configured
+function createLinkedInClient(): LinkedInClient {
+  const useFake = process.env.LINKEDIN_CLIENT
+    ? process.env.LINKEDIN_CLIENT === 'fake'
+    : process.env.NODE_ENV !== 'production' && !process.env.LINKEDIN_CLIENT_ID;
+
+  if (useFake) {
+    console.warn('Using the fake LinkedIn client; documents will not be posted to LinkedIn.');
+    return new FakeLinkedInClient();
+  }
+  return new HttpLinkedInClient();
+}
+
+export const linkedInClient = createLinkedInClient();
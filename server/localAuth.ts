@@ -0,0 +1,267 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { z } from "zod";
+import type { AuthToken, User } from "@shared/schema";
+import { storage } from "./storage";
+import { mailer } from "./mailer";
+import { createToken, hashPassword, hashToken, verifyPassword } from "./passwords";
+import { claimSessionDocuments } from "./documentAccess";
+
+// Email and password accounts, next to LinkedIn sign-in. Passwords are hashed
+// with scrypt; verification and reset links carry single-use tokens of which
+// only a hash is stored.
+
+const VERIFY_EMAIL_TTL = 24 * 60 * 60 * 1000;
+const RESET_PASSWORD_TTL = 60 * 60 * 1000;
+
+type TokenPurpose = 'verify-email' | 'reset-password';
+
+const emailSchema = z.string().trim().toLowerCase().email();
+const passwordSchema = z.string().min(8, 'Password must be at least 8 characters').max(128);
+
+const registerSchema = z.object({
+  email: emailSchema,
+  password: passwordSchema,
+  fullName: z.string().trim().max(100).optional(),
+});
+
+const tokenSchema = z.object({ token: z.string().min(1) });
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+// The user as sent to the browser, without credentials or LinkedIn tokens
+export function toPublicUser(user: User) {
+  const { password, linkedinToken, linkedinRefreshToken, linkedinTokenExpiresAt, ...publicUser } = user;
+  return publicUser;
+}
+
+// Links in emails point at the client, which finishes the flow through the
+// API. They're never built from the request's Host header, which the sender
+// controls: a forged one would mail a reset token to their own site.
+export function appUrlFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.APP_URL) {
+    return env.APP_URL.replace(/\/+$/, '');
+  }
+  if (env.NODE_ENV === 'production') {
+    throw new Error('APP_URL must be set in production');
+  }
+  return `http://localhost:${Number(env.PORT) || 5000}`;
+}
+
+async function issueToken(userId: number, purpose: TokenPurpose, ttl: number) {
+  const { token, tokenHash } = createToken();
+  await storage.createAuthToken({ userId, purpose, tokenHash, expiresAt: new Date(Date.now() + ttl) });
+  return token;
+}
+
+// Look up an unused, unexpired token and use it up
+async function redeemToken(purpose: TokenPurpose, token: string): Promise<AuthToken | undefined> {
+  const authToken = await storage.getAuthToken(purpose, hashToken(token));
+  if (!authToken || authToken.usedAt || authToken.expiresAt < new Date()) {
+    return undefined;
+  }
+
+  await storage.markAuthTokenUsed(authToken.id);
+  return authToken;
+}
+
+async function sendVerificationEmail(appUrl: string, user: User) {
+  const token = await issueToken(user.id, 'verify-email', VERIFY_EMAIL_TTL);
+  await mailer.send({
+    to: user.email!,
+    subject: 'Verify your PresentPro email address',
+    text: [
+      `Hi ${user.fullName || 'there'},`,
+      '',
+      'Confirm your email address by opening this link:',
+      `${appUrl}/verify-email?token=${token}`,
+      '',
+      'The link expires in 24 hours.',
+    ].join('\n'),
+  });
+}
+
+async function sendPasswordResetEmail(appUrl: string, user: User) {
+  const token = await issueToken(user.id, 'reset-password', RESET_PASSWORD_TTL);
+  await mailer.send({
+    to: user.email!,
+    subject: 'Reset your PresentPro password',
+    text: [
+      `Hi ${user.fullName || 'there'},`,
+      '',
+      'Choose a new password by opening this link:',
+      `${appUrl}/reset-password?token=${token}`,
+      '',
+      "The link expires in 1 hour. If you didn't ask to reset your password, you can ignore this email.",
+    ].join('\n'),
+  });
+}
+
+export function setupLocalAuth(app: Express) {
+  // Read up front, so a production server without APP_URL fails to start
+  const appUrl = appUrlFromEnv();
+
+  passport.use(
+    new LocalStrategy({ usernameField: 'email', passReqToCallback: true }, async (req, email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email.trim().toLowerCase());
+        // Accounts created through LinkedIn have no password until one is set
+        // with a password reset
+        if (!user?.password || !(await verifyPassword(password, user.password))) {
+          return done(null, false, { message: 'Invalid email or password' });
+        }
+
+        await claimSessionDocuments(req, user);
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    })
+  );
+
+  // Create an account and sign in to it
+  app.post('/api/auth/register', async (req: Request, res: Response) => {
+    try {
+      const parsed = registerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+
+      const { email, password, fullName } = parsed.data;
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: 'An account with this email already exists' });
+      }
+
+      const user = await storage.createUser({
+        username: email,
+        email,
+        password: await hashPassword(password),
+        fullName: fullName || null,
+      });
+      await claimSessionDocuments(req, user);
+
+      try {
+        await sendVerificationEmail(appUrl, user);
+      } catch (error) {
+        // The account is usable without it; a new link can be requested later
+        console.error('Verification email error:', error);
+      }
+
+      req.login(user, (error) => {
+        if (error) {
+          console.error('Register error:', error);
+          return res.status(500).json({ message: 'Failed to sign in to the new account' });
+        }
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error('Register error:', error);
+      res.status(500).json({ message: 'Failed to create account' });
+    }
+  });
+
+  app.post('/api/auth/login', (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate('local', (error: unknown, user: User | false, info?: { message: string }) => {
+      if (error) {
+        console.error('Login error:', error);
+        return res.status(500).json({ message: 'Failed to sign in' });
+      }
+      if (!user) {
+        return res.status(401).json({ message: info?.message || 'Invalid email or password' });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) {
+          console.error('Login error:', loginError);
+          return res.status(500).json({ message: 'Failed to sign in' });
+        }
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/verify-email', async (req: Request, res: Response) => {
+    try {
+      const parsed = tokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid verification link' });
+      }
+
+      const authToken = await redeemToken('verify-email', parsed.data.token);
+      if (!authToken) {
+        return res.status(400).json({ message: 'This verification link is invalid or has expired' });
+      }
+
+      await storage.setUserEmailVerified(authToken.userId);
+      res.json({ message: 'Email address verified' });
+    } catch (error) {
+      console.error('Verify email error:', error);
+      res.status(500).json({ message: 'Failed to verify email address' });
+    }
+  });
+
+  // Send a new verification link to the signed-in user
+  app.post('/api/auth/resend-verification', async (req: Request, res: Response) => {
+    try {
+      const user = req.user as User | undefined;
+      if (!user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      if (!user.email || user.emailVerified) {
+        return res.status(400).json({ message: 'There is no email address to verify' });
+      }
+
+      await sendVerificationEmail(appUrl, user);
+      res.json({ message: 'Verification email sent' });
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({ message: 'Failed to send verification email' });
+    }
+  });
+
+  // Email a reset link. The response is the same whether or not the address
+  // has an account, so it can't be used to find out who is registered.
+  app.post('/api/auth/forgot-password', async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({ email: emailSchema }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Enter a valid email address' });
+      }
+
+      const user = await storage.getUserByEmail(parsed.data.email);
+      if (user) {
+        await sendPasswordResetEmail(appUrl, user);
+      }
+      res.json({ message: 'If an account exists for that address, a reset link has been sent' });
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({ message: 'Failed to send password reset email' });
+    }
+  });
+
+  app.post('/api/auth/reset-password', async (req: Request, res: Response) => {
+    try {
+      const parsed = resetPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, errors: parsed.error.errors });
+      }
+
+      const authToken = await redeemToken('reset-password', parsed.data.token);
+      if (!authToken) {
+        return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+      }
+
+      await storage.updateUserPassword(authToken.userId, await hashPassword(parsed.data.password));
+      // Following the emailed link proves the address belongs to the user
+      await storage.setUserEmailVerified(authToken.userId);
+      res.json({ message: 'Password updated' });
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(500).json({ message: 'Failed to reset password' });
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import path from "path";
+import fs from "fs/promises";
+import nodemailer, { type Transporter } from "nodemailer";
+
+// Outgoing email goes through a MailTransport. With SMTP_URL set, mail is
+// sent over SMTP; otherwise each message is appended to a log file so
+// verification and reset links can be followed in development.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'PresentPro <no-reply@presentpro.app>';
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(url: string, private from = MAIL_FROM) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+export class FileMailTransport implements MailTransport {
+  constructor(private filePath: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const entry = [
+      `Date: ${new Date().toISOString()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+      '',
+      '---',
+      '',
+    ].join('\n');
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, entry);
+  }
+}
+
+function createMailTransport(): MailTransport {
+  if (process.env.SMTP_URL) {
+    return new SmtpMailTransport(process.env.SMTP_URL);
+  }
+
+  const filePath = process.env.MAIL_LOG_FILE || path.resolve(process.cwd(), 'logs', 'mail.log');
+  if (process.env.NODE_ENV === 'production') {
+    console.warn(`SMTP_URL is not set; emails will be written to ${filePath} instead of sent.`);
+  }
+  return new FileMailTransport(filePath);
+}
+
+export const mailer = createMailTransport();
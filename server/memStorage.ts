@@ -0,0 +1,435 @@
+import type { User, InsertUser, AuthToken, InsertAuthToken, Session, Document, InsertDocument, DocumentVersion, DocumentVersionWithAuthor, ScheduledShare, InsertScheduledShare, Template, InsertTemplate, Asset, InsertAsset, Job, InsertJob } from "@shared/schema";
+import { startOfDay, nextDay, type DocumentListQuery } from "@shared/documentLibrary";
+import type { TemplateLayout } from "@shared/templateLayout";
+import { isFinished } from "@shared/jobs";
+import type { IStorage, JobUpdate, LinkedinAccountLink, LinkedinTokenUpdate, ScheduledShareUpdate } from "./storage";
+
+// A table of rows with auto-increment IDs. Rows are copied on the way in and
+// out, so callers can't change stored rows by accident, as with the database.
+class MemTable<T extends { id: number }> {
+  private rows = new Map<number, T>();
+  private nextId = 1;
+
+  insert(row: Omit<T, 'id'>): T {
+    const stored = { ...structuredClone(row), id: this.nextId++ } as T;
+    this.rows.set(stored.id, stored);
+    return structuredClone(stored);
+  }
+
+  get(id: number): T | undefined {
+    const row = this.rows.get(id);
+    return row && structuredClone(row);
+  }
+
+  find(predicate: (row: T) => boolean): T | undefined {
+    return this.filter(predicate)[0];
+  }
+
+  filter(predicate: (row: T) => boolean = () => true): T[] {
+    return Array.from(this.rows.values()).filter(predicate).map(row => structuredClone(row));
+  }
+
+  update(predicate: (row: T) => boolean, changes: Partial<T>) {
+    this.rows.forEach(row => {
+      if (predicate(row)) {
+        Object.assign(row, structuredClone(changes));
+      }
+    });
+  }
+
+  delete(predicate: (row: T) => boolean) {
+    this.rows.forEach((row, id) => {
+      if (predicate(row)) {
+        this.rows.delete(id);
+      }
+    });
+  }
+}
+
+// The database rejects duplicates in unique columns
+function assertUnique<T>(rows: T[], column: keyof T & string, value: unknown) {
+  if (value != null && rows.some(row => row[column] === value)) {
+    throw new Error(`Duplicate entry '${String(value)}' for ${column}`);
+  }
+}
+
+// A field of a document's customizations, which may be stored as a
+// JSON-encoded string
+function customizationField(document: Document, field: string): unknown {
+  const customizations = typeof document.customizations === 'string'
+    ? JSON.parse(document.customizations)
+    : document.customizations;
+  return (customizations as Record<string, unknown> | null)?.[field];
+}
+
+// Like MySQL's default collation: case-insensitive
+const collator = new Intl.Collator(undefined, { sensitivity: 'base' });
+
+function includesIgnoringCase(value: unknown, search: string) {
+  return typeof value === 'string' && value.toLowerCase().includes(search.toLowerCase());
+}
+
+const isStale = (job: Job, staleBefore: Date) => !isFinished(job) && job.heartbeatAt < staleBefore;
+
+const byDate = <T>(field: (row: T) => Date) => (a: T, b: T) => field(a).getTime() - field(b).getTime();
+
+// Keeps everything in memory, for tests and for running without MySQL. It
+// behaves like DatabaseStorage; the storage contract tests hold both to it.
+export class MemStorage implements IStorage {
+  private users = new MemTable<User>();
+  private authTokens = new MemTable<AuthToken>();
+  private sessions = new Map<string, Session>();
+  private documents = new MemTable<Document>();
+  private documentVersions = new MemTable<DocumentVersion>();
+  private scheduledShares = new MemTable<ScheduledShare>();
+  private assets = new MemTable<Asset>();
+  private templates = new MemTable<Template>();
+  private jobs = new MemTable<Job>();
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.users.find(user => user.username === username);
+  }
+
+  async getUserByLinkedinId(linkedinId: string): Promise<User | undefined> {
+    return this.users.find(user => user.linkedinId === linkedinId);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const existing = this.users.filter();
+    assertUnique(existing, 'username', insertUser.username);
+    assertUnique(existing, 'linkedinId', insertUser.linkedinId);
+
+    return this.users.insert({
+      password: null,
+      email: null,
+      linkedinId: null,
+      linkedinToken: null,
+      linkedinRefreshToken: null,
+      linkedinTokenExpiresAt: null,
+      profilePicture: null,
+      fullName: null,
+      ...insertUser,
+      emailVerified: false,
+    });
+  }
+
+  async updateUserLinkedinTokens(userId: number, tokens: LinkedinTokenUpdate): Promise<User> {
+    this.users.update(user => user.id === userId, tokens);
+    return this.users.get(userId)!;
+  }
+
+  async linkLinkedinAccount(userId: number, link: LinkedinAccountLink): Promise<User> {
+    assertUnique(this.users.filter(user => user.id !== userId), 'linkedinId', link.linkedinId);
+    this.users.update(user => user.id === userId, { ...link, emailVerified: true });
+    return this.users.get(userId)!;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.users.find(user => user.email === email);
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string): Promise<User> {
+    this.users.update(user => user.id === userId, { password: passwordHash });
+    return this.users.get(userId)!;
+  }
+
+  async setUserEmailVerified(userId: number): Promise<User> {
+    this.users.update(user => user.id === userId, { emailVerified: true });
+    return this.users.get(userId)!;
+  }
+
+  // Email verification and password reset tokens
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    return this.authTokens.insert({ ...token, usedAt: null, createdAt: new Date() });
+  }
+
+  async getAuthToken(purpose: string, tokenHash: string): Promise<AuthToken | undefined> {
+    return this.authTokens.find(token => token.purpose === purpose && token.tokenHash === tokenHash);
+  }
+
+  async markAuthTokenUsed(id: number): Promise<void> {
+    this.authTokens.update(token => token.id === id, { usedAt: new Date() });
+  }
+
+  // Session operations
+  async getSession(sid: string, now: Date): Promise<Session | undefined> {
+    const session = this.sessions.get(sid);
+    return session && session.expiresAt > now ? { ...session } : undefined;
+  }
+
+  async setSession(sid: string, data: string, expiresAt: Date): Promise<void> {
+    this.sessions.set(sid, { sid, data, expiresAt });
+  }
+
+  async touchSession(sid: string, expiresAt: Date): Promise<void> {
+    const session = this.sessions.get(sid);
+    if (session) {
+      session.expiresAt = expiresAt;
+    }
+  }
+
+  async destroySession(sid: string): Promise<void> {
+    this.sessions.delete(sid);
+  }
+
+  async deleteExpiredSessions(now: Date): Promise<void> {
+    this.sessions.forEach((session, sid) => {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(sid);
+      }
+    });
+  }
+
+  // Document operations
+  async getDocument(id: number): Promise<Document | undefined> {
+    return this.documents.get(id);
+  }
+
+  async getDocumentByPublicId(publicId: string): Promise<Document | undefined> {
+    return this.documents.find(document => document.publicId === publicId);
+  }
+
+  async getRecentDocuments(userId: number): Promise<Document[]> {
+    return this.documents
+      .filter(document => document.userId === userId && !document.deletedAt)
+      .sort(byDate(document => document.createdAt))
+      .reverse()
+      .slice(0, 5);
+  }
+
+  async listDocuments(userId: number, query: DocumentListQuery): Promise<{ documents: Document[]; total: number }> {
+    const matches = this.documents.filter(document => {
+      if (document.userId !== userId || !!document.deletedAt !== query.deleted) return false;
+      if (query.search && !includesIgnoringCase(document.originalName, query.search)
+        && !includesIgnoringCase(customizationField(document, 'title'), query.search)) return false;
+      if (query.templateId !== undefined) {
+        const templateId = customizationField(document, 'templateId');
+        if (templateId == null || String(templateId) !== String(query.templateId)) return false;
+      }
+      if (query.modified !== undefined && document.isModified !== query.modified) return false;
+      if (query.from && document.createdAt < startOfDay(query.from)) return false;
+      if (query.to && document.createdAt >= nextDay(query.to)) return false;
+      return true;
+    });
+
+    matches.sort(query.sort === 'name'
+      ? (a, b) => collator.compare(a.originalName, b.originalName) || b.id - a.id
+      : (a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+
+    const start = (query.page - 1) * query.pageSize;
+    return { documents: matches.slice(start, start + query.pageSize), total: matches.length };
+  }
+
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    assertUnique(this.documents.filter(), 'publicId', insertDocument.publicId);
+
+    return this.documents.insert({
+      userId: null,
+      claimTokenHash: null,
+      isModified: false,
+      customizations: null,
+      ...insertDocument,
+      createdAt: new Date(),
+      linkedinPostUrn: null,
+      deletedAt: null,
+    });
+  }
+
+  async updateDocumentCustomizations(id: number, customizations: any, authorId: number | null = null): Promise<Document> {
+    // Stored as a JSON-encoded string, as DatabaseStorage does
+    this.documents.update(document => document.id === id, { customizations: JSON.stringify(customizations), isModified: true });
+    this.documentVersions.insert({ documentId: id, userId: authorId, customizations, createdAt: new Date() });
+    return this.documents.get(id)!;
+  }
+
+  async setDocumentLinkedinPost(id: number, postUrn: string): Promise<Document> {
+    this.documents.update(document => document.id === id, { linkedinPostUrn: postUrn });
+    return this.documents.get(id)!;
+  }
+
+  async claimDocuments(ids: number[], userId: number): Promise<void> {
+    this.documents.update(document => ids.includes(document.id) && document.userId === null, { userId, claimTokenHash: null });
+  }
+
+  async softDeleteDocuments(ids: number[], deletedAt: Date): Promise<void> {
+    this.documents.update(document => ids.includes(document.id) && !document.deletedAt, { deletedAt });
+  }
+
+  async restoreDocuments(ids: number[]): Promise<void> {
+    this.documents.update(document => ids.includes(document.id), { deletedAt: null });
+  }
+
+  async deleteDocuments(ids: number[]): Promise<void> {
+    this.documentVersions.delete(version => ids.includes(version.documentId));
+    this.scheduledShares.delete(share => ids.includes(share.documentId));
+    this.jobs.delete(job => ids.includes(job.documentId));
+    this.documents.delete(document => ids.includes(document.id));
+  }
+
+  async getAllDocuments(): Promise<Document[]> {
+    return this.documents.filter();
+  }
+
+  async getExpiredDocuments(anonymousBefore: Date, deletedBefore: Date): Promise<Document[]> {
+    return this.documents.filter(document =>
+      (document.userId === null && document.createdAt < anonymousBefore)
+      || (!!document.deletedAt && document.deletedAt < deletedBefore));
+  }
+
+  // Document version operations
+  async getDocumentVersions(documentId: number): Promise<DocumentVersionWithAuthor[]> {
+    return this.documentVersions
+      .filter(version => version.documentId === documentId)
+      // Versions applied at the same moment keep their order by ID
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .map(version => {
+        const user = version.userId === null ? undefined : this.users.get(version.userId);
+        return { ...version, authorName: user ? user.fullName || user.username : null };
+      });
+  }
+
+  async getDocumentVersion(id: number): Promise<DocumentVersion | undefined> {
+    return this.documentVersions.get(id);
+  }
+
+  // Scheduled share operations
+  async createScheduledShare(share: InsertScheduledShare): Promise<ScheduledShare> {
+    return this.scheduledShares.insert({ ...share, status: 'pending', postUrn: null, error: null, createdAt: new Date(), postingAt: null });
+  }
+
+  async getScheduledShare(id: number): Promise<ScheduledShare | undefined> {
+    return this.scheduledShares.get(id);
+  }
+
+  async getDocumentScheduledShares(documentId: number): Promise<ScheduledShare[]> {
+    return this.scheduledShares
+      .filter(share => share.documentId === documentId)
+      .sort(byDate(share => share.scheduledAt));
+  }
+
+  async getDueScheduledShares(now: Date): Promise<ScheduledShare[]> {
+    return this.scheduledShares
+      .filter(share => share.status === 'pending' && share.scheduledAt <= now)
+      .sort(byDate(share => share.scheduledAt));
+  }
+
+  async updateScheduledShare(id: number, update: ScheduledShareUpdate): Promise<ScheduledShare> {
+    this.scheduledShares.update(share => share.id === id, update);
+    return this.scheduledShares.get(id)!;
+  }
+
+  async claimScheduledShare(id: number, now: Date): Promise<boolean> {
+    if (this.scheduledShares.get(id)?.status !== 'pending') {
+      return false;
+    }
+    this.scheduledShares.update(share => share.id === id, { status: 'posting', postingAt: now });
+    return true;
+  }
+
+  async failStuckScheduledShares(postingBefore: Date, error: string): Promise<void> {
+    this.scheduledShares.update(
+      share => share.status === 'posting' && share.postingAt !== null && share.postingAt < postingBefore,
+      { status: 'failed', error },
+    );
+  }
+
+  // Image asset operations
+  async getAsset(id: number): Promise<Asset | undefined> {
+    return this.assets.get(id);
+  }
+
+  async getAssetByPublicId(publicId: string): Promise<Asset | undefined> {
+    return this.assets.find(asset => asset.publicId === publicId);
+  }
+
+  async getUserAssets(userId: number): Promise<Asset[]> {
+    return this.assets
+      .filter(asset => asset.userId === userId)
+      .sort(byDate(asset => asset.createdAt))
+      .reverse();
+  }
+
+  async getAllAssets(): Promise<Asset[]> {
+    return this.assets.filter();
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    assertUnique(this.assets.filter(), 'publicId', insertAsset.publicId);
+    return this.assets.insert({ userId: null, ...insertAsset, createdAt: new Date() });
+  }
+
+  // Template operations
+  async getTemplate(id: number): Promise<Template | undefined> {
+    return this.templates.get(id);
+  }
+
+  async getAllTemplates(): Promise<Template[]> {
+    return this.templates.filter();
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    return this.templates.insert({ ...insertTemplate, layout: insertTemplate.layout ?? null, version: 1 });
+  }
+
+  async updateTemplateLayout(id: number, layout: TemplateLayout): Promise<Template> {
+    const version = (this.templates.get(id)?.version ?? 0) + 1;
+    this.templates.update(template => template.id === id, { layout, version });
+    return this.templates.get(id)!;
+  }
+
+  // Background job operations
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    assertUnique(this.jobs.filter(), 'publicId', insertJob.publicId);
+
+    return this.jobs.insert({
+      workerId: null,
+      heartbeatAt: new Date(),
+      ...insertJob,
+      status: 'queued',
+      progress: 0,
+      resultKey: null,
+      error: null,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    });
+  }
+
+  async getJobByPublicId(publicId: string): Promise<Job | undefined> {
+    return this.jobs.find(job => job.publicId === publicId);
+  }
+
+  async getStaleJobs(staleBefore: Date): Promise<Job[]> {
+    return this.jobs
+      .filter(job => isStale(job, staleBefore))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async claimStaleJob(id: number, workerId: string, staleBefore: Date): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job || !isStale(job, staleBefore)) {
+      return undefined;
+    }
+
+    this.jobs.update(row => row.id === id, { workerId, heartbeatAt: new Date(), status: 'queued', progress: 0 });
+    return this.jobs.get(id);
+  }
+
+  async heartbeatJobs(workerId: string): Promise<void> {
+    this.jobs.update(job => job.workerId === workerId && !isFinished(job), { heartbeatAt: new Date() });
+  }
+
+  async updateJob(id: number, update: JobUpdate): Promise<Job> {
+    this.jobs.update(job => job.id === id, update);
+    return this.jobs.get(id)!;
+  }
+
+  async deleteFinishedJobs(finishedBefore: Date): Promise<void> {
+    this.jobs.delete(job => job.finishedAt !== null && job.finishedAt < finishedBefore);
+  }
+}
@@ -0,0 +1,14 @@
+import { parentPort } from "worker_threads";
+import { runRenderTask } from "./renderTask";
+import type { WorkerRequest, WorkerResponse } from "./workerPool";
+
+// Entry point of the PDF worker threads started by the worker pool. Each
+// worker renders one task at a time and reports back as it goes.
+const port = parentPort!;
+const send = (message: WorkerResponse) => port.postMessage(message);
+
+port.on('message', ({ task }: WorkerRequest) => {
+  runRenderTask(task, fraction => send({ type: 'progress', fraction }))
+    .then(() => send({ type: 'done' }))
+    .catch(error => send({ type: 'error', message: error instanceof Error ? error.message : String(error) }));
+});
@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+import type { Document, Template } from "@shared/schema";
+import type { JobKind } from "@shared/jobs";
+import { RENDERER_VERSION } from "@shared/coverRenderer";
+import { fileStore, type FileStore, type StoredFile } from "./fileStore";
+import { originalPdfKey } from "./documentPdf";
+
+// Rendered PDFs are kept in the file store under a hash of everything that
+// goes into them: the uploaded file, the template and its version, the
+// customizations and the renderer's version. A render is only made again when
+// one of those changes, and the hash doubles as the render's ETag.
+
+const FOLDER = 'renders';
+// Uploads hashed recently, by file store key; uploads never change
+const SOURCE_HASHES_KEPT = 1000;
+
+export interface RenderCacheEntry {
+  // File store key of the rendered PDF
+  key: string;
+  etag: string;
+}
+
+function sha256(data: string | Uint8Array) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// JSON with object keys sorted, so customizations saved in a different key
+// order hash the same
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableJson(item ?? null)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function toEtag(hash: string) {
+  return `"${hash}"`;
+}
+
+// The hash a render is cached under
+export function renderHash(sourceHash: string, template: Pick<Template, 'id' | 'version'>, kind: JobKind, customizations: unknown): string {
+  return sha256(stableJson([RENDERER_VERSION, kind, sourceHash, template.id, template.version, customizations]));
+}
+
+// Renders are named after their template and upload too, so they can be
+// found when either goes away
+const renderKeyPrefix = (templateId: number) => `${FOLDER}/${templateId}-`;
+const sourcePart = (sourceHash: string) => `-${sourceHash.slice(0, 16)}-`;
+
+export class RenderCache {
+  private sourceHashes = new Map<string, Promise<string>>();
+  private evicting: Promise<string[]> | null = null;
+  // When renders were last used, by key. Renders not used since the app
+  // started count from when they were made.
+  private lastUsed = new Map<string, number>();
+  // Renders being sent, with how many times, which eviction leaves alone
+  private inUse = new Map<string, number>();
+
+  constructor(private store: FileStore, readonly maxBytes: number) {}
+
+  // Hash of a document's uploaded PDF
+  sourceHash(document: Document): Promise<string> {
+    const key = originalPdfKey(document);
+    let hash = this.sourceHashes.get(key);
+    if (!hash) {
+      hash = this.store.read(key).then(sha256);
+      // Failed reads aren't remembered
+      hash.catch(() => this.sourceHashes.delete(key));
+      this.sourceHashes.set(key, hash);
+      if (this.sourceHashes.size > SOURCE_HASHES_KEPT) {
+        this.sourceHashes.delete(this.sourceHashes.keys().next().value!);
+      }
+    }
+    return hash;
+  }
+
+  async entryFor(document: Document, template: Template, kind: JobKind, customizations: unknown): Promise<RenderCacheEntry> {
+    const sourceHash = await this.sourceHash(document);
+    const hash = renderHash(sourceHash, template, kind, customizations);
+    return {
+      key: `${FOLDER}/${template.id}${sourcePart(sourceHash)}${hash}.pdf`,
+      etag: toEtag(hash),
+    };
+  }
+
+  has(key: string): Promise<boolean> {
+    return this.store.exists(key);
+  }
+
+  // Keep a render from being evicted until the returned function is called,
+  // and count it as used. The render doesn't have to exist yet.
+  retain(key: string): () => void {
+    this.inUse.set(key, (this.inUse.get(key) ?? 0) + 1);
+    this.lastUsed.set(key, Date.now());
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const count = this.inUse.get(key)! - 1;
+      if (count > 0) {
+        this.inUse.set(key, count);
+      } else {
+        this.inUse.delete(key);
+      }
+      this.lastUsed.set(key, Date.now());
+    };
+  }
+
+  // Remove the renders made with a template, once it has changed
+  async invalidateTemplate(templateId: number): Promise<void> {
+    const prefix = renderKeyPrefix(templateId);
+    await this.deleteWhere(key => key.startsWith(prefix));
+  }
+
+  // Remove the renders of documents' uploads, before they're deleted for good
+  async invalidateDocuments(documents: Document[]): Promise<void> {
+    const parts: string[] = [];
+    for (const document of documents) {
+      try {
+        parts.push(sourcePart(await this.sourceHash(document)));
+      } catch {
+        // Without the upload there's no telling which renders were made from it
+        continue;
+      }
+      this.sourceHashes.delete(originalPdfKey(document));
+    }
+
+    if (parts.length > 0) {
+      await this.deleteWhere(key => parts.some(part => key.includes(part)));
+    }
+  }
+
+  // Remove the least recently used renders until the cache fits within its
+  // size limit, leaving out renders being sent. Resolves with the keys
+  // removed. An eviction that starts while another is in progress waits for
+  // that one instead.
+  evict(): Promise<string[]> {
+    if (!this.evicting) {
+      this.evicting = this.removeLeastRecentlyUsed().finally(() => {
+        this.evicting = null;
+      });
+    }
+    return this.evicting;
+  }
+
+  private async removeLeastRecentlyUsed(): Promise<string[]> {
+    const usedAt = (file: StoredFile) => Math.max(this.lastUsed.get(file.key) ?? 0, file.modifiedAt.getTime());
+    const files = (await this.store.list(FOLDER)).sort((a, b) => usedAt(b) - usedAt(a));
+
+    let total = 0;
+    const evicted: string[] = [];
+    for (const file of files) {
+      total += file.size;
+      if (total > this.maxBytes && !this.inUse.has(file.key)) {
+        evicted.push(file.key);
+      }
+    }
+
+    await this.deleteKeys(evicted);
+    // Forget renders that are gone, such as ones that failed to render
+    const listed = new Set(files.map(file => file.key));
+    for (const key of Array.from(this.lastUsed.keys())) {
+      if (!listed.has(key) && !this.inUse.has(key)) {
+        this.lastUsed.delete(key);
+      }
+    }
+    return evicted;
+  }
+
+  private async deleteWhere(predicate: (key: string) => boolean) {
+    const files = await this.store.list(FOLDER);
+    await this.deleteKeys(files.map(file => file.key).filter(predicate));
+  }
+
+  private async deleteKeys(keys: string[]) {
+    await Promise.all(keys.map(key => this.store.delete(key)));
+    keys.forEach(key => this.lastUsed.delete(key));
+  }
+}
+
+// RENDER_CACHE_MAX_MB caps the space cached renders take up
+export const renderCache = new RenderCache(fileStore, (Number(process.env.RENDER_CACHE_MAX_MB) || 500) * 1024 * 1024);
@@ -0,0 +1,37 @@
+import type { Template } from "@shared/schema";
+import type { JobKind } from "@shared/jobs";
+import type { ImageAsset } from "@shared/imageRenderer";
+import { readFirstPageSize, renderCoverPdf, renderModifiedPdf, type CoverCustomizations } from "@shared/coverRenderer";
+import { fontRegistry } from "./fontRegistry";
+import { fileStore } from "./fileStore";
+
+// Everything needed to render a job's PDF. Tasks are run in worker threads,
+// which can reach the file store but not storage, so the template and the
+// cover's images are looked up beforehand.
+export interface RenderTask {
+  kind: JobKind;
+  // File store keys of the uploaded PDF and of the PDF to write
+  originalKey: string;
+  outputKey: string;
+  template: Template;
+  customizations: CoverCustomizations;
+  images: Record<string, ImageAsset>;
+}
+
+// Render a task's PDF into the file store. `onProgress` gets the share of the
+// work done, from 0 to 1.
+export async function runRenderTask(task: RenderTask, onProgress: (fraction: number) => void = () => {}): Promise<void> {
+  const originalPdfBytes = await fileStore.read(task.originalKey);
+  const options = {
+    fontRegistry,
+    loadImage: async (assetId: string | number) => task.images[assetId],
+    onProgress,
+  };
+
+  const pdfBytes = task.kind === 'cover-preview'
+    // Match the original's first page size when the user hasn't picked one
+    ? await renderCoverPdf(task.template, task.customizations, { ...options, sourcePageSize: await readFirstPageSize(originalPdfBytes) })
+    : await renderModifiedPdf(originalPdfBytes, task.template, task.customizations, options);
+
+  await fileStore.put(task.outputKey, pdfBytes, 'application/pdf');
+}
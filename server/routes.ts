@@ -2,46 +2,35 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
+import archiver from "archiver";
 import path from "path";
-import fs from "fs/promises";
-import { insertDocumentSchema } from "@shared/schema";
+import type { Readable } from "stream";
+import { insertDocumentSchema, type Document, type DocumentVersionWithAuthor, type User } from "@shared/schema";
+import { sharePostSchema } from "@shared/linkedinPost";
+import { bulkDeleteSchema, bulkDocumentsSchema, documentListQuerySchema, type DocumentListPage } from "@shared/documentLibrary";
+import { createJobSchema, type JobKind } from "@shared/jobs";
 import { z } from "zod";
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
 import { setupLinkedInAuth } from "./linkedinAuth";
+import { setupLocalAuth } from "./localAuth";
 import { seedTemplates } from "./seed";
-
-// Setup upload directories
-const setupDirectories = async () => {
-  const dirs = [
-    path.resolve(process.cwd(), 'uploads'),
-    path.resolve(process.cwd(), 'uploads', 'pdfs'),
-    path.resolve(process.cwd(), 'uploads', 'previews'),
-  ];
-
-  for (const dir of dirs) {
-    try {
-      await fs.mkdir(dir, { recursive: true });
-    } catch (err) {
-      console.error(`Failed to create directory ${dir}:`, err);
-    }
-  }
-};
-
-// Configure multer for file uploads
-const storage_multer = multer.diskStorage({
-  destination: async (req, file, cb) => {
-    await setupDirectories();
-    cb(null, path.resolve(process.cwd(), 'uploads', 'pdfs'));
-  },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-    const ext = path.extname(file.originalname);
-    cb(null, file.fieldname + '-' + uniqueSuffix + ext);
-  }
-});
-
+import { fontRegistry } from "./fontRegistry";
+import { readFirstPageSize } from "@shared/coverRenderer";
+import { diffCustomizations } from "@shared/customizationDiff";
+import { imageMimeTypes, isValidImage } from "@shared/imageRenderer";
+import { linkedInClient, LinkedInApiError, LinkedInTokenExpiredError, postUrl } from "./linkedinClient";
+import { originalPdfKey, parseCustomizations } from "./documentPdf";
+import { fileStore, fileStoreStorage, FileNotFoundError } from "./fileStore";
+import { LinkedInNotConnectedError, postDocumentToLinkedIn, shareScheduler } from "./shareScheduler";
+import { documentJanitor, purgeDate, purgeDocuments } from "./janitor";
+import { createPublicId, findAccessibleAsset, findAccessibleJob, findClaimableDocuments, getOwnedDocuments, loadDocument, rememberAnonymousDocument, toPublicDocument } from "./documentAccess";
+import { createToken } from "./passwords";
+import { jobQueue, toPublicJob } from "./jobQueue";
+import { attachJobSocket } from "./jobSocket";
+import { renderCache, toEtag, type RenderCacheEntry } from "./renderCache";
+
+// Configure multer for file uploads, which are kept in the file store
 const upload = multer({
-  storage: storage_multer,
+  storage: fileStoreStorage(fileStore, 'pdfs'),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
@@ -53,6 +42,101 @@ const upload = multer({
   }
 });
 
+// Configure multer for cover image uploads (logos, headshots, hero images)
+const imageUpload = multer({
+  storage: fileStoreStorage(fileStore, 'images'),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (!imageMimeTypes.includes(file.mimetype)) {
+      return cb(new Error('Only PNG, JPEG and SVG images are allowed'));
+    }
+    cb(null, true);
+  }
+});
+
+// Downloads can be sent straight from the file store's signed URLs instead
+// of through the app. The bucket then has to allow the app's origin (CORS),
+// since the editor fetches downloads.
+const redirectDownloads = process.env.FILE_STORE_REDIRECT_DOWNLOADS === 'true';
+
+// Stream a file from the file store into the response. Downloads are saved
+// under `downloadName`.
+async function sendStoredFile(res: Response, key: string, downloadName?: string) {
+  if (downloadName && redirectDownloads) {
+    const url = await fileStore.signedUrl(key, { downloadName });
+    if (url) {
+      return res.redirect(url);
+    }
+  }
+
+  let stream: Readable;
+  try {
+    stream = await fileStore.get(key);
+  } catch (error) {
+    if (error instanceof FileNotFoundError) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+    throw error;
+  }
+
+  if (downloadName) {
+    res.attachment(downloadName);
+  } else if (!res.get('Content-Type')) {
+    res.type(path.extname(key));
+  }
+  stream.on('error', error => {
+    console.error(`Error sending ${key}:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+}
+
+// A name for a file in a zip that isn't taken yet: "Report.pdf", then "Report (2).pdf"
+function uniqueFileName(name: string, usedNames: Set<string>) {
+  const { name: base, ext } = path.parse(name);
+  let candidate = name;
+  for (let n = 2; usedNames.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${ext}`;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// Where a render of the document is cached, or undefined when its template is gone
+async function findRender(document: Document, kind: JobKind, customizations: any): Promise<RenderCacheEntry | undefined> {
+  const template = await storage.getTemplate(customizations.templateId);
+  return template && renderCache.entryFor(document, template, kind, customizations);
+}
+
+// Send a render, kept from eviction until the response is over
+async function sendRender(res: Response, key: string, release: () => void, downloadName?: string) {
+  res.on('close', release);
+  await sendStoredFile(res, key, downloadName);
+}
+
+// Tag the response with an ETag and tell whether the browser's copy, named by
+// If-None-Match, is still current. Browsers check back before reusing it.
+function isCachedByBrowser(req: Request, res: Response, etag: string): boolean {
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', 'private, no-cache');
+  return req.fresh;
+}
+
+// A version, provided it belongs to the document
+async function getDocumentVersion(documentId: number, versionId: number) {
+  const version = await storage.getDocumentVersion(versionId);
+  return version?.documentId === documentId ? version : undefined;
+}
+
+const documentClaimsSchema = z.object({
+  claims: z.array(z.object({
+    documentId: z.string(),
+    claimToken: z.string(),
+  })).max(100),
+});
+
 // Helper function to check if user is authenticated
 const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
   if (req.session && req.session.passport && req.session.passport.user) {
@@ -62,11 +146,10 @@ const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
 };
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Setup directories
-  await setupDirectories();
-
   // Configure LinkedIn authentication
-  setupLinkedInAuth(app);
+  const sessionHandlers = setupLinkedInAuth(app);
+  // Email and password accounts share LinkedIn's session and passport setup
+  setupLocalAuth(app);
 
   // API routes
   // Upload PDF file
@@ -76,18 +159,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No file uploaded' });
       }
 
-      // Allow uploads without authentication - set userId as null for anonymous uploads
-      let userId = null;
+      // Uploads are owned by the signed-in user. Anonymous uploads get a claim
+      // token instead, which the browser keeps so it can claim the document
+      // after signing in.
+      const user = req.user as User | undefined;
+      const claim = user ? null : createToken();
 
       const document = await storage.createDocument({
-        userId: userId,
+        publicId: createPublicId(),
+        userId: user?.id ?? null,
+        claimTokenHash: claim?.tokenHash ?? null,
         originalName: req.file.originalname,
         fileName: req.file.filename,
       });
+      if (!user) {
+        rememberAnonymousDocument(req, document);
+      }
 
       res.status(201).json({ 
         message: 'File uploaded successfully',
-        documentId: document.id
+        documentId: document.publicId,
+        ...(claim && { claimToken: claim.token }),
       });
     } catch (error) {
       console.error('Upload error:', error);
@@ -98,93 +190,272 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get document by ID
-  app.get('/api/documents/:id', async (req: Request, res: Response) => {
+  // Get recent documents for authenticated user. Registered before
+  // /api/documents/:id so "recent" isn't taken for a document ID.
+  app.get('/api/documents/recent', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.passport.user;
+      const documents = await storage.getRecentDocuments(userId);
+      res.json(documents.map(toPublicDocument));
+    } catch (error) {
+      console.error('Get recent documents error:', error);
+      res.status(500).json({ message: 'Failed to get recent documents' });
+    }
+  });
+
+  // The user's document library, a page at a time
+  app.get('/api/documents', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const parsed = documentListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid library query', errors: parsed.error.errors });
+      }
+
+      const query = parsed.data;
+      const { documents, total } = await storage.listDocuments((req.user as User).id, query);
+      const page: DocumentListPage<ReturnType<typeof toPublicDocument>> = {
+        documents: documents.map(toPublicDocument),
+        total,
+        page: query.page,
+        pageSize: query.pageSize,
+      };
+      res.json(page);
+    } catch (error) {
+      console.error('List documents error:', error);
+      res.status(500).json({ message: 'Failed to list documents' });
+    }
+  });
+
+  // Delete documents. They can be restored until the retention period runs
+  // out, unless they're deleted permanently; deleted documents can only be
+  // deleted permanently.
+  app.post('/api/documents/bulk-delete', isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const documentId = parseInt(req.params.id);
-      if (isNaN(documentId)) {
-        return res.status(400).json({ message: 'Invalid document ID' });
+      const parsed = bulkDeleteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid document selection', errors: parsed.error.errors });
       }
 
-      const document = await storage.getDocument(documentId);
-      if (!document) {
+      const { documentIds, permanent } = parsed.data;
+      const documents = await getOwnedDocuments(documentIds, req.user as User, permanent ? 'any' : 'active');
+      if (!documents) {
         return res.status(404).json({ message: 'Document not found' });
       }
 
-      res.json(document);
+      if (permanent) {
+        await purgeDocuments(documents);
+        return res.json({ message: 'Documents deleted', documentIds: documents.map(document => document.publicId) });
+      }
+
+      const deletedAt = new Date();
+      await storage.softDeleteDocuments(documents.map(document => document.id), deletedAt);
+      res.json({
+        message: 'Documents deleted',
+        documentIds: documents.map(document => document.publicId),
+        purgeAt: purgeDate(documentJanitor.policy, deletedAt),
+      });
     } catch (error) {
-      console.error('Get document error:', error);
-      res.status(500).json({ message: 'Failed to get document' });
+      console.error('Bulk delete error:', error);
+      res.status(500).json({ message: 'Failed to delete documents' });
     }
   });
 
-  // Get recent documents for authenticated user
-  app.get('/api/documents/recent', isAuthenticated, async (req: Request, res: Response) => {
+  // Bring deleted documents back
+  app.post('/api/documents/bulk-restore', isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const userId = req.session.passport.user;
-      const documents = await storage.getRecentDocuments(userId);
-      res.json(documents);
+      const parsed = bulkDocumentsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid document selection', errors: parsed.error.errors });
+      }
+
+      const documents = await getOwnedDocuments(parsed.data.documentIds, req.user as User, 'deleted');
+      if (!documents) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+
+      await storage.restoreDocuments(documents.map(document => document.id));
+      res.json({ message: 'Documents restored', documentIds: documents.map(document => document.publicId) });
     } catch (error) {
-      console.error('Get recent documents error:', error);
-      res.status(500).json({ message: 'Failed to get recent documents' });
+      console.error('Bulk restore error:', error);
+      res.status(500).json({ message: 'Failed to restore documents' });
     }
   });
 
-  // Get document preview
-  app.get('/api/documents/:id/preview', async (req: Request, res: Response) => {
+  // Copy documents, customizations included. The copies start without history.
+  app.post('/api/documents/bulk-duplicate', isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const documentId = parseInt(req.params.id);
-      if (isNaN(documentId)) {
-        return res.status(400).json({ message: 'Invalid document ID' });
+      const parsed = bulkDocumentsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid document selection', errors: parsed.error.errors });
       }
 
-      const document = await storage.getDocument(documentId);
-      if (!document) {
+      const user = req.user as User;
+      const documents = await getOwnedDocuments(parsed.data.documentIds, user);
+      if (!documents) {
         return res.status(404).json({ message: 'Document not found' });
       }
 
-      const filePath = path.resolve(process.cwd(), 'uploads', 'pdfs', document.fileName);
-      res.sendFile(filePath);
+      const copies = [];
+      for (const document of documents) {
+        const fileName = `file-${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(document.fileName)}`;
+        await fileStore.put(`pdfs/${fileName}`, await fileStore.read(originalPdfKey(document)), 'application/pdf');
+        copies.push(await storage.createDocument({
+          publicId: createPublicId(),
+          userId: user.id,
+          originalName: `Copy of ${document.originalName}`,
+          fileName,
+          isModified: document.isModified,
+          customizations: parseCustomizations(document.customizations),
+        }));
+      }
+
+      res.status(201).json({ message: 'Documents duplicated', documents: copies.map(toPublicDocument) });
     } catch (error) {
-      console.error('Preview error:', error);
-      res.status(500).json({ message: 'Failed to get preview' });
+      console.error('Bulk duplicate error:', error);
+      res.status(500).json({ message: 'Failed to duplicate documents' });
     }
   });
-  
-  // Download original PDF (without modifications)
-  app.get('/api/documents/:id/download-original', async (req: Request, res: Response) => {
+
+  // Download the selected documents, with their covers, as one zip file
+  app.post('/api/documents/bulk-download', isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const documentId = parseInt(req.params.id);
-      if (isNaN(documentId)) {
-        return res.status(400).json({ message: 'Invalid document ID' });
+      const parsed = bulkDocumentsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid document selection', errors: parsed.error.errors });
       }
 
-      const document = await storage.getDocument(documentId);
-      if (!document) {
+      const documents = await getOwnedDocuments(parsed.data.documentIds, req.user as User);
+      if (!documents) {
         return res.status(404).json({ message: 'Document not found' });
       }
 
-      const filePath = path.resolve(process.cwd(), 'uploads', 'pdfs', document.fileName);
-      res.download(filePath, document.originalName);
+      // Render everything first, so a failure can still be reported as JSON
+      const files = await Promise.all(documents.map(async document => ({
+        name: document.originalName,
+        bytes: await jobQueue.readDocumentPdf(document),
+      })));
+
+      const archive = archiver('zip');
+      archive.on('error', (error: Error) => {
+        console.error('Bulk download error:', error);
+        res.destroy(error);
+      });
+      res.attachment('documents.zip');
+      archive.pipe(res);
+
+      const usedNames = new Set<string>();
+      for (const file of files) {
+        archive.append(Buffer.from(file.bytes), { name: uniqueFileName(file.name, usedNames) });
+      }
+      await archive.finalize();
     } catch (error) {
-      console.error('Download original error:', error);
-      res.status(500).json({ message: 'Failed to download original PDF' });
+      console.error('Bulk download error:', error);
+      res.status(500).json({ message: 'Failed to download documents' });
     }
   });
 
-  // Customize document
-  app.post('/api/documents/:id/customize', async (req: Request, res: Response) => {
+  // Anonymous documents this browser can still claim. Uploads from the
+  // current session are claimed at sign-in; this covers older ones.
+  app.post('/api/documents/claimable', isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const documentId = parseInt(req.params.id);
-      if (isNaN(documentId)) {
-        return res.status(400).json({ message: 'Invalid document ID' });
+      const parsed = documentClaimsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid claims', errors: parsed.error.errors });
       }
 
-      const document = await storage.getDocument(documentId);
-      if (!document) {
-        return res.status(404).json({ message: 'Document not found' });
+      const documents = await findClaimableDocuments(parsed.data.claims);
+      res.json(documents.map(toPublicDocument));
+    } catch (error) {
+      console.error('Get claimable documents error:', error);
+      res.status(500).json({ message: 'Failed to get claimable documents' });
+    }
+  });
+
+  // Add anonymous documents to the signed-in user's account
+  app.post('/api/documents/claim', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const parsed = documentClaimsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid claims', errors: parsed.error.errors });
       }
 
+      const documents = await findClaimableDocuments(parsed.data.claims);
+      await storage.claimDocuments(documents.map(document => document.id), (req.user as User).id);
+      res.json({ message: 'Documents claimed', documentIds: documents.map(document => document.publicId) });
+    } catch (error) {
+      console.error('Claim documents error:', error);
+      res.status(500).json({ message: 'Failed to claim documents' });
+    }
+  });
+
+  // Get document by ID
+  app.get('/api/documents/:id', loadDocument, async (req: Request, res: Response) => {
+    try {
+      res.json(toPublicDocument(req.document!));
+    } catch (error) {
+      console.error('Get document error:', error);
+      res.status(500).json({ message: 'Failed to get document' });
+    }
+  });
+
+  // Delete a document; ?permanent=true skips the retention period. Anonymous
+  // documents can't be deleted, they expire instead.
+  app.delete('/api/documents/:id', isAuthenticated, loadDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      if (document.userId !== (req.user as User).id) {
+        return res.status(403).json({ message: 'Only the owner can delete a document' });
+      }
+
+      if (req.query.permanent === 'true') {
+        await purgeDocuments([document]);
+        return res.json({ message: 'Document deleted' });
+      }
+
+      const deletedAt = new Date();
+      await storage.softDeleteDocuments([document.id], deletedAt);
+      res.json({ message: 'Document deleted', purgeAt: purgeDate(documentJanitor.policy, deletedAt) });
+    } catch (error) {
+      console.error('Delete document error:', error);
+      res.status(500).json({ message: 'Failed to delete document' });
+    }
+  });
+
+  // Get document preview
+  app.get('/api/documents/:id/preview', loadDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      if (isCachedByBrowser(req, res, toEtag(await renderCache.sourceHash(document)))) {
+        return res.status(304).end();
+      }
+
+      await sendStoredFile(res, originalPdfKey(document));
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      console.error('Preview error:', error);
+      res.status(500).json({ message: 'Failed to get preview' });
+    }
+  });
+  
+  // Download original PDF (without modifications)
+  app.get('/api/documents/:id/download-original', loadDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      await sendStoredFile(res, originalPdfKey(document), document.originalName);
+    } catch (error) {
+      console.error('Download original error:', error);
+      res.status(500).json({ message: 'Failed to download original PDF' });
+    }
+  });
+
+  // Customize document
+  app.post('/api/documents/:id/customize', loadDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+      const documentId = document.id;
+
       const { templateId, customizations } = req.body;
       if (!templateId || !customizations) {
         return res.status(400).json({ message: 'Template ID and customizations are required' });
@@ -201,14 +472,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         templateId,
       };
 
-      await storage.updateDocumentCustomizations(documentId, updatedCustomizations);
+      await storage.updateDocumentCustomizations(documentId, updatedCustomizations, (req.user as User | undefined)?.id ?? null);
 
-      // Generate a preview of the customized cover page
-      const previewPath = await generateCustomizedCoverPreview(document, template, customizations);
+      // The cover preview is rendered in the background; the preview route
+      // waits for it
+      const job = await jobQueue.enqueue(document, 'cover-preview', updatedCustomizations);
 
       res.json({ 
         message: 'Customizations applied successfully',
-        previewUrl: `/api/documents/${documentId}/cover-preview`
+        previewUrl: `/api/documents/${document.publicId}/cover-preview`,
+        jobId: job.publicId,
       });
     } catch (error) {
       console.error('Customize error:', error);
@@ -217,463 +490,462 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get customized cover preview
-  app.get('/api/documents/:id/cover-preview', async (req: Request, res: Response) => {
+  app.get('/api/documents/:id/cover-preview', loadDocument, async (req: Request, res: Response) => {
     try {
-      const documentId = parseInt(req.params.id);
-      if (isNaN(documentId)) {
-        return res.status(400).json({ message: 'Invalid document ID' });
+      const document = req.document!;
+      if (!document.customizations) {
+        return res.status(404).json({ message: 'Document has not been customized' });
       }
 
-      const document = await storage.getDocument(documentId);
-      if (!document) {
-        return res.status(404).json({ message: 'Document not found' });
+      const customizations = parseCustomizations(document.customizations);
+      const render = await findRender(document, 'cover-preview', customizations);
+      if (!render) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (isCachedByBrowser(req, res, render.etag)) {
+        return res.status(304).end();
       }
 
-      const previewPath = path.resolve(process.cwd(), 'uploads', 'previews', `cover-${documentId}.pdf`);
-      res.sendFile(previewPath);
+      // The cover from the latest customization may still be rendering
+      const { key, release } = await jobQueue.render(document, 'cover-preview', customizations);
+      await sendRender(res, key, release);
     } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return res.status(404).json({ message: 'File not found' });
+      }
       console.error('Cover preview error:', error);
       res.status(500).json({ message: 'Failed to get cover preview' });
     }
   });
 
-  // Download modified PDF
-  app.get('/api/documents/:id/download', async (req: Request, res: Response) => {
+  // List the customizations applied to a document, newest first
+  app.get('/api/documents/:id/versions', loadDocument, async (req: Request, res: Response) => {
     try {
-      const documentId = parseInt(req.params.id);
-      if (isNaN(documentId)) {
-        return res.status(400).json({ message: 'Invalid document ID' });
+      const document = req.document!;
+      const documentId = document.id;
+
+      const versions = await storage.getDocumentVersions(documentId);
+      res.json(versions.map(version => ({ ...version, customizations: parseCustomizations(version.customizations) })));
+    } catch (error) {
+      console.error('Get versions error:', error);
+      res.status(500).json({ message: 'Failed to get document versions' });
+    }
+  });
+
+  // Render the cover as it looked in a version
+  app.get('/api/documents/:id/versions/:versionId/preview', loadDocument, async (req: Request, res: Response) => {
+    try {
+      const documentId = req.document!.id;
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(versionId)) {
+        return res.status(400).json({ message: 'Invalid version ID' });
       }
 
-      const document = await storage.getDocument(documentId);
-      if (!document) {
-        return res.status(404).json({ message: 'Document not found' });
+      const document = req.document!;
+      const version = await getDocumentVersion(documentId, versionId);
+      if (!version) {
+        return res.status(404).json({ message: 'Version not found' });
       }
 
-      if (!document.customizations) {
-        // If no customizations, just return the original file
-        const filePath = path.resolve(process.cwd(), 'uploads', 'pdfs', document.fileName);
-        return res.download(filePath, document.originalName);
-      }
-
-      // Generate the modified PDF with the custom cover page
-      let customizations;
-      try {
-        // Handle both string and object formats of customizations
-        if (typeof document.customizations === 'string') {
-          customizations = JSON.parse(document.customizations);
-        } else {
-          customizations = document.customizations;
-        }
+      const customizations = parseCustomizations(version.customizations);
+      const template = await storage.getTemplate(customizations.templateId);
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+
+      const { key, release } = await jobQueue.render(document, 'cover-preview', customizations);
+      // Versions never change once recorded
+      res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+      await sendRender(res, key, release);
+    } catch (error) {
+      console.error('Version preview error:', error);
+      res.status(500).json({ message: 'Failed to preview document version' });
+    }
+  });
 
-        const template = await storage.getTemplate(customizations.templateId);
-        if (!template) {
-          return res.status(404).json({ message: 'Template not found' });
+  // Compare a version with another one, by default the version before it
+  app.get('/api/documents/:id/versions/:versionId/diff', loadDocument, async (req: Request, res: Response) => {
+    try {
+      const documentId = req.document!.id;
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(versionId)) {
+        return res.status(400).json({ message: 'Invalid version ID' });
+      }
+
+      const versions = await storage.getDocumentVersions(documentId);
+      const index = versions.findIndex(version => version.id === versionId);
+      if (index === -1) {
+        return res.status(404).json({ message: 'Version not found' });
+      }
+
+      let compareTo: DocumentVersionWithAuthor | undefined = versions[index + 1];
+      if (req.query.compare !== undefined) {
+        const compareId = parseInt(String(req.query.compare));
+        compareTo = versions.find(version => version.id === compareId);
+        if (!compareTo) {
+          return res.status(404).json({ message: 'Version to compare with not found' });
         }
+      }
+
+      res.json({
+        versionId,
+        compareId: compareTo?.id ?? null,
+        changes: diffCustomizations(
+          compareTo ? parseCustomizations(compareTo.customizations) : {},
+          parseCustomizations(versions[index].customizations),
+        ),
+      });
+    } catch (error) {
+      console.error('Version diff error:', error);
+      res.status(500).json({ message: 'Failed to compare document versions' });
+    }
+  });
+
+  // Make a version's customizations current again. The restore is recorded as
+  // a new version, so it can be undone from the history too.
+  app.post('/api/documents/:id/versions/:versionId/restore', loadDocument, async (req: Request, res: Response) => {
+    try {
+      const documentId = req.document!.id;
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(versionId)) {
+        return res.status(400).json({ message: 'Invalid version ID' });
+      }
+
+      const version = await getDocumentVersion(documentId, versionId);
+      if (!version) {
+        return res.status(404).json({ message: 'Version not found' });
+      }
 
-        const originalPdfPath = path.resolve(process.cwd(), 'uploads', 'pdfs', document.fileName);
-        const modifiedPdfPath = path.resolve(process.cwd(), 'uploads', 'pdfs', `modified-${document.id}.pdf`);
+      const customizations = parseCustomizations(version.customizations);
+      await storage.updateDocumentCustomizations(documentId, customizations, (req.user as User | undefined)?.id ?? null);
 
-        await generateModifiedPdf(originalPdfPath, modifiedPdfPath, template, customizations);
+      res.json({ message: 'Version restored successfully', customizations });
+    } catch (error) {
+      console.error('Restore version error:', error);
+      res.status(500).json({ message: 'Failed to restore document version' });
+    }
+  });
 
-        res.download(modifiedPdfPath, document.originalName);
-      } catch (error) {
-        console.error('Download error:', error);
-        res.status(500).json({ message: 'Failed to download modified PDF' });
+  // Get the size of the document's first page, which covers match by default
+  app.get('/api/documents/:id/page-size', loadDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+
+      const pageSize = await readFirstPageSize(await fileStore.read(originalPdfKey(document)));
+      if (!pageSize) {
+        return res.status(422).json({ message: 'Document has no pages' });
       }
+
+      res.json({ width: pageSize[0], height: pageSize[1] });
     } catch (error) {
+      console.error('Page size error:', error);
+      res.status(500).json({ message: 'Failed to get page size' });
+    }
+  });
+
+  // Download modified PDF
+  app.get('/api/documents/:id/download', loadDocument, async (req: Request, res: Response) => {
+    try {
+      const document = req.document!;
+
+      if (!document.customizations) {
+        // If no customizations, just return the original file
+        if (isCachedByBrowser(req, res, toEtag(await renderCache.sourceHash(document)))) {
+          return res.status(304).end();
+        }
+        return await sendStoredFile(res, originalPdfKey(document), document.originalName);
+      }
+
+      const customizations = parseCustomizations(document.customizations);
+      const render = await findRender(document, 'modified-pdf', customizations);
+      if (!render) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (isCachedByBrowser(req, res, render.etag)) {
+        return res.status(304).end();
+      }
+
+      // Generate the modified PDF with the custom cover page, unless it's cached
+      const { key, release } = await jobQueue.render(document, 'modified-pdf', customizations);
+      await sendRender(res, key, release, document.originalName);
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return res.status(404).json({ message: 'File not found' });
+      }
       console.error('Download error:', error);
       res.status(500).json({ message: 'Failed to download modified PDF' });
     }
   });
 
-  // Share to LinkedIn (placeholder - will need actual LinkedIn API integration)
-  app.post('/api/documents/:id/share-linkedin', isAuthenticated, async (req: Request, res: Response) => {
+  // Start rendering the document with its saved customizations. Progress is
+  // reported by GET /api/jobs/:id and pushed over the job socket.
+  app.post('/api/documents/:id/jobs', loadDocument, async (req: Request, res: Response) => {
     try {
-      const documentId = parseInt(req.params.id);
-      if (isNaN(documentId)) {
-        return res.status(400).json({ message: 'Invalid document ID' });
+      const parsed = createJobSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid job', errors: parsed.error.errors });
       }
 
-      const document = await storage.getDocument(documentId);
-      if (!document) {
-        return res.status(404).json({ message: 'Document not found' });
+      const document = req.document!;
+      if (!document.customizations) {
+        return res.status(400).json({ message: 'Customize the document first' });
       }
 
-      // In a real implementation, you would use LinkedIn API to share the document
-      // For now, we'll just return a success message
-      res.json({ message: 'Document shared to LinkedIn successfully' });
+      const job = await jobQueue.enqueue(document, parsed.data.kind, parseCustomizations(document.customizations));
+      res.status(202).json(toPublicJob(job));
     } catch (error) {
+      console.error('Create job error:', error);
+      res.status(500).json({ message: 'Failed to start rendering' });
+    }
+  });
+
+  // Get a render job's status
+  app.get('/api/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const found = await findAccessibleJob(req.params.id, req.user as User | undefined);
+      if (!found) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      res.json(toPublicJob(found.job));
+    } catch (error) {
+      console.error('Get job error:', error);
+      res.status(500).json({ message: 'Failed to get job' });
+    }
+  });
+
+  // Download the PDF a completed job rendered
+  app.get('/api/jobs/:id/result', async (req: Request, res: Response) => {
+    try {
+      const found = await findAccessibleJob(req.params.id, req.user as User | undefined);
+      if (!found) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const { job, document } = found;
+      if (job.status !== 'completed' || !job.resultKey) {
+        return res.status(409).json({ message: 'Job has not completed' });
+      }
+
+      await sendRender(res, job.resultKey, renderCache.retain(job.resultKey), job.kind === 'modified-pdf' ? document.originalName : undefined);
+    } catch (error) {
+      console.error('Job result error:', error);
+      res.status(500).json({ message: 'Failed to get job result' });
+    }
+  });
+
+  // Share the enhanced PDF to LinkedIn as a document post
+  app.post('/api/documents/:id/share-linkedin', isAuthenticated, loadDocument, async (req: Request, res: Response) => {
+    try {
+      const parsed = sharePostSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid share options', errors: parsed.error.errors });
+      }
+
+      const document = req.document!;
+      const documentId = document.id;
+
+      const user = req.user as User;
+      const { scheduledAt, ...post } = parsed.data;
+
+      if (scheduledAt) {
+        if (new Date(scheduledAt) <= new Date()) {
+          return res.status(400).json({ message: 'Scheduled time must be in the future' });
+        }
+        if (!user.linkedinId || !user.linkedinToken) {
+          return res.status(403).json({ message: new LinkedInNotConnectedError().message });
+        }
+
+        const scheduledShare = await storage.createScheduledShare({
+          ...post,
+          documentId,
+          userId: user.id,
+          scheduledAt: new Date(scheduledAt),
+        });
+        return res.status(201).json({ message: 'Post scheduled', scheduledShare });
+      }
+
+      const postUrn = await postDocumentToLinkedIn(linkedInClient, document, user, post);
+      res.json({ message: 'Document shared to LinkedIn successfully', postUrn, postUrl: postUrl(postUrn) });
+    } catch (error) {
+      if (error instanceof LinkedInNotConnectedError) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof LinkedInTokenExpiredError) {
+        return res.status(401).json({ message: 'Your LinkedIn session has expired. Sign in with LinkedIn again to share.', reconnect: true });
+      }
+      if (error instanceof LinkedInApiError) {
+        console.error('LinkedIn API error:', error);
+        return res.status(502).json({ message: `LinkedIn rejected the post: ${error.message}` });
+      }
       console.error('Share error:', error);
       res.status(500).json({ message: 'Failed to share document to LinkedIn' });
     }
   });
 
-  // Get templates
-  app.get('/api/templates', async (req: Request, res: Response) => {
+  // Posts scheduled for a document, soonest first
+  app.get('/api/documents/:id/scheduled-shares', isAuthenticated, loadDocument, async (req: Request, res: Response) => {
     try {
-      const templates = await storage.getAllTemplates();
-      res.json(templates);
+      const documentId = req.document!.id;
+      const userId = (req.user as User).id;
+      const shares = await storage.getDocumentScheduledShares(documentId);
+      res.json(shares.filter(share => share.userId === userId));
     } catch (error) {
-      console.error('Get templates error:', error);
-      res.status(500).json({ message: 'Failed to get templates' });
+      console.error('Get scheduled shares error:', error);
+      res.status(500).json({ message: 'Failed to get scheduled shares' });
     }
   });
 
+  // Cancel a scheduled post that hasn't been published yet
+  app.delete('/api/scheduled-shares/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const shareId = parseInt(req.params.id);
+      if (isNaN(shareId)) {
+        return res.status(400).json({ message: 'Invalid scheduled share ID' });
+      }
 
+      const share = await storage.getScheduledShare(shareId);
+      if (!share || share.userId !== (req.user as User).id) {
+        return res.status(404).json({ message: 'Scheduled share not found' });
+      }
+      if (share.status !== 'pending') {
+        return res.status(409).json({ message: `Scheduled share is already ${share.status}` });
+      }
 
-  // Seed templates if none exist (non-blocking)
-  seedTemplates().catch(error => {
-    console.warn('Database seeding failed, but server will continue:', error.message);
+      res.json(await storage.updateScheduledShare(shareId, { status: 'cancelled' }));
+    } catch (error) {
+      console.error('Cancel scheduled share error:', error);
+      res.status(500).json({ message: 'Failed to cancel scheduled share' });
+    }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // Upload an image for use in a cover's image slots
+  app.post('/api/assets', imageUpload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
 
-// Helper function to generate a customized cover page preview
-async function generateCustomizedCoverPreview(document: any, template: any, customizations: any) {
-  try {
-    // Create a new PDF document
-    const pdfDoc = await PDFDocument.create();
-    const page = pdfDoc.addPage([612, 792]); // US Letter size
-    
-    // Load a standard font
-    const fontFamily = customizations.fontFamily || 'Helvetica';
-    let font;
-    switch (fontFamily) {
-      case 'Roboto':
-      case 'Open Sans':
-        font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-        break;
-      case 'Montserrat':
-        font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-        break;
-      case 'Playfair Display':
-        font = await pdfDoc.embedFont(StandardFonts.TimesRoman);
-        break;
-      case 'Raleway':
-        font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-        break;
-      default:
-        font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-    }
-    
-    // Set background based on template
-    const { width, height } = page.getSize();
-    
-    // Convert color to rgb values (0-1)
-    const colorHex = customizations.colorScheme || '#0077B5';
-    const color = hexToRgb(colorHex);
-    
-    // Apply template-specific design
-    applyTemplateDesign(page, template, color, width, height);
-    
-    // Add title
-    const titleSize = getTitleSize(customizations.titleSize);
-    const titleX = getTitleX(customizations.titleAlignment, width);
-    
-    page.drawText(customizations.title || 'Presentation Title', {
-      x: titleX,
-      y: height - 200,
-      font,
-      size: titleSize,
-      color: rgb(0, 0, 0),
-    });
-    
-    // Add subtitle
-    page.drawText(customizations.subtitle || 'Subtitle', {
-      x: titleX,
-      y: height - 230,
-      font,
-      size: 18,
-      color: rgb(0.3, 0.3, 0.3),
-    });
-    
-    // Add presenter name and date at the bottom
-    if (customizations.presenter) {
-      page.drawText(`Presented by: ${customizations.presenter}`, {
-        x: 50,
-        y: 100,
-        font,
-        size: 14,
-        color: rgb(0.3, 0.3, 0.3),
+      // Reject files whose contents don't match their declared type
+      const key = `images/${req.file.filename}`;
+      const bytes = await fileStore.read(key);
+      if (!isValidImage({ mimeType: req.file.mimetype, bytes })) {
+        await fileStore.delete(key);
+        return res.status(400).json({ message: 'The file is not a valid PNG, JPEG or SVG image' });
+      }
+
+      // Link the image to the signed-in user; anonymous uploads are kept unowned
+      const userId = (req.user as User | undefined)?.id ?? null;
+
+      const asset = await storage.createAsset({
+        publicId: createPublicId(),
+        userId,
+        originalName: req.file.originalname,
+        fileName: req.file.filename,
+        mimeType: req.file.mimetype,
+        size: req.file.size,
       });
+
+      res.status(201).json(asset);
+    } catch (error) {
+      console.error('Image upload error:', error);
+      res.status(500).json({ message: 'Failed to upload image' });
     }
-    
-    if (customizations.date) {
-      page.drawText(customizations.date, {
-        x: 50,
-        y: 70,
-        font,
-        size: 14,
-        color: rgb(0.3, 0.3, 0.3),
-      });
+  });
+
+  // Get the images uploaded by the authenticated user
+  app.get('/api/assets', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as User).id;
+      const assets = await storage.getUserAssets(userId);
+      res.json(assets);
+    } catch (error) {
+      console.error('Get assets error:', error);
+      res.status(500).json({ message: 'Failed to get images' });
     }
-    
-    // Save the preview
-    const pdfBytes = await pdfDoc.save();
-    const previewPath = path.resolve(process.cwd(), 'uploads', 'previews', `cover-${document.id}.pdf`);
-    await fs.writeFile(previewPath, pdfBytes);
-    
-    return previewPath;
-  } catch (error) {
-    console.error('Error generating cover preview:', error);
-    throw error;
-  }
-}
+  });
 
-// Helper function to generate the modified PDF with custom cover page
-async function generateModifiedPdf(originalPdfPath: string, outputPath: string, template: any, customizations: any) {
-  try {
-    // Load the original PDF
-    const originalPdfBytes = await fs.readFile(originalPdfPath);
-    const originalPdfDoc = await PDFDocument.load(originalPdfBytes);
-    
-    // Create a new PDF document
-    const newPdfDoc = await PDFDocument.create();
-    
-    // Add customized cover page
-    const coverPage = newPdfDoc.addPage([612, 792]); // US Letter size
-    
-    // Load a standard font
-    const fontFamily = customizations.fontFamily || 'Helvetica';
-    let font;
-    switch (fontFamily) {
-      case 'Roboto':
-      case 'Open Sans':
-        font = await newPdfDoc.embedFont(StandardFonts.Helvetica);
-        break;
-      case 'Montserrat':
-        font = await newPdfDoc.embedFont(StandardFonts.Helvetica);
-        break;
-      case 'Playfair Display':
-        font = await newPdfDoc.embedFont(StandardFonts.TimesRoman);
-        break;
-      case 'Raleway':
-        font = await newPdfDoc.embedFont(StandardFonts.Helvetica);
-        break;
-      default:
-        font = await newPdfDoc.embedFont(StandardFonts.Helvetica);
-    }
-    
-    // Set background based on template
-    const { width, height } = coverPage.getSize();
-    
-    // Convert color to rgb values (0-1)
-    const colorHex = customizations.colorScheme || '#0077B5';
-    const color = hexToRgb(colorHex);
-    
-    // Apply template-specific design
-    applyTemplateDesign(coverPage, template, color, width, height);
-    
-    // Add title
-    const titleSize = getTitleSize(customizations.titleSize);
-    const titleX = getTitleX(customizations.titleAlignment, width);
-    
-    coverPage.drawText(customizations.title || 'Presentation Title', {
-      x: titleX,
-      y: height - 200,
-      font,
-      size: titleSize,
-      color: rgb(0, 0, 0),
-    });
-    
-    // Add subtitle
-    coverPage.drawText(customizations.subtitle || 'Subtitle', {
-      x: titleX,
-      y: height - 230,
-      font,
-      size: 18,
-      color: rgb(0.3, 0.3, 0.3),
-    });
-    
-    // Add presenter name and date at the bottom
-    if (customizations.presenter) {
-      coverPage.drawText(`Presented by: ${customizations.presenter}`, {
-        x: 50,
-        y: 100,
-        font,
-        size: 14,
-        color: rgb(0.3, 0.3, 0.3),
-      });
+  // Serve an uploaded image, by its public ID. Images the user can't open get
+  // the same 404 as missing ones.
+  app.get('/api/assets/:id/file', async (req: Request, res: Response) => {
+    try {
+      // Row IDs still name images in placements saved before public IDs
+      const assetId = /^\d+$/.test(req.params.id) ? parseInt(req.params.id) : req.params.id;
+      const asset = await findAccessibleAsset(assetId, (req.user as User | undefined)?.id ?? null);
+      if (!asset) {
+        return res.status(404).json({ message: 'Image not found' });
+      }
+
+      // SVGs can carry scripts; never let them run when opened directly
+      res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.type(asset.mimeType);
+      await sendStoredFile(res, `images/${asset.fileName}`);
+    } catch (error) {
+      console.error('Get asset file error:', error);
+      res.status(500).json({ message: 'Failed to get image' });
     }
-    
-    if (customizations.date) {
-      coverPage.drawText(customizations.date, {
-        x: 50,
-        y: 70,
-        font,
-        size: 14,
-        color: rgb(0.3, 0.3, 0.3),
-      });
+  });
+
+  // Get templates
+  app.get('/api/templates', async (req: Request, res: Response) => {
+    try {
+      const templates = await storage.getAllTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error('Get templates error:', error);
+      res.status(500).json({ message: 'Failed to get templates' });
     }
-    
-    // Copy all pages except first from original PDF
-    if (originalPdfDoc.getPageCount() > 1) {
-      const pageIndices = Array.from({ length: originalPdfDoc.getPageCount() - 1 }, (_, i) => i + 1);
-      const copiedPages = await newPdfDoc.copyPages(originalPdfDoc, pageIndices);
-      copiedPages.forEach(page => {
-        newPdfDoc.addPage(page);
-      });
+  });
+
+  // Get the font families the PDF renderer can embed
+  app.get('/api/fonts', async (req: Request, res: Response) => {
+    try {
+      const fonts = await fontRegistry.listFamilies();
+      res.json(fonts);
+    } catch (error) {
+      console.error('Get fonts error:', error);
+      res.status(500).json({ message: 'Failed to get fonts' });
     }
-    
-    // Save the modified PDF
-    const pdfBytes = await newPdfDoc.save();
-    await fs.writeFile(outputPath, pdfBytes);
-    
-    return outputPath;
-  } catch (error) {
-    console.error('Error generating modified PDF:', error);
-    throw error;
-  }
-}
+  });
 
-// Helper function to convert hex color to RGB
-function hexToRgb(hex: string) {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result
-    ? {
-        r: parseInt(result[1], 16) / 255,
-        g: parseInt(result[2], 16) / 255,
-        b: parseInt(result[3], 16) / 255,
+  // Get the font file closest to a weight, for rendering covers in the browser
+  app.get('/api/fonts/:family/:weight', async (req: Request, res: Response) => {
+    try {
+      const weight = parseInt(req.params.weight);
+      if (isNaN(weight)) {
+        return res.status(400).json({ message: 'Invalid font weight' });
       }
-    : { r: 0, g: 0, b: 0 };
-}
 
-// Helper function to determine title size
-function getTitleSize(titleSize?: string) {
-  switch (titleSize) {
-    case 'Small':
-      return 24;
-    case 'Medium':
-      return 32;
-    case 'Large':
-      return 40;
-    case 'Extra Large':
-      return 48;
-    default:
-      return 32;
-  }
-}
+      const file = await fontRegistry.loadFontFile(req.params.family, weight);
+      if (!file) {
+        return res.status(404).json({ message: 'Font not found' });
+      }
 
-// Helper function to determine title X position based on alignment
-function getTitleX(alignment?: string, width = 612) {
-  switch (alignment) {
-    case 'left':
-      return 50;
-    case 'right':
-      return width - 50;
-    case 'center':
-    default:
-      return width / 2;
-  }
-}
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('X-Font-Name', file.postscriptName);
+      res.setHeader('Cache-Control', 'public, max-age=86400');
+      res.send(Buffer.from(file.bytes));
+    } catch (error) {
+      console.error('Get font file error:', error);
+      res.status(500).json({ message: 'Failed to get font file' });
+    }
+  });
 
-function applyTemplateDesign(page: any, template: any, color: any, width: number, height: number) {
-  // White background for all templates
-  page.drawRectangle({
-    x: 0,
-    y: 0,
-    width,
-    height,
-    color: rgb(1, 1, 1),
-  });
-
-  switch (template.name) {
-    case 'Corporate Blue':
-      // Full-width header
-      page.drawRectangle({
-        x: 0,
-        y: height - 120,
-        width,
-        height: 120,
-        color: rgb(color.r, color.g, color.b),
-      });
-      break;
-
-    case 'Modern Gradient':
-      // Gradient effect simulation with multiple rectangles
-      for (let i = 0; i < 10; i++) {
-        const opacity = 0.1 + (i * 0.05);
-        page.drawRectangle({
-          x: 0,
-          y: height - 150 + (i * 10),
-          width,
-          height: 20,
-          color: rgb(color.r * opacity, color.g * opacity, color.b * opacity),
-        });
-      }
-      break;
+  // Seed templates if none exist (non-blocking)
+  seedTemplates().catch(error => {
+    console.warn('Database seeding failed, but server will continue:', error.message);
+  });
 
-    case 'Minimal White':
-      // Thin top border only
-      page.drawRectangle({
-        x: 0,
-        y: height - 5,
-        width,
-        height: 5,
-        color: rgb(color.r, color.g, color.b),
-      });
-      break;
-
-    case 'Bold Red':
-      // Large side accent bar
-      page.drawRectangle({
-        x: 0,
-        y: 0,
-        width: 20,
-        height,
-        color: rgb(color.r, color.g, color.b),
-      });
-      // Top accent bar
-      page.drawRectangle({
-        x: 20,
-        y: height - 80,
-        width: width - 20,
-        height: 80,
-        color: rgb(color.r * 0.8, color.g * 0.8, color.b * 0.8),
-      });
-      break;
-
-    case 'Elegant Black':
-      // Sophisticated accent line
-      page.drawRectangle({
-        x: 40,
-        y: height - 100,
-        width: width - 80,
-        height: 2,
-        color: rgb(color.r, color.g, color.b),
-      });
-      break;
-
-    case 'Tech Blue':
-      // Tech-style geometric elements
-      page.drawRectangle({
-        x: 0,
-        y: height - 60,
-        width: width * 0.7,
-        height: 60,
-        color: rgb(color.r, color.g, color.b),
-      });
-      // Accent rectangles
-      page.drawRectangle({
-        x: width * 0.75,
-        y: height - 40,
-        width: width * 0.25,
-        height: 20,
-        color: rgb(color.r * 0.7, color.g * 0.7, color.b * 0.7),
-      });
-      break;
-
-    default:
-      // Default header bar
-      page.drawRectangle({
-        x: 0,
-        y: height - 100,
-        width,
-        height: 100,
-        color: rgb(color.r, color.g, color.b),
-      });
-  }
-}
\ No newline at end of file
+  // Publish scheduled LinkedIn posts as they come due
+  shareScheduler.start();
+  // Purge expired documents and clean up files no document owns
+  documentJanitor.start({ dryRun: process.env.JANITOR_DRY_RUN === 'true' });
+  // Finish render jobs a previous run of the server left behind
+  jobQueue.start().catch(error => console.error('Job queue error:', error));
+
+  const httpServer = createServer(app);
+  // Push render job progress to the editor
+  attachJobSocket(httpServer, jobQueue, sessionHandlers);
+  return httpServer;
+}
@@ -1,51 +1,75 @@
-import { db } from "./db";
-import { templates } from "@shared/schema";
+import { storage } from "./storage";
+import { renderCache } from "./renderCache";
+import { templateLayouts } from "@shared/templateLayouts";
 
 export async function seedTemplates() {
   try {
-    const existingTemplates = await db.select().from(templates);
+    const existingTemplates = await storage.getAllTemplates();
     
     // Only seed if no templates exist
     if (existingTemplates.length === 0) {
-      await db.insert(templates).values([
+      const builtInTemplates = [
         {
           name: "Corporate Blue",
           imagePath: "/templates/corporate-blue.svg",
-          category: "Business"
+          category: "Business",
+          layout: templateLayouts["Corporate Blue"]
         },
         {
           name: "Modern Gradient",
           imagePath: "/templates/modern-gradient.svg",
-          category: "Creative"
+          category: "Creative",
+          layout: templateLayouts["Modern Gradient"]
         },
         {
           name: "Minimal White",
           imagePath: "/templates/minimal-white.svg",
-          category: "Minimalist"
+          category: "Minimalist",
+          layout: templateLayouts["Minimal White"]
         },
         {
           name: "Bold Red",
           imagePath: "/templates/bold-red.svg",
-          category: "Business"
+          category: "Business",
+          layout: templateLayouts["Bold Red"]
         },
         {
           name: "Elegant Black",
           imagePath: "/templates/elegant-black.svg",
-          category: "Formal"
+          category: "Formal",
+          layout: templateLayouts["Elegant Black"]
         },
         {
           name: "Tech Blue",
           imagePath: "/templates/tech-blue.svg",
-          category: "Technology"
+          category: "Technology",
+          layout: templateLayouts["Tech Blue"]
         }
-      ]);
+      ];
+      for (const template of builtInTemplates) {
+        await storage.createTemplate(template);
+      }
       
       console.log("Templates seeded successfully");
     } else {
-      console.log("Templates already exist, skipping seed");
+      // Templates seeded before layouts existed get their built-in layout.
+      // Stored layouts are left alone: templates are edited through their
+      // data, and seeding again mustn't undo those edits.
+      const missingLayouts = existingTemplates.filter(template => !template.layout && templateLayouts[template.name]);
+      for (const template of missingLayouts) {
+        await storage.updateTemplateLayout(template.id, templateLayouts[template.name]);
+        // Covers rendered without a layout are out of date
+        await renderCache.invalidateTemplate(template.id);
+      }
+
+      if (missingLayouts.length > 0) {
+        console.log(`Added layouts to ${missingLayouts.length} existing templates`);
+      } else {
+        console.log("Templates already exist, skipping seed");
+      }
     }
   } catch (error) {
     console.error("Error seeding templates:", error);
     // Don't throw - let the app continue running
   }
-}
\ No newline at end of file
+}
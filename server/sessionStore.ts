@@ -0,0 +1,63 @@
+import session from "express-session";
+import { storage } from "./storage";
+
+// How long a session lasts when its cookie has no expiry of its own
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+// How often expired sessions are deleted
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+// express-session store that keeps sessions in the sessions table, so users
+// stay signed in when the server restarts
+export class DrizzleSessionStore extends session.Store {
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(private ttl = DEFAULT_TTL) {
+    super();
+  }
+
+  private expiresAt(sess: session.SessionData) {
+    return sess.cookie?.expires ? new Date(sess.cookie.expires) : new Date(Date.now() + this.ttl);
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void) {
+    storage.getSession(sid, new Date())
+      .then(row => callback(null, row ? JSON.parse(row.data) : null))
+      .catch(callback);
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void) {
+    storage.setSession(sid, JSON.stringify(sess), this.expiresAt(sess))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: (err?: any) => void) {
+    storage.touchSession(sid, this.expiresAt(sess))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    storage.destroySession(sid)
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  // Expired sessions are never returned by get(); this just clears them out
+  startPruning(interval = PRUNE_INTERVAL) {
+    if (this.pruneTimer) return;
+
+    this.pruneTimer = setInterval(() => {
+      storage.deleteExpiredSessions(new Date()).catch(error => console.error('Session prune error:', error));
+    }, interval);
+    // Don't keep the process alive just for pruning
+    this.pruneTimer.unref();
+  }
+
+  stopPruning() {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import path from "path";
+import type { Document, User } from "@shared/schema";
+import type { PostVisibility, ShareMention } from "@shared/linkedinPost";
+import { storage } from "./storage";
+import { jobQueue } from "./jobQueue";
+import { linkedInClient, personUrn, shareDocument, type LinkedInClient } from "./linkedinClient";
+import { getLinkedInAccessToken } from "./linkedinAuth";
+
+// How often the scheduler looks for shares that are due
+const POLL_INTERVAL = 30 * 1000;
+// Posting renders the PDF and uploads it, which takes minutes at most. A
+// share still posting after this was left by a server that stopped.
+const STUCK_AFTER = 15 * 60 * 1000;
+
+export interface SharePost {
+  commentary: string;
+  hashtags: string[];
+  mentions: ShareMention[];
+  visibility: PostVisibility;
+}
+
+// The user signed in without LinkedIn, so there is no token to post with
+export class LinkedInNotConnectedError extends Error {
+  constructor() {
+    super('Sign in with LinkedIn to share documents');
+  }
+}
+
+// Post a document's enhanced PDF to the user's LinkedIn feed and remember the
+// post on the document. Resolves with the post's URN.
+export async function postDocumentToLinkedIn(client: LinkedInClient, document: Document, user: User, post: SharePost): Promise<string> {
+  if (!user.linkedinId || !user.linkedinToken) {
+    throw new LinkedInNotConnectedError();
+  }
+
+  const accessToken = await getLinkedInAccessToken(client, user);
+  const postUrn = await shareDocument(client, accessToken, {
+    ...post,
+    author: personUrn(user.linkedinId),
+    pdf: await jobQueue.readDocumentPdf(document),
+    title: path.parse(document.originalName).name,
+  });
+  await storage.setDocumentLinkedinPost(document.id, postUrn);
+  return postUrn;
+}
+
+// Publishes scheduled shares from inside the server process. Each due share
+// is claimed by marking it as posting before it is sent, and only the run
+// that claimed it posts it, so it is never posted twice. A share left posting
+// by a server that stopped may or may not be on LinkedIn, so it's failed
+// rather than posted again.
+export class ShareScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(private client: LinkedInClient) {}
+
+  start(interval = POLL_INTERVAL) {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runDueShares().catch(error => console.error('Scheduled share error:', error));
+    }, interval);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Post every pending share whose time has come. A run that starts while
+  // another is in progress waits for that one instead.
+  runDueShares(now = new Date()): Promise<void> {
+    if (!this.running) {
+      this.running = this.postDueShares(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async postDueShares(now: Date) {
+    await storage.failStuckScheduledShares(new Date(now.getTime() - STUCK_AFTER), 'Posting was interrupted; check LinkedIn before sharing again');
+
+    for (const share of await storage.getDueScheduledShares(now)) {
+      // Another run or instance got to it first
+      if (!(await storage.claimScheduledShare(share.id, now))) continue;
+
+      try {
+        const [document, user] = await Promise.all([storage.getDocument(share.documentId), storage.getUser(share.userId)]);
+        if (!document || document.deletedAt || !user) {
+          throw new Error('The document or its owner no longer exists');
+        }
+
+        const postUrn = await postDocumentToLinkedIn(this.client, document, user, {
+          commentary: share.commentary,
+          hashtags: share.hashtags,
+          mentions: share.mentions,
+          visibility: share.visibility as PostVisibility,
+        });
+        await storage.updateScheduledShare(share.id, { status: 'posted', postUrn });
+      } catch (error) {
+        console.error(`Scheduled share ${share.id} failed:`, error);
+        await storage.updateScheduledShare(share.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+}
+
+export const shareScheduler = new ShareScheduler(linkedInClient);
@@ -1,6 +1,21 @@
-import { users, documents, templates, type User, type InsertUser, type Document, type InsertDocument, type Template, type InsertTemplate } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, isNull, isNotNull } from "drizzle-orm";
+import { users, authTokens, sessions, documents, documentVersions, scheduledShares, templates, assets, jobs, type User, type InsertUser, type AuthToken, type InsertAuthToken, type Session, type Document, type InsertDocument, type DocumentVersion, type DocumentVersionWithAuthor, type ScheduledShare, type InsertScheduledShare, type Template, type InsertTemplate, type Asset, type InsertAsset, type Job, type InsertJob } from "@shared/schema";
+import { getDb, type Database } from "./db";
+import { eq, desc, asc, and, or, lt, lte, gt, gte, like, inArray, isNull, isNotNull, sql, count, type SQL } from "drizzle-orm";
+import { startOfDay, nextDay, type DocumentListQuery } from "@shared/documentLibrary";
+import type { TemplateLayout } from "@shared/templateLayout";
+import { MemStorage } from "./memStorage";
+
+export type LinkedinTokenUpdate = Pick<User, 'linkedinToken' | 'linkedinRefreshToken' | 'linkedinTokenExpiresAt'>;
+export type LinkedinAccountLink = LinkedinTokenUpdate & Pick<User, 'linkedinId'> & Partial<Pick<User, 'password'>>;
+export type ScheduledShareUpdate = Partial<Pick<ScheduledShare, 'status' | 'postUrn' | 'error'>>;
+export type JobUpdate = Partial<Pick<Job, 'status' | 'progress' | 'resultKey' | 'error' | 'startedAt' | 'finishedAt'>>;
+
+// Customizations have been saved both as JSON objects and as JSON-encoded
+// strings, so strings are unwrapped before reading a field
+function customizationField(path: string) {
+  return sql`JSON_UNQUOTE(JSON_EXTRACT(IF(JSON_TYPE(${documents.customizations}) = 'STRING', JSON_UNQUOTE(${documents.customizations}), ${documents.customizations}), ${path}))`;
+}
+
 
 // modify the interface with any CRUD methods
 // you might need
@@ -11,124 +26,582 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByLinkedinId(linkedinId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUserLinkedinToken(userId: number, token: string): Promise<User>;
+  updateUserLinkedinTokens(userId: number, tokens: LinkedinTokenUpdate): Promise<User>;
+  // Link a LinkedIn account to an existing user. LinkedIn only shares
+  // verified addresses, so the user's email counts as verified from then on.
+  linkLinkedinAccount(userId: number, link: LinkedinAccountLink): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  updateUserPassword(userId: number, passwordHash: string): Promise<User>;
+  setUserEmailVerified(userId: number): Promise<User>;
+  
+  // Email verification and password reset tokens
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  getAuthToken(purpose: string, tokenHash: string): Promise<AuthToken | undefined>;
+  markAuthTokenUsed(id: number): Promise<void>;
+  
+  // Session operations, for the express-session store
+  getSession(sid: string, now: Date): Promise<Session | undefined>;
+  setSession(sid: string, data: string, expiresAt: Date): Promise<void>;
+  touchSession(sid: string, expiresAt: Date): Promise<void>;
+  destroySession(sid: string): Promise<void>;
+  deleteExpiredSessions(now: Date): Promise<void>;
   
   // Document operations
   getDocument(id: number): Promise<Document | undefined>;
+  getDocumentByPublicId(publicId: string): Promise<Document | undefined>;
   getRecentDocuments(userId: number): Promise<Document[]>;
+  listDocuments(userId: number, query: DocumentListQuery): Promise<{ documents: Document[]; total: number }>;
   createDocument(document: InsertDocument): Promise<Document>;
-  updateDocumentCustomizations(id: number, customizations: any): Promise<Document>;
+  updateDocumentCustomizations(id: number, customizations: any, authorId?: number | null): Promise<Document>;
+  setDocumentLinkedinPost(id: number, postUrn: string): Promise<Document>;
+  // Give anonymous documents to a user; documents that already have an owner are left alone
+  claimDocuments(ids: number[], userId: number): Promise<void>;
+  // Soft delete: the documents are hidden until restored or purged
+  softDeleteDocuments(ids: number[], deletedAt: Date): Promise<void>;
+  restoreDocuments(ids: number[]): Promise<void>;
+  // Hard delete, with the documents' versions, scheduled shares and jobs
+  deleteDocuments(ids: number[]): Promise<void>;
+  getAllDocuments(): Promise<Document[]>;
+  // Anonymous documents uploaded before `anonymousBefore` and documents
+  // soft deleted before `deletedBefore`
+  getExpiredDocuments(anonymousBefore: Date, deletedBefore: Date): Promise<Document[]>;
+  
+  // Document version operations
+  getDocumentVersions(documentId: number): Promise<DocumentVersionWithAuthor[]>;
+  getDocumentVersion(id: number): Promise<DocumentVersion | undefined>;
+  
+  // Scheduled share operations
+  createScheduledShare(share: InsertScheduledShare): Promise<ScheduledShare>;
+  getScheduledShare(id: number): Promise<ScheduledShare | undefined>;
+  getDocumentScheduledShares(documentId: number): Promise<ScheduledShare[]>;
+  getDueScheduledShares(now: Date): Promise<ScheduledShare[]>;
+  updateScheduledShare(id: number, update: ScheduledShareUpdate): Promise<ScheduledShare>;
+  // Mark a pending share as posting. Resolves with whether this call did, so
+  // overlapping runs and other instances can't both post it.
+  claimScheduledShare(id: number, now: Date): Promise<boolean>;
+  // Fail the shares that started posting before the given date and never
+  // finished, because the server posting them stopped
+  failStuckScheduledShares(postingBefore: Date, error: string): Promise<void>;
+  
+  // Image asset operations
+  getAsset(id: number): Promise<Asset | undefined>;
+  getAssetByPublicId(publicId: string): Promise<Asset | undefined>;
+  getUserAssets(userId: number): Promise<Asset[]>;
+  getAllAssets(): Promise<Asset[]>;
+  createAsset(asset: InsertAsset): Promise<Asset>;
   
   // Template operations
   getTemplate(id: number): Promise<Template | undefined>;
   getAllTemplates(): Promise<Template[]>;
   createTemplate(template: InsertTemplate): Promise<Template>;
+  updateTemplateLayout(id: number, layout: TemplateLayout): Promise<Template>;
+
+  // Background job operations
+  createJob(job: InsertJob): Promise<Job>;
+  getJobByPublicId(publicId: string): Promise<Job | undefined>;
+  // Queued and running jobs whose worker last sent a heartbeat before
+  // `staleBefore`, oldest first
+  getStaleJobs(staleBefore: Date): Promise<Job[]>;
+  // Give a stale job to another worker, back in the queue. Resolves with the
+  // job only if it was still stale, so two workers can't both take it.
+  claimStaleJob(id: number, workerId: string, staleBefore: Date): Promise<Job | undefined>;
+  // Mark the worker's unfinished jobs as still in hand
+  heartbeatJobs(workerId: string): Promise<void>;
+  updateJob(id: number, update: JobUpdate): Promise<Job>;
+  // Delete jobs that finished before the given date
+  deleteFinishedJobs(finishedBefore: Date): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
+  // Without a database of its own it uses the app's, connecting on first use
+  constructor(private database?: Database) {}
+
+  private get db(): Database {
+    return this.database ?? getDb();
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
   async getUserByLinkedinId(linkedinId: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.linkedinId, linkedinId));
+    const [user] = await this.db.select().from(users).where(eq(users.linkedinId, linkedinId));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [result] = await db
+    const [result] = await this.db
       .insert(users)
       .values(insertUser);
     
     // Get the newly created user
-    const [user] = await db.select().from(users).where(eq(users.username, insertUser.username!));
+    const [user] = await this.db.select().from(users).where(eq(users.username, insertUser.username!));
     return user;
   }
 
-  async updateUserLinkedinToken(userId: number, token: string): Promise<User> {
-    await db
+  async updateUserLinkedinTokens(userId: number, tokens: LinkedinTokenUpdate): Promise<User> {
+    await this.db
       .update(users)
-      .set({ linkedinToken: token })
+      .set(tokens)
       .where(eq(users.id, userId));
     
-    const [updatedUser] = await db.select().from(users).where(eq(users.id, userId));
+    const [updatedUser] = await this.db.select().from(users).where(eq(users.id, userId));
     return updatedUser;
   }
 
+  async linkLinkedinAccount(userId: number, link: LinkedinAccountLink): Promise<User> {
+    await this.db
+      .update(users)
+      .set({ ...link, emailVerified: true })
+      .where(eq(users.id, userId));
+
+    const [linkedUser] = await this.db.select().from(users).where(eq(users.id, userId));
+    return linkedUser;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user || undefined;
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string): Promise<User> {
+    await this.db
+      .update(users)
+      .set({ password: passwordHash })
+      .where(eq(users.id, userId));
+    
+    const [updatedUser] = await this.db.select().from(users).where(eq(users.id, userId));
+    return updatedUser;
+  }
+
+  async setUserEmailVerified(userId: number): Promise<User> {
+    await this.db
+      .update(users)
+      .set({ emailVerified: true })
+      .where(eq(users.id, userId));
+    
+    const [updatedUser] = await this.db.select().from(users).where(eq(users.id, userId));
+    return updatedUser;
+  }
+
+  // Email verification and password reset tokens
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const [{ id }] = await this.db
+      .insert(authTokens)
+      .values(token)
+      .$returningId();
+    
+    const [created] = await this.db.select().from(authTokens).where(eq(authTokens.id, id));
+    return created;
+  }
+
+  async getAuthToken(purpose: string, tokenHash: string): Promise<AuthToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(authTokens)
+      .where(and(eq(authTokens.purpose, purpose), eq(authTokens.tokenHash, tokenHash)));
+    return token || undefined;
+  }
+
+  async markAuthTokenUsed(id: number): Promise<void> {
+    await this.db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(eq(authTokens.id, id));
+  }
+
+  // Session operations
+  async getSession(sid: string, now: Date): Promise<Session | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.sid, sid), gt(sessions.expiresAt, now)));
+    return session || undefined;
+  }
+
+  async setSession(sid: string, data: string, expiresAt: Date): Promise<void> {
+    await this.db
+      .insert(sessions)
+      .values({ sid, data, expiresAt })
+      .onDuplicateKeyUpdate({ set: { data, expiresAt } });
+  }
+
+  async touchSession(sid: string, expiresAt: Date): Promise<void> {
+    await this.db
+      .update(sessions)
+      .set({ expiresAt })
+      .where(eq(sessions.sid, sid));
+  }
+
+  async destroySession(sid: string): Promise<void> {
+    await this.db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async deleteExpiredSessions(now: Date): Promise<void> {
+    await this.db.delete(sessions).where(lte(sessions.expiresAt, now));
+  }
+
   // Document operations
   async getDocument(id: number): Promise<Document | undefined> {
-    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document || undefined;
+  }
+
+  async getDocumentByPublicId(publicId: string): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.publicId, publicId));
     return document || undefined;
   }
 
   async getRecentDocuments(userId: number): Promise<Document[]> {
-    return await db
+    return await this.db
       .select()
       .from(documents)
-      .where(eq(documents.userId, userId))
+      .where(and(eq(documents.userId, userId), isNull(documents.deletedAt)))
       .orderBy(desc(documents.createdAt))
       .limit(5);
   }
 
+  async listDocuments(userId: number, query: DocumentListQuery): Promise<{ documents: Document[]; total: number }> {
+    const conditions: (SQL | undefined)[] = [
+      eq(documents.userId, userId),
+      query.deleted ? isNotNull(documents.deletedAt) : isNull(documents.deletedAt),
+    ];
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      conditions.push(or(like(documents.originalName, pattern), like(customizationField('$.title'), pattern)));
+    }
+    if (query.templateId !== undefined) {
+      conditions.push(sql`${customizationField('$.templateId')} = ${String(query.templateId)}`);
+    }
+    if (query.modified !== undefined) {
+      conditions.push(eq(documents.isModified, query.modified));
+    }
+    if (query.from) {
+      conditions.push(gte(documents.createdAt, startOfDay(query.from)));
+    }
+    if (query.to) {
+      conditions.push(lt(documents.createdAt, nextDay(query.to)));
+    }
+    const where = and(...conditions);
+
+    const [{ total }] = await this.db.select({ total: count() }).from(documents).where(where);
+    const rows = await this.db
+      .select()
+      .from(documents)
+      .where(where)
+      .orderBy(...(query.sort === 'name' ? [asc(documents.originalName), desc(documents.id)] : [desc(documents.createdAt), desc(documents.id)]))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { documents: rows, total };
+  }
+
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
-    const [result] = await db
+    const [{ id }] = await this.db
       .insert(documents)
-      .values(insertDocument);
+      .values(insertDocument)
+      .$returningId();
     
-    // Get the newly created document by filename (since it should be unique)
-    let query = db.select().from(documents)
-      .where(eq(documents.fileName, insertDocument.fileName))
-      .orderBy(desc(documents.createdAt))
-      .limit(1);
-    
-    // Add userId condition only if userId is not null
-    if (insertDocument.userId !== null) {
-      query = query.where(eq(documents.userId, insertDocument.userId));
-    }
-    
-    const [document] = await query;
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
     return document;
   }
 
-  async updateDocumentCustomizations(id: number, customizations: any): Promise<Document> {
-    await db
+  async updateDocumentCustomizations(id: number, customizations: any, authorId: number | null = null): Promise<Document> {
+    // Keep the applied customizations as a version alongside the current copy
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(documents)
+        .set({ 
+          customizations: JSON.stringify(customizations),
+          isModified: true 
+        })
+        .where(eq(documents.id, id));
+      
+      await tx
+        .insert(documentVersions)
+        .values({ documentId: id, userId: authorId, customizations });
+    });
+    
+    const [updatedDocument] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return updatedDocument;
+  }
+
+  async setDocumentLinkedinPost(id: number, postUrn: string): Promise<Document> {
+    await this.db
       .update(documents)
-      .set({ 
-        customizations: JSON.stringify(customizations),
-        isModified: true 
-      })
+      .set({ linkedinPostUrn: postUrn })
       .where(eq(documents.id, id));
     
-    const [updatedDocument] = await db.select().from(documents).where(eq(documents.id, id));
+    const [updatedDocument] = await this.db.select().from(documents).where(eq(documents.id, id));
     return updatedDocument;
   }
 
+  async claimDocuments(ids: number[], userId: number): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.db
+      .update(documents)
+      .set({ userId, claimTokenHash: null })
+      .where(and(inArray(documents.id, ids), isNull(documents.userId)));
+  }
+
+  async softDeleteDocuments(ids: number[], deletedAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.db
+      .update(documents)
+      .set({ deletedAt })
+      .where(and(inArray(documents.id, ids), isNull(documents.deletedAt)));
+  }
+
+  async restoreDocuments(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.db
+      .update(documents)
+      .set({ deletedAt: null })
+      .where(inArray(documents.id, ids));
+  }
+
+  async deleteDocuments(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.db.transaction(async (tx) => {
+      await tx.delete(documentVersions).where(inArray(documentVersions.documentId, ids));
+      await tx.delete(scheduledShares).where(inArray(scheduledShares.documentId, ids));
+      await tx.delete(jobs).where(inArray(jobs.documentId, ids));
+      await tx.delete(documents).where(inArray(documents.id, ids));
+    });
+  }
+
+  async getAllDocuments(): Promise<Document[]> {
+    return await this.db.select().from(documents);
+  }
+
+  async getExpiredDocuments(anonymousBefore: Date, deletedBefore: Date): Promise<Document[]> {
+    return await this.db
+      .select()
+      .from(documents)
+      .where(or(
+        and(isNull(documents.userId), lt(documents.createdAt, anonymousBefore)),
+        lt(documents.deletedAt, deletedBefore),
+      ));
+  }
+
+  // Document version operations
+  async getDocumentVersions(documentId: number): Promise<DocumentVersionWithAuthor[]> {
+    const rows = await this.db
+      .select({ version: documentVersions, user: users })
+      .from(documentVersions)
+      .leftJoin(users, eq(documentVersions.userId, users.id))
+      .where(eq(documentVersions.documentId, documentId))
+      // Versions applied within the same second keep their order by ID
+      .orderBy(desc(documentVersions.createdAt), desc(documentVersions.id));
+    
+    return rows.map(({ version, user }) => ({
+      ...version,
+      authorName: user ? user.fullName || user.username : null,
+    }));
+  }
+
+  async getDocumentVersion(id: number): Promise<DocumentVersion | undefined> {
+    const [version] = await this.db.select().from(documentVersions).where(eq(documentVersions.id, id));
+    return version || undefined;
+  }
+
+  // Scheduled share operations
+  async createScheduledShare(share: InsertScheduledShare): Promise<ScheduledShare> {
+    const [{ id }] = await this.db
+      .insert(scheduledShares)
+      .values(share)
+      .$returningId();
+    
+    const [created] = await this.db.select().from(scheduledShares).where(eq(scheduledShares.id, id));
+    return created;
+  }
+
+  async getScheduledShare(id: number): Promise<ScheduledShare | undefined> {
+    const [share] = await this.db.select().from(scheduledShares).where(eq(scheduledShares.id, id));
+    return share || undefined;
+  }
+
+  async getDocumentScheduledShares(documentId: number): Promise<ScheduledShare[]> {
+    return await this.db
+      .select()
+      .from(scheduledShares)
+      .where(eq(scheduledShares.documentId, documentId))
+      .orderBy(asc(scheduledShares.scheduledAt));
+  }
+
+  async getDueScheduledShares(now: Date): Promise<ScheduledShare[]> {
+    return await this.db
+      .select()
+      .from(scheduledShares)
+      .where(and(eq(scheduledShares.status, 'pending'), lte(scheduledShares.scheduledAt, now)))
+      .orderBy(asc(scheduledShares.scheduledAt));
+  }
+
+  async updateScheduledShare(id: number, update: ScheduledShareUpdate): Promise<ScheduledShare> {
+    await this.db
+      .update(scheduledShares)
+      .set(update)
+      .where(eq(scheduledShares.id, id));
+    
+    const [share] = await this.db.select().from(scheduledShares).where(eq(scheduledShares.id, id));
+    return share;
+  }
+
+  async claimScheduledShare(id: number, now: Date): Promise<boolean> {
+    const [result] = await this.db
+      .update(scheduledShares)
+      .set({ status: 'posting', postingAt: now })
+      .where(and(eq(scheduledShares.id, id), eq(scheduledShares.status, 'pending')));
+    return result.affectedRows === 1;
+  }
+
+  async failStuckScheduledShares(postingBefore: Date, error: string): Promise<void> {
+    await this.db
+      .update(scheduledShares)
+      .set({ status: 'failed', error })
+      .where(and(eq(scheduledShares.status, 'posting'), lt(scheduledShares.postingAt, postingBefore)));
+  }
+
+  // Image asset operations
+  async getAsset(id: number): Promise<Asset | undefined> {
+    const [asset] = await this.db.select().from(assets).where(eq(assets.id, id));
+    return asset || undefined;
+  }
+
+  async getAssetByPublicId(publicId: string): Promise<Asset | undefined> {
+    const [asset] = await this.db.select().from(assets).where(eq(assets.publicId, publicId));
+    return asset || undefined;
+  }
+
+  async getUserAssets(userId: number): Promise<Asset[]> {
+    return await this.db
+      .select()
+      .from(assets)
+      .where(eq(assets.userId, userId))
+      .orderBy(desc(assets.createdAt));
+  }
+
+  async getAllAssets(): Promise<Asset[]> {
+    return await this.db.select().from(assets);
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const [{ id }] = await this.db
+      .insert(assets)
+      .values(insertAsset)
+      .$returningId();
+
+    const [asset] = await this.db.select().from(assets).where(eq(assets.id, id));
+    return asset;
+  }
+
   // Template operations
   async getTemplate(id: number): Promise<Template | undefined> {
-    const [template] = await db.select().from(templates).where(eq(templates.id, id));
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
     return template || undefined;
   }
 
   async getAllTemplates(): Promise<Template[]> {
-    return await db.select().from(templates);
+    return await this.db.select().from(templates);
   }
 
   async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
-    const [result] = await db
+    const [{ id }] = await this.db
       .insert(templates)
-      .values(insertTemplate);
+      .values(insertTemplate)
+      .$returningId();
     
-    // Get the newly created template by name (since it should be unique for our use case)
-    const [template] = await db.select().from(templates).where(eq(templates.name, insertTemplate.name));
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
+    return template;
+  }
+
+  async updateTemplateLayout(id: number, layout: TemplateLayout): Promise<Template> {
+    await this.db
+      .update(templates)
+      .set({ layout, version: sql`${templates.version} + 1` })
+      .where(eq(templates.id, id));
+
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
     return template;
   }
+
+  // Background job operations
+  async createJob(job: InsertJob): Promise<Job> {
+    const [{ id }] = await this.db
+      .insert(jobs)
+      .values(job)
+      .$returningId();
+
+    const [created] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return created;
+  }
+
+  async getJobByPublicId(publicId: string): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.publicId, publicId));
+    return job;
+  }
+
+  async getStaleJobs(staleBefore: Date): Promise<Job[]> {
+    return await this.db
+      .select()
+      .from(jobs)
+      .where(and(inArray(jobs.status, ['queued', 'running']), lt(jobs.heartbeatAt, staleBefore)))
+      .orderBy(asc(jobs.createdAt), asc(jobs.id));
+  }
+
+  async claimStaleJob(id: number, workerId: string, staleBefore: Date): Promise<Job | undefined> {
+    const [result] = await this.db
+      .update(jobs)
+      .set({ workerId, heartbeatAt: new Date(), status: 'queued', progress: 0 })
+      .where(and(eq(jobs.id, id), inArray(jobs.status, ['queued', 'running']), lt(jobs.heartbeatAt, staleBefore)));
+    if (result.affectedRows === 0) {
+      return undefined;
+    }
+
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async heartbeatJobs(workerId: string): Promise<void> {
+    await this.db
+      .update(jobs)
+      .set({ heartbeatAt: new Date() })
+      .where(and(eq(jobs.workerId, workerId), inArray(jobs.status, ['queued', 'running'])));
+  }
+
+  async updateJob(id: number, update: JobUpdate): Promise<Job> {
+    await this.db
+      .update(jobs)
+      .set(update)
+      .where(eq(jobs.id, id));
+
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async deleteFinishedJobs(finishedBefore: Date): Promise<void> {
+    await this.db.delete(jobs).where(lt(jobs.finishedAt, finishedBefore));
+  }
+}
+
+// STORAGE=memory keeps everything in memory instead of MySQL, for tests and
+// trying the app out without a database. Nothing survives a restart.
+function createStorage(): IStorage {
+  if (process.env.STORAGE === 'memory') {
+    return new MemStorage();
+  }
+  return new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
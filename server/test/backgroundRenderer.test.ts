@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import {
+  backgroundStyleOptions,
+  backgroundToSvg,
+  getBackgroundFill,
+  linearGradientLine,
+  normalizeOpacity,
+} from '@shared/backgroundStyles';
+import { drawBackgroundStyle } from '@shared/backgroundRenderer';
+
+async function renderBackground(backgroundStyle?: string, backgroundOpacity?: number) {
+  const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+  const page = pdfDoc.addPage([612, 792]);
+  drawBackgroundStyle(page, backgroundStyle, backgroundOpacity);
+  const resources = page.node.normalizedEntries().Resources;
+  const resourceCount = (category: string) => resources.lookupMaybe(PDFName.of(category), PDFDict)?.keys().length ?? 0;
+  return {
+    shadings: resourceCount('Shading'),
+    patterns: resourceCount('Pattern'),
+    extGStates: resourceCount('ExtGState'),
+    bytes: await pdfDoc.save(),
+  };
+}
+
+describe('Background styles', () => {
+  it('defines a fill for every style except the template background', () => {
+    for (const option of backgroundStyleOptions) {
+      expect(Boolean(option.fill)).toBe(option.value !== 'none');
+    }
+    expect(getBackgroundFill('unknown')).toBeUndefined();
+  });
+
+  it('reads the slider value as a percentage', () => {
+    expect(normalizeOpacity(undefined)).toBe(1);
+    expect(normalizeOpacity(100)).toBe(1);
+    expect(normalizeOpacity(40)).toBeCloseTo(0.4);
+    expect(normalizeOpacity(-5)).toBe(0);
+    expect(normalizeOpacity(250)).toBe(1);
+  });
+
+  it('runs gradient lines corner to corner like CSS', () => {
+    const horizontal = linearGradientLine(90, 200, 100);
+    expect(horizontal.x1).toBeCloseTo(0);
+    expect(horizontal.y1).toBeCloseTo(50);
+    expect(horizontal.x2).toBeCloseTo(200);
+    expect(horizontal.y2).toBeCloseTo(50);
+
+    const diagonal = linearGradientLine(135, 100, 100);
+    expect(diagonal.x1).toBeCloseTo(0);
+    expect(diagonal.y1).toBeCloseTo(0);
+    expect(diagonal.x2).toBeCloseTo(100);
+    expect(diagonal.y2).toBeCloseTo(100);
+  });
+
+  it('renders patterns as SVG from the same definition', () => {
+    const svg = backgroundToSvg(getBackgroundFill('pattern2')!, 120, 48, 0.5);
+    expect(svg).toContain('<pattern id="bg" patternUnits="userSpaceOnUse" width="60" height="60">');
+    expect(svg).toContain('<circle cx="16" cy="16" r="10" fill="#F9A8D4"/>');
+    expect(svg).toContain('fill-opacity="0.5"');
+  });
+});
+
+describe('Background renderer', () => {
+  it('draws gradients as axial shadings', async () => {
+    const { shadings, patterns, extGStates } = await renderBackground('gradient1', 100);
+    expect(shadings).toBe(1);
+    expect(patterns).toBe(0);
+    expect(extGStates).toBe(0);
+  });
+
+  it('draws patterns as tiling patterns', async () => {
+    const { shadings, patterns } = await renderBackground('pattern1', 100);
+    expect(patterns).toBe(1);
+    expect(shadings).toBe(0);
+  });
+
+  it('applies opacity through a graphics state', async () => {
+    for (const style of ['gradient2', 'pattern2', 'solid']) {
+      const { extGStates } = await renderBackground(style, 30);
+      expect(extGStates).toBe(1);
+    }
+  });
+
+  it('leaves the page untouched for the template background or zero opacity', async () => {
+    const untouched = await renderBackground(undefined);
+    expect((await renderBackground('none', 100)).bytes).toEqual(untouched.bytes);
+    expect((await renderBackground('gradient1', 0)).bytes).toEqual(untouched.bytes);
+  });
+
+  it('loads back the documents it writes', async () => {
+    for (const option of backgroundStyleOptions) {
+      const { bytes } = await renderBackground(option.value, 60);
+      await expect(PDFDocument.load(bytes)).resolves.toBeDefined();
+    }
+  });
+});
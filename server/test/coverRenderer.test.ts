@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { PDFDocument, degrees } from 'pdf-lib';
+import type { Template } from '@shared/schema';
+import { getFirstPageSize, getRetainedPageIndices, renderCover, renderCoverPdf, renderModifiedPdf, type CoverCustomizations } from '@shared/coverRenderer';
+import { templateLayouts } from '@shared/templateLayouts';
+import type { ImageLoader } from '@shared/imageRenderer';
+import { fontRegistry } from '../fontRegistry';
+
+// Each JSON file in fixtures/covers describes a cover to render. The output is
+// compared byte for byte against fixtures/golden/<name>.pdf. After an
+// intentional rendering change, regenerate the golden files with:
+//
+//   UPDATE_GOLDEN=1 npx vitest run server/test/coverRenderer.test.ts
+//
+// and bump RENDERER_VERSION, so cached renders are made again.
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+const COVERS_DIR = path.join(FIXTURES_DIR, 'covers');
+const GOLDEN_DIR = path.join(FIXTURES_DIR, 'golden');
+
+interface CoverFixture {
+  description: string;
+  template: string;
+  source?: string;
+  // Image files under fixtures/ served as uploaded assets, keyed by asset ID
+  assets?: Record<string, string>;
+  customizations: CoverCustomizations;
+}
+
+function loadFixtures() {
+  return fs.readdirSync(COVERS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => ({
+      name: path.basename(file, '.json'),
+      fixture: JSON.parse(fs.readFileSync(path.join(COVERS_DIR, file), 'utf-8')) as CoverFixture,
+    }));
+}
+
+function templateFor(name: string): Template {
+  return {
+    id: 1,
+    name,
+    imagePath: '',
+    category: '',
+    layout: templateLayouts[name] ?? null,
+  };
+}
+
+function fixtureImageLoader(fixture: CoverFixture): ImageLoader {
+  return async (assetId) => {
+    const file = fixture.assets?.[assetId];
+    if (!file) {
+      return undefined;
+    }
+    const mimeType = file.endsWith('.svg') ? 'image/svg+xml' : file.endsWith('.png') ? 'image/png' : 'image/jpeg';
+    return { mimeType, bytes: fs.readFileSync(path.join(FIXTURES_DIR, file)) };
+  };
+}
+
+async function renderFixture(fixture: CoverFixture) {
+  const template = templateFor(fixture.template);
+  const options = { updateMetadata: false, fontRegistry, loadImage: fixtureImageLoader(fixture) };
+  if (fixture.source) {
+    const sourceBytes = fs.readFileSync(path.join(FIXTURES_DIR, fixture.source));
+    return renderModifiedPdf(sourceBytes, template, fixture.customizations, options);
+  }
+  return renderCoverPdf(template, fixture.customizations, options);
+}
+
+describe('Cover renderer golden files', () => {
+  for (const { name, fixture } of loadFixtures()) {
+    it(`${name}: ${fixture.description}`, async () => {
+      const bytes = Buffer.from(await renderFixture(fixture));
+      const goldenPath = path.join(GOLDEN_DIR, `${name}.pdf`);
+
+      if (process.env.UPDATE_GOLDEN) {
+        fs.writeFileSync(goldenPath, bytes);
+      }
+
+      expect(fs.existsSync(goldenPath), `Missing golden file ${goldenPath}`).toBe(true);
+      const golden = fs.readFileSync(goldenPath);
+      expect(bytes.equals(golden), `Rendered output differs from ${goldenPath}`).toBe(true);
+    });
+  }
+});
+
+describe('Cover renderer', () => {
+  const customizations: CoverCustomizations = {
+    title: 'Quarterly Review',
+    colorScheme: '#0077B5',
+    fontFamily: 'Roboto',
+  };
+
+  it('renders the same bytes for the same input', async () => {
+    const template = templateFor('Corporate Blue');
+    const first = await renderCoverPdf(template, customizations, { updateMetadata: false, fontRegistry });
+    const second = await renderCoverPdf(template, customizations, { updateMetadata: false, fontRegistry });
+
+    expect(Buffer.from(first).equals(Buffer.from(second))).toBe(true);
+  });
+
+  it('adds the cover page to an existing document', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = await renderCover(templateFor('Tech Blue'), customizations, { pdfDoc });
+
+    expect(pdfDoc.getPageCount()).toBe(1);
+    expect(pdfDoc.getPage(0)).toBe(page);
+    expect(page.getSize()).toEqual({ width: 612, height: 792 });
+  });
+
+  it('sizes the cover like the original first page by default', async () => {
+    const sourceBytes = fs.readFileSync(path.join(FIXTURES_DIR, 'slides-16-9.pdf'));
+    const result = await PDFDocument.load(await renderModifiedPdf(sourceBytes, templateFor('Tech Blue'), customizations));
+
+    expect(result.getPage(0).getSize()).toEqual({ width: 960, height: 540 });
+  });
+
+  it('uses an explicitly chosen page size', async () => {
+    const sourceBytes = fs.readFileSync(path.join(FIXTURES_DIR, 'slides-16-9.pdf'));
+    const bytes = await renderModifiedPdf(sourceBytes, templateFor('Tech Blue'), { ...customizations, pageSize: 'a4' });
+    const result = await PDFDocument.load(bytes);
+
+    expect(result.getPage(0).getSize()).toEqual({ width: 595.28, height: 841.89 });
+  });
+
+  it('reports rotated pages in their displayed orientation', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([612, 792]).setRotation(degrees(90));
+
+    expect(getFirstPageSize(pdfDoc)).toEqual([792, 612]);
+  });
+
+  it('keeps every original page in prepend mode', async () => {
+    const sourceBytes = fs.readFileSync(path.join(FIXTURES_DIR, 'letter-3-pages.pdf'));
+    const bytes = await renderModifiedPdf(sourceBytes, templateFor('Bold Red'), { ...customizations, coverMode: 'prepend' });
+
+    expect((await PDFDocument.load(bytes)).getPageCount()).toBe(4);
+  });
+
+  it('appends a back cover after the original pages', async () => {
+    const sourceBytes = fs.readFileSync(path.join(FIXTURES_DIR, 'slides-16-9.pdf'));
+    const bytes = await renderModifiedPdf(sourceBytes, templateFor('Tech Blue'), { ...customizations, backCover: true });
+    const result = await PDFDocument.load(bytes);
+
+    expect(result.getPageCount()).toBe(3);
+    expect(result.getPage(2).getSize()).toEqual({ width: 960, height: 540 });
+  });
+
+  it('includes the back cover in the cover preview', async () => {
+    const bytes = await renderCoverPdf(templateFor('Minimal White'), { ...customizations, backCover: true });
+    expect((await PDFDocument.load(bytes)).getPageCount()).toBe(2);
+  });
+
+  it('reports progress as it renders', async () => {
+    const sourceBytes = fs.readFileSync(path.join(FIXTURES_DIR, 'slides-16-9.pdf'));
+    const fractions: number[] = [];
+    await renderModifiedPdf(sourceBytes, templateFor('Tech Blue'), { ...customizations, backCover: true }, { onProgress: fraction => fractions.push(fraction) });
+
+    expect(fractions).toEqual([...fractions].sort((a, b) => a - b));
+    expect(fractions[fractions.length - 1]).toBe(1);
+  });
+
+  it('works out which original pages follow the cover', () => {
+    expect(getRetainedPageIndices(4, {})).toEqual([1, 2, 3]);
+    expect(getRetainedPageIndices(4, { coverMode: 'replace' })).toEqual([1, 2, 3]);
+    expect(getRetainedPageIndices(4, { coverMode: 'prepend' })).toEqual([0, 1, 2, 3]);
+    expect(getRetainedPageIndices(4, { coverMode: 'replace-range', replacePageCount: 3 })).toEqual([3]);
+    expect(getRetainedPageIndices(4, { coverMode: 'replace-range', replacePageCount: 10 })).toEqual([]);
+    expect(getRetainedPageIndices(4, { coverMode: 'replace-range', replacePageCount: 0 })).toEqual([1, 2, 3]);
+  });
+
+  it('replaces the first page of the original document', async () => {
+    const sourceBytes = fs.readFileSync(path.join(FIXTURES_DIR, 'letter-3-pages.pdf'));
+    const bytes = await renderModifiedPdf(sourceBytes, templateFor('Bold Red'), customizations);
+    const result = await PDFDocument.load(bytes);
+
+    expect(result.getPageCount()).toBe(3);
+  });
+});
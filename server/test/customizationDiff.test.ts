@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { diffCustomizations } from '@shared/customizationDiff';
+
+describe('diffCustomizations', () => {
+  it('reports changed, added and removed fields in path order', () => {
+    const changes = diffCustomizations(
+      { title: 'Q1 Review', colorScheme: '#0077B5', backCover: true },
+      { title: 'Q2 Review', colorScheme: '#0077B5', presenter: 'Casey Kim' },
+    );
+
+    expect(changes).toEqual([
+      { path: 'backCover', before: true, after: undefined },
+      { path: 'presenter', before: undefined, after: 'Casey Kim' },
+      { path: 'title', before: 'Q1 Review', after: 'Q2 Review' },
+    ]);
+  });
+
+  it('compares nested settings leaf by leaf', () => {
+    const changes = diffCustomizations(
+      { images: { logo: { assetId: 3, scale: 1 } }, elementBoxes: { title: { left: '10%', top: '40%' } } },
+      { images: { logo: { assetId: 3, scale: 1.5 } }, elementBoxes: { title: { left: '10%', top: '45%' } } },
+    );
+
+    expect(changes).toEqual([
+      { path: 'elementBoxes.title.top', before: '40%', after: '45%' },
+      { path: 'images.logo.scale', before: 1, after: 1.5 },
+    ]);
+  });
+
+  it('treats everything as added when there is nothing to compare with', () => {
+    expect(diffCustomizations({}, { title: 'Roadmap', templateId: 2 })).toEqual([
+      { path: 'templateId', before: undefined, after: 2 },
+      { path: 'title', before: undefined, after: 'Roadmap' },
+    ]);
+  });
+
+  it('finds no changes between identical customizations', () => {
+    const customizations = { title: 'Roadmap', images: { hero: { assetId: 1 } } };
+
+    expect(diffCustomizations(customizations, structuredClone(customizations))).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { claimSessionDocuments, createPublicId, findAccessibleAsset, findClaimableDocuments, getOwnedDocuments, loadDocument } from '../documentAccess';
+import { hashToken } from '../passwords';
+import { storage } from '../storage';
+
+vi.mock('../storage', () => ({
+  storage: {
+    getDocumentByPublicId: vi.fn(),
+    claimDocuments: vi.fn(),
+    getAsset: vi.fn(),
+    getAssetByPublicId: vi.fn(),
+  },
+}));
+
+describe('loadDocument', () => {
+  const owned = { id: 1, publicId: 'a'.repeat(32), userId: 3, claimTokenHash: null };
+  const anonymous = { id: 2, publicId: 'b'.repeat(32), userId: null, claimTokenHash: 'hash' };
+
+  const run = async (user?: { id: number }) => {
+    const req = { params: { id: 'abc' }, user } as unknown as Request;
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn() } as unknown as Response;
+    const next = vi.fn();
+    await loadDocument(req, res, next);
+    return { req, res, next };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lets owners load their documents", async () => {
+    vi.mocked(storage.getDocumentByPublicId).mockResolvedValue(owned as any);
+
+    const { req, next } = await run({ id: 3 });
+
+    expect(next).toHaveBeenCalled();
+    expect(req.document).toBe(owned);
+  });
+
+  it("hides other people's documents", async () => {
+    vi.mocked(storage.getDocumentByPublicId).mockResolvedValue(owned as any);
+
+    for (const user of [undefined, { id: 4 }]) {
+      const { res, next } = await run(user);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(404);
+    }
+  });
+
+  it('treats deleted documents as missing', async () => {
+    vi.mocked(storage.getDocumentByPublicId).mockResolvedValue({ ...owned, deletedAt: new Date() } as any);
+
+    const { res, next } = await run({ id: 3 });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('opens anonymous documents to anyone with the public ID', async () => {
+    vi.mocked(storage.getDocumentByPublicId).mockResolvedValue(anonymous as any);
+
+    const { next } = await run();
+
+    expect(next).toHaveBeenCalled();
+  });
+});
+
+describe('findAccessibleAsset', () => {
+  const anonymous = { id: 1, publicId: 'a'.repeat(32), userId: null };
+  const owned = { id: 2, publicId: 'b'.repeat(32), userId: 3 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const assets = [anonymous, owned];
+    vi.mocked(storage.getAsset).mockImplementation(async id => assets.find(asset => asset.id === id) as any);
+    vi.mocked(storage.getAssetByPublicId).mockImplementation(async publicId => assets.find(asset => asset.publicId === publicId) as any);
+  });
+
+  it('opens anonymous images to anyone with the public ID', async () => {
+    expect(await findAccessibleAsset(anonymous.publicId, null)).toBe(anonymous);
+    expect(await findAccessibleAsset(anonymous.publicId, 4)).toBe(anonymous);
+    expect(await findAccessibleAsset(anonymous.id, null)).toBeUndefined();
+  });
+
+  it("keeps users' images to their owner", async () => {
+    expect(await findAccessibleAsset(owned.publicId, 3)).toBe(owned);
+    expect(await findAccessibleAsset(owned.id, 3)).toBe(owned);
+    expect(await findAccessibleAsset(owned.publicId, 4)).toBeUndefined();
+    expect(await findAccessibleAsset(owned.id, null)).toBeUndefined();
+  });
+});
+
+describe('createPublicId', () => {
+  it('makes random 32 character IDs', () => {
+    const id = createPublicId();
+
+    expect(id).toMatch(/^[0-9a-f]{32}$/);
+    expect(createPublicId()).not.toEqual(id);
+  });
+});
+
+describe('findClaimableDocuments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('only unlocks anonymous documents with the right token', async () => {
+    const documents: Record<string, object> = {
+      anonymous: { id: 1, publicId: 'anonymous', userId: null, claimTokenHash: hashToken('token-1') },
+      claimed: { id: 2, publicId: 'claimed', userId: 3, claimTokenHash: null },
+    };
+    vi.mocked(storage.getDocumentByPublicId).mockImplementation(async publicId => documents[publicId] as any);
+
+    const claimable = await findClaimableDocuments([
+      { documentId: 'anonymous', claimToken: 'token-1' },
+      { documentId: 'anonymous', claimToken: 'wrong' },
+      { documentId: 'claimed', claimToken: 'token-2' },
+      { documentId: 'missing', claimToken: 'token-3' },
+    ]);
+
+    expect(claimable).toEqual([documents.anonymous]);
+  });
+});
+
+describe('getOwnedDocuments', () => {
+  const documents: Record<string, object> = {
+    mine: { id: 1, publicId: 'mine', userId: 3 },
+    alsoMine: { id: 2, publicId: 'alsoMine', userId: 3 },
+    theirs: { id: 3, publicId: 'theirs', userId: 4 },
+    deleted: { id: 5, publicId: 'deleted', userId: 3, deletedAt: new Date() },
+    anonymous: { id: 4, publicId: 'anonymous', userId: null },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getDocumentByPublicId).mockImplementation(async publicId => documents[publicId] as any);
+  });
+
+  it('returns each of the user\'s documents once', async () => {
+    const owned = await getOwnedDocuments(['mine', 'alsoMine', 'mine'], { id: 3 } as any);
+
+    expect(owned).toEqual([documents.mine, documents.alsoMine]);
+  });
+
+  it('refuses the whole request when any document is not theirs', async () => {
+    expect(await getOwnedDocuments(['mine', 'theirs'], { id: 3 } as any)).toBeUndefined();
+    expect(await getOwnedDocuments(['mine', 'anonymous'], { id: 3 } as any)).toBeUndefined();
+    expect(await getOwnedDocuments(['mine', 'missing'], { id: 3 } as any)).toBeUndefined();
+  });
+
+  it('only includes deleted documents when asked for them', async () => {
+    expect(await getOwnedDocuments(['mine', 'deleted'], { id: 3 } as any)).toBeUndefined();
+    expect(await getOwnedDocuments(['mine', 'deleted'], { id: 3 } as any, 'deleted')).toBeUndefined();
+    expect(await getOwnedDocuments(['deleted'], { id: 3 } as any, 'deleted')).toEqual([documents.deleted]);
+    expect(await getOwnedDocuments(['mine', 'deleted'], { id: 3 } as any, 'any')).toEqual([documents.mine, documents.deleted]);
+  });
+});
+
+describe('claimSessionDocuments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("gives the session's uploads to the user signing in", async () => {
+    const req = { session: { anonymousDocumentIds: [1, 2] } } as unknown as Request;
+
+    await claimSessionDocuments(req, { id: 3 } as any);
+
+    expect(storage.claimDocuments).toHaveBeenCalledWith([1, 2], 3);
+    expect(req.session.anonymousDocumentIds).toBeUndefined();
+  });
+
+  it('does nothing without anonymous uploads', async () => {
+    await claimSessionDocuments({ session: {} } as unknown as Request, { id: 3 } as any);
+
+    expect(storage.claimDocuments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { createFileStore, fileStoreStorage, FileNotFoundError, LocalFileStore, S3FileStore, type FileStore } from '../fileStore';
+
+// A stand-in for an S3-compatible service such as MinIO. It keeps objects of
+// a single bucket in memory, speaks path-style URLs and doesn't check
+// signatures.
+function createFakeS3Server(bucket: string) {
+  const objects = new Map<string, { body: Buffer; contentType: string; modifiedAt: Date }>();
+
+  const notFound = (res: http.ServerResponse, method?: string) => {
+    res.writeHead(404, { 'Content-Type': 'application/xml' });
+    res.end(method === 'HEAD' ? undefined : '<?xml version="1.0"?><Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>');
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    const [, bucketName, ...keyParts] = url.pathname.split('/');
+    const key = decodeURIComponent(keyParts.join('/'));
+    if (bucketName !== bucket) {
+      return notFound(res);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+
+    if (req.method === 'GET' && !key && url.searchParams.get('list-type') === '2') {
+      const prefix = url.searchParams.get('prefix') ?? '';
+      const contents = Array.from(objects.entries())
+        .filter(([objectKey]) => objectKey.startsWith(prefix))
+        .map(([objectKey, object]) =>
+          `<Contents><Key>${objectKey}</Key><LastModified>${object.modifiedAt.toISOString()}</LastModified><Size>${object.body.length}</Size></Contents>`)
+        .join('');
+      res.writeHead(200, { 'Content-Type': 'application/xml' });
+      return res.end(`<?xml version="1.0"?><ListBucketResult><Name>${bucket}</Name><Prefix>${prefix}</Prefix><IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`);
+    }
+
+    const object = objects.get(key);
+    switch (req.method) {
+      case 'PUT':
+        objects.set(key, { body: Buffer.concat(chunks), contentType: req.headers['content-type'] ?? 'application/octet-stream', modifiedAt: new Date() });
+        res.writeHead(200, { ETag: '"etag"' });
+        return res.end();
+      case 'GET':
+      case 'HEAD':
+        if (!object) return notFound(res, req.method);
+        res.writeHead(200, {
+          'Content-Type': object.contentType,
+          'Content-Length': object.body.length,
+          'Last-Modified': object.modifiedAt.toUTCString(),
+          ...(url.searchParams.has('response-content-disposition') && {
+            'Content-Disposition': url.searchParams.get('response-content-disposition')!,
+          }),
+        });
+        return res.end(req.method === 'GET' ? object.body : undefined);
+      case 'DELETE':
+        objects.delete(key);
+        res.writeHead(204);
+        return res.end();
+      default:
+        res.writeHead(405);
+        res.end();
+    }
+  });
+
+  return { server, objects };
+}
+
+// The same behaviour is expected from every driver
+function describeFileStore(name: string, setup: () => Promise<{ store: FileStore; teardown: () => Promise<void> }>) {
+  describe(name, () => {
+    let store: FileStore;
+    let teardown: () => Promise<void>;
+
+    beforeEach(async () => {
+      ({ store, teardown } = await setup());
+    });
+
+    afterEach(async () => {
+      await teardown();
+    });
+
+    it('reads back what was put', async () => {
+      await store.put('pdfs/report.pdf', Buffer.from('%PDF-1.7'), 'application/pdf');
+
+      expect((await store.read('pdfs/report.pdf')).toString()).toBe('%PDF-1.7');
+      expect(await store.exists('pdfs/report.pdf')).toBe(true);
+    });
+
+    it('streams files', async () => {
+      await store.put('images/logo.svg', Buffer.from('<svg/>'), 'image/svg+xml');
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of await store.get('images/logo.svg')) chunks.push(Buffer.from(chunk));
+
+      expect(Buffer.concat(chunks).toString()).toBe('<svg/>');
+    });
+
+    it('reports missing files', async () => {
+      expect(await store.exists('pdfs/missing.pdf')).toBe(false);
+      await expect(store.read('pdfs/missing.pdf')).rejects.toBeInstanceOf(FileNotFoundError);
+      await expect(store.get('pdfs/missing.pdf')).rejects.toBeInstanceOf(FileNotFoundError);
+    });
+
+    it('deletes files, even ones that are already gone', async () => {
+      await store.put('pdfs/report.pdf', Buffer.from('%PDF'));
+
+      await store.delete('pdfs/report.pdf');
+      await store.delete('pdfs/report.pdf');
+
+      expect(await store.exists('pdfs/report.pdf')).toBe(false);
+    });
+
+    it('lists the files in a folder', async () => {
+      await store.put('pdfs/a.pdf', Buffer.from('%PDF'));
+      await store.put('pdfs/b.pdf', Buffer.from('%PDF'));
+      await store.put('previews/cover-1.pdf', Buffer.from('%PDF'));
+
+      const files = await store.list('pdfs');
+
+      expect(files.map(file => file.key).sort()).toEqual(['pdfs/a.pdf', 'pdfs/b.pdf']);
+      expect(files[0].modifiedAt).toBeInstanceOf(Date);
+      expect(files[0].size).toBe(4);
+      expect(await store.list('images')).toEqual([]);
+    });
+  });
+}
+
+describeFileStore('LocalFileStore', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-'));
+  return {
+    store: new LocalFileStore(dir),
+    teardown: () => fs.rm(dir, { recursive: true, force: true }),
+  };
+});
+
+describe('LocalFileStore keys', () => {
+  it("can't reach outside the root", async () => {
+    const store = new LocalFileStore(path.join(os.tmpdir(), 'file-store-root'));
+
+    await expect(store.read('../secrets.txt')).rejects.toThrow('Invalid file key');
+    expect(await store.signedUrl()).toBeNull();
+  });
+});
+
+describe('LocalFileStore listing', () => {
+  it("fails when a folder can't be read, rather than listing nothing", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-'));
+    const store = new LocalFileStore(dir);
+    await fs.writeFile(path.join(dir, 'pdfs'), 'not a folder');
+
+    await expect(store.list('pdfs')).rejects.toThrow('ENOTDIR');
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe('S3FileStore', () => {
+  const fake = createFakeS3Server('presentpro');
+  let endpoint: string;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => fake.server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(fake.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => fake.server.close(resolve));
+  });
+
+  const createStore = () => new S3FileStore({
+    bucket: 'presentpro',
+    endpoint,
+    forcePathStyle: true,
+    accessKeyId: 'minio',
+    secretAccessKey: 'minio-secret',
+  });
+
+  describeFileStore('against an S3-compatible server', async () => ({
+    store: createStore(),
+    teardown: async () => fake.objects.clear(),
+  }));
+
+  it('stores the content type', async () => {
+    await createStore().put('pdfs/report.pdf', Buffer.from('%PDF'), 'application/pdf');
+
+    expect(fake.objects.get('pdfs/report.pdf')?.contentType).toBe('application/pdf');
+  });
+
+  it('signs URLs that download the file under its name', async () => {
+    const store = createStore();
+    await store.put('pdfs/report.pdf', Buffer.from('%PDF-1.7'), 'application/pdf');
+
+    const url = await store.signedUrl('pdfs/report.pdf', { downloadName: 'Quarterly Review.pdf', expiresIn: 60 });
+    expect(url).toContain('X-Amz-Signature=');
+    expect(url).toContain('X-Amz-Expires=60');
+
+    const response = await fetch(url);
+    expect(await response.text()).toBe('%PDF-1.7');
+    expect(response.headers.get('content-disposition')).toBe("attachment; filename*=UTF-8''Quarterly%20Review.pdf");
+  });
+});
+
+describe('createFileStore', () => {
+  it('keeps files on local disk by default', () => {
+    expect(createFileStore({})).toBeInstanceOf(LocalFileStore);
+    expect((createFileStore({ UPLOAD_DIR: '/tmp/presentpro-uploads' }) as LocalFileStore).root).toBe('/tmp/presentpro-uploads');
+  });
+
+  it('uses S3 when configured', () => {
+    expect(createFileStore({ FILE_STORE: 's3', S3_BUCKET: 'presentpro' })).toBeInstanceOf(S3FileStore);
+    expect(() => createFileStore({ FILE_STORE: 's3' })).toThrow('S3_BUCKET must be set');
+  });
+});
+
+describe('fileStoreStorage', () => {
+  it('puts uploads in the folder under a new name', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-'));
+    const store = new LocalFileStore(dir);
+    const file = { fieldname: 'file', originalname: 'Report.pdf', mimetype: 'application/pdf', stream: Readable.from([Buffer.from('%PDF-1.7')]) };
+
+    const info = await new Promise<any>((resolve, reject) => {
+      fileStoreStorage(store, 'pdfs')._handleFile({} as any, file as any, (error, info) => error ? reject(error) : resolve(info));
+    });
+
+    expect(info.filename).toMatch(/^file-\d+-\d+\.pdf$/);
+    expect(info.size).toBe(8);
+    expect((await store.read(`pdfs/${info.filename}`)).toString()).toBe('%PDF-1.7');
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { FontRegistry } from '../fontRegistry';
+
+const registry = new FontRegistry(path.resolve(__dirname, '..', 'fonts'));
+
+describe('Font registry', () => {
+  it('lists the bundled font families with their weights', async () => {
+    const families = await registry.listFamilies();
+
+    expect(families.map(font => font.family)).toEqual([
+      'Montserrat',
+      'Open Sans',
+      'Playfair Display',
+      'Raleway',
+      'Roboto',
+    ]);
+    expect(families.find(font => font.family === 'Roboto')?.weights).toEqual([400, 700]);
+  });
+
+  it('embeds the requested family instead of a standard font', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const fonts = await registry.embedFamily(pdfDoc, 'Playfair Display');
+
+    expect(fonts.regular.name).toContain('PlayfairDisplay');
+    expect(fonts.bold.name).toContain('PlayfairDisplay-Bold');
+    expect(fonts.regular.widthOfTextAtSize('Quarterly Review', 32)).toBeGreaterThan(0);
+  });
+
+  it('subsets embedded fonts to the glyphs used', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const fonts = await registry.embedFamily(pdfDoc, 'Roboto');
+    pdfDoc.addPage().drawText('Hi', { font: fonts.regular, size: 12 });
+
+    const bytes = await pdfDoc.save();
+    expect(bytes.length).toBeLessThan(50 * 1024);
+  });
+
+  it('reads the face closest to a weight for the browser renderer', async () => {
+    const file = await registry.loadFontFile('Roboto', 600);
+
+    expect(file?.postscriptName).toBe('Roboto-Bold');
+    expect(file?.bytes.length).toBeGreaterThan(0);
+    expect(await registry.loadFontFile('Comic Sans', 400)).toBeUndefined();
+  });
+
+  it('falls back to Helvetica for unknown families', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const fonts = await registry.embedFamily(pdfDoc, 'Comic Sans');
+
+    expect(fonts.regular.name).toBe('Helvetica');
+    expect(fonts.bold.name).toBe('Helvetica-Bold');
+  });
+});
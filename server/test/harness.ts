@@ -0,0 +1,106 @@
+import express, { type Express, type NextFunction, type Request, type Response } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { IStorage } from '../storage';
+
+export const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+
+export interface TestServer {
+  app: Express;
+  storage: IStorage;
+  uploadDir: string;
+  // Where the server listens, for clients other than supertest such as
+  // WebSockets
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+// Boots the API in-process the way server/index.ts does, on in-memory
+// storage and a temporary upload directory, with emails logged there too.
+// Storage, the file store and the mailer are chosen when they're first
+// imported, so test files must reach server modules through this harness
+// rather than importing them directly.
+export async function startTestServer(): Promise<TestServer> {
+  const uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'presentpro-uploads-'));
+  const env = { STORAGE: process.env.STORAGE, UPLOAD_DIR: process.env.UPLOAD_DIR, MAIL_LOG_FILE: process.env.MAIL_LOG_FILE };
+  process.env.STORAGE = 'memory';
+  process.env.UPLOAD_DIR = uploadDir;
+  process.env.MAIL_LOG_FILE = path.join(uploadDir, 'mail.log');
+
+  const { storage } = await import('../storage');
+  const { seedTemplates } = await import('../seed');
+  const { registerRoutes } = await import('../routes');
+  const { shareScheduler } = await import('../shareScheduler');
+  const { documentJanitor } = await import('../janitor');
+  const { jobQueue } = await import('../jobQueue');
+  const { renderWorkers } = await import('../workerPool');
+
+  // Seeded up front so tests don't race the seeding registerRoutes starts
+  await seedTemplates();
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  const server: Server = await registerRoutes(app);
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err.status || err.statusCode || 500).json({ message: err.message || 'Internal Server Error' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    app,
+    storage,
+    uploadDir,
+    baseUrl: `http://127.0.0.1:${port}`,
+    async close() {
+      shareScheduler.stop();
+      documentJanitor.stop();
+      jobQueue.stop();
+      await renderWorkers.close();
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+      await fs.rm(uploadDir, { recursive: true, force: true });
+      Object.assign(process.env, env);
+    },
+  };
+}
+
+export function readFixture(name: string): Promise<Buffer> {
+  return fs.readFile(path.join(FIXTURES_DIR, name));
+}
+
+export interface PdfSummary {
+  pageCount: number;
+  pageSizes: { width: number; height: number }[];
+  // Text of each page, with runs joined by spaces
+  pageTexts: string[];
+}
+
+// What a PDF the API sent back contains
+export async function summarizePdf(bytes: Uint8Array): Promise<PdfSummary> {
+  const pdfDoc = await PDFDocument.load(bytes);
+  const pdf = await getDocument({
+    data: new Uint8Array(bytes),
+    standardFontDataUrl: path.resolve(__dirname, '../../node_modules/pdfjs-dist/standard_fonts') + '/',
+  }).promise;
+
+  const pageTexts: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const content = await (await pdf.getPage(pageNumber)).getTextContent();
+    pageTexts.push(content.items.map(item => ('str' in item ? item.str : '')).filter(Boolean).join(' '));
+  }
+  await pdf.destroy();
+
+  return {
+    pageCount: pdfDoc.getPageCount(),
+    pageSizes: pdfDoc.getPages().map(page => page.getSize()),
+    pageTexts,
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { templateLayouts } from '@shared/templateLayouts';
+import { embedLayoutImages, isValidImage, resolveImageRect, type ImageLoader } from '@shared/imageRenderer';
+
+const IMAGES_DIR = path.resolve(__dirname, 'fixtures', 'images');
+const png = fs.readFileSync(path.join(IMAGES_DIR, 'hero.png'));
+const svg = fs.readFileSync(path.join(IMAGES_DIR, 'logo.svg'));
+
+describe('Image renderer', () => {
+  it('checks uploaded bytes against their declared type', () => {
+    expect(isValidImage({ mimeType: 'image/png', bytes: png })).toBe(true);
+    expect(isValidImage({ mimeType: 'image/jpeg', bytes: png })).toBe(false);
+    expect(isValidImage({ mimeType: 'image/jpeg', bytes: Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]) })).toBe(true);
+    expect(isValidImage({ mimeType: 'image/svg+xml', bytes: svg })).toBe(true);
+    expect(isValidImage({ mimeType: 'image/svg+xml', bytes: png })).toBe(false);
+    expect(isValidImage({ mimeType: 'image/svg+xml', bytes: Buffer.from('<svg><path d="M10 10 Q"/></svg>') })).toBe(false);
+    expect(isValidImage({ mimeType: 'image/gif', bytes: png })).toBe(false);
+  });
+
+  it('fits images inside the slot and applies the placement', () => {
+    const box = { x: 100, y: 100, width: 200, height: 100 };
+    const image = { width: 100, height: 100 };
+
+    expect(resolveImageRect(box, image, { assetId: 1 })).toEqual({ x: 150, y: 100, width: 100, height: 100 });
+    expect(resolveImageRect(box, image, { assetId: 1 }, 'cover')).toEqual({ x: 100, y: 50, width: 200, height: 200 });
+    expect(resolveImageRect(box, image, { assetId: 1, scale: 0.5, offsetX: 25, offsetY: 50 })).toEqual({
+      x: 225,
+      y: 75,
+      width: 50,
+      height: 50,
+    });
+  });
+
+  it('embeds each asset once per document', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const requested: number[] = [];
+    const loadImage: ImageLoader = async (assetId) => {
+      requested.push(assetId);
+      return assetId === 1 ? { mimeType: 'image/png', bytes: png } : { mimeType: 'image/svg+xml', bytes: svg };
+    };
+    const customizations = { images: { logo: { assetId: 2 }, hero: { assetId: 1 } } };
+
+    const images = await embedLayoutImages(pdfDoc, templateLayouts['Tech Blue'], customizations, loadImage);
+    await embedLayoutImages(pdfDoc, templateLayouts['Tech Blue'], customizations, loadImage);
+
+    expect(images.get('hero')?.image.kind).toBe('raster');
+    expect(images.get('hero')?.image.width).toBe(96);
+    expect(images.get('logo')?.image.kind).toBe('vector');
+    expect(requested.sort()).toEqual([1, 2]);
+  });
+
+  it('leaves slots empty for missing, broken or invalid placements', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const loadImage: ImageLoader = async (assetId) =>
+      assetId === 3 ? { mimeType: 'image/png', bytes: Buffer.from('not a png') } : undefined;
+
+    const images = await embedLayoutImages(pdfDoc, templateLayouts['Tech Blue'], {
+      images: { logo: { assetId: 3 }, hero: { assetId: 'x' } },
+    }, loadImage);
+    expect(images.size).toBe(0);
+  });
+});
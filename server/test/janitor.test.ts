@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import { DocumentJanitor, purgeDate, retentionPolicyFromEnv } from '../janitor';
+import { fileStore, type LocalFileStore } from '../fileStore';
+import { renderCache } from '../renderCache';
+import { storage } from '../storage';
+
+vi.mock('../storage', () => ({
+  storage: {
+    getExpiredDocuments: vi.fn(),
+    getAllDocuments: vi.fn(),
+    getAllAssets: vi.fn(),
+    deleteDocuments: vi.fn(),
+    deleteFinishedJobs: vi.fn(),
+  },
+}));
+
+// Files are kept on local disk in a folder of their own
+vi.mock('../fileStore', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../fileStore')>();
+  const os = await import('os');
+  const path = await import('path');
+  return { ...actual, fileStore: new actual.LocalFileStore(path.join(os.tmpdir(), `janitor-${process.pid}`)) };
+});
+
+describe('DocumentJanitor', () => {
+  const now = new Date('2025-03-01T09:00:00Z');
+  const kept = { id: 1, publicId: 'kept', userId: 3, fileName: 'upload-1.pdf' };
+  const missingFile = { id: 2, publicId: 'missing', userId: 3, fileName: 'upload-2.pdf' };
+  const expired = { id: 3, publicId: 'expired', userId: null, fileName: 'upload-3.pdf' };
+
+  const dir = (fileStore as LocalFileStore).root;
+
+  const writeFile = async (key: string, writtenAt = new Date('2025-02-01T09:00:00Z')) => {
+    // Uploads with the same bytes would share their renders
+    await fileStore.put(key, Buffer.from(`%PDF ${key}`));
+    await fs.utimes(path.join(dir, key), writtenAt, writtenAt);
+  };
+
+  const exists = (key: string) => fileStore.exists(key);
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    await writeFile('pdfs/upload-1.pdf');
+    await writeFile('pdfs/upload-3.pdf');
+    await writeFile('pdfs/stray.pdf');
+    // Rendered before the render cache
+    await writeFile('previews/cover-9.pdf');
+    // Still being uploaded, so its document may not exist yet
+    await writeFile('pdfs/uploading.pdf', new Date(now.getTime() - 60 * 1000));
+    await writeFile('images/logo-1.png');
+    await writeFile('images/stray.png');
+
+    vi.mocked(storage.getExpiredDocuments).mockResolvedValue([expired] as any);
+    vi.mocked(storage.getAllDocuments).mockResolvedValue([kept, missingFile, expired] as any);
+    vi.mocked(storage.getAllAssets).mockResolvedValue([{ id: 1, fileName: 'logo-1.png' }] as any);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('looks for documents past the retention policy', async () => {
+    await new DocumentJanitor({ anonymousDays: 7, deletedDays: 30 }).run({ dryRun: true, now });
+
+    expect(storage.getExpiredDocuments).toHaveBeenCalledWith(new Date('2025-02-22T09:00:00Z'), new Date('2025-01-30T09:00:00Z'));
+  });
+
+  it('reports what it would remove in a dry run', async () => {
+    const lookups = vi.spyOn(fileStore, 'exists');
+    const report = await new DocumentJanitor({ anonymousDays: 7, deletedDays: 30 }).run({ dryRun: true, now });
+
+    expect(report).toEqual({
+      dryRun: true,
+      expiredDocuments: ['expired'],
+      missingFileDocuments: ['missing'],
+      orphanedFiles: ['pdfs/stray.pdf', 'previews/cover-9.pdf', 'images/stray.png'],
+    });
+    // Uploads are found in a listing; only the missing one is looked up again
+    expect(lookups.mock.calls).toEqual([['pdfs/upload-2.pdf']]);
+    lookups.mockRestore();
+    expect(storage.deleteDocuments).not.toHaveBeenCalled();
+    expect(storage.deleteFinishedJobs).not.toHaveBeenCalled();
+    expect(await exists('pdfs/stray.pdf')).toBe(true);
+    expect(await exists('pdfs/upload-3.pdf')).toBe(true);
+  });
+
+  it('removes expired documents, documents without files, orphaned files and old jobs', async () => {
+    const template = { id: 4, version: 1 } as any;
+    const keptRender = (await renderCache.entryFor(kept as any, template, 'modified-pdf', {})).key;
+    const expiredRender = (await renderCache.entryFor(expired as any, template, 'modified-pdf', {})).key;
+    await writeFile(keptRender);
+    await writeFile(expiredRender);
+
+    await new DocumentJanitor({ anonymousDays: 7, deletedDays: 30 }).run({ now });
+
+    expect(storage.deleteDocuments).toHaveBeenCalledWith([3, 2]);
+    expect(storage.deleteFinishedJobs).toHaveBeenCalledWith(new Date('2025-02-28T09:00:00Z'));
+    expect(await exists('pdfs/upload-3.pdf')).toBe(false);
+    expect(await exists('pdfs/stray.pdf')).toBe(false);
+    expect(await exists('previews/cover-9.pdf')).toBe(false);
+    expect(await exists('images/stray.png')).toBe(false);
+    expect(await exists('images/logo-1.png')).toBe(true);
+    expect(await exists('pdfs/uploading.pdf')).toBe(true);
+    expect(await exists('pdfs/upload-1.pdf')).toBe(true);
+    expect(await exists(expiredRender)).toBe(false);
+    expect(await exists(keptRender)).toBe(true);
+  });
+
+  it('keeps documents whose upload the listing left out', async () => {
+    vi.spyOn(fileStore, 'list').mockImplementation(async folder => folder === 'pdfs' ? [{ key: 'pdfs/upload-1.pdf', size: 6, modifiedAt: now }] : []);
+    await writeFile('pdfs/upload-2.pdf');
+
+    const report = await new DocumentJanitor({ anonymousDays: 7, deletedDays: 30 }).run({ now });
+
+    expect(report.missingFileDocuments).toEqual([]);
+    expect(storage.deleteDocuments).toHaveBeenCalledWith([3]);
+    vi.mocked(fileStore.list).mockRestore();
+  });
+
+  it('refuses to run when the store lists no uploads', async () => {
+    await fs.rm(path.join(dir, 'pdfs'), { recursive: true });
+
+    await expect(new DocumentJanitor({ anonymousDays: 7, deletedDays: 30 }).run({ now })).rejects.toThrow('lists no uploads');
+    expect(storage.deleteDocuments).not.toHaveBeenCalled();
+  });
+});
+
+describe('retentionPolicyFromEnv', () => {
+  it('reads the retention periods, falling back to the defaults', () => {
+    expect(retentionPolicyFromEnv({})).toEqual({ anonymousDays: 7, deletedDays: 30 });
+    expect(retentionPolicyFromEnv({ ANONYMOUS_DOCUMENT_RETENTION_DAYS: '2', DELETED_DOCUMENT_RETENTION_DAYS: 'soon' }))
+      .toEqual({ anonymousDays: 2, deletedDays: 30 });
+  });
+
+  it('dates purges from the deletion', () => {
+    expect(purgeDate({ anonymousDays: 7, deletedDays: 14 }, new Date('2025-03-01T09:00:00Z'))).toEqual(new Date('2025-03-15T09:00:00Z'));
+  });
+});
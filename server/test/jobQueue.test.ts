@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Document, Job, Template } from '@shared/schema';
+import { JobQueue, toPublicJob, type RenderRunner } from '../jobQueue';
+import { storage } from '../storage';
+import { createPublicId } from '../documentAccess';
+import { LocalFileStore } from '../fileStore';
+import { RenderCache } from '../renderCache';
+import type { RenderTask } from '../renderTask';
+
+vi.mock('../storage', async () => {
+  const { MemStorage } = await import('../memStorage');
+  return { storage: new MemStorage() };
+});
+
+const customizations = { templateId: 0, title: 'Quarterly Review', colorScheme: '#0077B5' };
+
+// A runner whose renders finish when the test says so
+function controlledRunner() {
+  const renders: { task: RenderTask; onProgress: (fraction: number) => void; finish: () => void; fail: (error: Error) => void }[] = [];
+  const runner: RenderRunner = (task, onProgress) => new Promise((resolve, reject) => {
+    renders.push({ task, onProgress, finish: resolve, fail: reject });
+  });
+  return { runner, renders };
+}
+
+// Let queued storage updates and dispatches settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('JobQueue', () => {
+  let document: Document;
+  let template: Template;
+  let fields: typeof customizations;
+  let dir: string;
+  let store: LocalFileStore;
+  let cache: RenderCache;
+
+  beforeEach(async () => {
+    template = await storage.createTemplate({ name: 'Minimal White', imagePath: '/templates/minimal-white.svg', category: 'Minimalist' });
+    fields = { ...customizations, templateId: template.id };
+    document = await storage.createDocument({ publicId: createPublicId(), originalName: 'Deck.pdf', fileName: 'deck.pdf' });
+
+    // Renders are cached by the upload's hash, so the upload has to exist
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-queue-'));
+    store = new LocalFileStore(dir);
+    await store.put('pdfs/deck.pdf', Buffer.from('%PDF'));
+    cache = new RenderCache(store, 1024 * 1024);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('runs jobs in the background and records their progress', async () => {
+    const { runner, renders } = controlledRunner();
+    const queue = new JobQueue(runner, 1, cache);
+    const updates: Job[] = [];
+
+    const job = await queue.enqueue(document, 'modified-pdf', fields);
+    queue.subscribe(job.publicId, update => updates.push(update));
+    await settle();
+
+    const { key } = await cache.entryFor(document, template, 'modified-pdf', fields);
+    expect(renders[0].task).toMatchObject({ kind: 'modified-pdf', originalKey: 'pdfs/deck.pdf', outputKey: key, customizations: fields, images: {} });
+    expect((await storage.getJobByPublicId(job.publicId))?.status).toBe('running');
+
+    renders[0].onProgress(0.5);
+    await settle();
+    expect((await storage.getJobByPublicId(job.publicId))?.progress).toBe(50);
+
+    renders[0].finish();
+    const finished = await queue.waitFor(job.publicId);
+    expect(finished).toMatchObject({ status: 'completed', progress: 100, resultKey: key, error: null });
+    expect(finished.finishedAt).toBeInstanceOf(Date);
+    expect(updates.map(update => update.status)).toEqual(['running', 'running', 'completed']);
+    expect(toPublicJob(finished).resultUrl).toBe(`/api/jobs/${job.publicId}/result`);
+  });
+
+  it('records why a job failed', async () => {
+    const { runner, renders } = controlledRunner();
+    const queue = new JobQueue(runner, 1, cache);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const job = await queue.enqueue(document, 'cover-preview', fields);
+    await settle();
+    renders[0].fail(new Error('Font missing'));
+
+    const finished = await queue.waitFor(job.publicId);
+    expect(finished).toMatchObject({ status: 'failed', error: 'Font missing' });
+    expect(toPublicJob(finished).resultUrl).toBeNull();
+  });
+
+  it('fails jobs whose template is gone', async () => {
+    const queue = new JobQueue(vi.fn(), 1, cache);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const job = await queue.enqueue(document, 'modified-pdf', { ...fields, templateId: 9999 });
+
+    expect(await queue.waitFor(job.publicId)).toMatchObject({ status: 'failed', error: 'Template not found' });
+  });
+
+  it('reuses an unfinished job for the same render', async () => {
+    const { runner, renders } = controlledRunner();
+    const queue = new JobQueue(runner, 2, cache);
+
+    const first = await queue.enqueue(document, 'modified-pdf', fields);
+    const again = await queue.enqueue(document, 'modified-pdf', { ...fields });
+    const changed = await queue.enqueue(document, 'modified-pdf', { ...fields, title: 'Annual Review' });
+
+    expect(again.publicId).toBe(first.publicId);
+    expect(changed.publicId).not.toBe(first.publicId);
+
+    await settle();
+    renders[0].finish();
+    await settle();
+    renders[1].finish();
+    expect(await queue.waitFor(changed.publicId)).toMatchObject({ status: 'completed' });
+    expect(renders).toHaveLength(2);
+  });
+
+  it('runs one render of each kind at a time for a document', async () => {
+    const { runner, renders } = controlledRunner();
+    const queue = new JobQueue(runner, 2, cache);
+
+    await queue.enqueue(document, 'cover-preview', fields);
+    const second = await queue.enqueue(document, 'cover-preview', { ...fields, title: 'Annual Review' });
+    await queue.enqueue(document, 'modified-pdf', fields);
+    await settle();
+
+    // The second preview waits for the first; the download renders meanwhile
+    expect(renders.map(render => render.task.kind)).toEqual(['cover-preview', 'modified-pdf']);
+
+    renders[0].finish();
+    await settle();
+    expect(renders).toHaveLength(3);
+    expect(renders[2].task.customizations.title).toBe('Annual Review');
+
+    renders.slice(1).forEach(render => render.finish());
+    expect(await queue.waitFor(second.publicId)).toMatchObject({ status: 'completed' });
+  });
+
+  it('completes without rendering when the render is cached', async () => {
+    const runner = vi.fn<RenderRunner>(async () => {});
+    const queue = new JobQueue(runner, 1, cache);
+    const { key } = await cache.entryFor(document, template, 'cover-preview', fields);
+    await store.put(key, Buffer.from('%PDF'));
+
+    const job = await queue.enqueue(document, 'cover-preview', fields);
+
+    expect(await queue.waitFor(job.publicId)).toMatchObject({ status: 'completed', progress: 100, resultKey: key });
+    expect(runner).not.toHaveBeenCalled();
+  });
+
+  it('renders through a job unless the render is cached, keeping it until released', async () => {
+    const runner = vi.fn<RenderRunner>(async task => store.put(task.outputKey, Buffer.from('%PDF')));
+    const tinyCache = new RenderCache(store, 0);
+    const queue = new JobQueue(runner, 1, tinyCache);
+
+    const first = await queue.render(document, 'modified-pdf', fields);
+    expect(first.key).toBe((await tinyCache.entryFor(document, template, 'modified-pdf', fields)).key);
+    expect(await tinyCache.evict()).toEqual([]);
+    first.release();
+
+    const second = await queue.render(document, 'modified-pdf', fields);
+    expect(second.key).toBe(first.key);
+    expect(runner).toHaveBeenCalledTimes(1);
+    second.release();
+    expect(await tinyCache.evict()).toEqual([first.key]);
+  });
+
+  it('fails renders whose template is gone', async () => {
+    const queue = new JobQueue(vi.fn(), 1, cache);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(queue.render(document, 'modified-pdf', { ...fields, templateId: 9999 })).rejects.toThrow('Template not found');
+  });
+
+  it('takes over jobs whose instance stopped', async () => {
+    const stoppedAt = new Date(Date.now() - 10 * 60 * 1000);
+    const createJob = (workerId: string, heartbeatAt: Date, kind: 'modified-pdf' | 'cover-preview' = 'modified-pdf') =>
+      storage.createJob({ publicId: createPublicId(), documentId: document.id, kind, customizations: fields, workerId, heartbeatAt });
+    const queued = await createJob('stopped', stoppedAt);
+    const interrupted = await createJob('stopped', stoppedAt, 'cover-preview');
+    await storage.updateJob(interrupted.id, { status: 'running', progress: 40, startedAt: new Date() });
+    // Still running on another instance
+    const elsewhere = await createJob('elsewhere', new Date());
+    await storage.updateJob(elsewhere.id, { status: 'running', progress: 40, startedAt: new Date() });
+
+    const runner = vi.fn<RenderRunner>(async () => {});
+    const queue = new JobQueue(runner, 2, cache);
+    await queue.start();
+    queue.stop();
+
+    expect(await queue.waitFor(queued.publicId)).toMatchObject({ status: 'completed', workerId: queue.workerId });
+    expect(await queue.waitFor(interrupted.publicId)).toMatchObject({ status: 'completed', progress: 100 });
+    expect(runner).toHaveBeenCalledTimes(2);
+    expect(await storage.getJobByPublicId(elsewhere.publicId)).toMatchObject({ status: 'running', workerId: 'elsewhere' });
+    // Done with, so later tests' queues don't take it over
+    await storage.updateJob(elsewhere.id, { status: 'failed' });
+  });
+
+  it('keeps the jobs it runs marked as in hand', async () => {
+    const { runner, renders } = controlledRunner();
+    const queue = new JobQueue(runner, 1, cache);
+    const job = await queue.enqueue(document, 'modified-pdf', fields);
+    await settle();
+    const { heartbeatAt } = (await storage.getJobByPublicId(job.publicId))!;
+
+    await queue.start({ interval: 5 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    queue.stop();
+
+    expect((await storage.getJobByPublicId(job.publicId))!.heartbeatAt.getTime()).toBeGreaterThan(heartbeatAt.getTime());
+    renders[0].finish();
+    await queue.waitFor(job.publicId);
+  });
+
+  it('fails jobs that take too long to finish', async () => {
+    const { runner, renders } = controlledRunner();
+    const queue = new JobQueue(runner, 1, cache);
+
+    const running = await queue.enqueue(document, 'modified-pdf', fields);
+    const queued = await queue.enqueue(document, 'cover-preview', fields);
+    await settle();
+
+    expect(await queue.waitFor(running.publicId, 20)).toMatchObject({ status: 'failed', error: 'Rendering timed out' });
+    expect(await queue.waitFor(queued.publicId, 20)).toMatchObject({ status: 'failed', error: 'Rendering timed out' });
+
+    // The render that was running finishes without completing the job, and
+    // the queued one never starts
+    renders[0].finish();
+    await settle();
+    expect((await storage.getJobByPublicId(running.publicId))?.status).toBe('failed');
+    expect(renders).toHaveLength(1);
+  });
+
+  it('stops waiting for jobs finished or removed without it hearing', async () => {
+    const queue = new JobQueue(vi.fn(), 1, cache);
+    // Run by another instance, so this queue hears nothing about them
+    const createJob = (documentId: number) => storage.createJob({ publicId: createPublicId(), documentId, kind: 'modified-pdf', customizations: fields, workerId: 'elsewhere', heartbeatAt: new Date() });
+    const purged = await storage.createDocument({ publicId: createPublicId(), originalName: 'Old.pdf', fileName: 'old.pdf' });
+    const finished = await createJob(document.id);
+    const removed = await createJob(purged.id);
+
+    const waitingForFinished = queue.waitFor(finished.publicId, 20);
+    const waitingForRemoved = expect(queue.waitFor(removed.publicId, 20)).rejects.toThrow('not found');
+    await settle();
+    await storage.updateJob(finished.id, { status: 'completed', progress: 100, finishedAt: new Date() });
+    await storage.deleteDocuments([purged.id]);
+
+    expect(await waitingForFinished).toMatchObject({ status: 'completed' });
+    await waitingForRemoved;
+  });
+
+  it('rejects waiting for an unknown job', async () => {
+    const queue = new JobQueue(vi.fn(), 1, cache);
+
+    await expect(queue.waitFor('0'.repeat(32))).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { templateLayoutSchema } from '@shared/templateLayout';
+import { fractionBoxToLayoutBox, getElementKey, getLayoutScale, resolveBox } from '@shared/layoutGeometry';
+import { drawTemplateLayout, getElementBoxes, getTemplateLayout, resolveColor } from '@shared/layoutRenderer';
+import { defaultTemplateLayout, templateLayouts } from '@shared/templateLayouts';
+
+describe('Template layout renderer', () => {
+  it('resolves top-left boxes into PDF coordinates', () => {
+    expect(resolveBox({ left: 0, right: 0, top: 0, height: 120 }, 612, 792)).toEqual({
+      x: 0,
+      y: 672,
+      width: 612,
+      height: 120,
+    });
+
+    expect(resolveBox({ left: '75%', top: 20, width: '25%', height: 20 }, 612, 792)).toEqual({
+      x: 459,
+      y: 752,
+      width: 153,
+      height: 20,
+    });
+
+    expect(resolveBox({ left: 50, right: 50, bottom: 100, height: 20 }, 612, 792)).toEqual({
+      x: 50,
+      y: 100,
+      width: 512,
+      height: 20,
+    });
+  });
+
+  it('scales point values proportionally to the page size', () => {
+    const layout = templateLayouts['Corporate Blue'];
+    const scale = getLayoutScale(layout, 960, 540);
+
+    expect(scale.x).toBeCloseTo(960 / 612);
+    expect(scale.y).toBeCloseTo(540 / 792);
+    expect(resolveBox({ left: 0, right: 0, top: 0, height: 120 }, 960, 540, scale)).toEqual({
+      x: 0,
+      y: 540 - 120 * (540 / 792),
+      width: 960,
+      height: 120 * (540 / 792),
+    });
+  });
+
+  it('binds colors to the color scheme with an optional shade', () => {
+    const color = resolveColor({ bind: 'colorScheme', shade: 0.5 }, '#FF0000');
+    expect(color).toMatchObject({ red: 0.5, green: 0, blue: 0 });
+    expect(resolveColor('#0000FF', '#FF0000')).toMatchObject({ red: 0, green: 0, blue: 1 });
+  });
+
+  it('ships valid layouts for every built-in template', () => {
+    for (const layout of [defaultTemplateLayout, ...Object.values(templateLayouts)]) {
+      expect(templateLayoutSchema.safeParse(layout).success).toBe(true);
+    }
+  });
+
+  it('falls back to the default layout for templates without one', () => {
+    const template = { id: 1, name: 'Legacy', imagePath: '', category: '', layout: null };
+    expect(getTemplateLayout(template)).toBe(defaultTemplateLayout);
+  });
+
+  it('parses layouts stored as JSON strings', () => {
+    const layout = templateLayouts['Bold Red'];
+    const template = { id: 1, name: 'Bold Red', imagePath: '', category: '', layout: JSON.stringify(layout) as any };
+    expect(getTemplateLayout(template)).toEqual(layout);
+  });
+
+  it('keys elements by slot name, or by position for shapes', () => {
+    const keys = templateLayouts['Tech Blue'].elements.map(getElementKey);
+    expect(keys).toEqual(['shape0', 'shape1', 'hero', 'logo', 'title', 'subtitle', 'presenter', 'date']);
+  });
+
+  it('places canvas boxes at the same share of any page size', () => {
+    const box = fractionBoxToLayoutBox({ x: 0.1, y: 0.25, width: 0.5, height: 0.125 });
+    expect(box).toEqual({ left: '10%', top: '25%', width: '50%', height: '12.5%' });
+
+    const scale = getLayoutScale(templateLayouts['Tech Blue'], 960, 540);
+    expect(resolveBox(box, 960, 540, scale)).toEqual({ x: 96, y: 540 - 135 - 67.5, width: 480, height: 67.5 });
+  });
+
+  it('ignores malformed element boxes', () => {
+    expect(getElementBoxes({
+      elementBoxes: { title: { left: '10%', top: '5%' }, logo: { left: 'far away' }, date: null },
+    })).toEqual({ title: { left: '10%', top: '5%' } });
+    expect(getElementBoxes({})).toEqual({});
+  });
+
+  it('draws a layout onto a page', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([612, 792]);
+    const fonts = {
+      regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+      bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+    };
+
+    drawTemplateLayout(page, templateLayouts['Tech Blue'], {
+      fonts,
+      customizations: { title: 'Quarterly Review', presenter: 'Jane Doe', colorScheme: '#0077B5' },
+    });
+
+    const bytes = await pdfDoc.save();
+    const reloaded = await PDFDocument.load(bytes);
+    expect(reloaded.getPageCount()).toBe(1);
+  });
+
+  it('puts values into formats as written', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([612, 792]);
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const drawText = vi.spyOn(page, 'drawText');
+
+    drawTemplateLayout(page, templateLayouts['Minimal White'], {
+      fonts: { regular: font, bold: font },
+      customizations: { title: 'Review', presenter: "Jane $& Doe $'", colorScheme: '#0077B5' },
+    });
+
+    expect(drawText.mock.calls.map(([text]) => text).join(' ')).toContain("Presented by: Jane $& Doe $'");
+  });
+});
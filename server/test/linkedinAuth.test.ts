@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { findOrCreateLinkedInUser, getLinkedInAccessToken } from '../linkedinAuth';
+import { FakeLinkedInClient, LinkedInTokenExpiredError } from '../linkedinClient';
+import { storage } from '../storage';
+
+vi.mock('../storage', async () => {
+  const { MemStorage } = await import('../memStorage');
+  return { storage: new MemStorage() };
+});
+
+describe('getLinkedInAccessToken', () => {
+  const user = {
+    id: 3,
+    username: 'casey',
+    linkedinId: 'abc123',
+    linkedinToken: 'access-token',
+    linkedinRefreshToken: 'refresh-token',
+    linkedinTokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(storage, 'updateUserLinkedinTokens');
+  });
+
+  it('uses the stored token while it is still valid', async () => {
+    const client = new FakeLinkedInClient();
+
+    expect(await getLinkedInAccessToken(client, user as any)).toBe('access-token');
+    expect(storage.updateUserLinkedinTokens).not.toHaveBeenCalled();
+  });
+
+  it('refreshes a token that is about to expire and saves the new one', async () => {
+    const client = new FakeLinkedInClient();
+    const expiring = { ...user, linkedinTokenExpiresAt: new Date(Date.now() + 60 * 1000) };
+
+    const accessToken = await getLinkedInAccessToken(client, expiring as any);
+
+    expect(accessToken).not.toBe('access-token');
+    expect(storage.updateUserLinkedinTokens).toHaveBeenCalledWith(3, {
+      linkedinToken: accessToken,
+      linkedinRefreshToken: 'refresh-token',
+      linkedinTokenExpiresAt: expect.any(Date),
+    });
+  });
+
+  it('asks the user to reconnect when the token cannot be refreshed', async () => {
+    const client = new FakeLinkedInClient();
+    client.expireToken('refresh-token');
+    const expired = { ...user, linkedinTokenExpiresAt: new Date(Date.now() - 1000) };
+
+    await expect(getLinkedInAccessToken(client, expired as any)).rejects.toBeInstanceOf(LinkedInTokenExpiredError);
+    await expect(getLinkedInAccessToken(client, { ...expired, linkedinRefreshToken: null } as any)).rejects.toBeInstanceOf(LinkedInTokenExpiredError);
+  });
+});
+
+describe('findOrCreateLinkedInUser', () => {
+  const tokens = { linkedinToken: 'access-token', linkedinRefreshToken: 'refresh-token', linkedinTokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000) };
+  let counter = 0;
+  const unique = (prefix: string) => `${prefix}-${++counter}`;
+  const profileFor = (email: string) => ({ id: unique('linkedin'), displayName: 'Casey Doe', emails: [{ value: email }] });
+
+  // A local account as the register route creates it
+  const register = (email: string, emailVerified = true) =>
+    storage.createUser({ username: email, email, password: 'hash' })
+      .then(user => emailVerified ? storage.setUserEmailVerified(user.id) : user);
+
+  it('creates a user for a new LinkedIn account', async () => {
+    const email = `${unique('new')}@example.com`;
+    const profile = profileFor(email);
+
+    const user = await findOrCreateLinkedInUser(profile, tokens);
+
+    expect(user).toMatchObject({ username: email, email, linkedinId: profile.id, fullName: 'Casey Doe', ...tokens });
+    expect((await findOrCreateLinkedInUser(profile, { ...tokens, linkedinToken: 'new-token' }))).toMatchObject({ id: user.id, linkedinToken: 'new-token' });
+  });
+
+  it('links LinkedIn to the local account with the same email', async () => {
+    const email = `${unique('local')}@example.com`;
+    const local = await register(email);
+    const profile = profileFor(email.toUpperCase());
+
+    const user = await findOrCreateLinkedInUser(profile, tokens);
+
+    expect(user).toMatchObject({ id: local.id, linkedinId: profile.id, password: 'hash', ...tokens });
+    expect((await findOrCreateLinkedInUser(profile, tokens)).id).toBe(local.id);
+  });
+
+  it('drops the password of an unverified account it links to', async () => {
+    const email = `${unique('unverified')}@example.com`;
+    const local = await register(email, false);
+
+    expect(await findOrCreateLinkedInUser(profileFor(email), tokens)).toMatchObject({ id: local.id, password: null, emailVerified: true });
+  });
+
+  it('creates a separate user when the email is linked to another LinkedIn account', async () => {
+    const email = `${unique('taken')}@example.com`;
+    const first = await findOrCreateLinkedInUser(profileFor(email), tokens);
+    const profile = profileFor(email);
+
+    const user = await findOrCreateLinkedInUser(profile, tokens);
+
+    expect(user.id).not.toBe(first.id);
+    expect(user).toMatchObject({ username: `linkedin_${profile.id}`, email: null, linkedinId: profile.id });
+    expect((await storage.getUserByEmail(email))?.id).toBe(first.id);
+  });
+});
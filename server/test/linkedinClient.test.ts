@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  FakeLinkedInClient,
+  HttpLinkedInClient,
+  LinkedInApiError,
+  LinkedInTokenExpiredError,
+  escapeCommentary,
+  formatCommentary,
+  personUrn,
+  shareDocument,
+} from '../linkedinClient';
+
+describe('shareDocument', () => {
+  const pdf = new Uint8Array([0x25, 0x50, 0x44, 0x46]);
+  const options = {
+    author: personUrn('abc123'),
+    pdf,
+    title: 'Quarterly Review',
+    commentary: 'Our Q1 results',
+    visibility: 'PUBLIC' as const,
+  };
+
+  it('uploads the PDF and posts it as a document', async () => {
+    const client = new FakeLinkedInClient();
+
+    const postUrn = await shareDocument(client, 'token', options);
+
+    const post = client.posts.get(postUrn)!;
+    expect(post).toMatchObject({ author: 'urn:li:person:abc123', commentary: 'Our Q1 results', visibility: 'PUBLIC', title: 'Quarterly Review' });
+    expect(client.documents.get(post.document)?.bytes).toEqual(pdf);
+  });
+
+  it('fails with an expired token', async () => {
+    const client = new FakeLinkedInClient();
+    client.expireToken('token');
+
+    await expect(shareDocument(client, 'token', options)).rejects.toBeInstanceOf(LinkedInTokenExpiredError);
+    expect(client.posts.size).toBe(0);
+  });
+});
+
+describe('HttpLinkedInClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the post URN from the response header', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 201, headers: { 'x-restli-id': 'urn:li:share:42' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const postUrn = await new HttpLinkedInClient().createPost('token', {
+      author: personUrn('abc123'),
+      commentary: 'Slides from #launch',
+      hashtags: [],
+      mentions: [],
+      visibility: 'CONNECTIONS',
+      document: 'urn:li:document:7',
+      title: 'Launch',
+    });
+
+    expect(postUrn).toBe('urn:li:share:42');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.linkedin.com/rest/posts');
+    expect(init.headers.Authorization).toBe('Bearer token');
+    expect(JSON.parse(init.body)).toMatchObject({
+      commentary: 'Slides from \\#launch',
+      visibility: 'CONNECTIONS',
+      content: { media: { title: 'Launch', id: 'urn:li:document:7' } },
+    });
+  });
+
+  it('treats a 401 response as an expired token', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 401 })));
+
+    await expect(new HttpLinkedInClient().initializeDocumentUpload('token', personUrn('abc123')))
+      .rejects.toBeInstanceOf(LinkedInTokenExpiredError);
+  });
+
+  it('reports API errors with LinkedIn\'s message', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ message: 'Document is too large', status: 422 }), { status: 422 }),
+    ));
+
+    const error = await new HttpLinkedInClient().uploadDocument('token', 'https://upload.example/1', new Uint8Array())
+      .catch(error => error);
+    expect(error).toBeInstanceOf(LinkedInApiError);
+    expect(error).toMatchObject({ message: 'Document is too large', status: 422 });
+  });
+});
+
+describe('escapeCommentary', () => {
+  it('escapes characters reserved by LinkedIn\'s text format', () => {
+    expect(escapeCommentary('Q1 (draft) @team #results')).toBe('Q1 \\(draft\\) \\@team \\#results');
+  });
+});
+
+describe('formatCommentary', () => {
+  it('appends mentions and hashtags to the post text', () => {
+    expect(formatCommentary({
+      commentary: 'New deck is out! ',
+      mentions: [{ name: 'Acme Corp', urn: 'urn:li:organization:42' }],
+      hashtags: ['design', 'slides'],
+    })).toBe('New deck is out!\n\n@[Acme Corp](urn:li:organization:42)\n\n{hashtag|\\#|design} {hashtag|\\#|slides}');
+  });
+
+  it('leaves out sections that are empty', () => {
+    expect(formatCommentary({ commentary: '', mentions: [], hashtags: ['launch'] })).toBe('{hashtag|\\#|launch}');
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect, vi } from 'vitest';
+import { appUrlFromEnv } from '../localAuth';
+
+vi.mock('../storage', async () => {
+  const { MemStorage } = await import('../memStorage');
+  return { storage: new MemStorage() };
+});
+
+describe('appUrlFromEnv', () => {
+  it('uses APP_URL for links in emails', () => {
+    expect(appUrlFromEnv({ APP_URL: 'https://presentpro.app/', NODE_ENV: 'production' })).toBe('https://presentpro.app');
+  });
+
+  it('falls back to the local server in development', () => {
+    expect(appUrlFromEnv({})).toBe('http://localhost:5000');
+    expect(appUrlFromEnv({ PORT: '3000' })).toBe('http://localhost:3000');
+  });
+
+  it('requires APP_URL in production', () => {
+    expect(() => appUrlFromEnv({ NODE_ENV: 'production' })).toThrow('APP_URL must be set in production');
+  });
+});
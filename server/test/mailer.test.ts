@@ -0,0 +1,29 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { FileMailTransport } from '../mailer';
+
+describe('FileMailTransport', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('appends each message to the log file', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mailer-'));
+    const filePath = path.join(dir, 'logs', 'mail.log');
+    const transport = new FileMailTransport(filePath);
+
+    await transport.send({ to: 'casey@example.com', subject: 'Verify your email', text: 'Open https://example.com/verify' });
+    await transport.send({ to: 'sam@example.com', subject: 'Reset your password', text: 'Open https://example.com/reset' });
+
+    const log = await fs.readFile(filePath, 'utf8');
+    expect(log).toContain('To: casey@example.com\nSubject: Verify your email\n\nOpen https://example.com/verify');
+    expect(log).toContain('To: sam@example.com\nSubject: Reset your password\n\nOpen https://example.com/reset');
+    expect(log.indexOf('casey@example.com')).toBeLessThan(log.indexOf('sam@example.com'));
+  });
+});
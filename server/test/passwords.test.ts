@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { createToken, hashPassword, hashToken, verifyPassword } from '../passwords';
+
+describe('hashPassword', () => {
+  it('verifies the original password and rejects others', async () => {
+    const hash = await hashPassword('correct horse battery');
+
+    expect(hash).toMatch(/^scrypt:[0-9a-f]{32}:[0-9a-f]{128}$/);
+    expect(await verifyPassword('correct horse battery', hash)).toBe(true);
+    expect(await verifyPassword('correct horse', hash)).toBe(false);
+  });
+
+  it('salts each hash', async () => {
+    expect(await hashPassword('secret-password')).not.toEqual(await hashPassword('secret-password'));
+  });
+
+  it('rejects hashes in an unknown format', async () => {
+    expect(await verifyPassword('secret-password', 'secret-password')).toBe(false);
+  });
+});
+
+describe('createToken', () => {
+  it('returns a random token with the hash to store for it', () => {
+    const first = createToken();
+    const second = createToken();
+
+    expect(first.token).not.toEqual(second.token);
+    expect(first.tokenHash).toEqual(hashToken(first.token));
+    expect(first.tokenHash).not.toContain(first.token);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Document, Template } from '@shared/schema';
+import { LocalFileStore } from '../fileStore';
+import { RenderCache, renderHash } from '../renderCache';
+
+describe('renderHash', () => {
+  const template = { id: 4, version: 1 };
+
+  it('ignores the order customizations were saved in', () => {
+    expect(renderHash('abc', template, 'modified-pdf', { title: 'Review', images: { logo: { assetId: 1, scale: 2 } } }))
+      .toBe(renderHash('abc', template, 'modified-pdf', { images: { logo: { scale: 2, assetId: 1 } }, title: 'Review' }));
+  });
+
+  it('changes with everything that goes into the render', () => {
+    const hash = renderHash('abc', template, 'modified-pdf', { title: 'Review' });
+
+    expect(renderHash('abd', template, 'modified-pdf', { title: 'Review' })).not.toBe(hash);
+    expect(renderHash('abc', { id: 4, version: 2 }, 'modified-pdf', { title: 'Review' })).not.toBe(hash);
+    expect(renderHash('abc', template, 'cover-preview', { title: 'Review' })).not.toBe(hash);
+    expect(renderHash('abc', template, 'modified-pdf', { title: 'Annual Review' })).not.toBe(hash);
+  });
+});
+
+describe('RenderCache', () => {
+  let dir: string;
+  let store: LocalFileStore;
+  const template = { id: 4, version: 1 } as Template;
+  const document = { id: 1, fileName: 'upload-1.pdf' } as Document;
+  const other = { id: 2, fileName: 'upload-2.pdf' } as Document;
+
+  // A render of the given size, written at the given time
+  const writeRender = async (key: string, size: number, writtenAt: Date) => {
+    await store.put(key, Buffer.alloc(size));
+    await fs.utimes(path.join(dir, key), writtenAt, writtenAt);
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'render-cache-'));
+    store = new LocalFileStore(dir);
+    await store.put('pdfs/upload-1.pdf', Buffer.from('%PDF-1'));
+    await store.put('pdfs/upload-2.pdf', Buffer.from('%PDF-2'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keys renders by their hash', async () => {
+    const cache = new RenderCache(store, 1024);
+
+    const entry = await cache.entryFor(document, template, 'modified-pdf', { title: 'Review' });
+
+    expect(entry.key).toMatch(/^renders\/4-[0-9a-f]{16}-[0-9a-f]{64}\.pdf$/);
+    expect(entry.etag).toBe(`"${entry.key.slice(-68, -4)}"`);
+    expect(await cache.entryFor(document, template, 'modified-pdf', { title: 'Review' })).toEqual(entry);
+    expect((await cache.entryFor(other, template, 'modified-pdf', { title: 'Review' })).key).not.toBe(entry.key);
+    expect(await cache.has(entry.key)).toBe(false);
+  });
+
+  it('removes the oldest renders beyond its size limit', async () => {
+    const cache = new RenderCache(store, 250);
+    await writeRender('renders/4-a.pdf', 100, new Date('2025-03-01T09:00:00Z'));
+    await writeRender('renders/4-b.pdf', 100, new Date('2025-03-01T10:00:00Z'));
+    await writeRender('renders/4-c.pdf', 100, new Date('2025-03-01T11:00:00Z'));
+
+    expect(await cache.evict()).toEqual(['renders/4-a.pdf']);
+    expect(await store.exists('renders/4-b.pdf')).toBe(true);
+    expect(await cache.evict()).toEqual([]);
+  });
+
+  it('keeps renders that were used recently', async () => {
+    const cache = new RenderCache(store, 250);
+    await writeRender('renders/4-a.pdf', 100, new Date('2025-03-01T09:00:00Z'));
+    await writeRender('renders/4-b.pdf', 100, new Date('2025-03-01T10:00:00Z'));
+    await writeRender('renders/4-c.pdf', 100, new Date('2025-03-01T11:00:00Z'));
+
+    cache.retain('renders/4-a.pdf')();
+
+    expect(await cache.evict()).toEqual(['renders/4-b.pdf']);
+    expect(await store.exists('renders/4-a.pdf')).toBe(true);
+  });
+
+  it('leaves renders being sent until they are released', async () => {
+    const cache = new RenderCache(store, 150);
+    await writeRender('renders/4-a.pdf', 100, new Date('2025-03-01T09:00:00Z'));
+    await writeRender('renders/4-b.pdf', 100, new Date('2025-03-01T10:00:00Z'));
+    const release = cache.retain('renders/4-a.pdf');
+    const again = cache.retain('renders/4-a.pdf');
+    // A newer render pushes it beyond the size limit
+    await writeRender('renders/4-c.pdf', 100, new Date(Date.now() + 60 * 1000));
+
+    expect(await cache.evict()).toEqual(['renders/4-b.pdf']);
+    release();
+    release();
+    expect(await cache.evict()).toEqual([]);
+    again();
+    expect(await cache.evict()).toEqual(['renders/4-a.pdf']);
+  });
+
+  it('removes the renders made with a template', async () => {
+    const cache = new RenderCache(store, 1024);
+    const { key } = await cache.entryFor(document, template, 'cover-preview', {});
+    const { key: otherTemplateKey } = await cache.entryFor(document, { id: 40, version: 1 } as Template, 'cover-preview', {});
+    await store.put(key, Buffer.from('%PDF'));
+    await store.put(otherTemplateKey, Buffer.from('%PDF'));
+
+    await cache.invalidateTemplate(4);
+
+    expect(await store.exists(key)).toBe(false);
+    expect(await store.exists(otherTemplateKey)).toBe(true);
+  });
+
+  it('removes the renders of deleted documents', async () => {
+    const cache = new RenderCache(store, 1024);
+    const { key } = await cache.entryFor(document, template, 'modified-pdf', {});
+    const { key: otherKey } = await cache.entryFor(other, template, 'modified-pdf', {});
+    await store.put(key, Buffer.from('%PDF'));
+    await store.put(otherKey, Buffer.from('%PDF'));
+
+    await cache.invalidateDocuments([document, { id: 3, fileName: 'gone.pdf' } as Document]);
+
+    expect(await store.exists(key)).toBe(false);
+    expect(await store.exists(otherKey)).toBe(true);
+  });
+});
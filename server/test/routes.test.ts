@@ -0,0 +1,457 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import request from 'supertest';
+import { WebSocket } from 'ws';
+import { JOB_SOCKET_PATH, type JobSocketMessage, type PublicJob } from '@shared/jobs';
+import { templateLayouts } from '@shared/templateLayouts';
+import { readFixture, startTestServer, summarizePdf, type TestServer } from './harness';
+
+// Collects binary responses such as PDFs into a Buffer
+function binary(res: NodeJS.ReadableStream, callback: (error: Error | null, body: Buffer) => void) {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+  res.on('error', error => callback(error, Buffer.alloc(0)));
+}
+
+const customizations = {
+  title: 'Quarterly Business Review',
+  subtitle: 'Results and priorities for Q3',
+  presenter: 'Jane Doe',
+  date: 'May 21, 2025',
+  colorScheme: '#0077B5',
+  fontFamily: 'Roboto',
+  titleSize: 'Medium',
+  titleAlignment: 'center',
+};
+
+describe('HTTP API', () => {
+  let server: TestServer;
+  let templateId: number;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+    templateId = (await server.storage.getAllTemplates()).find(template => template.name === 'Corporate Blue')!.id;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  // An anonymous browser session holding a freshly uploaded fixture
+  const upload = async (fixture: string) => {
+    const agent = request.agent(server.app);
+    const res = await agent.post('/api/upload').attach('file', await readFixture(fixture), { filename: fixture, contentType: 'application/pdf' });
+    expect(res.status).toBe(201);
+    return { agent, documentId: res.body.documentId as string };
+  };
+
+  const getPdf = async (agent: ReturnType<typeof request.agent>, url: string) => {
+    const res = await agent.get(url).buffer(true).parse(binary);
+    expect(res.status).toBe(200);
+    return res;
+  };
+
+  describe('auth', () => {
+    const credentialFields = ['password', 'linkedinToken', 'linkedinRefreshToken', 'linkedinTokenExpiresAt'];
+    const expectNoCredentials = (user: Record<string, unknown>) => {
+      for (const field of credentialFields) {
+        expect(user).not.toHaveProperty(field);
+      }
+    };
+
+    it('never sends passwords or LinkedIn tokens to the browser', async () => {
+      const account = { email: 'tokens@example.com', password: 'correct horse battery' };
+      const registered = await request.agent(server.app).post('/api/auth/register').send(account).expect(201);
+      expectNoCredentials(registered.body);
+
+      await server.storage.updateUserLinkedinTokens(registered.body.id, {
+        linkedinToken: 'access-token',
+        linkedinRefreshToken: 'refresh-token',
+        linkedinTokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      const agent = request.agent(server.app);
+      const login = await agent.post('/api/auth/login').send(account).expect(200);
+      expectNoCredentials(login.body);
+
+      const status = await agent.get('/api/auth/status').expect(200);
+      expect(status.body.email).toBe('tokens@example.com');
+      expectNoCredentials(status.body);
+      expect(JSON.stringify(status.body)).not.toContain('refresh-token');
+    });
+
+    it('mails links to the app, not to the host the request named', async () => {
+      await request(server.app).post('/api/auth/register').set('Host', 'attacker.example').send({ email: 'mailed@example.com', password: 'correct horse battery' }).expect(201);
+      await request(server.app).post('/api/auth/forgot-password').set('Host', 'attacker.example').send({ email: 'mailed@example.com' }).expect(200);
+
+      const mail = await fs.readFile(path.join(server.uploadDir, 'mail.log'), 'utf8');
+      expect(mail).toContain('To: mailed@example.com');
+      expect(mail).toMatch(/http:\/\/localhost:\d+\/verify-email\?token=/);
+      expect(mail).toMatch(/http:\/\/localhost:\d+\/reset-password\?token=/);
+      expect(mail).not.toContain('attacker.example');
+    });
+  });
+
+  describe('templates', () => {
+    it('lists the built-in templates with their layouts', async () => {
+      const res = await request(server.app).get('/api/templates');
+
+      expect(res.status).toBe(200);
+      expect(res.body.map((template: { name: string }) => template.name)).toEqual(Object.keys(templateLayouts));
+      expect(res.body[0].layout).toEqual(templateLayouts[res.body[0].name]);
+    });
+
+    it('has no route for creating templates', async () => {
+      const agent = request.agent(server.app);
+      await agent.post('/api/auth/register').send({ email: 'templates@example.com', password: 'correct horse battery' }).expect(201);
+
+      const template = { name: 'Team Green', imagePath: '/templates/minimal-white.svg', category: 'Business', layout: templateLayouts['Minimal White'] };
+      expect((await agent.post('/api/templates').send(template)).status).toBe(404);
+      expect((await request(server.app).get('/api/templates')).body.map((t: { name: string }) => t.name)).not.toContain('Team Green');
+    });
+  });
+
+  describe('upload', () => {
+    it('stores the PDF under a new public ID', async () => {
+      const { agent, documentId } = await upload('letter-3-pages.pdf');
+
+      const res = await agent.get(`/api/documents/${documentId}`);
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ publicId: documentId, originalName: 'letter-3-pages.pdf', isModified: false, userId: null });
+      expect(res.body).not.toHaveProperty('claimTokenHash');
+      expect((await request(server.app).get(`/api/documents/${'0'.repeat(32)}`)).status).toBe(404);
+    });
+
+    it('keeps uploads of signed-in users private to them', async () => {
+      const agent = request.agent(server.app);
+      await agent.post('/api/auth/register').send({ email: 'uploads@example.com', password: 'correct horse battery' }).expect(201);
+      const res = await agent.post('/api/upload').attach('file', await readFixture('slides-16-9.pdf'), { filename: 'slides-16-9.pdf', contentType: 'application/pdf' });
+      expect(res.status).toBe(201);
+      expect(res.body.claimToken).toBeUndefined();
+
+      expect((await agent.get(`/api/documents/${res.body.documentId}`)).status).toBe(200);
+      expect((await request(server.app).get(`/api/documents/${res.body.documentId}`)).status).toBe(404);
+    });
+
+    it('rejects files that are not PDFs', async () => {
+      const res = await request(server.app).post('/api/upload').attach('file', Buffer.from('hello'), { filename: 'notes.txt', contentType: 'text/plain' });
+
+      expect(res.body.message).toBe('Only PDF files are allowed');
+    });
+
+    it('requires a file', async () => {
+      expect((await request(server.app).post('/api/upload')).status).toBe(400);
+    });
+
+    it('previews and downloads the original unchanged', async () => {
+      const { agent, documentId } = await upload('letter-3-pages.pdf');
+      const original = await readFixture('letter-3-pages.pdf');
+
+      expect((await getPdf(agent, `/api/documents/${documentId}/preview`)).body.equals(original)).toBe(true);
+
+      const download = await getPdf(agent, `/api/documents/${documentId}/download-original`);
+      expect(download.headers['content-disposition']).toBe('attachment; filename="letter-3-pages.pdf"');
+      expect(download.body.equals(original)).toBe(true);
+
+      // Without customizations the download is the original too
+      expect((await getPdf(agent, `/api/documents/${documentId}/download`)).body.equals(original)).toBe(true);
+    });
+
+    it('reports the size of the first page', async () => {
+      const { agent, documentId } = await upload('slides-16-9.pdf');
+
+      expect((await agent.get(`/api/documents/${documentId}/page-size`)).body).toEqual({ width: 960, height: 540 });
+    });
+  });
+
+  describe('customize', () => {
+    it('validates the request', async () => {
+      const { agent, documentId } = await upload('letter-3-pages.pdf');
+
+      expect((await agent.post(`/api/documents/${documentId}/customize`).send({ customizations })).status).toBe(400);
+      expect((await agent.post(`/api/documents/${documentId}/customize`).send({ templateId: 9999, customizations })).status).toBe(404);
+    });
+
+    it('renders a cover preview sized like the original', async () => {
+      const { agent, documentId } = await upload('slides-16-9.pdf');
+
+      const res = await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations });
+      expect(res.status).toBe(200);
+      expect(res.body.previewUrl).toBe(`/api/documents/${documentId}/cover-preview`);
+
+      const preview = await summarizePdf((await getPdf(agent, res.body.previewUrl)).body);
+      expect(preview.pageCount).toBe(1);
+      expect(preview.pageSizes).toEqual([{ width: 960, height: 540 }]);
+      expect(preview.pageTexts[0]).toContain('Quarterly Business Review');
+      expect(preview.pageTexts[0]).toContain('Jane Doe');
+    });
+
+    it('tags the cover preview with its render', async () => {
+      const { agent, documentId } = await upload('slides-16-9.pdf');
+      expect((await agent.get(`/api/documents/${documentId}/cover-preview`)).status).toBe(404);
+
+      await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations }).expect(200);
+      const preview = await getPdf(agent, `/api/documents/${documentId}/cover-preview`);
+      expect(preview.headers.etag).toMatch(/^"[0-9a-f]{64}"$/);
+      expect(preview.headers['cache-control']).toBe('private, no-cache');
+      expect((await agent.get(`/api/documents/${documentId}/cover-preview`).set('If-None-Match', preview.headers.etag)).status).toBe(304);
+    });
+  });
+
+  describe('versions', () => {
+    // A document customized twice, with its versions newest first
+    const customizeTwice = async () => {
+      const { agent, documentId } = await upload('slides-16-9.pdf');
+      await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations }).expect(200);
+      await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations: { ...customizations, title: 'Annual Review' } }).expect(200);
+      const versions = (await agent.get(`/api/documents/${documentId}/versions`).expect(200)).body;
+      return { agent, documentId, versions };
+    };
+
+    it('records each customization as a version', async () => {
+      const { agent, documentId, versions } = await customizeTwice();
+
+      expect(versions.map((version: { customizations: { title: string } }) => version.customizations.title)).toEqual(['Annual Review', 'Quarterly Business Review']);
+      expect((await agent.get(`/api/documents/${documentId}`)).body.isModified).toBe(true);
+    });
+
+    it("previews a version's cover", async () => {
+      const { agent, documentId, versions: [, first] } = await customizeTwice();
+
+      const preview = await getPdf(agent, `/api/documents/${documentId}/versions/${first.id}/preview`);
+      expect(preview.headers['cache-control']).toBe('private, max-age=31536000, immutable');
+      const pdf = await summarizePdf(preview.body);
+      expect(pdf.pageSizes).toEqual([{ width: 960, height: 540 }]);
+      expect(pdf.pageTexts[0]).toContain('Quarterly Business Review');
+    });
+
+    it('compares a version with the one before it by default', async () => {
+      const { agent, documentId, versions: [latest, first] } = await customizeTwice();
+
+      const diff = await agent.get(`/api/documents/${documentId}/versions/${latest.id}/diff`).expect(200);
+      expect(diff.body).toEqual({
+        versionId: latest.id,
+        compareId: first.id,
+        changes: [{ path: 'title', before: 'Quarterly Business Review', after: 'Annual Review' }],
+      });
+
+      const initial = await agent.get(`/api/documents/${documentId}/versions/${first.id}/diff`).expect(200);
+      expect(initial.body.compareId).toBeNull();
+      expect(initial.body.changes).toContainEqual({ path: 'title', after: 'Quarterly Business Review' });
+    });
+
+    it('compares with a chosen version', async () => {
+      const { agent, documentId, versions: [latest, first] } = await customizeTwice();
+
+      const diff = await agent.get(`/api/documents/${documentId}/versions/${first.id}/diff`).query({ compare: latest.id }).expect(200);
+      expect(diff.body.compareId).toBe(latest.id);
+      expect(diff.body.changes).toEqual([{ path: 'title', before: 'Annual Review', after: 'Quarterly Business Review' }]);
+    });
+
+    it('rejects unknown versions', async () => {
+      const { agent, documentId, versions: [latest] } = await customizeTwice();
+      const other = await customizeTwice();
+
+      expect((await agent.get(`/api/documents/${documentId}/versions/abc/diff`)).status).toBe(400);
+      expect((await agent.get(`/api/documents/${documentId}/versions/${other.versions[0].id}/diff`)).status).toBe(404);
+      expect((await agent.get(`/api/documents/${documentId}/versions/${latest.id}/diff`).query({ compare: other.versions[1].id })).status).toBe(404);
+      expect((await agent.get(`/api/documents/${documentId}/versions/${latest.id}/diff`).query({ compare: 'abc' })).status).toBe(404);
+      expect((await agent.get(`/api/documents/${documentId}/versions/${other.versions[0].id}/preview`)).status).toBe(404);
+    });
+
+    it('restores a version as a new one', async () => {
+      const { agent, documentId, versions: [, first] } = await customizeTwice();
+
+      const restored = await agent.post(`/api/documents/${documentId}/versions/${first.id}/restore`).expect(200);
+      expect(restored.body.customizations.title).toBe('Quarterly Business Review');
+
+      const versions = (await agent.get(`/api/documents/${documentId}/versions`)).body;
+      expect(versions.map((version: { customizations: { title: string } }) => version.customizations.title)).toEqual(['Quarterly Business Review', 'Annual Review', 'Quarterly Business Review']);
+    });
+
+    it("hides the versions of other people's documents", async () => {
+      const agent = request.agent(server.app);
+      await agent.post('/api/auth/register').send({ email: 'versions@example.com', password: 'correct horse battery' }).expect(201);
+      const { documentId } = (await agent.post('/api/upload').attach('file', await readFixture('slides-16-9.pdf'), { filename: 'slides-16-9.pdf', contentType: 'application/pdf' }).expect(201)).body;
+      await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations }).expect(200);
+      const [version] = (await agent.get(`/api/documents/${documentId}/versions`).expect(200)).body;
+
+      for (const url of ['versions', `versions/${version.id}/diff`, `versions/${version.id}/preview`]) {
+        expect((await request(server.app).get(`/api/documents/${documentId}/${url}`)).status).toBe(404);
+      }
+    });
+  });
+
+  describe('download', () => {
+    const customizeAndDownload = async (fixture: string, changes: Record<string, unknown> = {}) => {
+      const { agent, documentId } = await upload(fixture);
+      await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations: { ...customizations, ...changes } }).expect(200);
+      const res = await getPdf(agent, `/api/documents/${documentId}/download`);
+      expect(res.headers['content-type']).toBe('application/pdf');
+      expect(res.headers['content-disposition']).toBe(`attachment; filename="${fixture}"`);
+      return summarizePdf(res.body);
+    };
+
+    it('replaces the first page with the cover', async () => {
+      const pdf = await customizeAndDownload('letter-3-pages.pdf');
+
+      expect(pdf.pageCount).toBe(3);
+      expect(pdf.pageSizes).toEqual(Array(3).fill({ width: 612, height: 792 }));
+      expect(pdf.pageTexts[0]).toContain('Quarterly Business Review');
+      expect(pdf.pageTexts[0]).not.toContain('Original page 1');
+      expect(pdf.pageTexts.slice(1)).toEqual(['Original page 2', 'Original page 3']);
+    });
+
+    it('keeps every original page in prepend mode', async () => {
+      const pdf = await customizeAndDownload('letter-3-pages.pdf', { coverMode: 'prepend' });
+
+      expect(pdf.pageCount).toBe(4);
+      expect(pdf.pageTexts.slice(1)).toEqual(['Original page 1', 'Original page 2', 'Original page 3']);
+    });
+
+    it('uses an explicitly chosen page size for the cover', async () => {
+      const pdf = await customizeAndDownload('slides-16-9.pdf', { pageSize: 'a4' });
+
+      expect(pdf.pageSizes).toEqual([{ width: 595.28, height: 841.89 }, { width: 960, height: 540 }]);
+      expect(pdf.pageTexts[1]).toBe('Slide 2');
+    });
+
+    it('tags downloads so browsers can reuse them until the customizations change', async () => {
+      const { agent, documentId } = await upload('letter-3-pages.pdf');
+      const original = await getPdf(agent, `/api/documents/${documentId}/download`);
+      expect((await agent.get(`/api/documents/${documentId}/download`).set('If-None-Match', original.headers.etag)).status).toBe(304);
+
+      await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations }).expect(200);
+      const first = await getPdf(agent, `/api/documents/${documentId}/download`);
+      expect(first.headers.etag).not.toBe(original.headers.etag);
+      expect((await agent.get(`/api/documents/${documentId}/download`).set('If-None-Match', first.headers.etag)).status).toBe(304);
+
+      // The same customizations are served from the cache
+      const second = await getPdf(agent, `/api/documents/${documentId}/download`);
+      expect(second.headers.etag).toBe(first.headers.etag);
+      expect(second.body.equals(first.body)).toBe(true);
+
+      await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations: { ...customizations, title: 'Annual Review' } }).expect(200);
+      const changed = await agent.get(`/api/documents/${documentId}/download`).set('If-None-Match', first.headers.etag).buffer(true).parse(binary);
+      expect(changed.status).toBe(200);
+      expect((await summarizePdf(changed.body)).pageTexts[0]).toContain('Annual Review');
+    });
+
+    it('appends a back cover', async () => {
+      const pdf = await customizeAndDownload('slides-16-9.pdf', { backCover: true, closingText: 'Thanks for reading' });
+
+      expect(pdf.pageCount).toBe(3);
+      expect(pdf.pageSizes).toEqual(Array(3).fill({ width: 960, height: 540 }));
+      expect(pdf.pageTexts[1]).toBe('Slide 2');
+      expect(pdf.pageTexts[2]).toContain('Thanks for reading');
+    });
+  });
+
+  describe('images', () => {
+    const uploadImage = async (agent: ReturnType<typeof request.agent>) => {
+      const res = await agent.post('/api/assets').attach('file', await readFixture('images/hero.png'), { filename: 'hero.png', contentType: 'image/png' });
+      expect(res.status).toBe(201);
+      return res.body as { id: number; publicId: string };
+    };
+
+    it('serves anonymous uploads by their public ID only', async () => {
+      const asset = await uploadImage(request.agent(server.app));
+      expect(asset.publicId).toMatch(/^[0-9a-f]{32}$/);
+
+      const res = await request(server.app).get(`/api/assets/${asset.publicId}/file`);
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toBe('image/png');
+      expect((await request(server.app).get(`/api/assets/${asset.id}/file`)).status).toBe(404);
+    });
+
+    it("keeps signed-in users' images private to them", async () => {
+      const agent = request.agent(server.app);
+      await agent.post('/api/auth/register').send({ email: 'images@example.com', password: 'correct horse battery' }).expect(201);
+      const asset = await uploadImage(agent);
+
+      expect((await agent.get(`/api/assets/${asset.publicId}/file`)).status).toBe(200);
+      expect((await agent.get(`/api/assets/${asset.id}/file`)).status).toBe(200);
+
+      const other = request.agent(server.app);
+      await other.post('/api/auth/register').send({ email: 'other-images@example.com', password: 'correct horse battery' }).expect(201);
+      for (const id of [asset.publicId, asset.id]) {
+        expect((await other.get(`/api/assets/${id}/file`)).status).toBe(404);
+        expect((await request(server.app).get(`/api/assets/${id}/file`)).status).toBe(404);
+      }
+    });
+  });
+
+  describe('jobs', () => {
+    const customize = async (fixture: string) => {
+      const { agent, documentId } = await upload(fixture);
+      await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations }).expect(200);
+      return { agent, documentId };
+    };
+
+    // Subscribe over the job socket and collect updates until the job finishes.
+    // The socket signs in with the session cookie, when given one.
+    const followJob = (jobId: string, cookie?: string[]) => new Promise<JobSocketMessage[]>((resolve, reject) => {
+      const messages: JobSocketMessage[] = [];
+      const socket = new WebSocket(`${server.baseUrl.replace('http', 'ws')}${JOB_SOCKET_PATH}`, { headers: cookie && { cookie: cookie.join('; ') } });
+      socket.on('open', () => socket.send(JSON.stringify({ type: 'subscribe', jobId })));
+      socket.on('message', data => {
+        const message: JobSocketMessage = JSON.parse(data.toString());
+        messages.push(message);
+        if (message.type === 'error' || ['completed', 'failed'].includes(message.job.status)) {
+          socket.close();
+          resolve(messages);
+        }
+      });
+      socket.on('error', reject);
+    });
+
+    it('renders the download in the background', async () => {
+      const { agent, documentId } = await customize('letter-3-pages.pdf');
+
+      expect((await agent.post(`/api/documents/${documentId}/jobs`).send({ kind: 'thumbnail' })).status).toBe(400);
+      const res = await agent.post(`/api/documents/${documentId}/jobs`).send({ kind: 'modified-pdf' });
+      expect(res.status).toBe(202);
+      expect(res.body).toMatchObject({ id: expect.any(String), kind: 'modified-pdf', resultUrl: null });
+
+      const messages = await followJob(res.body.id);
+      const job = messages[messages.length - 1] as { type: 'job'; job: PublicJob };
+      expect(job.job).toMatchObject({ status: 'completed', progress: 100, resultUrl: `/api/jobs/${res.body.id}/result` });
+      expect((await agent.get(`/api/jobs/${res.body.id}`)).body).toEqual(job.job);
+
+      const pdf = await summarizePdf((await getPdf(agent, job.job.resultUrl!)).body);
+      expect(pdf.pageCount).toBe(3);
+      expect(pdf.pageTexts[0]).toContain('Quarterly Business Review');
+    });
+
+    it('needs customizations to render', async () => {
+      const { agent, documentId } = await upload('letter-3-pages.pdf');
+
+      expect((await agent.post(`/api/documents/${documentId}/jobs`).send({ kind: 'modified-pdf' })).status).toBe(400);
+    });
+
+    it('keeps jobs of private documents to their owner', async () => {
+      const agent = request.agent(server.app);
+      const registered = await agent.post('/api/auth/register').send({ email: 'jobs@example.com', password: 'correct horse battery' }).expect(201);
+      const cookie = registered.headers['set-cookie'] as unknown as string[];
+      const { body: { documentId } } = await agent.post('/api/upload').attach('file', await readFixture('slides-16-9.pdf'), { filename: 'slides-16-9.pdf', contentType: 'application/pdf' }).expect(201);
+      const { body: { jobId } } = await agent.post(`/api/documents/${documentId}/customize`).send({ templateId, customizations }).expect(200);
+
+      expect((await agent.get(`/api/jobs/${jobId}`)).status).toBe(200);
+      expect((await request(server.app).get(`/api/jobs/${jobId}`)).status).toBe(404);
+      expect((await request(server.app).get(`/api/jobs/${jobId}/result`)).status).toBe(404);
+      expect(await followJob(jobId)).toEqual([{ type: 'error', jobId, message: 'Job not found' }]);
+
+      const messages = await followJob(jobId, cookie.map(value => value.split(';')[0]));
+      expect(messages[messages.length - 1]).toMatchObject({ type: 'job', job: { id: jobId, status: 'completed' } });
+    });
+
+    it('reports unknown jobs over the socket', async () => {
+      const jobId = '0'.repeat(32);
+
+      expect(await followJob(jobId)).toEqual([{ type: 'error', jobId, message: 'Job not found' }]);
+      expect((await request(server.app).get(`/api/jobs/${jobId}`)).status).toBe(404);
+    });
+  });
+});
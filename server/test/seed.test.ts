@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest';
+import { templateLayouts } from '@shared/templateLayouts';
+import { seedTemplates } from '../seed';
+import { storage } from '../storage';
+
+vi.mock('../storage', async () => {
+  const { MemStorage } = await import('../memStorage');
+  return { storage: new MemStorage() };
+});
+
+vi.mock('../renderCache', () => ({
+  renderCache: { invalidateTemplate: vi.fn() },
+}));
+
+describe('seedTemplates', () => {
+  it('fills in missing layouts but keeps edited ones', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const edited = { ...templateLayouts['Corporate Blue'], background: '#111111' };
+    const editedTemplate = await storage.createTemplate({ name: 'Corporate Blue', imagePath: '/templates/corporate-blue.svg', category: 'Business', layout: edited });
+    const bare = await storage.createTemplate({ name: 'Minimal White', imagePath: '/templates/minimal-white.svg', category: 'Minimalist' });
+
+    await seedTemplates();
+
+    expect((await storage.getTemplate(editedTemplate.id))!.layout).toEqual(edited);
+    expect((await storage.getTemplate(bare.id))!.layout).toEqual(templateLayouts['Minimal White']);
+  });
+});
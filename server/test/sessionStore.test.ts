@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DrizzleSessionStore } from '../sessionStore';
+import { storage } from '../storage';
+
+vi.mock('../storage', () => ({
+  storage: {
+    getSession: vi.fn(),
+    setSession: vi.fn(),
+    touchSession: vi.fn(),
+    destroySession: vi.fn(),
+    deleteExpiredSessions: vi.fn(),
+  },
+}));
+
+describe('DrizzleSessionStore', () => {
+  const expires = new Date('2099-06-01T09:30:00.000Z');
+  const sess = { cookie: { originalMaxAge: 1000, expires }, passport: { user: 3 } } as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('saves sessions as JSON until their cookie expires', async () => {
+    vi.mocked(storage.setSession).mockResolvedValue();
+    const store = new DrizzleSessionStore();
+
+    await new Promise<void>((resolve, reject) => store.set('sid-1', sess, error => error ? reject(error) : resolve()));
+
+    expect(storage.setSession).toHaveBeenCalledWith('sid-1', JSON.stringify(sess), expires);
+  });
+
+  it('loads a saved session, or null when there is none', async () => {
+    vi.mocked(storage.getSession).mockResolvedValueOnce({ sid: 'sid-1', data: JSON.stringify(sess), expiresAt: expires });
+    vi.mocked(storage.getSession).mockResolvedValueOnce(undefined);
+    const store = new DrizzleSessionStore();
+    const get = (sid: string) => new Promise((resolve, reject) => store.get(sid, (error, session) => error ? reject(error) : resolve(session)));
+
+    expect(await get('sid-1')).toMatchObject({ passport: { user: 3 } });
+    expect(await get('sid-2')).toBeNull();
+  });
+
+  it('passes storage errors to express-session', async () => {
+    vi.mocked(storage.destroySession).mockRejectedValue(new Error('connection lost'));
+    const store = new DrizzleSessionStore();
+
+    const error = await new Promise(resolve => store.destroy('sid-1', resolve));
+
+    expect(error).toEqual(new Error('connection lost'));
+  });
+});
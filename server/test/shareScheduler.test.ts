@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ShareScheduler } from '../shareScheduler';
+import { FakeLinkedInClient, personUrn } from '../linkedinClient';
+import { storage } from '../storage';
+
+vi.mock('../storage', () => ({
+  storage: {
+    getDueScheduledShares: vi.fn(),
+    updateScheduledShare: vi.fn(),
+    claimScheduledShare: vi.fn(),
+    failStuckScheduledShares: vi.fn(),
+    getDocument: vi.fn(),
+    getUser: vi.fn(),
+    setDocumentLinkedinPost: vi.fn(),
+  },
+}));
+
+// Rendering needs the uploaded file; any bytes will do for posting
+vi.mock('../jobQueue', () => ({
+  jobQueue: { readDocumentPdf: vi.fn(async () => Buffer.from('%PDF')) },
+}));
+
+describe('ShareScheduler', () => {
+  const share = {
+    id: 5,
+    documentId: 1,
+    userId: 3,
+    commentary: 'Our Q1 results',
+    hashtags: ['results'],
+    mentions: [],
+    visibility: 'PUBLIC',
+    scheduledAt: new Date('2025-03-01T09:00:00Z'),
+    status: 'pending',
+    postUrn: null,
+    error: null,
+    createdAt: new Date('2025-02-20T09:00:00Z'),
+  };
+  const document = { id: 1, userId: 3, originalName: 'Quarterly Review.pdf', fileName: 'pdf-1.pdf', customizations: null };
+  const user = { id: 3, username: 'casey', linkedinId: 'abc123', linkedinToken: 'token' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getDueScheduledShares).mockResolvedValue([share] as any);
+    vi.mocked(storage.getDocument).mockResolvedValue(document as any);
+    vi.mocked(storage.getUser).mockResolvedValue(user as any);
+    vi.mocked(storage.claimScheduledShare).mockResolvedValue(true);
+  });
+
+  it('posts due shares and records the post', async () => {
+    const client = new FakeLinkedInClient();
+
+    await new ShareScheduler(client).runDueShares(new Date('2025-03-01T09:00:30Z'));
+
+    const [postUrn, post] = Array.from(client.posts)[0];
+    expect(post).toMatchObject({ author: personUrn('abc123'), title: 'Quarterly Review', hashtags: ['results'] });
+    expect(storage.claimScheduledShare).toHaveBeenCalledWith(5, new Date('2025-03-01T09:00:30Z'));
+    expect(storage.updateScheduledShare).toHaveBeenCalledWith(5, { status: 'posted', postUrn });
+    expect(storage.setDocumentLinkedinPost).toHaveBeenCalledWith(1, postUrn);
+  });
+
+  it('marks a share as failed when LinkedIn rejects it', async () => {
+    const client = new FakeLinkedInClient();
+    client.expireToken('token');
+
+    await new ShareScheduler(client).runDueShares();
+
+    expect(client.posts.size).toBe(0);
+    expect(storage.updateScheduledShare).toHaveBeenLastCalledWith(5, {
+      status: 'failed',
+      error: 'LinkedIn access token has expired',
+    });
+  });
+
+  it('leaves shares claimed elsewhere to whoever claimed them', async () => {
+    const client = new FakeLinkedInClient();
+    vi.mocked(storage.claimScheduledShare).mockResolvedValue(false);
+
+    await new ShareScheduler(client).runDueShares();
+
+    expect(client.posts.size).toBe(0);
+    expect(storage.updateScheduledShare).not.toHaveBeenCalled();
+  });
+
+  it('fails shares left posting by a server that stopped', async () => {
+    await new ShareScheduler(new FakeLinkedInClient()).runDueShares(new Date('2025-03-01T09:30:00Z'));
+
+    expect(storage.failStuckScheduledShares).toHaveBeenCalledWith(new Date('2025-03-01T09:15:00Z'), expect.stringContaining('interrupted'));
+  });
+
+  it('does not start a second run while one is in progress', async () => {
+    const scheduler = new ShareScheduler(new FakeLinkedInClient());
+
+    await Promise.all([scheduler.runDueShares(), scheduler.runDueShares()]);
+
+    expect(storage.getDueScheduledShares).toHaveBeenCalledTimes(1);
+  });
+});
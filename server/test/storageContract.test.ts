@@ -0,0 +1,456 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { documentListQuerySchema } from '@shared/documentLibrary';
+import { templateLayouts } from '@shared/templateLayouts';
+import { createDatabase, type DatabaseConnection } from '../db';
+import { DatabaseStorage, type IStorage } from '../storage';
+import { MemStorage } from '../memStorage';
+
+// Every IStorage implementation has to behave the same. The suite runs
+// against MemStorage, and against MySQL when TEST_DATABASE_URL names a
+// migrated database. Rows are named uniquely per run, so it can share that
+// database with earlier runs.
+function describeStorage(name: string, setup: () => Promise<{ storage: IStorage; teardown?: () => Promise<void> }>) {
+  describe(name, () => {
+    let storage: IStorage;
+    let teardown: (() => Promise<void>) | undefined;
+
+    const run = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    let counter = 0;
+    const unique = (prefix: string) => `${prefix}-${run}-${++counter}`;
+    const publicId = () => `${run}${++counter}`.padEnd(32, '0').slice(0, 32);
+
+    // MySQL keeps timestamps to the second
+    const inOneHour = () => new Date(Math.floor(Date.now() / 1000) * 1000 + 60 * 60 * 1000);
+    const anHourAgo = () => new Date(Math.floor(Date.now() / 1000) * 1000 - 60 * 60 * 1000);
+
+    const createUser = (fields: { fullName?: string } = {}) =>
+      storage.createUser({ username: unique('user'), ...fields });
+
+    const createDocument = (fields: { userId?: number | null; originalName?: string; customizations?: unknown } = {}) =>
+      storage.createDocument({ publicId: publicId(), originalName: 'Deck.pdf', fileName: `${unique('file')}.pdf`, ...fields });
+
+    const listQuery = (query: Record<string, string> = {}) => documentListQuerySchema.parse(query);
+
+    beforeAll(async () => {
+      ({ storage, teardown } = await setup());
+    });
+
+    afterAll(async () => {
+      await teardown?.();
+    });
+
+    describe('users', () => {
+      it('creates users with defaults and finds them', async () => {
+        const linkedinId = unique('linkedin');
+        const user = await storage.createUser({ username: unique('user'), email: `${unique('mail')}@example.com`, linkedinId });
+
+        expect(user).toMatchObject({ emailVerified: false, password: null, linkedinToken: null, fullName: null });
+        expect(await storage.getUser(user.id)).toEqual(user);
+        expect(await storage.getUserByUsername(user.username)).toEqual(user);
+        expect(await storage.getUserByLinkedinId(linkedinId)).toEqual(user);
+        expect(await storage.getUserByEmail(user.email!)).toEqual(user);
+        expect(await storage.getUser(-1)).toBeUndefined();
+        expect(await storage.getUserByUsername(unique('nobody'))).toBeUndefined();
+      });
+
+      it('rejects taken usernames', async () => {
+        const user = await createUser();
+
+        await expect(storage.createUser({ username: user.username })).rejects.toThrow();
+      });
+
+      it('updates passwords, verification and LinkedIn tokens', async () => {
+        const user = await createUser();
+        const expiresAt = inOneHour();
+
+        expect((await storage.updateUserPassword(user.id, 'hash')).password).toBe('hash');
+        expect((await storage.setUserEmailVerified(user.id)).emailVerified).toBe(true);
+        expect(await storage.updateUserLinkedinTokens(user.id, { linkedinToken: 'token', linkedinRefreshToken: null, linkedinTokenExpiresAt: expiresAt }))
+          .toMatchObject({ linkedinToken: 'token', linkedinRefreshToken: null, linkedinTokenExpiresAt: expiresAt, password: 'hash' });
+      });
+
+      it('links LinkedIn accounts to existing users', async () => {
+        const user = await createUser();
+        const linkedinId = unique('linkedin');
+        const taken = await storage.createUser({ username: unique('user'), linkedinId: unique('linkedin') });
+        const link = { linkedinId, linkedinToken: 'token', linkedinRefreshToken: 'refresh', linkedinTokenExpiresAt: inOneHour(), password: null };
+
+        expect(await storage.linkLinkedinAccount(user.id, link)).toMatchObject({ ...link, emailVerified: true });
+        expect((await storage.getUserByLinkedinId(linkedinId))?.id).toBe(user.id);
+        await expect(storage.linkLinkedinAccount(user.id, { ...link, linkedinId: taken.linkedinId })).rejects.toThrow();
+      });
+    });
+
+    describe('auth tokens', () => {
+      it('finds tokens by purpose and hash and marks them used', async () => {
+        const user = await createUser();
+        const tokenHash = unique('hash');
+        const token = await storage.createAuthToken({ userId: user.id, purpose: 'verify-email', tokenHash, expiresAt: inOneHour() });
+
+        expect(token.usedAt).toBeNull();
+        expect(await storage.getAuthToken('reset-password', tokenHash)).toBeUndefined();
+        expect((await storage.getAuthToken('verify-email', tokenHash))?.id).toBe(token.id);
+
+        await storage.markAuthTokenUsed(token.id);
+        expect((await storage.getAuthToken('verify-email', tokenHash))?.usedAt).toBeInstanceOf(Date);
+      });
+    });
+
+    describe('sessions', () => {
+      it('keeps sessions until they expire', async () => {
+        const sid = unique('sid');
+        const now = new Date();
+        const expiresAt = inOneHour();
+
+        await storage.setSession(sid, '{"a":1}', expiresAt);
+        expect(await storage.getSession(sid, now)).toEqual({ sid, data: '{"a":1}', expiresAt });
+
+        await storage.setSession(sid, '{"a":2}', expiresAt);
+        expect((await storage.getSession(sid, now))?.data).toBe('{"a":2}');
+
+        await storage.touchSession(sid, anHourAgo());
+        expect(await storage.getSession(sid, now)).toBeUndefined();
+      });
+
+      it('destroys sessions and sweeps expired ones', async () => {
+        const destroyed = unique('sid');
+        const expired = unique('sid');
+        const live = unique('sid');
+        await storage.setSession(destroyed, '{}', inOneHour());
+        await storage.setSession(expired, '{}', anHourAgo());
+        await storage.setSession(live, '{}', inOneHour());
+
+        await storage.destroySession(destroyed);
+        await storage.deleteExpiredSessions(new Date());
+
+        expect(await storage.getSession(destroyed, new Date(0))).toBeUndefined();
+        expect(await storage.getSession(expired, new Date(0))).toBeUndefined();
+        expect(await storage.getSession(live, new Date(0))).toBeDefined();
+      });
+    });
+
+    describe('documents', () => {
+      it('creates documents with defaults and finds them by public ID', async () => {
+        const document = await createDocument();
+
+        expect(document).toMatchObject({ userId: null, isModified: false, customizations: null, linkedinPostUrn: null, deletedAt: null });
+        expect(document.createdAt).toBeInstanceOf(Date);
+        expect(await storage.getDocument(document.id)).toEqual(document);
+        expect(await storage.getDocumentByPublicId(document.publicId)).toEqual(document);
+        expect(await storage.getDocumentByPublicId('0'.repeat(32))).toBeUndefined();
+      });
+
+      it('rejects taken public IDs', async () => {
+        const document = await createDocument();
+
+        await expect(storage.createDocument({ publicId: document.publicId, originalName: 'Copy.pdf', fileName: 'copy.pdf' })).rejects.toThrow();
+      });
+
+      it('saves customizations as versions with their author', async () => {
+        const author = await createUser({ fullName: 'Ada Lovelace' });
+        const document = await createDocument({ userId: author.id });
+
+        await storage.updateDocumentCustomizations(document.id, { title: 'First' }, author.id);
+        const updated = await storage.updateDocumentCustomizations(document.id, { title: 'Second' });
+
+        expect(updated.isModified).toBe(true);
+        expect(JSON.parse(updated.customizations as string)).toEqual({ title: 'Second' });
+
+        const versions = await storage.getDocumentVersions(document.id);
+        expect(versions.map(version => [version.customizations, version.authorName])).toEqual([
+          [{ title: 'Second' }, null],
+          [{ title: 'First' }, 'Ada Lovelace'],
+        ]);
+        expect(await storage.getDocumentVersion(versions[1].id)).toMatchObject({ documentId: document.id, userId: author.id });
+      });
+
+      it('records LinkedIn posts', async () => {
+        const document = await createDocument();
+
+        expect((await storage.setDocumentLinkedinPost(document.id, 'urn:li:share:1')).linkedinPostUrn).toBe('urn:li:share:1');
+      });
+
+      it('only claims anonymous documents', async () => {
+        const owner = await createUser();
+        const claimer = await createUser();
+        const anonymous = await storage.createDocument({ publicId: publicId(), originalName: 'A.pdf', fileName: 'a.pdf', claimTokenHash: 'hash' });
+        const owned = await createDocument({ userId: owner.id });
+
+        await storage.claimDocuments([anonymous.id, owned.id], claimer.id);
+
+        expect(await storage.getDocument(anonymous.id)).toMatchObject({ userId: claimer.id, claimTokenHash: null });
+        expect((await storage.getDocument(owned.id))?.userId).toBe(owner.id);
+      });
+
+      it('lists the five most recent documents that are not deleted', async () => {
+        const user = await createUser();
+        const documents = [];
+        for (let i = 0; i < 7; i++) {
+          documents.push(await createDocument({ userId: user.id }));
+        }
+        await storage.softDeleteDocuments([documents[0].id], new Date());
+
+        const recent = await storage.getRecentDocuments(user.id);
+
+        expect(recent).toHaveLength(5);
+        expect(recent.map(document => document.id)).not.toContain(documents[0].id);
+      });
+
+      it('soft deletes and restores documents', async () => {
+        const document = await createDocument();
+        const deletedAt = anHourAgo();
+
+        await storage.softDeleteDocuments([document.id], deletedAt);
+        // Deleting again keeps the first deletion date
+        await storage.softDeleteDocuments([document.id], new Date());
+        expect((await storage.getDocument(document.id))?.deletedAt).toEqual(deletedAt);
+
+        await storage.restoreDocuments([document.id]);
+        expect((await storage.getDocument(document.id))?.deletedAt).toBeNull();
+      });
+
+      it('finds expired anonymous and deleted documents', async () => {
+        const user = await createUser();
+        const anonymous = await createDocument();
+        const owned = await createDocument({ userId: user.id });
+        const deletedLongAgo = await createDocument({ userId: user.id });
+        const deletedRecently = await createDocument({ userId: user.id });
+        await storage.softDeleteDocuments([deletedLongAgo.id], new Date('2020-01-01T00:00:00Z'));
+        await storage.softDeleteDocuments([deletedRecently.id], anHourAgo());
+
+        const ids = [anonymous.id, owned.id, deletedLongAgo.id, deletedRecently.id];
+        const expired = await storage.getExpiredDocuments(inOneHour(), new Date('2021-01-01T00:00:00Z'));
+
+        expect(expired.map(document => document.id).filter(id => ids.includes(id)).sort((a, b) => a - b))
+          .toEqual([anonymous.id, deletedLongAgo.id]);
+        expect((await storage.getAllDocuments()).map(document => document.id)).toEqual(expect.arrayContaining(ids));
+      });
+
+      it('deletes documents with their versions and scheduled shares', async () => {
+        const user = await createUser();
+        const document = await createDocument({ userId: user.id });
+        await storage.updateDocumentCustomizations(document.id, { title: 'Gone' }, user.id);
+        const share = await storage.createScheduledShare({
+          documentId: document.id, userId: user.id, commentary: 'Soon', hashtags: [], mentions: [], visibility: 'PUBLIC', scheduledAt: inOneHour(),
+        });
+
+        const job = await storage.createJob({ publicId: publicId(), documentId: document.id, kind: 'modified-pdf', customizations: { title: 'Gone' } });
+
+        await storage.deleteDocuments([document.id]);
+
+        expect(await storage.getDocument(document.id)).toBeUndefined();
+        expect(await storage.getDocumentVersions(document.id)).toEqual([]);
+        expect(await storage.getScheduledShare(share.id)).toBeUndefined();
+        expect(await storage.getJobByPublicId(job.publicId)).toBeUndefined();
+      });
+    });
+
+    describe('listDocuments', () => {
+      let userId: number;
+      let ids: Record<string, number>;
+
+      beforeAll(async () => {
+        const user = await createUser();
+        userId = user.id;
+        const alpha = await createDocument({ userId, originalName: 'alpha.pdf' });
+        const bravo = await createDocument({ userId, originalName: 'Bravo.pdf' });
+        const charlie = await createDocument({ userId, originalName: 'charlie.pdf' });
+        const deleted = await createDocument({ userId, originalName: 'Deleted.pdf' });
+        // Someone else's document is never listed
+        await createDocument({ userId: (await createUser()).id, originalName: 'alpha.pdf' });
+
+        await storage.updateDocumentCustomizations(bravo.id, { title: 'Quarterly Review', templateId: 2 });
+        await storage.updateDocumentCustomizations(charlie.id, { title: 'Roadmap', templateId: 3 });
+        await storage.softDeleteDocuments([deleted.id], new Date());
+        ids = { alpha: alpha.id, bravo: bravo.id, charlie: charlie.id, deleted: deleted.id };
+      });
+
+      const names = async (query: Record<string, string> = {}) =>
+        (await storage.listDocuments(userId, listQuery(query))).documents.map(document => document.originalName);
+
+      it('sorts by name, ignoring case', async () => {
+        expect(await names({ sort: 'name' })).toEqual(['alpha.pdf', 'Bravo.pdf', 'charlie.pdf']);
+      });
+
+      it('lists recent documents first', async () => {
+        const { documents } = await storage.listDocuments(userId, listQuery());
+
+        expect(documents.map(document => document.id)).toEqual([ids.charlie, ids.bravo, ids.alpha]);
+      });
+
+      it('searches file names and cover titles, ignoring case', async () => {
+        expect(await names({ search: 'ALPHA' })).toEqual(['alpha.pdf']);
+        expect(await names({ search: 'quarterly' })).toEqual(['Bravo.pdf']);
+        expect(await names({ search: 'nothing like it' })).toEqual([]);
+      });
+
+      it('filters by template and modification', async () => {
+        expect(await names({ templateId: '3' })).toEqual(['charlie.pdf']);
+        expect(await names({ modified: 'true', sort: 'name' })).toEqual(['Bravo.pdf', 'charlie.pdf']);
+        expect(await names({ modified: 'false' })).toEqual(['alpha.pdf']);
+      });
+
+      it('filters by creation date', async () => {
+        expect(await names({ from: '2000-01-01', sort: 'name' })).toEqual(['alpha.pdf', 'Bravo.pdf', 'charlie.pdf']);
+        expect(await names({ to: '2000-01-01' })).toEqual([]);
+      });
+
+      it('lists deleted documents separately', async () => {
+        expect(await names({ deleted: 'true' })).toEqual(['Deleted.pdf']);
+      });
+
+      it('pages through documents with the total', async () => {
+        const { documents, total } = await storage.listDocuments(userId, listQuery({ sort: 'name', page: '2', pageSize: '2' }));
+
+        expect(total).toBe(3);
+        expect(documents.map(document => document.originalName)).toEqual(['charlie.pdf']);
+      });
+    });
+
+    describe('scheduled shares', () => {
+      it('schedules shares and finds the due ones in order', async () => {
+        const user = await createUser();
+        const document = await createDocument({ userId: user.id });
+        const schedule = (scheduledAt: Date) => storage.createScheduledShare({
+          documentId: document.id, userId: user.id, commentary: 'Out now', hashtags: ['launch'], mentions: [], visibility: 'PUBLIC', scheduledAt,
+        });
+        const later = await schedule(new Date('2020-01-02T00:00:00Z'));
+        const earlier = await schedule(new Date('2020-01-01T00:00:00Z'));
+        const future = await schedule(inOneHour());
+        const posted = await schedule(new Date('2020-01-01T12:00:00Z'));
+
+        expect(earlier).toMatchObject({ status: 'pending', postUrn: null, error: null, hashtags: ['launch'] });
+        expect(await storage.updateScheduledShare(posted.id, { status: 'posted', postUrn: 'urn:li:share:2' }))
+          .toMatchObject({ status: 'posted', postUrn: 'urn:li:share:2' });
+
+        const ids = [later.id, earlier.id, future.id, posted.id];
+        const due = (await storage.getDueScheduledShares(new Date())).filter(share => ids.includes(share.id));
+        expect(due.map(share => share.id)).toEqual([earlier.id, later.id]);
+        expect((await storage.getDocumentScheduledShares(document.id)).map(share => share.id))
+          .toEqual([earlier.id, posted.id, later.id, future.id]);
+      });
+
+      it('lets one run claim a share and fails shares stuck posting', async () => {
+        const user = await createUser();
+        const document = await createDocument({ userId: user.id });
+        const schedule = () => storage.createScheduledShare({
+          documentId: document.id, userId: user.id, commentary: 'Out now', hashtags: [], mentions: [], visibility: 'PUBLIC', scheduledAt: new Date('2020-01-01T00:00:00Z'),
+        });
+        const stuck = await schedule();
+        const posting = await schedule();
+
+        expect(await storage.claimScheduledShare(stuck.id, anHourAgo())).toBe(true);
+        expect(await storage.claimScheduledShare(stuck.id, new Date())).toBe(false);
+        expect(await storage.claimScheduledShare(posting.id, new Date())).toBe(true);
+
+        await storage.failStuckScheduledShares(new Date(Date.now() - 60 * 1000), 'Interrupted');
+
+        expect(await storage.getScheduledShare(stuck.id)).toMatchObject({ status: 'failed', error: 'Interrupted' });
+        expect(await storage.getScheduledShare(posting.id)).toMatchObject({ status: 'posting', error: null });
+      });
+    });
+
+    describe('assets', () => {
+      it("keeps each user's images", async () => {
+        const user = await createUser();
+        const asset = await storage.createAsset({ publicId: publicId(), userId: user.id, originalName: 'logo.png', fileName: `${unique('asset')}.png`, mimeType: 'image/png', size: 42 });
+
+        expect(await storage.getAsset(asset.id)).toEqual(asset);
+        expect(await storage.getAssetByPublicId(asset.publicId)).toEqual(asset);
+        expect(await storage.getAssetByPublicId('0'.repeat(32))).toBeUndefined();
+        expect(await storage.getUserAssets(user.id)).toEqual([asset]);
+        expect(await storage.getUserAssets((await createUser()).id)).toEqual([]);
+        expect(await storage.getAllAssets()).toContainEqual(asset);
+      });
+    });
+
+    describe('jobs', () => {
+      it('queues jobs and tracks them until they finish', async () => {
+        const document = await createDocument();
+        const createJob = () => storage.createJob({ publicId: publicId(), documentId: document.id, kind: 'cover-preview', customizations: { title: 'Cover', templateId: 1 } });
+        const first = await createJob();
+        const second = await createJob();
+        const third = await createJob();
+
+        expect(first).toMatchObject({ status: 'queued', progress: 0, resultKey: null, error: null, startedAt: null, finishedAt: null });
+        expect(first.customizations).toEqual({ title: 'Cover', templateId: 1 });
+        expect(await storage.getJobByPublicId(first.publicId)).toEqual(first);
+
+        const startedAt = anHourAgo();
+        expect(await storage.updateJob(second.id, { status: 'running', progress: 40, startedAt }))
+          .toMatchObject({ status: 'running', progress: 40, startedAt });
+        await storage.updateJob(first.id, { status: 'completed', progress: 100, resultKey: 'previews/cover.pdf', finishedAt: new Date() });
+
+        const ids = [first.id, second.id, third.id];
+        const stale = (await storage.getStaleJobs(new Date(Date.now() + 1000))).filter(job => ids.includes(job.id));
+        expect(stale.map(job => job.id)).toEqual([second.id, third.id]);
+        expect((await storage.getStaleJobs(anHourAgo())).filter(job => ids.includes(job.id))).toEqual([]);
+      });
+
+      it('hands stale jobs to one worker and keeps heartbeats current', async () => {
+        const document = await createDocument();
+        const createJob = (workerId: string, heartbeatAt: Date) => storage.createJob({ publicId: publicId(), documentId: document.id, kind: 'modified-pdf', customizations: { templateId: 1 }, workerId, heartbeatAt });
+        const stale = await createJob('stopped', anHourAgo());
+        const live = await createJob('running', anHourAgo());
+        await storage.updateJob(stale.id, { status: 'running', progress: 40 });
+        const staleBefore = new Date(Date.now() - 60 * 1000);
+
+        await storage.heartbeatJobs('running');
+        expect((await storage.getStaleJobs(staleBefore)).map(job => job.id)).toContain(stale.id);
+        expect((await storage.getStaleJobs(staleBefore)).map(job => job.id)).not.toContain(live.id);
+
+        expect(await storage.claimStaleJob(stale.id, 'taking-over', staleBefore)).toMatchObject({ workerId: 'taking-over', status: 'queued', progress: 0 });
+        expect(await storage.claimStaleJob(stale.id, 'too-late', staleBefore)).toBeUndefined();
+        expect(await storage.claimStaleJob(live.id, 'taking-over', staleBefore)).toBeUndefined();
+      });
+
+      it('deletes jobs that finished before a date', async () => {
+        const document = await createDocument();
+        const createJob = () => storage.createJob({ publicId: publicId(), documentId: document.id, kind: 'modified-pdf', customizations: { templateId: 1 } });
+        const old = await createJob();
+        const recent = await createJob();
+        const unfinished = await createJob();
+        await storage.updateJob(old.id, { status: 'completed', finishedAt: anHourAgo() });
+        await storage.updateJob(recent.id, { status: 'failed', finishedAt: new Date() });
+
+        await storage.deleteFinishedJobs(new Date(Date.now() - 60 * 1000));
+
+        expect(await storage.getJobByPublicId(old.publicId)).toBeUndefined();
+        expect(await storage.getJobByPublicId(recent.publicId)).toBeDefined();
+        expect(await storage.getJobByPublicId(unfinished.publicId)).toBeDefined();
+      });
+    });
+
+    describe('templates', () => {
+      it('creates templates and updates their layouts', async () => {
+        const template = await storage.createTemplate({ name: unique('template'), imagePath: '/templates/minimal-white.svg', category: 'Minimalist' });
+
+        expect(template.layout).toBeNull();
+        expect(template.version).toBe(1);
+        expect((await storage.getAllTemplates()).map(t => t.id)).toContain(template.id);
+
+        const updated = await storage.updateTemplateLayout(template.id, templateLayouts['Minimal White']);
+        expect(updated.version).toBe(2);
+        expect((await storage.getTemplate(template.id))?.layout).toEqual(templateLayouts['Minimal White']);
+      });
+
+      it('returns the new template when another has the same name', async () => {
+        const name = unique('template');
+        const first = await storage.createTemplate({ name, imagePath: '/templates/minimal-white.svg', category: 'Minimalist' });
+        const second = await storage.createTemplate({ name, imagePath: '/templates/corporate-blue.svg', category: 'Business' });
+
+        expect(second.id).not.toBe(first.id);
+        expect(second.imagePath).toBe('/templates/corporate-blue.svg');
+      });
+    });
+  });
+}
+
+describeStorage('MemStorage', async () => ({ storage: new MemStorage() }));
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)('against MySQL', () => {
+  describeStorage('DatabaseStorage', async () => {
+    const connection: DatabaseConnection = createDatabase(process.env.TEST_DATABASE_URL!);
+    return { storage: new DatabaseStorage(connection.db), teardown: () => connection.pool.end() };
+  });
+});
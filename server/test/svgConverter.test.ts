@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { PDFDocument, rgb } from 'pdf-lib';
+import { SvgParseError, drawSvg, parseColor, parseSvg, parseTransform } from '@shared/svgConverter';
+
+const LOGO_PATH = path.resolve(__dirname, 'fixtures', 'images', 'logo.svg');
+
+describe('SVG converter', () => {
+  it('converts shapes to paths with inherited styles', () => {
+    const drawing = parseSvg(fs.readFileSync(LOGO_PATH, 'utf-8'));
+
+    expect(drawing.viewBox).toEqual([0, 0, 200, 80]);
+    // Rotated square, dot, two bars and the underline; text is skipped
+    expect(drawing.shapes).toHaveLength(5);
+
+    const [mark, dot, bar, fadedBar, underline] = drawing.shapes;
+    // Gradient fills fall back to their first stop
+    expect(mark.fill).toEqual(parseColor('#0F766E'));
+    expect(mark.transform[4]).toBeCloseTo(40);
+    expect(dot.d).toMatch(/^M31 40A9 9/);
+    expect(bar.fill).toEqual(parseColor('#134E4A'));
+    expect(fadedBar.fillOpacity).toBeCloseTo(0.6);
+    expect(underline.fill).toBeUndefined();
+    expect(underline.stroke).toEqual(parseColor('#14B8A6'));
+    expect(underline.strokeWidth).toBe(3);
+  });
+
+  it('falls back to width and height without a viewBox', () => {
+    expect(parseSvg('<svg width="120px" height="40"><path d="M0 0H10V10Z"/></svg>').viewBox).toEqual([0, 0, 120, 40]);
+    expect(parseSvg('<svg width="100%"><path d="M0 0H10V10Z"/></svg>').viewBox).toEqual([0, 0, 300, 150]);
+  });
+
+  it('skips hidden and unpainted shapes', () => {
+    const drawing = parseSvg(`
+      <svg viewBox="0 0 10 10">
+        <rect width="5" height="5" fill="none"/>
+        <rect width="5" height="5" style="display:none"/>
+        <g visibility="hidden"><circle r="2"/></g>
+        <rect width="5" height="5" fill="rgb(255, 0, 0)"/>
+      </svg>
+    `);
+    expect(drawing.shapes).toHaveLength(1);
+    expect(drawing.shapes[0].fill).toEqual(rgb(1, 0, 0));
+  });
+
+  it('composes transforms in SVG order', () => {
+    const [a, b, c, d, e, f] = parseTransform('translate(10, 20) scale(2)');
+    expect([a, b, c, d, e, f]).toEqual([2, 0, 0, 2, 10, 20]);
+
+    const rotated = parseTransform('rotate(90 5 5)');
+    expect(rotated[4]).toBeCloseTo(10);
+    expect(rotated[5]).toBeCloseTo(0);
+  });
+
+  it('rejects documents that are not SVG', () => {
+    expect(() => parseSvg('<html><body/></html>')).toThrow(SvgParseError);
+    expect(() => parseSvg('<svg><g></svg>')).toThrow(SvgParseError);
+    expect(() => parseSvg('not markup at all')).toThrow(SvgParseError);
+  });
+
+  it('rejects path data that cannot be drawn', () => {
+    for (const d of ['M10 10 Q', 'M10 10 L5', 'L10 10', 'M10 10 X5 5', 'M10 10 L5 five']) {
+      expect(() => parseSvg(`<svg viewBox="0 0 10 10"><path d="${d}"/></svg>`)).toThrow(SvgParseError);
+    }
+    expect(parseSvg('<svg viewBox="0 0 10 10"><path d="m1e1,1.5l-3-4 .5.5zM0 0h5v5H0z"/></svg>').shapes).toHaveLength(1);
+  });
+
+  it('skips shapes that fail to draw', async () => {
+    const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+    const page = pdfDoc.addPage([612, 792]);
+    const shape = { transform: [1, 0, 0, 1, 5, 5] as [number, number, number, number, number, number], fill: rgb(0, 0, 0), fillOpacity: 1, strokeWidth: 0, strokeOpacity: 1 };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    drawSvg(page, { viewBox: [0, 0, 10, 10], shapes: [{ ...shape, d: 'M10 10 Q' }, { ...shape, d: 'M0 0H5V5Z' }] }, { x: 0, y: 0, width: 100, height: 100 });
+
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    await expect(PDFDocument.load(await pdfDoc.save())).resolves.toBeDefined();
+  });
+
+  it('draws into a PDF that loads back', async () => {
+    const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+    const page = pdfDoc.addPage([612, 792]);
+    drawSvg(page, parseSvg(fs.readFileSync(LOGO_PATH, 'utf-8')), { x: 100, y: 100, width: 200, height: 80 });
+
+    await expect(PDFDocument.load(await pdfDoc.save())).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { PDFDocument, StandardFonts, type PDFFont } from 'pdf-lib';
+import { breakLines, layoutText } from '@shared/textLayout';
+
+describe('Text layout', () => {
+  let font: PDFFont;
+  const box = { x: 50, y: 500, width: 512, height: 80 };
+
+  beforeAll(async () => {
+    const pdfDoc = await PDFDocument.create();
+    font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  });
+
+  it('centers a line by its measured width', () => {
+    const layout = layoutText('Quarterly Review', font, box, { size: 32, align: 'center' });
+    const width = font.widthOfTextAtSize('Quarterly Review', 32);
+
+    expect(layout.lines).toHaveLength(1);
+    expect(layout.lines[0].x).toBeCloseTo(50 + (512 - width) / 2);
+  });
+
+  it('ends right-aligned lines at the right edge of the box', () => {
+    const layout = layoutText('Quarterly Review', font, box, { size: 32, align: 'right' });
+    const line = layout.lines[0];
+
+    expect(line.x + line.width).toBeCloseTo(562);
+  });
+
+  it('wraps long text at word boundaries within the box width', () => {
+    const lines = breakLines('The quick brown fox jumps over the lazy dog', font, 32, 300);
+
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(font.widthOfTextAtSize(line, 32)).toBeLessThanOrEqual(300);
+    }
+    expect(lines.join(' ')).toBe('The quick brown fox jumps over the lazy dog');
+  });
+
+  it('breaks words that are wider than the box', () => {
+    const lines = breakLines('Supercalifragilisticexpialidocious', font, 32, 150);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join('')).toBe('Supercalifragilisticexpialidocious');
+  });
+
+  it('shrinks long titles until they fit the box', () => {
+    const title = 'A Comprehensive Review of Our Strategic Priorities for the Coming Fiscal Year';
+    const layout = layoutText(title, font, box, { size: 48, minSize: 12 });
+
+    expect(layout.size).toBeLessThan(48);
+    expect(layout.size).toBeGreaterThanOrEqual(12);
+    const bottom = layout.lines[layout.lines.length - 1].y - (font.heightAtSize(layout.size) - font.heightAtSize(layout.size, { descender: false }));
+    expect(bottom).toBeGreaterThanOrEqual(box.y - 0.001);
+  });
+
+  it('keeps the requested size when the text already fits', () => {
+    const layout = layoutText('Short', font, box, { size: 32, minSize: 12 });
+    expect(layout.size).toBe(32);
+  });
+
+  it('truncates with an ellipsis when text cannot fit at the minimum size', () => {
+    const text = Array(40).fill('overflowing').join(' ');
+    const layout = layoutText(text, font, { x: 0, y: 0, width: 200, height: 30 }, { size: 24, minSize: 20 });
+
+    expect(layout.size).toBe(20);
+    expect(layout.lines).toHaveLength(1);
+    expect(layout.lines[0].text.endsWith('…')).toBe(true);
+    expect(layout.lines[0].width).toBeLessThanOrEqual(200);
+  });
+
+  it('anchors the last line to the box bottom when bottom-aligned', () => {
+    const top = layoutText('One line', font, box, { size: 20, valign: 'top' });
+    const bottom = layoutText('One line', font, box, { size: 20, valign: 'bottom' });
+
+    expect(top.lines[0].y).toBeGreaterThan(bottom.lines[0].y);
+    expect(bottom.lines[0].y).toBeGreaterThan(box.y);
+    expect(bottom.lines[0].y).toBeLessThan(box.y + 20);
+  });
+});
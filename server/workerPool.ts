@@ -0,0 +1,119 @@
+import os from "os";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { Worker } from "worker_threads";
+import type { RenderTask } from "./renderTask";
+
+// Messages between the pool and its PDF worker threads
+export interface WorkerRequest {
+  task: RenderTask;
+}
+
+export type WorkerResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+interface PendingTask {
+  task: RenderTask;
+  onProgress: (fraction: number) => void;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// Runs render tasks on a fixed number of worker threads, so rendering never
+// blocks the server's event loop. Workers are started as they're needed and
+// kept for later tasks; tasks wait while every worker is busy.
+export class WorkerPool {
+  private idle: Worker[] = [];
+  private busy = new Map<Worker, PendingTask>();
+  private waiting: PendingTask[] = [];
+
+  constructor(private workerFile: string, readonly size: number) {}
+
+  run(task: RenderTask, onProgress: (fraction: number) => void = () => {}): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ task, onProgress, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  // Stop every worker; tasks in progress or waiting fail
+  async close(): Promise<void> {
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach(pending => pending.reject(new Error('PDF workers stopped')));
+
+    const workers = [...this.idle, ...Array.from(this.busy.keys())];
+    this.idle = [];
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch() {
+    while (this.waiting.length > 0 && (this.idle.length > 0 || this.busy.size < this.size)) {
+      const worker = this.idle.pop() ?? this.spawn();
+      const pending = this.waiting.shift()!;
+      this.busy.set(worker, pending);
+      // Keep the process alive while the worker has work
+      worker.ref();
+      worker.postMessage({ task: pending.task } satisfies WorkerRequest);
+    }
+  }
+
+  private spawn(): Worker {
+    // TypeScript sources, in development and tests, are loaded through tsx
+    const worker = this.workerFile.endsWith('.ts')
+      ? new Worker(
+        `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(pathToFileURL(this.workerFile).href)}); })`,
+        { eval: true },
+      )
+      : new Worker(this.workerFile);
+
+    worker.on('message', (message: WorkerResponse) => {
+      const pending = this.busy.get(worker);
+      if (!pending) return;
+
+      if (message.type === 'progress') {
+        pending.onProgress(message.fraction);
+        return;
+      }
+
+      this.busy.delete(worker);
+      worker.unref();
+      this.idle.push(worker);
+      if (message.type === 'done') {
+        pending.resolve();
+      } else {
+        pending.reject(new Error(message.message));
+      }
+      this.dispatch();
+    });
+
+    // A worker that crashes or is terminated takes its task with it
+    worker.on('error', error => this.retire(worker, error));
+    worker.on('exit', code => this.retire(worker, new Error(`PDF worker stopped with exit code ${code}`)));
+
+    return worker;
+  }
+
+  private retire(worker: Worker, error: Error) {
+    this.idle = this.idle.filter(idleWorker => idleWorker !== worker);
+    const pending = this.busy.get(worker);
+    if (pending) {
+      this.busy.delete(worker);
+      pending.reject(error);
+      this.dispatch();
+    }
+  }
+}
+
+// The worker entry point sits next to this module, as TypeScript in
+// development and as JavaScript once bundled into dist/
+const moduleFile = fileURLToPath(import.meta.url);
+const WORKER_FILE = path.join(path.dirname(moduleFile), `pdfWorker${path.extname(moduleFile)}`);
+
+// PDF_WORKERS sets how many PDFs can be rendered at once
+export const renderWorkers = new WorkerPool(
+  WORKER_FILE,
+  Number(process.env.PDF_WORKERS) || Math.max(1, Math.min(4, os.cpus().length - 1)),
+);
@@ -0,0 +1,184 @@
+import {
+  PDFDict,
+  PDFName,
+  PDFOperator,
+  PDFOperatorNames,
+  closePath,
+  drawEllipse,
+  fill,
+  lineTo,
+  moveTo,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  setFillingRgbColor,
+  setGraphicsState,
+  type PDFPage,
+  type PDFRef,
+} from "pdf-lib";
+import {
+  getBackgroundFill,
+  linearGradientLine,
+  normalizeOpacity,
+  type BackgroundFill,
+  type PatternShape,
+} from "./backgroundStyles";
+import { hexToRgb } from "./layoutRenderer";
+
+// Paint one of the editor's background styles over the whole page. Gradients
+// are axial shadings and patterns are tiling patterns, so both stay vector and
+// resolution independent; opacity is applied through an ExtGState.
+export function drawBackgroundStyle(page: PDFPage, backgroundStyle?: string, backgroundOpacity?: number) {
+  const backgroundFill = getBackgroundFill(backgroundStyle);
+  const opacity = normalizeOpacity(backgroundOpacity);
+  if (!backgroundFill || opacity === 0) {
+    return;
+  }
+  drawBackgroundFill(page, backgroundFill, opacity);
+}
+
+export function drawBackgroundFill(page: PDFPage, backgroundFill: BackgroundFill, opacity = 1) {
+  const { width, height } = page.getSize();
+
+  switch (backgroundFill.type) {
+    case 'solid': {
+      const { r, g, b } = hexToRgb(backgroundFill.color);
+      page.drawRectangle({ x: 0, y: 0, width, height, color: rgb(r, g, b), opacity });
+      break;
+    }
+
+    case 'linear-gradient': {
+      const shading = addPageResource(page, 'Shading', 'Sh', createAxialShading(page, backgroundFill, width, height));
+      page.pushOperators(
+        pushGraphicsState(),
+        ...opacityOperators(page, opacity),
+        rectangle(0, 0, width, height),
+        PDFOperator.of(PDFOperatorNames.ClipNonZero),
+        PDFOperator.of(PDFOperatorNames.EndPath),
+        PDFOperator.of(PDFOperatorNames.ShadingFill, [shading]),
+        popGraphicsState(),
+      );
+      break;
+    }
+
+    case 'pattern': {
+      const pattern = addPageResource(page, 'Pattern', 'P', createTilingPattern(page, backgroundFill, height));
+      page.pushOperators(
+        pushGraphicsState(),
+        ...opacityOperators(page, opacity),
+        PDFOperator.of(PDFOperatorNames.NonStrokingColorspace, [PDFName.of('Pattern')]),
+        PDFOperator.of(PDFOperatorNames.NonStrokingColorN, [pattern]),
+        rectangle(0, 0, width, height),
+        fill(),
+        popGraphicsState(),
+      );
+      break;
+    }
+  }
+}
+
+// Two-colour axial shading along the same line a CSS gradient would use. The
+// line is computed in top-left coordinates and flipped into PDF space.
+function createAxialShading(page: PDFPage, gradient: Extract<BackgroundFill, { type: 'linear-gradient' }>, width: number, height: number): PDFRef {
+  const context = page.doc.context;
+  const from = hexToRgb(gradient.from);
+  const to = hexToRgb(gradient.to);
+  const line = linearGradientLine(gradient.angle, width, height);
+
+  const interpolation = context.obj({
+    FunctionType: 2,
+    Domain: [0, 1],
+    C0: [from.r, from.g, from.b],
+    C1: [to.r, to.g, to.b],
+    N: 1,
+  });
+
+  return context.register(context.obj({
+    ShadingType: 2,
+    ColorSpace: 'DeviceRGB',
+    Coords: [line.x1, height - line.y1, line.x2, height - line.y2],
+    Function: interpolation,
+    Extend: [true, true],
+  }));
+}
+
+// Coloured tiling pattern. Its matrix flips pattern space so tiles start at the
+// top-left corner of the page and shapes keep their top-left tile coordinates.
+function createTilingPattern(page: PDFPage, pattern: Extract<BackgroundFill, { type: 'pattern' }>, pageHeight: number): PDFRef {
+  const context = page.doc.context;
+  const { tileSize } = pattern;
+  const background = hexToRgb(pattern.background);
+
+  const operators = [
+    setFillingRgbColor(background.r, background.g, background.b),
+    rectangle(0, 0, tileSize, tileSize),
+    fill(),
+    ...pattern.shapes.flatMap(shapeOperators),
+  ];
+
+  return context.register(context.contentStream(operators, {
+    Type: 'Pattern',
+    PatternType: 1,
+    PaintType: 1,
+    TilingType: 1,
+    BBox: [0, 0, tileSize, tileSize],
+    XStep: tileSize,
+    YStep: tileSize,
+    Matrix: [1, 0, 0, -1, 0, pageHeight],
+    Resources: {},
+  }));
+}
+
+function shapeOperators(shape: PatternShape): PDFOperator[] {
+  const { r, g, b } = hexToRgb(shape.color);
+
+  switch (shape.type) {
+    case 'circle':
+      return drawEllipse({
+        x: shape.cx,
+        y: shape.cy,
+        xScale: shape.r,
+        yScale: shape.r,
+        borderColor: undefined,
+        borderWidth: 0,
+        color: rgb(r, g, b),
+      });
+
+    case 'polygon': {
+      const [first, ...rest] = shape.points;
+      return [
+        setFillingRgbColor(r, g, b),
+        moveTo(first[0], first[1]),
+        ...rest.map(([x, y]) => lineTo(x, y)),
+        closePath(),
+        fill(),
+      ];
+    }
+  }
+}
+
+function opacityOperators(page: PDFPage, opacity: number): PDFOperator[] {
+  if (opacity >= 1) {
+    return [];
+  }
+
+  const context = page.doc.context;
+  const extGState = context.register(context.obj({ Type: 'ExtGState', ca: opacity, CA: opacity }));
+  return [setGraphicsState(page.node.newExtGState('GS', extGState))];
+}
+
+// pdf-lib only manages fonts, XObjects and graphics states on a page, so
+// shadings and patterns are added to the resource dictionary by hand
+function addPageResource(page: PDFPage, category: 'Shading' | 'Pattern', tag: string, ref: PDFRef): PDFName {
+  const { Resources } = page.node.normalizedEntries();
+  let dict = Resources.lookupMaybe(PDFName.of(category), PDFDict);
+  if (!dict) {
+    dict = page.doc.context.obj({});
+    Resources.set(PDFName.of(category), dict);
+  }
+
+  const key = dict.uniqueKey(tag);
+  dict.set(key, ref);
+  return key;
+}
@@ -0,0 +1,135 @@
+// Cover background styles offered in the editor. Each style is described as
+// vector data so the editor swatches (SVG) and the PDF renderer draw exactly
+// the same thing from the same definition.
+
+// Pattern shapes are placed in tile coordinates with the origin at the top left
+export type PatternShape =
+  | { type: 'circle'; cx: number; cy: number; r: number; color: string }
+  | { type: 'polygon'; points: [number, number][]; color: string };
+
+export type BackgroundFill =
+  | { type: 'solid'; color: string }
+  // angle follows CSS linear-gradient: 0 points up, 90 points right
+  | { type: 'linear-gradient'; angle: number; from: string; to: string }
+  // Tiles repeat from the top-left corner of the page, sized in PDF points
+  | { type: 'pattern'; tileSize: number; background: string; shapes: PatternShape[] };
+
+export interface BackgroundStyleOption {
+  value: string;
+  label: string;
+  // No fill means the template's own background is left as designed
+  fill?: BackgroundFill;
+}
+
+export const backgroundStyleOptions: BackgroundStyleOption[] = [
+  { value: 'none', label: 'Template Background' },
+  { value: 'gradient1', label: 'Blue to Purple Gradient', fill: { type: 'linear-gradient', angle: 135, from: '#60A5FA', to: '#A855F7' } },
+  { value: 'solid', label: 'Solid White', fill: { type: 'solid', color: '#FFFFFF' } },
+  {
+    value: 'pattern1',
+    label: 'Geometric Pattern',
+    fill: {
+      type: 'pattern',
+      tileSize: 40,
+      background: '#EEF2FF',
+      shapes: [
+        { type: 'polygon', points: [[4, 34], [20, 6], [36, 34]], color: '#C7D2FE' },
+        { type: 'polygon', points: [[16, 38], [20, 31], [24, 38]], color: '#A5B4FC' },
+      ],
+    },
+  },
+  { value: 'gradient2', label: 'Green to Blue Gradient', fill: { type: 'linear-gradient', angle: 135, from: '#4ADE80', to: '#3B82F6' } },
+  { value: 'gradient3', label: 'Yellow to Orange Gradient', fill: { type: 'linear-gradient', angle: 135, from: '#FACC15', to: '#F97316' } },
+  {
+    value: 'pattern2',
+    label: 'Abstract Elements',
+    fill: {
+      type: 'pattern',
+      tileSize: 60,
+      background: '#FDF2F8',
+      shapes: [
+        { type: 'circle', cx: 16, cy: 16, r: 10, color: '#F9A8D4' },
+        { type: 'circle', cx: 44, cy: 42, r: 7, color: '#C4B5FD' },
+        { type: 'circle', cx: 48, cy: 12, r: 3, color: '#FBCFE8' },
+      ],
+    },
+  },
+];
+
+export function getBackgroundFill(backgroundStyle?: string): BackgroundFill | undefined {
+  return backgroundStyleOptions.find(option => option.value === backgroundStyle)?.fill;
+}
+
+// The editor's opacity slider runs from 0 to 100; missing values are fully opaque
+export function normalizeOpacity(backgroundOpacity?: number): number {
+  if (typeof backgroundOpacity !== 'number' || Number.isNaN(backgroundOpacity)) {
+    return 1;
+  }
+  return Math.min(Math.max(backgroundOpacity / 100, 0), 1);
+}
+
+// End points of a CSS-style gradient line across a width x height box, in
+// top-left origin coordinates. The line runs through the centre and is long
+// enough for the corners to take the first and last colours.
+export function linearGradientLine(angle: number, width: number, height: number) {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+
+  return {
+    x1: width / 2 - dx * half,
+    y1: height / 2 - dy * half,
+    x2: width / 2 + dx * half,
+    y2: height / 2 + dy * half,
+  };
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function shapeToSvg(shape: PatternShape) {
+  switch (shape.type) {
+    case 'circle':
+      return `<circle cx="${shape.cx}" cy="${shape.cy}" r="${shape.r}" fill="${shape.color}"/>`;
+    case 'polygon':
+      return `<polygon points="${shape.points.map(point => point.join(',')).join(' ')}" fill="${shape.color}"/>`;
+  }
+}
+
+// Render a background as a standalone SVG image of the given size
+export function backgroundToSvg(fill: BackgroundFill, width: number, height: number, opacity = 1): string {
+  let defs = '';
+  let paint: string;
+
+  switch (fill.type) {
+    case 'solid':
+      paint = fill.color;
+      break;
+
+    case 'linear-gradient': {
+      const line = linearGradientLine(fill.angle, width, height);
+      defs = `<linearGradient id="bg" gradientUnits="userSpaceOnUse" x1="${round(line.x1)}" y1="${round(line.y1)}" x2="${round(line.x2)}" y2="${round(line.y2)}">`
+        + `<stop offset="0" stop-color="${fill.from}"/><stop offset="1" stop-color="${fill.to}"/></linearGradient>`;
+      paint = 'url(#bg)';
+      break;
+    }
+
+    case 'pattern':
+      defs = `<pattern id="bg" patternUnits="userSpaceOnUse" width="${fill.tileSize}" height="${fill.tileSize}">`
+        + `<rect width="${fill.tileSize}" height="${fill.tileSize}" fill="${fill.background}"/>`
+        + fill.shapes.map(shapeToSvg).join('')
+        + '</pattern>';
+      paint = 'url(#bg)';
+      break;
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + (defs ? `<defs>${defs}</defs>` : '')
+    + `<rect width="${width}" height="${height}" fill="${paint}" fill-opacity="${opacity}"/></svg>`;
+}
+
+export function backgroundToDataUrl(fill: BackgroundFill, width: number, height: number, opacity = 1): string {
+  return `data:image/svg+xml,${encodeURIComponent(backgroundToSvg(fill, width, height, opacity))}`;
+}
@@ -0,0 +1,190 @@
+import { PDFDocument, type PDFPage } from "pdf-lib";
+import type { Template } from "./schema";
+import { resolvePageSize, type PageDimensions } from "./pageSizes";
+import type { ImagePlacement, LayoutBox } from "./templateLayout";
+import { drawBackCoverLayout, drawTemplateLayout, getBackCoverLayout, getTemplateLayout } from "./layoutRenderer";
+import { standardFonts, type FontProvider } from "./fontEmbedding";
+import { embedLayoutImages, type ImageLoader } from "./imageRenderer";
+
+// Cover rendering shared by the server's download endpoints and the editor's
+// live preview in the browser. Nothing in here touches Express, the
+// filesystem or the DOM, so covers render from bytes in, bytes out anywhere.
+
+// Bump whenever a change to rendering alters the PDFs produced, so renders
+// cached by an earlier version of the renderer are not served
+export const RENDERER_VERSION = 2;
+
+// How the cover is combined with the original pages:
+//   replace        - the cover takes the place of the first page
+//   prepend        - the cover is added in front of every original page
+//   replace-range  - the cover takes the place of the first `replacePageCount` pages
+export type CoverMode = 'replace' | 'prepend' | 'replace-range';
+
+export interface CoverCustomizations {
+  title?: string;
+  subtitle?: string;
+  presenter?: string;
+  date?: string;
+  colorScheme?: string;
+  fontFamily?: string;
+  titleSize?: string;
+  titleAlignment?: 'left' | 'center' | 'right';
+  backgroundStyle?: string;
+  backgroundOpacity?: number;
+  // One of the page size options, or "auto" to match the original document
+  pageSize?: string;
+  coverMode?: CoverMode;
+  replacePageCount?: number;
+  // Append a closing page generated from the template after the original pages
+  backCover?: boolean;
+  closingText?: string;
+  // Uploaded images placed in the template's image slots, keyed by slot name
+  images?: Record<string, ImagePlacement>;
+  // Boxes elements were moved to in the editor's canvas, keyed by element key
+  elementBoxes?: Record<string, LayoutBox>;
+  templateId?: number;
+}
+
+export interface RenderCoverOptions {
+  // Document to add the cover page to; a new one is created when omitted
+  pdfDoc?: PDFDocument;
+  // Size of the original document's first page, used when pageSize is "auto"
+  sourcePageSize?: PageDimensions;
+  // Embeds the chosen font family; covers use Helvetica without one
+  fontRegistry?: FontProvider;
+  // Reads uploaded images for image slots; slots stay empty without one
+  loadImage?: ImageLoader;
+  // Whether new documents get producer and creation/modification date metadata
+  updateMetadata?: boolean;
+}
+
+export interface RenderProgressOptions {
+  // Called with the share of the work done, from 0 to 1, as each step finishes
+  onProgress?: (fraction: number) => void;
+}
+
+// Draw a template cover as a new page at the end of the document
+export async function renderCover(
+  template: Template,
+  customizations: CoverCustomizations,
+  options: RenderCoverOptions = {},
+): Promise<PDFPage> {
+  const pdfDoc = options.pdfDoc ?? await PDFDocument.create({ updateMetadata: options.updateMetadata ?? true });
+  const page = pdfDoc.addPage(resolvePageSize(customizations.pageSize, options.sourcePageSize));
+
+  // Embed the chosen font family
+  const fonts = await (options.fontRegistry ?? standardFonts).embedFamily(pdfDoc, customizations.fontFamily);
+
+  // Draw the template's layout document with the user's content
+  const layout = getTemplateLayout(template);
+  const images = await embedLayoutImages(pdfDoc, layout, customizations, options.loadImage);
+  drawTemplateLayout(page, layout, { fonts, customizations, images });
+
+  return page;
+}
+
+// Draw the template's closing page as a new page at the end of the document
+export async function renderBackCover(
+  template: Template,
+  customizations: CoverCustomizations,
+  options: RenderCoverOptions = {},
+): Promise<PDFPage> {
+  const pdfDoc = options.pdfDoc ?? await PDFDocument.create({ updateMetadata: options.updateMetadata ?? true });
+  const page = pdfDoc.addPage(resolvePageSize(customizations.pageSize, options.sourcePageSize));
+
+  const fonts = await (options.fontRegistry ?? standardFonts).embedFamily(pdfDoc, customizations.fontFamily);
+  const layout = getTemplateLayout(template);
+  const images = await embedLayoutImages(pdfDoc, getBackCoverLayout(layout), customizations, options.loadImage);
+  drawBackCoverLayout(page, layout, { fonts, customizations, images });
+
+  return page;
+}
+
+// Render the generated pages on their own: the cover, followed by the back
+// cover when one was requested
+export async function renderCoverPdf(
+  template: Template,
+  customizations: CoverCustomizations,
+  { onProgress, ...options }: Omit<RenderCoverOptions, 'pdfDoc'> & RenderProgressOptions = {},
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create({ updateMetadata: options.updateMetadata ?? true });
+  await renderCover(template, customizations, { ...options, pdfDoc });
+  onProgress?.(0.6);
+  if (customizations.backCover) {
+    await renderBackCover(template, customizations, { ...options, pdfDoc });
+    onProgress?.(0.8);
+  }
+  const bytes = await pdfDoc.save();
+  onProgress?.(1);
+  return bytes;
+}
+
+// Indices of the original pages kept after the cover for the chosen cover mode
+export function getRetainedPageIndices(pageCount: number, customizations: CoverCustomizations): number[] {
+  let dropCount: number;
+  switch (customizations.coverMode) {
+    case 'prepend':
+      dropCount = 0;
+      break;
+    case 'replace-range':
+      dropCount = Math.min(Math.max(Math.floor(customizations.replacePageCount ?? 1), 1), pageCount);
+      break;
+    case 'replace':
+    default:
+      dropCount = Math.min(1, pageCount);
+  }
+
+  return Array.from({ length: pageCount - dropCount }, (_, i) => i + dropCount);
+}
+
+// Visible size of a document's first page as displayed, so rotated pages
+// report their landscape or portrait orientation correctly
+export function getFirstPageSize(pdfDoc: PDFDocument): PageDimensions | undefined {
+  if (pdfDoc.getPageCount() === 0) {
+    return undefined;
+  }
+
+  const page = pdfDoc.getPage(0);
+  const { width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  return rotation === 90 || rotation === 270 ? [height, width] : [width, height];
+}
+
+export async function readFirstPageSize(pdfBytes: Uint8Array): Promise<PageDimensions | undefined> {
+  return getFirstPageSize(await PDFDocument.load(pdfBytes));
+}
+
+// Render the full document: the cover, the original pages kept by the cover
+// mode, then the back cover when one was requested
+export async function renderModifiedPdf(
+  originalPdfBytes: Uint8Array,
+  template: Template,
+  customizations: CoverCustomizations,
+  { onProgress, ...options }: Omit<RenderCoverOptions, 'pdfDoc' | 'sourcePageSize'> & RenderProgressOptions = {},
+): Promise<Uint8Array> {
+  const originalPdfDoc = await PDFDocument.load(originalPdfBytes);
+  const pdfDoc = await PDFDocument.create({ updateMetadata: options.updateMetadata ?? true });
+  onProgress?.(0.2);
+
+  const renderOptions = { ...options, pdfDoc, sourcePageSize: getFirstPageSize(originalPdfDoc) };
+  await renderCover(template, customizations, renderOptions);
+  onProgress?.(0.4);
+
+  const pageIndices = getRetainedPageIndices(originalPdfDoc.getPageCount(), customizations);
+  if (pageIndices.length > 0) {
+    const copiedPages = await pdfDoc.copyPages(originalPdfDoc, pageIndices);
+    copiedPages.forEach(page => {
+      pdfDoc.addPage(page);
+    });
+  }
+  onProgress?.(0.7);
+
+  if (customizations.backCover) {
+    await renderBackCover(template, customizations, renderOptions);
+    onProgress?.(0.8);
+  }
+
+  const bytes = await pdfDoc.save();
+  onProgress?.(1);
+  return bytes;
+}
@@ -0,0 +1,42 @@
+// Field-by-field comparison of two sets of cover customizations, used to show
+// what changed between document versions. Nested settings such as image
+// placements and element boxes are compared leaf by leaf and reported with
+// dotted paths ("images.logo.scale").
+
+export interface CustomizationChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function flatten(value: unknown, prefix: string, into: Map<string, unknown>) {
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, into);
+    }
+  } else if (prefix) {
+    into.set(prefix, value);
+  }
+  return into;
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Changes from `before` to `after`, sorted by path. Fields missing on one side
+// are reported with an undefined value on that side.
+export function diffCustomizations(before: unknown, after: unknown): CustomizationChange[] {
+  const beforeFields = flatten(before, '', new Map());
+  const afterFields = flatten(after, '', new Map());
+  const paths = new Set(Array.from(beforeFields.keys()).concat(Array.from(afterFields.keys())));
+
+  return Array.from(paths)
+    .sort()
+    .filter(path => !isSameValue(beforeFields.get(path), afterFields.get(path)))
+    .map(path => ({ path, before: beforeFields.get(path), after: afterFields.get(path) }));
+}
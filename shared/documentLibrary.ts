@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+// Query parameters of the document library, parsed by the server from the
+// query string and built by the library page.
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+export const documentSorts = ['recent', 'name'] as const;
+export type DocumentSort = typeof documentSorts[number];
+
+// Dates are whole days, as YYYY-MM-DD; both ends of the range are included
+const dayString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+// The first moment of a YYYY-MM-DD day, and of the day after it
+export function startOfDay(day: string): Date {
+  return new Date(`${day}T00:00:00`);
+}
+
+export function nextDay(day: string): Date {
+  const date = startOfDay(day);
+  date.setDate(date.getDate() + 1);
+  return date;
+}
+
+export const documentListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  // Matches the file name or the cover title
+  search: z.string().trim().max(200).optional(),
+  templateId: z.coerce.number().int().optional(),
+  modified: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  from: dayString.optional(),
+  to: dayString.optional(),
+  // Lists deleted documents, which can be restored until they're purged
+  deleted: z.enum(['true', 'false']).transform(value => value === 'true').default('false'),
+  sort: z.enum(documentSorts).default('recent'),
+});
+export type DocumentListQuery = z.infer<typeof documentListQuerySchema>;
+
+export interface DocumentListPage<T> {
+  documents: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Bulk actions name documents by their public IDs
+export const bulkDocumentsSchema = z.object({
+  documentIds: z.array(z.string()).min(1).max(MAX_PAGE_SIZE),
+});
+export type BulkDocumentsRequest = z.infer<typeof bulkDocumentsSchema>;
+
+// Deleted documents can be restored, unless they were deleted permanently
+export const bulkDeleteSchema = bulkDocumentsSchema.extend({
+  permanent: z.boolean().default(false),
+});
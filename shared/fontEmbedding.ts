@@ -0,0 +1,79 @@
+import fontkit from "@pdf-lib/fontkit";
+import { StandardFonts, type PDFDocument, type PDFFont } from "pdf-lib";
+
+// Embedding of the user's font family into cover documents. Where the font
+// files come from is up to the caller: the server reads its bundled fonts from
+// disk and the browser fetches the same files from the API.
+
+export interface EmbeddedFontFamily {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+export interface FontFile {
+  postscriptName: string;
+  bytes: Uint8Array;
+}
+
+// Finds the face of a family closest to the requested weight
+export type FontFileLoader = (family: string, weight: number) => Promise<FontFile | undefined>;
+
+// Anything that can embed a font family into a document
+export interface FontProvider {
+  embedFamily(pdfDoc: PDFDocument, family?: string): Promise<EmbeddedFontFamily>;
+}
+
+export class FontEmbedder implements FontProvider {
+  // Families already embedded per document, so every page shares one copy
+  private embedded = new WeakMap<PDFDocument, Map<string, Promise<EmbeddedFontFamily>>>();
+
+  constructor(private loadFontFile: FontFileLoader) {}
+
+  // Embed a family's regular and bold faces into a document, subset to the
+  // glyphs actually drawn. Unknown families fall back to Helvetica.
+  embedFamily(pdfDoc: PDFDocument, family?: string): Promise<EmbeddedFontFamily> {
+    let families = this.embedded.get(pdfDoc);
+    if (!families) {
+      families = new Map();
+      this.embedded.set(pdfDoc, families);
+    }
+
+    const key = family || '';
+    let fonts = families.get(key);
+    if (!fonts) {
+      fonts = this.embedFaces(pdfDoc, family);
+      families.set(key, fonts);
+    }
+    return fonts;
+  }
+
+  private async embedFaces(pdfDoc: PDFDocument, family?: string): Promise<EmbeddedFontFamily> {
+    const regularFile = family ? await this.loadFontFile(family, 400) : undefined;
+    const boldFile = family ? await this.loadFontFile(family, 700) : undefined;
+
+    if (!regularFile || !boldFile) {
+      return {
+        regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+        bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+      };
+    }
+
+    pdfDoc.registerFontkit(fontkit);
+    const regular = await embedFace(pdfDoc, regularFile);
+    const bold = boldFile.postscriptName === regularFile.postscriptName ? regular : await embedFace(pdfDoc, boldFile);
+
+    return { regular, bold };
+  }
+}
+
+// Name the font after its PostScript name rather than pdf-lib's random
+// suffix so the same cover always produces the same bytes
+function embedFace(pdfDoc: PDFDocument, file: FontFile): Promise<PDFFont> {
+  return pdfDoc.embedFont(file.bytes, {
+    subset: true,
+    customName: file.postscriptName,
+  });
+}
+
+// Helvetica only, for rendering without any font files
+export const standardFonts: FontProvider = new FontEmbedder(async () => undefined);
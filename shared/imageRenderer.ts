@@ -0,0 +1,159 @@
+import {
+  PDFOperator,
+  PDFOperatorNames,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  type PDFDocument,
+  type PDFImage,
+  type PDFPage,
+} from "pdf-lib";
+import { imagePlacementSchema, type ImagePlacement, type LayoutImageSlot, type PageLayout } from "./templateLayout";
+import type { ResolvedBox } from "./layoutGeometry";
+import { drawSvg, getSvgSize, parseSvg, type SvgDrawing } from "./svgConverter";
+
+// Image types accepted for cover images
+export const imageMimeTypes = ['image/png', 'image/jpeg', 'image/svg+xml'];
+
+export interface ImageAsset {
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+// Looks up an uploaded image by asset ID; supplied by the caller so the
+// renderer stays independent of storage
+export type ImageLoader = (assetId: ImagePlacement['assetId']) => Promise<ImageAsset | undefined>;
+
+export type EmbeddedImage =
+  | { kind: 'raster'; image: PDFImage; width: number; height: number }
+  | { kind: 'vector'; drawing: SvgDrawing; width: number; height: number };
+
+export interface PlacedImage {
+  image: EmbeddedImage;
+  placement: ImagePlacement;
+}
+
+// Images already embedded per document, so a logo used on both covers is stored once
+const embeddedImages = new WeakMap<PDFDocument, Map<ImagePlacement['assetId'], Promise<EmbeddedImage | undefined>>>();
+
+// Check that uploaded bytes really are the image type they claim to be
+export function isValidImage(asset: ImageAsset): boolean {
+  const bytes = asset.bytes;
+  switch (asset.mimeType) {
+    case 'image/png':
+      return bytes.length > 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+    case 'image/jpeg':
+      return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+    case 'image/svg+xml':
+      try {
+        parseSvg(new TextDecoder().decode(bytes));
+        return true;
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+async function embedImage(pdfDoc: PDFDocument, asset: ImageAsset): Promise<EmbeddedImage> {
+  switch (asset.mimeType) {
+    case 'image/png':
+    case 'image/jpeg': {
+      const image = asset.mimeType === 'image/png' ? await pdfDoc.embedPng(asset.bytes) : await pdfDoc.embedJpg(asset.bytes);
+      return { kind: 'raster', image, width: image.width, height: image.height };
+    }
+    case 'image/svg+xml': {
+      const drawing = parseSvg(new TextDecoder().decode(asset.bytes));
+      return { kind: 'vector', drawing, ...getSvgSize(drawing) };
+    }
+    default:
+      throw new Error(`Unsupported image type: ${asset.mimeType}`);
+  }
+}
+
+function loadEmbeddedImage(pdfDoc: PDFDocument, assetId: ImagePlacement['assetId'], loadImage: ImageLoader): Promise<EmbeddedImage | undefined> {
+  let images = embeddedImages.get(pdfDoc);
+  if (!images) {
+    images = new Map();
+    embeddedImages.set(pdfDoc, images);
+  }
+
+  let image = images.get(assetId);
+  if (!image) {
+    image = loadImage(assetId)
+      .then(asset => asset && embedImage(pdfDoc, asset))
+      .catch(error => {
+        // A broken image leaves its slot empty rather than failing the cover
+        console.warn(`Failed to embed image asset ${assetId}:`, error);
+        return undefined;
+      });
+    images.set(assetId, image);
+  }
+  return image;
+}
+
+// Load and embed the images the user placed in a page layout's image slots,
+// keyed by slot name
+export async function embedLayoutImages(
+  pdfDoc: PDFDocument,
+  layout: PageLayout,
+  customizations: any,
+  loadImage?: ImageLoader,
+): Promise<Map<string, PlacedImage>> {
+  const placed = new Map<string, PlacedImage>();
+  if (!loadImage) {
+    return placed;
+  }
+
+  const slots = layout.elements.filter((element): element is LayoutImageSlot => element.type === 'image');
+  for (const slot of slots) {
+    const parsed = imagePlacementSchema.safeParse(customizations.images?.[slot.slot]);
+    if (!parsed.success) {
+      continue;
+    }
+
+    const image = await loadEmbeddedImage(pdfDoc, parsed.data.assetId, loadImage);
+    if (image) {
+      placed.set(slot.slot, { image, placement: parsed.data });
+    }
+  }
+  return placed;
+}
+
+// Where an image lands for a slot box and the user's placement: fitted to the
+// box, scaled, then moved by the offsets (percentages of the box size)
+export function resolveImageRect(box: ResolvedBox, image: { width: number; height: number }, placement: ImagePlacement, fit: LayoutImageSlot['fit'] = 'contain'): ResolvedBox {
+  const fitScale = fit === 'cover'
+    ? Math.max(box.width / image.width, box.height / image.height)
+    : Math.min(box.width / image.width, box.height / image.height);
+  const scale = fitScale * (placement.scale ?? 1);
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  const centerX = box.x + box.width / 2 + ((placement.offsetX ?? 0) / 100) * box.width;
+  // PDF y grows upwards, so a positive (downward) offset lowers the image
+  const centerY = box.y + box.height / 2 - ((placement.offsetY ?? 0) / 100) * box.height;
+
+  return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+}
+
+// Draw an image into its slot, clipped to the slot box
+export function drawImageSlot(page: PDFPage, slot: LayoutImageSlot, box: ResolvedBox, placed: PlacedImage) {
+  const rect = resolveImageRect(box, placed.image, placed.placement, slot.fit);
+
+  page.pushOperators(
+    pushGraphicsState(),
+    rectangle(box.x, box.y, box.width, box.height),
+    PDFOperator.of(PDFOperatorNames.ClipNonZero),
+    PDFOperator.of(PDFOperatorNames.EndPath),
+  );
+
+  if (placed.image.kind === 'raster') {
+    page.drawImage(placed.image.image, rect);
+  } else {
+    drawSvg(page, placed.image.drawing, rect);
+  }
+
+  page.pushOperators(popGraphicsState());
+}
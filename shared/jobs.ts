@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+// Background jobs render PDFs outside the request that asked for them. The
+// client follows a job through GET /api/jobs/:id or the job socket.
+
+// cover-preview renders just the cover; modified-pdf the whole download
+export const jobKinds = ['cover-preview', 'modified-pdf'] as const;
+export type JobKind = typeof jobKinds[number];
+
+export const jobStatuses = ['queued', 'running', 'completed', 'failed'] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export const createJobSchema = z.object({
+  kind: z.enum(jobKinds),
+});
+
+// A job as the API reports it
+export interface PublicJob {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  // Percent done, from 0 to 100
+  progress: number;
+  error: string | null;
+  // Where the rendered PDF can be fetched once the job has completed
+  resultUrl: string | null;
+}
+
+export const isFinished = (job: Pick<PublicJob, 'status'>) => job.status === 'completed' || job.status === 'failed';
+
+// The job socket is served on this path
+export const JOB_SOCKET_PATH = '/api/jobs/ws';
+
+// Sent by the client to follow a job
+export const jobSocketRequestSchema = z.object({
+  type: z.literal('subscribe'),
+  jobId: z.string(),
+});
+export type JobSocketRequest = z.infer<typeof jobSocketRequestSchema>;
+
+// Sent by the server when a followed job changes, and once on subscribing
+export type JobSocketMessage =
+  | { type: 'job'; job: PublicJob }
+  | { type: 'error'; jobId: string; message: string };
@@ -0,0 +1,112 @@
+import type { LayoutBox, LayoutElement, LayoutLength, TemplateLayout } from "./templateLayout";
+import { US_LETTER } from "./pageSizes";
+
+// Page geometry for layout documents, shared by the PDF renderer and the
+// editor's canvas so both place elements identically.
+
+// A box in PDF coordinates: points, bottom-left origin
+export interface ResolvedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Factors applied to point values when the page differs from the layout's reference size
+export interface LayoutScale {
+  x: number;
+  y: number;
+  text: number;
+}
+
+// Scale a layout's reference page onto the actual page. Text scales by the
+// geometric mean of both axes so it keeps roughly the same share of the page.
+export function getLayoutScale(layout: TemplateLayout, pageWidth: number, pageHeight: number): LayoutScale {
+  const [referenceWidth, referenceHeight] = layout.size ?? US_LETTER;
+  const x = pageWidth / referenceWidth;
+  const y = pageHeight / referenceHeight;
+  return { x, y, text: Math.sqrt(x * y) };
+}
+
+function resolveLength(length: LayoutLength | undefined, dimension: number, scale: number): number | undefined {
+  if (length === undefined) {
+    return undefined;
+  }
+  if (typeof length === 'number') {
+    return length * scale;
+  }
+  return (parseFloat(length) / 100) * dimension;
+}
+
+// Resolve one axis of a box from its start inset, end inset and size
+function resolveSpan(start: number | undefined, end: number | undefined, size: number | undefined, dimension: number) {
+  if (size === undefined) {
+    const from = start ?? 0;
+    return { offset: from, size: dimension - from - (end ?? 0) };
+  }
+  if (start === undefined && end !== undefined) {
+    return { offset: dimension - end - size, size };
+  }
+  return { offset: start ?? 0, size };
+}
+
+// Convert a top-left origin layout box into pdf-lib's bottom-left coordinates
+export function resolveBox(box: LayoutBox, pageWidth: number, pageHeight: number, scale: LayoutScale = { x: 1, y: 1, text: 1 }): ResolvedBox {
+  const horizontal = resolveSpan(
+    resolveLength(box.left, pageWidth, scale.x),
+    resolveLength(box.right, pageWidth, scale.x),
+    resolveLength(box.width, pageWidth, scale.x),
+    pageWidth,
+  );
+  const vertical = resolveSpan(
+    resolveLength(box.top, pageHeight, scale.y),
+    resolveLength(box.bottom, pageHeight, scale.y),
+    resolveLength(box.height, pageHeight, scale.y),
+    pageHeight,
+  );
+
+  return {
+    x: horizontal.offset,
+    y: pageHeight - vertical.offset - vertical.size,
+    width: horizontal.size,
+    height: vertical.size,
+  };
+}
+
+// Point size of "titleSize" text for the user's title size choice
+export function getTitleSize(titleSize?: string) {
+  switch (titleSize) {
+    case 'Small':
+      return 24;
+    case 'Medium':
+      return 32;
+    case 'Large':
+      return 40;
+    case 'Extra Large':
+      return 48;
+    default:
+      return 32;
+  }
+}
+
+// Identifies a layout element in the customizations' `elementBoxes` map.
+// Slots are named after the content they hold; shapes by their position in the layout.
+export function getElementKey(element: LayoutElement, index: number): string {
+  return element.type === 'rect' ? `shape${index}` : element.slot;
+}
+
+function toPercent(fraction: number): string {
+  return `${Math.round(fraction * 100000) / 1000}%`;
+}
+
+// A box given as fractions of the page (top-left origin) in layout terms.
+// Percentages resolve against the actual page, so a box placed on the canvas
+// lands in the same place whatever size the cover is rendered at.
+export function fractionBoxToLayoutBox(box: { x: number; y: number; width: number; height: number }): LayoutBox {
+  return {
+    left: toPercent(box.x),
+    top: toPercent(box.y),
+    width: toPercent(box.width),
+    height: toPercent(box.height),
+  };
+}
@@ -0,0 +1,177 @@
+import { rgb, type PDFPage } from "pdf-lib";
+import {
+  layoutBoxSchema,
+  templateLayoutSchema,
+  type LayoutBox,
+  type LayoutColor,
+  type LayoutTextSlot,
+  type PageLayout,
+  type TemplateLayout,
+} from "./templateLayout";
+import type { Template } from "./schema";
+import { getElementKey, getLayoutScale, getTitleSize, resolveBox, type LayoutScale, type ResolvedBox } from "./layoutGeometry";
+import { defaultBackCoverLayout, defaultTemplateLayout } from "./templateLayouts";
+import type { EmbeddedFontFamily } from "./fontEmbedding";
+import { layoutText } from "./textLayout";
+import { drawBackgroundStyle } from "./backgroundRenderer";
+import { drawImageSlot, type PlacedImage } from "./imageRenderer";
+
+export interface LayoutContext {
+  fonts: EmbeddedFontFamily;
+  customizations: any;
+  // Images embedded for the page's image slots, keyed by slot name
+  images?: Map<string, PlacedImage>;
+}
+
+// Read a template's layout document, falling back to the default design when
+// the template predates layouts or its stored layout doesn't validate.
+export function getTemplateLayout(template: Template): TemplateLayout {
+  if (!template.layout) {
+    return defaultTemplateLayout;
+  }
+
+  // Handle both string and object formats of the JSON column
+  const raw = typeof template.layout === 'string' ? JSON.parse(template.layout) : template.layout;
+  const parsed = templateLayoutSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn(`Invalid layout for template ${template.id}, using default:`, parsed.error.message);
+    return defaultTemplateLayout;
+  }
+
+  return parsed.data;
+}
+
+interface PageLayoutOptions {
+  // Paint the user's background style over the template background
+  backgroundStyle?: boolean;
+  // Boxes the user moved elements to in the editor's canvas, by element key
+  elementBoxes?: Record<string, LayoutBox>;
+}
+
+// Draw a template's cover onto a page. The user's background style is painted
+// over the template background and beneath the template's elements, and
+// elements the user repositioned are drawn in their new boxes.
+export function drawTemplateLayout(page: PDFPage, layout: TemplateLayout, context: LayoutContext) {
+  drawPageLayout(page, layout, getLayoutScale(layout, page.getWidth(), page.getHeight()), context, {
+    backgroundStyle: true,
+    elementBoxes: getElementBoxes(context.customizations),
+  });
+}
+
+// The canvas positions saved in the customizations, ignoring malformed entries
+export function getElementBoxes(customizations: any): Record<string, LayoutBox> {
+  const boxes: Record<string, LayoutBox> = {};
+  for (const [key, box] of Object.entries(customizations.elementBoxes ?? {})) {
+    const parsed = layoutBoxSchema.safeParse(box);
+    if (parsed.success) {
+      boxes[key] = parsed.data;
+    }
+  }
+  return boxes;
+}
+
+// A template's closing page, or the default one when the template has none
+export function getBackCoverLayout(layout: TemplateLayout): PageLayout {
+  return layout.backCover ?? defaultBackCoverLayout;
+}
+
+// Draw a template's closing page
+export function drawBackCoverLayout(page: PDFPage, layout: TemplateLayout, context: LayoutContext) {
+  drawPageLayout(page, getBackCoverLayout(layout), getLayoutScale(layout, page.getWidth(), page.getHeight()), context);
+}
+
+// Draw a page layout: background first, then each element in document order
+// so later elements paint over earlier ones.
+function drawPageLayout(page: PDFPage, layout: PageLayout, scale: LayoutScale, context: LayoutContext, options: PageLayoutOptions = {}) {
+  const { width, height } = page.getSize();
+  const colorScheme = context.customizations.colorScheme || '#0077B5';
+
+  if (layout.background) {
+    page.drawRectangle({
+      x: 0,
+      y: 0,
+      width,
+      height,
+      color: resolveColor(layout.background, colorScheme),
+    });
+  }
+
+  if (options.backgroundStyle) {
+    drawBackgroundStyle(page, context.customizations.backgroundStyle, context.customizations.backgroundOpacity);
+  }
+
+  layout.elements.forEach((element, index) => {
+    const box = resolveBox(options.elementBoxes?.[getElementKey(element, index)] ?? element.box, width, height, scale);
+
+    switch (element.type) {
+      case 'rect':
+        page.drawRectangle({
+          ...box,
+          color: resolveColor(element.color, colorScheme),
+        });
+        break;
+
+      case 'text':
+        drawTextSlot(page, element, box, scale, context, colorScheme);
+        break;
+
+      case 'image': {
+        // Slots without an image are left empty
+        const placed = context.images?.get(element.slot);
+        if (placed) {
+          drawImageSlot(page, element, box, placed);
+        }
+        break;
+      }
+    }
+  });
+}
+
+function drawTextSlot(page: PDFPage, element: LayoutTextSlot, box: ResolvedBox, scale: LayoutScale, context: LayoutContext, colorScheme: string) {
+  const value = context.customizations[element.slot] || element.placeholder;
+  if (!value) {
+    return;
+  }
+
+  const text = element.format ? element.format.replace('{value}', () => value) : value;
+  const size = (element.size === 'titleSize' ? getTitleSize(context.customizations.titleSize) : element.size) * scale.text;
+  const align = element.align === 'titleAlignment' ? context.customizations.titleAlignment : element.align;
+  const font = element.weight === 'bold' ? context.fonts.bold : context.fonts.regular;
+  const color = resolveColor(element.color, colorScheme);
+
+  const layout = layoutText(text, font, box, {
+    size,
+    minSize: element.minSize && element.minSize * scale.text,
+    lineHeight: element.lineHeight,
+    wrap: element.wrap,
+    align,
+    valign: element.valign,
+  });
+
+  for (const line of layout.lines) {
+    page.drawText(line.text, { x: line.x, y: line.y, font, size: layout.size, color });
+  }
+}
+
+export function resolveColor(color: LayoutColor, colorScheme: string) {
+  if (typeof color === 'string') {
+    const { r, g, b } = hexToRgb(color);
+    return rgb(r, g, b);
+  }
+
+  const { r, g, b } = hexToRgb(colorScheme);
+  const shade = color.shade ?? 1;
+  return rgb(r * shade, g * shade, b * shade);
+}
+
+// Helper function to convert hex color to RGB
+export function hexToRgb(hex: string) {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result
+    ? {
+        r: parseInt(result[1], 16) / 255,
+        g: parseInt(result[2], 16) / 255,
+        b: parseInt(result[3], 16) / 255,
+      }
+    : { r: 0, g: 0, b: 0 };
+}
@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+// What can go into a LinkedIn document post, checked by the share dialog as
+// the user writes and again by the server before posting or scheduling.
+
+// LinkedIn's limit on post text
+export const MAX_COMMENTARY_LENGTH = 3000;
+
+export const postVisibilities = ['PUBLIC', 'CONNECTIONS'] as const;
+export type PostVisibility = typeof postVisibilities[number];
+
+// A member or company tagged in a post
+export const shareMentionSchema = z.object({
+  name: z.string().min(1),
+  urn: z.string().regex(/^urn:li:(person|organization):\S+$/, 'Enter a LinkedIn member or organization URN'),
+});
+export type ShareMention = z.infer<typeof shareMentionSchema>;
+
+// Stored and sent without the leading #
+export const hashtagSchema = z.string().regex(/^[^\s#]+$/, 'Hashtags cannot contain spaces or #');
+
+// Posts with `scheduledAt` are queued for the share scheduler instead of
+// posted right away
+export const sharePostSchema = z.object({
+  commentary: z.string().max(MAX_COMMENTARY_LENGTH).default(''),
+  hashtags: z.array(hashtagSchema).max(30).default([]),
+  mentions: z.array(shareMentionSchema).max(50).default([]),
+  visibility: z.enum(postVisibilities).default('PUBLIC'),
+  scheduledAt: z.string().datetime({ offset: true }).optional(),
+});
+export type SharePostRequest = z.input<typeof sharePostSchema>;
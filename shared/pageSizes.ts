@@ -0,0 +1,31 @@
+// Cover page sizes offered in the editor, in PDF points (1/72 inch).
+// "auto" matches the size and orientation of the original document's first page.
+
+export type PageDimensions = [width: number, height: number];
+
+export interface PageSizeOption {
+  value: string;
+  label: string;
+  dimensions?: PageDimensions;
+}
+
+export const US_LETTER: PageDimensions = [612, 792];
+
+export const pageSizeOptions: PageSizeOption[] = [
+  { value: 'auto', label: 'Match original' },
+  { value: 'letter', label: 'US Letter', dimensions: US_LETTER },
+  { value: 'a4', label: 'A4', dimensions: [595.28, 841.89] },
+  { value: 'slide-16-9', label: 'Slide 16:9', dimensions: [960, 540] },
+  { value: 'slide-4-3', label: 'Slide 4:3', dimensions: [720, 540] },
+  { value: 'linkedin-carousel', label: 'LinkedIn carousel (1080 × 1350)', dimensions: [1080, 1350] },
+];
+
+// Pick the cover dimensions for a page size choice, using the source page for
+// "auto" and falling back to US Letter when there is nothing to match.
+export function resolvePageSize(pageSize: string | undefined, sourcePageSize?: PageDimensions): PageDimensions {
+  const option = pageSizeOptions.find(option => option.value === pageSize);
+  if (option?.dimensions) {
+    return option.dimensions;
+  }
+  return sourcePageSize ?? US_LETTER;
+}
@@ -1,26 +1,109 @@
-import { mysqlTable, text, int, boolean, timestamp, json } from "drizzle-orm/mysql-core";
+import { mysqlTable, text, int, boolean, timestamp, json, varchar, index } from "drizzle-orm/mysql-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { templateLayoutSchema, type TemplateLayout } from "./templateLayout";
+import { shareMentionSchema, type ShareMention } from "./linkedinPost";
+import { jobKinds, type JobKind, type JobStatus } from "./jobs";
 
 export const users = mysqlTable("users", {
   id: int("id").primaryKey().autoincrement(),
   username: text("username").notNull().unique(),
   password: text("password"),
   email: text("email"),
+  emailVerified: boolean("email_verified").default(false).notNull(),
   linkedinId: text("linkedin_id").unique(),
+  // LinkedIn OAuth access token, and what's needed to renew it
   linkedinToken: text("linkedin_token"),
+  linkedinRefreshToken: text("linkedin_refresh_token"),
+  linkedinTokenExpiresAt: timestamp("linkedin_token_expires_at"),
   profilePicture: text("profile_picture"),
   fullName: text("full_name"),
 });
 
+// Single-use links emailed to users to verify their address or reset their
+// password. Only a SHA-256 hash of each token is stored.
+export const authTokens = mysqlTable("auth_tokens", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").references(() => users.id).notNull(),
+  // verify-email or reset-password
+  purpose: text("purpose").notNull(),
+  tokenHash: text("token_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Express sessions, so signed-in users stay signed in across restarts. The
+// session is stored as JSON.
+export const sessions = mysqlTable("sessions", {
+  sid: varchar("sid", { length: 128 }).primaryKey(),
+  data: text("data").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => ({
+  expiresAtIdx: index("sessions_expires_at_idx").on(table.expiresAt),
+}));
+
 export const documents = mysqlTable("documents", {
   id: int("id").primaryKey().autoincrement(),
+  // Random ID used in URLs, so documents can't be found by counting up
+  publicId: varchar("public_id", { length: 32 }).notNull().unique(),
   userId: int("user_id").references(() => users.id),
+  // Hash of the token the uploader's browser keeps for an anonymous document,
+  // which lets them claim it once they sign in
+  claimTokenHash: text("claim_token_hash"),
   originalName: text("original_name").notNull(),
   fileName: text("file_name").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   isModified: boolean("is_modified").default(false),
   customizations: json("customizations"),
+  // URN of the LinkedIn post the document was last shared in
+  linkedinPostUrn: text("linkedin_post_urn"),
+  // Set when the owner deletes the document. It can be restored until the
+  // retention period runs out and the janitor removes it for good.
+  deletedAt: timestamp("deleted_at"),
+});
+
+// Every set of customizations applied to a document, so earlier covers can be
+// compared and restored. `userId` is the author, or null for anonymous edits.
+export const documentVersions = mysqlTable("document_versions", {
+  id: int("id").primaryKey().autoincrement(),
+  documentId: int("document_id").references(() => documents.id).notNull(),
+  userId: int("user_id").references(() => users.id),
+  customizations: json("customizations").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// LinkedIn posts scheduled to be shared later. The scheduler in the server
+// process publishes pending shares once `scheduledAt` has passed.
+export const scheduledShares = mysqlTable("scheduled_shares", {
+  id: int("id").primaryKey().autoincrement(),
+  documentId: int("document_id").references(() => documents.id).notNull(),
+  userId: int("user_id").references(() => users.id).notNull(),
+  commentary: text("commentary").notNull(),
+  hashtags: json("hashtags").$type<string[]>().notNull(),
+  mentions: json("mentions").$type<ShareMention[]>().notNull(),
+  visibility: text("visibility").notNull(),
+  scheduledAt: timestamp("scheduled_at").notNull(),
+  // pending, posting, posted, failed or cancelled
+  status: text("status").notNull().default("pending"),
+  postUrn: text("post_urn"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  // When the scheduler started posting it
+  postingAt: timestamp("posting_at"),
+});
+
+// Images uploaded for use on covers (logos, headshots, hero images)
+export const assets = mysqlTable("assets", {
+  id: int("id").primaryKey().autoincrement(),
+  // Images are addressed by this random ID, like documents
+  publicId: varchar("public_id", { length: 32 }).notNull().unique(),
+  userId: int("user_id").references(() => users.id),
+  originalName: text("original_name").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: int("size").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const templates = mysqlTable("templates", {
@@ -28,36 +111,139 @@ export const templates = mysqlTable("templates", {
   name: text("name").notNull(),
   imagePath: text("image_path").notNull(),
   category: text("category").notNull(),
+  layout: json("layout").$type<TemplateLayout>(),
+  // Goes up with every change to the template, so renders cached with an
+  // older version aren't used
+  version: int("version").notNull().default(1),
 });
 
+// PDFs rendered in the background for a document. Jobs are kept after they
+// finish, so their status and result can still be looked up.
+export const jobs = mysqlTable("jobs", {
+  id: int("id").primaryKey().autoincrement(),
+  // Jobs are looked up by this random ID, like documents
+  publicId: varchar("public_id", { length: 32 }).notNull().unique(),
+  documentId: int("document_id").references(() => documents.id).notNull(),
+  kind: text("kind").$type<JobKind>().notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  progress: int("progress").notNull().default(0),
+  // The customizations to render, including the template ID
+  customizations: json("customizations").notNull(),
+  // File store key of the rendered PDF, once completed
+  resultKey: text("result_key"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  // The app instance running the job, which keeps heartbeatAt current while
+  // it has the job in hand. Jobs whose heartbeat stops are taken over.
+  workerId: varchar("worker_id", { length: 32 }),
+  heartbeatAt: timestamp("heartbeat_at").defaultNow().notNull(),
+}, (table) => ({
+  documentIdx: index("jobs_document_id_idx").on(table.documentId),
+}));
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   email: true,
   linkedinId: true,
   linkedinToken: true,
+  linkedinRefreshToken: true,
+  linkedinTokenExpiresAt: true,
   profilePicture: true,
   fullName: true,
 });
 
+export const insertAuthTokenSchema = createInsertSchema(authTokens).pick({
+  userId: true,
+  purpose: true,
+  tokenHash: true,
+  expiresAt: true,
+});
+
 export const insertDocumentSchema = createInsertSchema(documents).pick({
+  publicId: true,
   userId: true,
+  claimTokenHash: true,
   originalName: true,
   fileName: true,
+  isModified: true,
+  customizations: true,
+});
+
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions).pick({
+  documentId: true,
+  userId: true,
   customizations: true,
 });
 
-export const insertTemplateSchema = createInsertSchema(templates).pick({
+export const insertScheduledShareSchema = createInsertSchema(scheduledShares, {
+  hashtags: z.array(z.string()),
+  mentions: z.array(shareMentionSchema),
+}).pick({
+  documentId: true,
+  userId: true,
+  commentary: true,
+  hashtags: true,
+  mentions: true,
+  visibility: true,
+  scheduledAt: true,
+});
+
+export const insertAssetSchema = createInsertSchema(assets).pick({
+  publicId: true,
+  userId: true,
+  originalName: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+});
+
+export const insertTemplateSchema = createInsertSchema(templates, {
+  layout: templateLayoutSchema,
+}).pick({
   name: true,
   imagePath: true,
   category: true,
+  layout: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  kind: z.enum(jobKinds),
+}).pick({
+  publicId: true,
+  documentId: true,
+  kind: true,
+  customizations: true,
+  workerId: true,
+  heartbeatAt: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+export type AuthToken = typeof authTokens.$inferSelect;
+
+export type Session = typeof sessions.$inferSelect;
+
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
 
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+// A version as listed in the history, with its author's display name
+export type DocumentVersionWithAuthor = DocumentVersion & { authorName: string | null };
+
+export type InsertScheduledShare = z.infer<typeof insertScheduledShareSchema>;
+export type ScheduledShare = typeof scheduledShares.$inferSelect;
+
+export type InsertAsset = z.infer<typeof insertAssetSchema>;
+export type Asset = typeof assets.$inferSelect;
+
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 export type Template = typeof templates.$inferSelect;
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
@@ -0,0 +1,488 @@
+import {
+  concatTransformationMatrix,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  type PDFPage,
+  type RGB,
+} from "pdf-lib";
+
+// Converts SVG images into vector paths that pdf-lib can draw, so uploaded
+// logos stay sharp at any size. The supported subset covers what logo exports
+// typically contain: basic shapes and paths inside nested groups, with
+// transforms, fills, strokes and opacity. Text, embedded images, clip paths,
+// masks and filters are ignored; gradient fills use their first stop colour.
+
+type Matrix = [number, number, number, number, number, number];
+
+export interface SvgShape {
+  // Path data in the SVG's user space
+  d: string;
+  transform: Matrix;
+  fill?: RGB;
+  fillOpacity: number;
+  stroke?: RGB;
+  strokeWidth: number;
+  strokeOpacity: number;
+}
+
+export interface SvgDrawing {
+  // viewBox of the drawing: [minX, minY, width, height]
+  viewBox: [number, number, number, number];
+  shapes: SvgShape[];
+}
+
+interface SvgNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: SvgNode[];
+}
+
+interface InheritedStyle {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+  opacity: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const DEFAULT_SIZE: [number, number] = [300, 150];
+// Elements whose contents are never painted directly
+const NON_RENDERED = new Set(['defs', 'clipPath', 'mask', 'symbol', 'marker', 'pattern', 'linearGradient', 'radialGradient', 'style', 'script', 'title', 'desc', 'metadata', 'text', 'image', 'foreignObject']);
+
+// Numbers each path command takes, per repetition
+const PATH_COMMAND_ARITY: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+const PATH_NUMBER = /[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi;
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#FFFFFF',
+  red: '#FF0000',
+  green: '#008000',
+  blue: '#0000FF',
+  yellow: '#FFFF00',
+  orange: '#FFA500',
+  purple: '#800080',
+  gray: '#808080',
+  grey: '#808080',
+  silver: '#C0C0C0',
+  navy: '#000080',
+  teal: '#008080',
+};
+
+export class SvgParseError extends Error {}
+
+// Parse SVG source into drawable shapes
+export function parseSvg(source: string): SvgDrawing {
+  const root = parseXml(source);
+  if (!root || localName(root.name) !== 'svg') {
+    throw new SvgParseError('Not an SVG document');
+  }
+
+  const ids = new Map<string, SvgNode>();
+  indexIds(root, ids);
+
+  const shapes: SvgShape[] = [];
+  const style: InheritedStyle = { fill: '#000000', stroke: 'none', strokeWidth: 1, fillOpacity: 1, strokeOpacity: 1, opacity: 1 };
+  for (const child of root.children) {
+    collectShapes(child, IDENTITY, applyStyle(style, root.attributes), ids, shapes);
+  }
+
+  return { viewBox: readViewBox(root.attributes), shapes };
+}
+
+// Draw an SVG so that its viewBox fills the given rectangle (in PDF coordinates)
+export function drawSvg(page: PDFPage, drawing: SvgDrawing, rect: { x: number; y: number; width: number; height: number }) {
+  const [minX, minY, width, height] = drawing.viewBox;
+  const scaleX = rect.width / width;
+  const scaleY = rect.height / height;
+  const top = rect.y + rect.height;
+
+  // pdf-lib draws SVG paths flipped around their origin; map that origin to
+  // the top-left corner of the rectangle
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(scaleX, 0, 0, scaleY, rect.x - scaleX * minX, top + scaleY * minY),
+  );
+
+  for (const shape of drawing.shapes) {
+    const [a, b, c, d, e, f] = shape.transform;
+    const transformed = shape.transform !== IDENTITY;
+    if (transformed) {
+      // Conjugate the SVG transform by pdf-lib's y flip
+      page.pushOperators(pushGraphicsState(), concatTransformationMatrix(a, -b, -c, d, e, -f));
+    }
+
+    try {
+      page.drawSvgPath(shape.d, {
+        x: 0,
+        y: 0,
+        ...(shape.fill && { color: shape.fill }),
+        ...(shape.fill && shape.fillOpacity < 1 && { opacity: shape.fillOpacity }),
+        ...(shape.stroke && { borderColor: shape.stroke, borderWidth: shape.strokeWidth }),
+        ...(shape.stroke && shape.strokeOpacity < 1 && { borderOpacity: shape.strokeOpacity }),
+      });
+    } catch (error) {
+      // One shape pdf-lib can't draw shouldn't lose the rest of the image
+      console.warn('Skipped an SVG shape that could not be drawn:', error);
+    }
+
+    if (transformed) {
+      page.pushOperators(popGraphicsState());
+    }
+  }
+
+  page.pushOperators(popGraphicsState());
+}
+
+function collectShapes(node: SvgNode, parentTransform: Matrix, parentStyle: InheritedStyle, ids: Map<string, SvgNode>, shapes: SvgShape[]) {
+  const name = localName(node.name);
+  if (NON_RENDERED.has(name)) {
+    return;
+  }
+
+  const declarations = readDeclarations(node.attributes);
+  if (declarations.display === 'none' || declarations.visibility === 'hidden') {
+    return;
+  }
+
+  const style = applyStyle(parentStyle, node.attributes);
+  const transform = node.attributes.transform
+    ? multiply(parentTransform, parseTransform(node.attributes.transform))
+    : parentTransform;
+
+  if (name === 'g' || name === 'svg' || name === 'a') {
+    for (const child of node.children) {
+      collectShapes(child, transform, style, ids, shapes);
+    }
+    return;
+  }
+
+  const d = shapeToPath(name, node.attributes);
+  if (!d) {
+    return;
+  }
+
+  const fill = resolvePaint(style.fill, ids);
+  const stroke = style.strokeWidth > 0 ? resolvePaint(style.stroke, ids) : undefined;
+  if (!fill && !stroke) {
+    return;
+  }
+
+  shapes.push({
+    d,
+    transform,
+    fill,
+    fillOpacity: style.fillOpacity * style.opacity,
+    stroke,
+    strokeWidth: style.strokeWidth,
+    strokeOpacity: style.strokeOpacity * style.opacity,
+  });
+}
+
+// Presentation attributes and inline style declarations, with the style attribute winning
+function readDeclarations(attributes: Record<string, string>): Record<string, string> {
+  const declarations: Record<string, string> = { ...attributes };
+  for (const declaration of (attributes.style || '').split(';')) {
+    const [property, ...value] = declaration.split(':');
+    if (property && value.length > 0) {
+      declarations[property.trim()] = value.join(':').trim();
+    }
+  }
+  return declarations;
+}
+
+function applyStyle(parent: InheritedStyle, attributes: Record<string, string>): InheritedStyle {
+  const declarations = readDeclarations(attributes);
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = parseFloat(value ?? '');
+    return Number.isFinite(parsed) ? parsed : fallback;
+  };
+
+  return {
+    fill: declarations.fill ?? parent.fill,
+    stroke: declarations.stroke ?? parent.stroke,
+    strokeWidth: number(declarations['stroke-width'], parent.strokeWidth),
+    fillOpacity: number(declarations['fill-opacity'], parent.fillOpacity),
+    strokeOpacity: number(declarations['stroke-opacity'], parent.strokeOpacity),
+    // Group opacity is approximated by multiplying it into each shape
+    opacity: parent.opacity * number(declarations.opacity, 1),
+  };
+}
+
+function resolvePaint(paint: string, ids: Map<string, SvgNode>): RGB | undefined {
+  const value = paint.trim();
+  if (value === 'none' || value === 'transparent') {
+    return undefined;
+  }
+
+  const reference = /^url\(\s*['"]?#([^'")]+)['"]?\s*\)/.exec(value);
+  if (reference) {
+    const firstStop = ids.get(reference[1])?.children.find(child => localName(child.name) === 'stop');
+    const stopColor = firstStop && readDeclarations(firstStop.attributes)['stop-color'];
+    return stopColor ? parseColor(stopColor) : undefined;
+  }
+
+  return parseColor(value);
+}
+
+export function parseColor(value: string): RGB | undefined {
+  const color = NAMED_COLORS[value.toLowerCase()] ?? value;
+
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+    return rgb(
+      parseInt(digits.slice(0, 2), 16) / 255,
+      parseInt(digits.slice(2, 4), 16) / 255,
+      parseInt(digits.slice(4, 6), 16) / 255,
+    );
+  }
+
+  const functional = /^rgba?\(([^)]+)\)$/i.exec(color);
+  if (functional) {
+    const [r, g, b] = functional[1].split(/[\s,]+/).map(part =>
+      part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part) / 255,
+    );
+    if ([r, g, b].every(Number.isFinite)) {
+      return rgb(clamp(r), clamp(g), clamp(b));
+    }
+  }
+
+  // currentColor and anything unrecognised paint black, like an unstyled SVG
+  return rgb(0, 0, 0);
+}
+
+function clamp(value: number) {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+function numbersIn(value: string | undefined): number[] {
+  return (value?.match(/-?(\d+\.?\d*|\.\d+)(e-?\d+)?/gi) ?? []).map(Number);
+}
+
+function length(attributes: Record<string, string>, name: string): number {
+  return parseFloat(attributes[name] ?? '') || 0;
+}
+
+function shapeToPath(name: string, attributes: Record<string, string>): string | undefined {
+  switch (name) {
+    case 'path': {
+      const d = attributes.d?.trim();
+      if (d && !isValidPathData(d)) {
+        throw new SvgParseError('Invalid path data');
+      }
+      return d || undefined;
+    }
+
+    case 'rect': {
+      const x = length(attributes, 'x');
+      const y = length(attributes, 'y');
+      const width = length(attributes, 'width');
+      const height = length(attributes, 'height');
+      if (width <= 0 || height <= 0) {
+        return undefined;
+      }
+
+      const rx = Math.min(length(attributes, 'rx') || length(attributes, 'ry'), width / 2);
+      const ry = Math.min(length(attributes, 'ry') || rx, height / 2);
+      if (rx <= 0 || ry <= 0) {
+        return `M${x} ${y}H${x + width}V${y + height}H${x}Z`;
+      }
+      return `M${x + rx} ${y}H${x + width - rx}A${rx} ${ry} 0 0 1 ${x + width} ${y + ry}`
+        + `V${y + height - ry}A${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height}`
+        + `H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + height - ry}`
+        + `V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`;
+    }
+
+    case 'circle':
+    case 'ellipse': {
+      const cx = length(attributes, 'cx');
+      const cy = length(attributes, 'cy');
+      const rx = name === 'circle' ? length(attributes, 'r') : length(attributes, 'rx');
+      const ry = name === 'circle' ? rx : length(attributes, 'ry');
+      if (rx <= 0 || ry <= 0) {
+        return undefined;
+      }
+      return `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`;
+    }
+
+    case 'line':
+      return `M${length(attributes, 'x1')} ${length(attributes, 'y1')}L${length(attributes, 'x2')} ${length(attributes, 'y2')}`;
+
+    case 'polygon':
+    case 'polyline': {
+      const points = numbersIn(attributes.points);
+      if (points.length < 4) {
+        return undefined;
+      }
+      const pairs = [];
+      for (let i = 0; i + 1 < points.length; i += 2) {
+        pairs.push(`${points[i]} ${points[i + 1]}`);
+      }
+      return `M${pairs.join('L')}${name === 'polygon' ? 'Z' : ''}`;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+// Whether path data is a moveto followed by commands that each have a whole
+// number of argument sets; pdf-lib throws while drawing anything else
+function isValidPathData(d: string): boolean {
+  // "e" only appears in exponents, so it never starts a command
+  const segments = d.trim().match(/[a-df-z][^a-df-z]*/gi);
+  if (!segments || !/^m/i.test(d.trim())) {
+    return false;
+  }
+
+  return segments.every(segment => {
+    const arity = PATH_COMMAND_ARITY[segment[0].toLowerCase()];
+    if (arity === undefined) {
+      return false;
+    }
+    const args = segment.slice(1);
+    const numbers = args.match(PATH_NUMBER) || [];
+    if (args.replace(PATH_NUMBER, '').replace(/[\s,]/g, '') !== '') {
+      return false;
+    }
+    return arity === 0 ? numbers.length === 0 : numbers.length > 0 && numbers.length % arity === 0;
+  });
+}
+
+function readViewBox(attributes: Record<string, string>): [number, number, number, number] {
+  const viewBox = numbersIn(attributes.viewBox);
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return [viewBox[0], viewBox[1], viewBox[2], viewBox[3]];
+  }
+
+  // Relative units can't be resolved without a viewport, so they use the default size
+  const width = /%$/.test(attributes.width ?? '') ? 0 : parseFloat(attributes.width ?? '');
+  const height = /%$/.test(attributes.height ?? '') ? 0 : parseFloat(attributes.height ?? '');
+  return [0, 0, width > 0 ? width : DEFAULT_SIZE[0], height > 0 ? height : DEFAULT_SIZE[1]];
+}
+
+// Natural size of the drawing, used to keep its aspect ratio when placed
+export function getSvgSize(drawing: SvgDrawing): { width: number; height: number } {
+  return { width: drawing.viewBox[2], height: drawing.viewBox[3] };
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+export function parseTransform(value: string): Matrix {
+  let matrix = IDENTITY;
+  for (const [, name, args] of Array.from(value.matchAll(/(\w+)\s*\(([^)]*)\)/g))) {
+    const [a = 0, b, c, d, e, f] = numbersIn(args);
+    let next: Matrix;
+    switch (name) {
+      case 'matrix':
+        next = [a, b ?? 0, c ?? 0, d ?? 0, e ?? 0, f ?? 0];
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, a, b ?? 0];
+        break;
+      case 'scale':
+        next = [a, 0, 0, b ?? a, 0, 0];
+        break;
+      case 'rotate': {
+        const radians = (a * Math.PI) / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        const [cx, cy] = [b ?? 0, c ?? 0];
+        next = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan((a * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan((a * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+      default:
+        continue;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+}
+
+function localName(name: string) {
+  return name.includes(':') ? name.slice(name.indexOf(':') + 1) : name;
+}
+
+function indexIds(node: SvgNode, ids: Map<string, SvgNode>) {
+  if (node.attributes.id) {
+    ids.set(node.attributes.id, node);
+  }
+  node.children.forEach(child => indexIds(child, ids));
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+// Minimal XML reader: elements and attributes only. Text, comments,
+// processing instructions, CDATA and doctypes are skipped; entities are never
+// expanded beyond the predefined ones.
+function parseXml(source: string): SvgNode | undefined {
+  const stack: SvgNode[] = [];
+  let root: SvgNode | undefined;
+  const tokens = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+  for (const match of Array.from(source.matchAll(tokens))) {
+    const [, closing, opening, attributeSource, selfClosing] = match;
+    if (closing) {
+      if (stack.length === 0 || stack[stack.length - 1].name !== closing) {
+        throw new SvgParseError(`Unexpected closing tag </${closing}>`);
+      }
+      stack.pop();
+      continue;
+    }
+    if (!opening) {
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted] of Array.from(attributeSource.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g))) {
+      attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+    }
+
+    const node: SvgNode = { name: opening, attributes, children: [] };
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node);
+    } else if (!root) {
+      root = node;
+    } else {
+      throw new SvgParseError('Multiple root elements');
+    }
+
+    if (!selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new SvgParseError(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  return root;
+}
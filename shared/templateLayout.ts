@@ -0,0 +1,124 @@
+import { z } from "zod";
+
+// Declarative cover layouts stored in the `layout` column of `templates`.
+//
+// Coordinates use a top-left origin, the way designers think about a page.
+// A length is either a number of points or a percentage string ("70%") of the
+// page dimension it applies to. Point values are designed against the layout's
+// reference page size and scaled proportionally when the cover is rendered at
+// another size.
+
+export const layoutLengthSchema = z.union([
+  z.number(),
+  z.string().regex(/^-?\d+(\.\d+)?%$/, "Percentages must look like '70%'"),
+]);
+
+// A box is positioned CSS-style: any two of left/right/width on the x axis and
+// any two of top/bottom/height on the y axis.
+export const layoutBoxSchema = z.object({
+  left: layoutLengthSchema.optional(),
+  right: layoutLengthSchema.optional(),
+  width: layoutLengthSchema.optional(),
+  top: layoutLengthSchema.optional(),
+  bottom: layoutLengthSchema.optional(),
+  height: layoutLengthSchema.optional(),
+});
+
+// Colors are either fixed hex values or bound to the user's `colorScheme`,
+// optionally darkened by a shade multiplier (1 = the scheme color itself).
+export const layoutColorSchema = z.union([
+  z.string().regex(/^#?[0-9a-f]{6}$/i, "Colors must be 6-digit hex values"),
+  z.object({
+    bind: z.literal("colorScheme"),
+    shade: z.number().min(0).max(1).optional(),
+  }),
+]);
+
+export const layoutShapeSchema = z.object({
+  type: z.literal("rect"),
+  box: layoutBoxSchema,
+  color: layoutColorSchema,
+});
+
+// Text slots are filled from the customization field of the same name
+export const textSlotNames = ["title", "subtitle", "presenter", "date", "closingText"] as const;
+
+export const layoutTextSlotSchema = z.object({
+  type: z.literal("text"),
+  slot: z.enum(textSlotNames),
+  box: layoutBoxSchema,
+  // Fixed point size, or "titleSize" to follow the user's title size choice
+  size: z.union([z.number().positive(), z.literal("titleSize")]),
+  color: layoutColorSchema,
+  // Face of the user's chosen font family to draw with
+  weight: z.enum(["regular", "bold"]).optional(),
+  // Fixed alignment, or "titleAlignment" to follow the user's choice
+  align: z.enum(["left", "center", "right", "titleAlignment"]).optional(),
+  // Where the block of lines sits inside the box (defaults to top)
+  valign: z.enum(["top", "middle", "bottom"]).optional(),
+  // Wrap onto multiple lines at the box width (defaults to true)
+  wrap: z.boolean().optional(),
+  // Shrink text that overflows the box down to this size before truncating it
+  minSize: z.number().positive().optional(),
+  // Line spacing as a multiple of the font size (defaults to 1.2)
+  lineHeight: z.number().positive().optional(),
+  // Text used when the user left the slot empty; the slot is skipped without one
+  placeholder: z.string().optional(),
+  // Format string where {value} is replaced with the slot text
+  format: z.string().optional(),
+});
+
+// Image slots are filled from the customizations' `images` map, keyed by slot
+// name, with an uploaded image asset and the user's placement within the box.
+export const layoutImageSlotSchema = z.object({
+  type: z.literal("image"),
+  slot: z.string().regex(/^[a-zA-Z][a-zA-Z0-9]*$/, "Image slot names must be alphanumeric"),
+  // Name shown for the slot in the editor
+  label: z.string().optional(),
+  box: layoutBoxSchema,
+  // How the image is sized to the box before the user's scale is applied
+  // (defaults to contain); anything outside the box is clipped
+  fit: z.enum(["contain", "cover"]).optional(),
+});
+
+export const layoutElementSchema = z.discriminatedUnion("type", [
+  layoutShapeSchema,
+  layoutTextSlotSchema,
+  layoutImageSlotSchema,
+]);
+
+export const pageLayoutSchema = z.object({
+  background: layoutColorSchema.optional(),
+  elements: z.array(layoutElementSchema),
+});
+
+export const templateLayoutSchema = pageLayoutSchema.extend({
+  version: z.literal(1),
+  // Page size the point values were designed for (defaults to US Letter)
+  size: z.tuple([z.number().positive(), z.number().positive()]).optional(),
+  // Closing page appended after the document when the user asks for one
+  backCover: pageLayoutSchema.optional(),
+});
+
+// An uploaded image placed in an image slot, named by the image's public ID,
+// or by its row ID in placements saved before images had public IDs. Offsets
+// move the image by a percentage of the slot's width and height; positive
+// values move it right and down.
+export const imagePlacementSchema = z.object({
+  assetId: z.union([z.string().regex(/^[0-9a-f]{32}$/), z.number().int().positive()]),
+  scale: z.number().positive().max(4).optional(),
+  offsetX: z.number().min(-100).max(100).optional(),
+  offsetY: z.number().min(-100).max(100).optional(),
+});
+
+export type LayoutLength = z.infer<typeof layoutLengthSchema>;
+export type LayoutBox = z.infer<typeof layoutBoxSchema>;
+export type LayoutColor = z.infer<typeof layoutColorSchema>;
+export type LayoutShape = z.infer<typeof layoutShapeSchema>;
+export type LayoutTextSlot = z.infer<typeof layoutTextSlotSchema>;
+export type LayoutImageSlot = z.infer<typeof layoutImageSlotSchema>;
+export type ImagePlacement = z.infer<typeof imagePlacementSchema>;
+export type LayoutElement = z.infer<typeof layoutElementSchema>;
+export type PageLayout = z.infer<typeof pageLayoutSchema>;
+export type TemplateLayout = z.infer<typeof templateLayoutSchema>;
+export type TextSlotName = typeof textSlotNames[number];
@@ -0,0 +1,196 @@
+import type { LayoutColor, LayoutElement, PageLayout, TemplateLayout } from "./templateLayout";
+
+// Layout documents for the built-in templates, keyed by template name.
+// Positions are in points on a US Letter page (612 x 792) and scale with the
+// cover's actual page size.
+
+const TEXT_COLOR = '#4D4D4D';
+
+// Title, subtitle, presenter and date slots shared by every built-in template
+const standardTextSlots: LayoutElement[] = [
+  {
+    type: 'text',
+    slot: 'title',
+    box: { left: 50, right: 50, top: 125, height: 80 },
+    size: 'titleSize',
+    color: '#000000',
+    weight: 'bold',
+    align: 'titleAlignment',
+    // Long titles grow upwards from just above the subtitle
+    valign: 'bottom',
+    minSize: 18,
+    placeholder: 'Presentation Title',
+  },
+  {
+    type: 'text',
+    slot: 'subtitle',
+    box: { left: 50, right: 50, top: 212, height: 46 },
+    size: 18,
+    color: TEXT_COLOR,
+    align: 'titleAlignment',
+    minSize: 12,
+    placeholder: 'Subtitle',
+  },
+  {
+    type: 'text',
+    slot: 'presenter',
+    box: { left: 50, right: 50, bottom: 95, height: 25 },
+    size: 14,
+    color: TEXT_COLOR,
+    align: 'left',
+    valign: 'bottom',
+    wrap: false,
+    minSize: 10,
+    format: 'Presented by: {value}',
+  },
+  {
+    type: 'text',
+    slot: 'date',
+    box: { left: 50, right: 50, bottom: 65, height: 25 },
+    size: 14,
+    color: TEXT_COLOR,
+    align: 'left',
+    valign: 'bottom',
+    wrap: false,
+    minSize: 10,
+  },
+];
+
+// Logo and hero image slots shared by every built-in template. They sit under
+// the text so a busy image never hides the title.
+const standardImageSlots: LayoutElement[] = [
+  {
+    type: 'image',
+    slot: 'hero',
+    label: 'Hero image',
+    box: { left: 50, right: 50, top: 280, bottom: 140 },
+  },
+  {
+    type: 'image',
+    slot: 'logo',
+    label: 'Logo',
+    box: { right: 50, bottom: 60, width: 140, height: 60 },
+  },
+];
+
+function withStandardSlots(shapes: LayoutElement[], backCover?: PageLayout): TemplateLayout {
+  return {
+    version: 1,
+    background: '#FFFFFF',
+    elements: [...shapes, ...standardImageSlots, ...standardTextSlots],
+    ...(backCover && { backCover }),
+  };
+}
+
+// Closing message centered on a light page, for templates with little color
+function lightBackCover(shapes: LayoutElement[], textColor: LayoutColor): PageLayout {
+  return {
+    background: '#FFFFFF',
+    elements: [
+      ...shapes,
+      {
+        type: 'text',
+        slot: 'closingText',
+        box: { left: 50, right: 50, top: 300, height: 120 },
+        size: 40,
+        color: textColor,
+        weight: 'bold',
+        align: 'center',
+        valign: 'bottom',
+        minSize: 20,
+        placeholder: 'Thank you',
+      },
+      {
+        type: 'text',
+        slot: 'presenter',
+        box: { left: 50, right: 50, top: 440, height: 30 },
+        size: 18,
+        color: TEXT_COLOR,
+        align: 'center',
+        wrap: false,
+        minSize: 12,
+      },
+    ],
+  };
+}
+
+// Used for templates that don't carry a layout of their own
+export const defaultTemplateLayout = withStandardSlots([
+  // Default header bar
+  { type: 'rect', box: { left: 0, right: 0, top: 0, height: 100 }, color: { bind: 'colorScheme' } },
+]);
+
+// Closing page for templates that don't design their own: a full bleed in the
+// scheme color with the closing message and presenter centered on it
+export const defaultBackCoverLayout: PageLayout = {
+  background: { bind: 'colorScheme' },
+  elements: [
+    {
+      type: 'text',
+      slot: 'closingText',
+      box: { left: 50, right: 50, top: 300, height: 120 },
+      size: 40,
+      color: '#FFFFFF',
+      weight: 'bold',
+      align: 'center',
+      valign: 'bottom',
+      minSize: 20,
+      placeholder: 'Thank you',
+    },
+    {
+      type: 'text',
+      slot: 'presenter',
+      box: { left: 50, right: 50, top: 440, height: 30 },
+      size: 18,
+      color: '#FFFFFF',
+      align: 'center',
+      wrap: false,
+      minSize: 12,
+    },
+  ],
+};
+
+export const templateLayouts: Record<string, TemplateLayout> = {
+  'Corporate Blue': withStandardSlots([
+    // Full-width header
+    { type: 'rect', box: { left: 0, right: 0, top: 0, height: 120 }, color: { bind: 'colorScheme' } },
+  ]),
+
+  'Modern Gradient': withStandardSlots(
+    // Gradient effect simulation with stacked bands of increasing intensity
+    Array.from({ length: 10 }, (_, i): LayoutElement => ({
+      type: 'rect',
+      box: { left: 0, right: 0, top: 130 - i * 10, height: 20 },
+      color: { bind: 'colorScheme', shade: Math.round((0.1 + i * 0.05) * 100) / 100 },
+    })),
+  ),
+
+  'Minimal White': withStandardSlots([
+    // Thin top border only
+    { type: 'rect', box: { left: 0, right: 0, top: 0, height: 5 }, color: { bind: 'colorScheme' } },
+  ], lightBackCover([
+    { type: 'rect', box: { left: 0, right: 0, top: 0, height: 5 }, color: { bind: 'colorScheme' } },
+  ], { bind: 'colorScheme' })),
+
+  'Bold Red': withStandardSlots([
+    // Large side accent bar
+    { type: 'rect', box: { left: 0, top: 0, bottom: 0, width: 20 }, color: { bind: 'colorScheme' } },
+    // Top accent bar
+    { type: 'rect', box: { left: 20, right: 0, top: 0, height: 80 }, color: { bind: 'colorScheme', shade: 0.8 } },
+  ]),
+
+  'Elegant Black': withStandardSlots([
+    // Sophisticated accent line
+    { type: 'rect', box: { left: 40, right: 40, top: 98, height: 2 }, color: { bind: 'colorScheme' } },
+  ], lightBackCover([
+    // Accent line between the closing message and the presenter
+    { type: 'rect', box: { left: 206, right: 206, top: 428, height: 2 }, color: { bind: 'colorScheme' } },
+  ], '#000000')),
+
+  'Tech Blue': withStandardSlots([
+    // Tech-style geometric elements
+    { type: 'rect', box: { left: 0, top: 0, width: '70%', height: 60 }, color: { bind: 'colorScheme' } },
+    // Accent rectangle
+    { type: 'rect', box: { left: '75%', top: 20, width: '25%', height: 20 }, color: { bind: 'colorScheme', shade: 0.7 } },
+  ]),
+};
@@ -0,0 +1,181 @@
+import type { PDFFont } from "pdf-lib";
+
+export type HorizontalAlign = 'left' | 'center' | 'right';
+export type VerticalAlign = 'top' | 'middle' | 'bottom';
+
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLayoutOptions {
+  size: number;
+  // Shrink the text down to this size before giving up on fitting the box
+  minSize?: number;
+  // Line spacing as a multiple of the font size
+  lineHeight?: number;
+  wrap?: boolean;
+  align?: HorizontalAlign;
+  valign?: VerticalAlign;
+}
+
+export interface PositionedLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+}
+
+export interface TextLayout {
+  size: number;
+  lines: PositionedLine[];
+}
+
+const ELLIPSIS = '…';
+const SHRINK_STEP = 1;
+
+// Lay out text inside a box: wrap it to the box width, shrink it until it fits
+// the box height, and position each line's baseline according to the alignment.
+export function layoutText(text: string, font: PDFFont, box: TextBox, options: TextLayoutOptions): TextLayout {
+  const { lineHeight = 1.2, wrap = true, align = 'left', valign = 'top' } = options;
+  const minSize = Math.min(options.minSize ?? options.size, options.size);
+
+  let size = options.size;
+  let lines = breakLines(text, font, size, box.width, wrap);
+  while (size > minSize && !fits(lines, font, size, box, lineHeight)) {
+    size = Math.max(minSize, size - SHRINK_STEP);
+    lines = breakLines(text, font, size, box.width, wrap);
+  }
+
+  if (!fits(lines, font, size, box, lineHeight)) {
+    lines = truncateToFit(lines, font, size, box, lineHeight);
+  }
+
+  const ascent = font.heightAtSize(size, { descender: false });
+  const blockHeight = blockHeightOf(lines.length, font, size, lineHeight);
+
+  let top: number;
+  switch (valign) {
+    case 'bottom':
+      top = box.y + blockHeight;
+      break;
+    case 'middle':
+      top = box.y + (box.height + blockHeight) / 2;
+      break;
+    case 'top':
+    default:
+      top = box.y + box.height;
+  }
+
+  const firstBaseline = top - ascent;
+  return {
+    size,
+    lines: lines.map((line, index) => {
+      const width = font.widthOfTextAtSize(line, size);
+      return {
+        text: line,
+        x: alignLine(align, box, width),
+        y: firstBaseline - index * size * lineHeight,
+        width,
+      };
+    }),
+  };
+}
+
+// Height of a block of lines from the top of the first line's ascenders to
+// the bottom of the last line's descenders
+function blockHeightOf(lineCount: number, font: PDFFont, size: number, lineHeight: number) {
+  if (lineCount === 0) {
+    return 0;
+  }
+  return font.heightAtSize(size) + (lineCount - 1) * size * lineHeight;
+}
+
+function fits(lines: string[], font: PDFFont, size: number, box: TextBox, lineHeight: number) {
+  const widest = Math.max(0, ...lines.map(line => font.widthOfTextAtSize(line, size)));
+  return widest <= box.width && blockHeightOf(lines.length, font, size, lineHeight) <= box.height;
+}
+
+function alignLine(align: HorizontalAlign, box: TextBox, lineWidth: number) {
+  switch (align) {
+    case 'right':
+      return box.x + box.width - lineWidth;
+    case 'center':
+      return box.x + (box.width - lineWidth) / 2;
+    case 'left':
+    default:
+      return box.x;
+  }
+}
+
+// Greedy word wrap. Words wider than the box are broken between characters.
+export function breakLines(text: string, font: PDFFont, size: number, maxWidth: number, wrap = true): string[] {
+  const paragraphs = text.split(/\r?\n/);
+  if (!wrap) {
+    return paragraphs;
+  }
+
+  const lines: string[] = [];
+  for (const paragraph of paragraphs) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+
+      if (current) {
+        lines.push(current);
+      }
+
+      if (font.widthOfTextAtSize(word, size) <= maxWidth) {
+        current = word;
+      } else {
+        const pieces = breakWord(word, font, size, maxWidth);
+        lines.push(...pieces.slice(0, -1));
+        current = pieces[pieces.length - 1];
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+function breakWord(word: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const char of Array.from(word)) {
+    if (current && font.widthOfTextAtSize(current + char, size) > maxWidth) {
+      pieces.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  pieces.push(current);
+  return pieces;
+}
+
+// Keep as many lines as fit the box, ending the last one with an ellipsis
+function truncateToFit(lines: string[], font: PDFFont, size: number, box: TextBox, lineHeight: number): string[] {
+  const kept = lines.slice();
+  while (kept.length > 1 && blockHeightOf(kept.length, font, size, lineHeight) > box.height) {
+    kept.pop();
+  }
+
+  const last = kept.length - 1;
+  let line = kept[last];
+  if (kept.length === lines.length && font.widthOfTextAtSize(line, size) <= box.width) {
+    return kept;
+  }
+
+  while (line && font.widthOfTextAtSize(line + ELLIPSIS, size) > box.width) {
+    line = line.slice(0, -1);
+  }
+  kept[last] = line.trimEnd() + ELLIPSIS;
+  return kept;
+}